@@ -0,0 +1,134 @@
+/**
+ * TokenDetector 缓存测试
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PublicClient } from "viem";
+import { TokenDetector } from "./cache";
+import { detectTokenPaymentMethods, getTokenInfo } from "./detector";
+import { getImplementationAddress } from "./proxy";
+import { MemoryDetectorCacheStore } from "./stores";
+import type { DetectorCacheSnapshot } from "./stores";
+
+vi.mock("./detector", () => ({
+  detectTokenPaymentMethods: vi.fn(),
+  getTokenInfo: vi.fn(),
+}));
+
+vi.mock("./proxy", () => ({
+  getImplementationAddress: vi.fn(),
+}));
+
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const CACHE_KEY = `84532:${TOKEN.toLowerCase()}`;
+const IMPLEMENTATION = "0x1111111111111111111111111111111111111111";
+const UPGRADED = "0x2222222222222222222222222222222222222222";
+
+const client = { getChainId: vi.fn(async () => 84532) } as unknown as PublicClient;
+
+describe("TokenDetector cache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    vi.mocked(detectTokenPaymentMethods).mockResolvedValue({
+      address: TOKEN,
+      supportedMethods: ["eip3009"],
+      details: {
+        hasEIP3009: true,
+        hasReceiveWithAuthorization: true,
+        hasPermit: false,
+        hasPermit2Approval: false,
+      },
+    });
+    vi.mocked(getTokenInfo).mockResolvedValue({ name: "USD Coin", version: "2" });
+    vi.mocked(getImplementationAddress).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should detect again after the cache ttl", async () => {
+    const detector = new TokenDetector(client, { logger: null, cacheTtl: 60_000 });
+
+    await detector.detect(TOKEN);
+    vi.setSystemTime(Date.now() + 59_000);
+    await detector.detect(TOKEN);
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 2_000);
+    await detector.detect(TOKEN);
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(2);
+  });
+
+  it("should read entries written by another instance through the cache store", async () => {
+    const cacheStore = new MemoryDetectorCacheStore();
+
+    const result = await new TokenDetector(client, { logger: null, cacheStore }).detect(TOKEN);
+
+    expect(await new TokenDetector(client, { logger: null, cacheStore }).detect(TOKEN)).toEqual(
+      result,
+    );
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(1);
+  });
+
+  it("should import exported snapshots and skip expired entries", async () => {
+    const source = new TokenDetector(client, { logger: null, cacheTtl: 60_000 });
+    await source.detect(TOKEN);
+    const snapshot = await source.exportCache();
+    expect(Object.keys(snapshot.entries)).toEqual([CACHE_KEY]);
+
+    const target = new TokenDetector(client, { logger: null });
+    expect(await target.importCache(snapshot)).toBe(1);
+    await target.detect(TOKEN);
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(await new TokenDetector(client, { logger: null }).importCache(snapshot)).toBe(0);
+    expect((await source.exportCache()).entries).toEqual({});
+  });
+
+  it("should reject unsupported snapshot versions", async () => {
+    const detector = new TokenDetector(client, { logger: null });
+
+    await expect(
+      detector.importCache({ version: 2, entries: {} } as unknown as DetectorCacheSnapshot),
+    ).rejects.toThrow("Unsupported detector cache snapshot version: 2");
+  });
+
+  it("should invalidate proxy tokens whose implementation changed", async () => {
+    vi.mocked(getImplementationAddress).mockResolvedValue(IMPLEMENTATION);
+    const cacheStore = new MemoryDetectorCacheStore();
+    const detector = new TokenDetector(client, {
+      logger: null,
+      cacheStore,
+      proxyCheckInterval: 10_000,
+    });
+
+    await detector.detect(TOKEN);
+    vi.setSystemTime(Date.now() + 11_000);
+    await detector.detect(TOKEN);
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(1);
+
+    vi.mocked(getImplementationAddress).mockResolvedValue(UPGRADED);
+    vi.setSystemTime(Date.now() + 11_000);
+    await detector.detect(TOKEN);
+
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(2);
+    expect((await cacheStore.get(CACHE_KEY))?.implementation).toBe(UPGRADED);
+  });
+
+  it("should not recheck the implementation within the check interval", async () => {
+    vi.mocked(getImplementationAddress).mockResolvedValue(IMPLEMENTATION);
+    const detector = new TokenDetector(client, { logger: null, proxyCheckInterval: 10_000 });
+
+    await detector.detect(TOKEN);
+    vi.mocked(getImplementationAddress).mockResolvedValue(UPGRADED);
+    vi.setSystemTime(Date.now() + 5_000);
+    await detector.detect(TOKEN);
+
+    expect(getImplementationAddress).toHaveBeenCalledTimes(1);
+    expect(detectTokenPaymentMethods).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,9 @@
-import type { PublicClient } from "viem";
+import type { Address, PublicClient } from "viem";
 import type { TokenDetectionResult, TokenDetectorOptions, Logger } from "./types";
+import type { DetectorCacheEntry, DetectorCacheSnapshot, DetectorCacheStore } from "./stores";
+import { isExpired } from "./stores";
 import { detectTokenPaymentMethods, getTokenInfo } from "./detector";
+import { getImplementationAddress } from "./proxy";
 
 /**
  * 默认 logger
@@ -10,14 +13,19 @@ const defaultLogger: Logger = {
   error: (message: string, error?: unknown) => console.error(message, error),
 };
 
+/**
+ * 默认的代理实现地址检查间隔（毫秒）
+ */
+const DEFAULT_PROXY_CHECK_INTERVAL_MS = 60_000;
+
 /**
  * Token 检测器 - 带缓存功能的 SDK
  *
  * 主要用于 x402-server，也可以独立使用
  */
 export class TokenDetector {
-  /** 缓存存储 (chainId:address -> TokenDetectionResult) */
-  private cache: Map<string, TokenDetectionResult> = new Map();
+  /** 进程内缓存 (chainId:address -> DetectorCacheEntry) */
+  private cache: Map<string, DetectorCacheEntry> = new Map();
 
   /** viem PublicClient */
   private client: PublicClient;
@@ -25,6 +33,15 @@ export class TokenDetector {
   /** Logger 实例 */
   private logger: Logger | null;
 
+  /** 可选的持久化缓存存储 */
+  private cacheStore?: DetectorCacheStore;
+
+  /** 缓存有效期（毫秒） */
+  private cacheTtl?: number;
+
+  /** 代理实现地址检查间隔（毫秒） */
+  private proxyCheckInterval: number;
+
   /**
    * 构造函数
    *
@@ -34,11 +51,14 @@ export class TokenDetector {
   constructor(client: PublicClient, options?: TokenDetectorOptions) {
     this.client = client;
     this.logger = options?.logger === null ? null : options?.logger || defaultLogger;
+    this.cacheStore = options?.cacheStore;
+    this.cacheTtl = options?.cacheTtl;
+    this.proxyCheckInterval = options?.proxyCheckInterval ?? DEFAULT_PROXY_CHECK_INTERVAL_MS;
   }
 
   /**
    * 完整检测（同时获取支付能力和 Token 信息）
-   * 优先从缓存读取，缓存未命中时执行检测并缓存结果
+   * 优先从缓存读取（进程内 → cacheStore），缓存未命中时执行检测并缓存结果
    *
    * @param tokenAddress - Token 地址
    * @returns 完整的检测结果
@@ -47,17 +67,18 @@ export class TokenDetector {
     const cacheKey = await this.getCacheKey(tokenAddress);
 
     // 检查缓存
-    const cached = this.cache.get(cacheKey);
+    const cached = await this.getCachedEntry(cacheKey, tokenAddress);
     if (cached) {
       this.logger?.log(`💾 Using cached result for token ${tokenAddress}`);
-      return cached;
+      return cached.result;
     }
 
-    // 并行执行检测
+    // 并行执行检测，同时记录代理实现地址用于之后的失效检查
     this.logger?.log(`🔍 Detecting token ${tokenAddress}...`);
-    const [capabilities, info] = await Promise.all([
+    const [capabilities, info, implementation] = await Promise.all([
       detectTokenPaymentMethods(tokenAddress, this.client, this.logger),
       getTokenInfo(tokenAddress, this.client, this.logger),
+      getImplementationAddress(this.client, tokenAddress.toLowerCase() as Address, null),
     ]);
 
     const result: TokenDetectionResult = {
@@ -66,7 +87,14 @@ export class TokenDetector {
     };
 
     // 存入缓存
-    this.cache.set(cacheKey, result);
+    const now = Date.now();
+    await this.setEntry(cacheKey, {
+      result,
+      cachedAt: now,
+      ...(this.cacheTtl !== undefined && { expiresAt: now + this.cacheTtl }),
+      implementation: implementation?.toLowerCase() ?? null,
+      checkedAt: now,
+    });
 
     return result;
   }
@@ -120,23 +148,67 @@ export class TokenDetector {
   }
 
   /**
-   * 清除缓存
+   * 清除缓存（同时清除 cacheStore）
    *
    * @param tokenAddress - 可选，指定要清除的 Token 地址
    */
   async clearCache(tokenAddress?: string): Promise<void> {
     if (tokenAddress) {
       const cacheKey = await this.getCacheKey(tokenAddress);
-      this.cache.delete(cacheKey);
+      await this.deleteEntry(cacheKey);
       this.logger?.log(`🗑️  Cleared cache for token ${tokenAddress}`);
     } else {
       this.cache.clear();
+      await this.runStore("clear", store => store.clear());
       this.logger?.log(`🗑️  Cleared all cache`);
     }
   }
 
   /**
-   * 获取缓存统计
+   * 导出缓存快照，可保存为文件随部署发布
+   *
+   * @returns 未过期条目的快照
+   */
+  async exportCache(): Promise<DetectorCacheSnapshot> {
+    const now = Date.now();
+    const entries = this.cacheStore
+      ? await this.cacheStore.entries()
+      : Array.from(this.cache.entries()).filter(([, entry]) => !isExpired(entry, now));
+
+    return {
+      version: 1,
+      entries: Object.fromEntries(entries),
+    };
+  }
+
+  /**
+   * 导入缓存快照（跳过已过期的条目）
+   * 导入的代理 Token 会在首次命中时重新检查实现地址
+   *
+   * @param snapshot - exportCache() 导出的快照
+   * @returns 导入的条目数
+   */
+  async importCache(snapshot: DetectorCacheSnapshot): Promise<number> {
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported detector cache snapshot version: ${snapshot.version}`);
+    }
+
+    const now = Date.now();
+    let imported = 0;
+    for (const [key, entry] of Object.entries(snapshot.entries)) {
+      if (isExpired(entry, now)) {
+        continue;
+      }
+      await this.setEntry(key, entry);
+      imported++;
+    }
+
+    this.logger?.log(`📥 Imported ${imported} cached tokens`);
+    return imported;
+  }
+
+  /**
+   * 获取缓存统计（进程内缓存）
    *
    * @returns 缓存统计信息
    */
@@ -150,6 +222,100 @@ export class TokenDetector {
     };
   }
 
+  /**
+   * 读取缓存条目：进程内缓存 → cacheStore，并检查过期与代理实现地址
+   *
+   * @param cacheKey - 缓存键
+   * @param tokenAddress - Token 地址
+   * @returns 有效的缓存条目
+   */
+  private async getCachedEntry(
+    cacheKey: string,
+    tokenAddress: string,
+  ): Promise<DetectorCacheEntry | undefined> {
+    let entry = this.cache.get(cacheKey);
+    if (entry && isExpired(entry)) {
+      this.cache.delete(cacheKey);
+      entry = undefined;
+    }
+
+    if (!entry && this.cacheStore) {
+      entry = await this.runStore("get", store => store.get(cacheKey));
+      if (entry) {
+        this.cache.set(cacheKey, entry);
+      }
+    }
+
+    if (!entry || entry.implementation === null) {
+      return entry;
+    }
+
+    // 代理合约：定期检查实现地址是否变化
+    const now = Date.now();
+    if (now - entry.checkedAt < this.proxyCheckInterval) {
+      return entry;
+    }
+
+    const implementation = await getImplementationAddress(
+      this.client,
+      tokenAddress.toLowerCase() as Address,
+      null,
+    );
+    if (implementation?.toLowerCase() !== entry.implementation) {
+      this.logger?.log(`♻️  Implementation of token ${tokenAddress} changed, invalidating cache`);
+      await this.deleteEntry(cacheKey);
+      return undefined;
+    }
+
+    const checked = { ...entry, checkedAt: now };
+    await this.setEntry(cacheKey, checked);
+    return checked;
+  }
+
+  /**
+   * 写入进程内缓存与 cacheStore
+   *
+   * @param cacheKey - 缓存键
+   * @param entry - 缓存条目
+   */
+  private async setEntry(cacheKey: string, entry: DetectorCacheEntry): Promise<void> {
+    this.cache.set(cacheKey, entry);
+    await this.runStore("set", store => store.set(cacheKey, entry));
+  }
+
+  /**
+   * 删除进程内缓存与 cacheStore 中的条目
+   *
+   * @param cacheKey - 缓存键
+   */
+  private async deleteEntry(cacheKey: string): Promise<void> {
+    this.cache.delete(cacheKey);
+    await this.runStore("delete", store => store.delete(cacheKey));
+  }
+
+  /**
+   * 执行 cacheStore 操作，存储不可用时只记录错误，不影响检测
+   *
+   * @param operation - 操作名称（用于日志）
+   * @param fn - 存储操作
+   * @returns 操作结果，未配置存储或失败时返回 undefined
+   */
+  private async runStore<T>(
+    operation: string,
+    fn: (store: DetectorCacheStore) => Promise<T>,
+  ): Promise<T | undefined> {
+    if (!this.cacheStore) {
+      return undefined;
+    }
+
+    try {
+      return await fn(this.cacheStore);
+    } catch (error) {
+      this.logger?.error(`Detector cache store ${operation} failed:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * 生成缓存键
    *
@@ -10,6 +10,14 @@ import type { PresetTokenConfig } from "./types";
  */
 export const EIP3009_SIGNATURES = ["0xe3ee160e", "0xcf092995"] as const;
 
+/**
+ * EIP-3009 receiveWithAuthorization 方法签名
+ * - receiveWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)
+ *
+ * 只有收款方（to）可以调用，签名的支付不会被他人抢先提交
+ */
+export const EIP3009_RECEIVE_SIGNATURE = "0xef55bec6" as const;
+
 /**
  * EIP-2612 Permit 方法签名
  * - permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
@@ -2,6 +2,7 @@ import type { Address, PublicClient } from "viem";
 import type { PaymentMethod, TokenPaymentCapabilities, TokenInfo, Logger } from "./types";
 import {
   EIP3009_SIGNATURES,
+  EIP3009_RECEIVE_SIGNATURE,
   EIP2612_PERMIT,
   PERMIT2_ADDRESS,
   PRESET_TOKEN_CAPABILITIES,
@@ -174,6 +175,7 @@ export async function detectTokenPaymentMethods(
         supportedMethods: [],
         details: {
           hasEIP3009: false,
+          hasReceiveWithAuthorization: false,
           hasPermit: false,
           hasPermit2Approval: false,
         },
@@ -186,10 +188,16 @@ export async function detectTokenPaymentMethods(
     const hasPermit2Approval =
       presetCapabilities.supportedMethods.includes("permit2") ||
       presetCapabilities.supportedMethods.includes("permit2-witness");
+    // 预设只记录支付方式，receiveWithAuthorization 仍需检测
+    const hasReceiveWithAuthorization =
+      hasEIP3009 && (await hasMethod(client, address, EIP3009_RECEIVE_SIGNATURE, logger));
 
     if (hasEIP3009) {
       logger?.log("  ✅ EIP-3009 (transferWithAuthorization) - from preset");
     }
+    if (hasReceiveWithAuthorization) {
+      logger?.log("  ✅ EIP-3009 (receiveWithAuthorization) detected");
+    }
     if (hasPermit) {
       logger?.log("  ✅ EIP-2612 (permit) - from preset");
     }
@@ -202,6 +210,7 @@ export async function detectTokenPaymentMethods(
       supportedMethods: presetCapabilities.supportedMethods,
       details: {
         hasEIP3009,
+        hasReceiveWithAuthorization,
         hasPermit,
         hasPermit2Approval,
       },
@@ -211,11 +220,13 @@ export async function detectTokenPaymentMethods(
   logger?.log(`🔍 Detecting payment methods for token ${address}...`);
 
   // 并行检测所有方法
-  const [hasEIP3009, hasPermit, hasPermit2Approval] = await Promise.all([
-    hasAnyMethod(client, address, EIP3009_SIGNATURES, logger),
-    hasMethod(client, address, EIP2612_PERMIT, logger),
-    checkPermit2Support(client, logger),
-  ]);
+  const [hasEIP3009, hasReceiveWithAuthorization, hasPermit, hasPermit2Approval] =
+    await Promise.all([
+      hasAnyMethod(client, address, EIP3009_SIGNATURES, logger),
+      hasMethod(client, address, EIP3009_RECEIVE_SIGNATURE, logger),
+      hasMethod(client, address, EIP2612_PERMIT, logger),
+      checkPermit2Support(client, logger),
+    ]);
 
   // 构建支持的方法列表
   const supportedMethods: PaymentMethod[] = [];
@@ -225,6 +236,10 @@ export async function detectTokenPaymentMethods(
     logger?.log("  ✅ EIP-3009 (transferWithAuthorization) detected");
   }
 
+  if (hasReceiveWithAuthorization) {
+    logger?.log("  ✅ EIP-3009 (receiveWithAuthorization) detected");
+  }
+
   if (hasPermit) {
     supportedMethods.push("permit");
     logger?.log("  ✅ EIP-2612 (permit) detected");
@@ -245,6 +260,7 @@ export async function detectTokenPaymentMethods(
     supportedMethods,
     details: {
       hasEIP3009,
+      hasReceiveWithAuthorization,
       hasPermit,
       hasPermit2Approval,
     },
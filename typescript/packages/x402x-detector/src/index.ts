@@ -4,7 +4,7 @@
  * - EIP-3009 transferWithAuthorization detection
  * - Permit2 support detection
  * - Proxy contract support (EIP-1967, EIP-1822)
- * - Built-in caching mechanism
+ * - Built-in caching mechanism with pluggable persistent stores
  */
 
 // Export types
@@ -21,6 +21,7 @@ export type {
 // Export constants
 export {
   EIP3009_SIGNATURES,
+  EIP3009_RECEIVE_SIGNATURE,
   EIP2612_PERMIT,
   PERMIT2_ADDRESS,
   EIP1967_IMPLEMENTATION_SLOT,
@@ -41,3 +42,17 @@ export { getImplementationAddress } from "./proxy";
 
 // Export cache-enabled detector class (recommended for server usage)
 export { TokenDetector } from "./cache";
+
+// Export cache stores
+export {
+  MemoryDetectorCacheStore,
+  FileDetectorCacheStore,
+  RedisDetectorCacheStore,
+} from "./stores";
+export type {
+  DetectorCacheStore,
+  DetectorCacheEntry,
+  DetectorCacheSnapshot,
+  RedisClientLike,
+  RedisDetectorCacheStoreOptions,
+} from "./stores";
@@ -0,0 +1,150 @@
+import type { DetectorCacheEntry, DetectorCacheSnapshot, DetectorCacheStore } from "./types";
+import { isExpired } from "./types";
+
+/**
+ * 文件系统 JSON 缓存存储
+ *
+ * 文件内容与 TokenDetector.exportCache() 的快照格式相同，可以直接随部署发布预热好的缓存文件。
+ * 首次访问时读取文件，每次写入后整体落盘（先写临时文件再 rename）。
+ *
+ * @example
+ * ```typescript
+ * const detector = new TokenDetector(client, {
+ *   cacheStore: new FileDetectorCacheStore("./.cache/x402-detector.json"),
+ *   cacheTtl: 24 * 60 * 60 * 1000,
+ * });
+ * ```
+ */
+export class FileDetectorCacheStore implements DetectorCacheStore {
+  private filePath: string;
+  private store: Map<string, DetectorCacheEntry> | null = null;
+  private loading: Promise<Map<string, DetectorCacheEntry>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * 构造函数
+   *
+   * @param filePath - JSON 文件路径，不存在时会在首次写入时创建
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * 读取缓存条目
+   *
+   * @param key - 缓存键
+   * @returns 缓存条目
+   */
+  async get(key: string): Promise<DetectorCacheEntry | undefined> {
+    const store = await this.load();
+    const entry = store.get(key);
+    return entry && !isExpired(entry) ? entry : undefined;
+  }
+
+  /**
+   * 写入缓存条目并落盘
+   *
+   * @param key - 缓存键
+   * @param entry - 缓存条目
+   */
+  async set(key: string, entry: DetectorCacheEntry): Promise<void> {
+    const store = await this.load();
+    store.set(key, entry);
+    await this.persist();
+  }
+
+  /**
+   * 删除缓存条目并落盘
+   *
+   * @param key - 缓存键
+   */
+  async delete(key: string): Promise<void> {
+    const store = await this.load();
+    if (store.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * 清空所有缓存条目并落盘
+   */
+  async clear(): Promise<void> {
+    const store = await this.load();
+    store.clear();
+    await this.persist();
+  }
+
+  /**
+   * 列出所有未过期的缓存条目
+   *
+   * @returns 缓存键与条目列表
+   */
+  async entries(): Promise<Array<[string, DetectorCacheEntry]>> {
+    const store = await this.load();
+    const now = Date.now();
+    return Array.from(store.entries()).filter(([, entry]) => !isExpired(entry, now));
+  }
+
+  /**
+   * 首次访问时读取文件
+   *
+   * @returns 内存中的缓存条目
+   */
+  private async load(): Promise<Map<string, DetectorCacheEntry>> {
+    if (this.store) {
+      return this.store;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        // 动态引入，避免浏览器环境打包 node:fs
+        const { readFile } = await import("node:fs/promises");
+        let snapshot: DetectorCacheSnapshot | undefined;
+        try {
+          snapshot = JSON.parse(await readFile(this.filePath, "utf8")) as DetectorCacheSnapshot;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            throw error;
+          }
+        }
+
+        if (snapshot && snapshot.version !== 1) {
+          throw new Error(`Unsupported detector cache snapshot version: ${snapshot.version}`);
+        }
+
+        this.store = new Map(Object.entries(snapshot?.entries ?? {}));
+        return this.store;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * 将当前缓存写入文件，串行化并发写入
+   *
+   * @returns 写入完成的 Promise
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const { mkdir, rename, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+      const now = Date.now();
+      const snapshot: DetectorCacheSnapshot = {
+        version: 1,
+        entries: Object.fromEntries(
+          Array.from(this.store ?? []).filter(([, entry]) => !isExpired(entry, now)),
+        ),
+      };
+
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(snapshot, null, 2));
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * 检测缓存存储测试
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileDetectorCacheStore, RedisDetectorCacheStore } from "./index";
+import type { DetectorCacheEntry, RedisClientLike } from "./index";
+
+const TOKEN_KEY = "84532:0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const OTHER_KEY = "56:0x55d398326f99059ff775485246999027b3197955";
+
+/**
+ * 创建缓存条目
+ *
+ * @param expiresAt - 可选的过期时间
+ * @returns 缓存条目
+ */
+function createEntry(expiresAt?: number): DetectorCacheEntry {
+  const now = Date.now();
+  return {
+    result: {
+      address: "0x036cbd53842c5426634e7929541ec2318f3dcf7e",
+      supportedMethods: ["eip3009", "permit"],
+      details: {
+        hasEIP3009: true,
+        hasReceiveWithAuthorization: true,
+        hasPermit: true,
+        hasPermit2Approval: false,
+      },
+      name: "USD Coin",
+      version: "2",
+    },
+    cachedAt: now,
+    ...(expiresAt !== undefined && { expiresAt }),
+    implementation: null,
+    checkedAt: now,
+  };
+}
+
+/**
+ * 创建内存版的 ioredis 风格客户端，SCAN 每次最多返回 2 个键
+ *
+ * @returns 客户端与底层数据
+ */
+function createRedisClient() {
+  const data = new Map<string, string>();
+  const expiries = new Map<string, number>();
+  const client = {
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+      return "OK";
+    }),
+    del: vi.fn(async (key: string) => Number(data.delete(key))),
+    keys: vi.fn(async () => Array.from(data.keys())),
+    scan: vi.fn(async (cursor: string | number, ...args: unknown[]) => {
+      const prefix = String(args[1]).slice(0, -1);
+      const matched = Array.from(data.keys()).filter(key => key.startsWith(prefix));
+      const start = Number(cursor);
+      const next = start + 2 < matched.length ? String(start + 2) : "0";
+      return [next, matched.slice(start, start + 2)] as [string, string[]];
+    }),
+    pexpireat: vi.fn(async (key: string, timestamp: number) => {
+      expiries.set(key, timestamp);
+      return 1;
+    }),
+  };
+  return { client, data, expiries };
+}
+
+describe("RedisDetectorCacheStore", () => {
+  it("should store entries under the prefix and set a native expiry", async () => {
+    const { client, data, expiries } = createRedisClient();
+    const store = new RedisDetectorCacheStore(client);
+    const entry = createEntry(Date.now() + 60_000);
+
+    await store.set(TOKEN_KEY, entry);
+
+    expect(data.has(`x402:detector:${TOKEN_KEY}`)).toBe(true);
+    expect(expiries.get(`x402:detector:${TOKEN_KEY}`)).toBe(entry.expiresAt);
+    expect(await store.get(TOKEN_KEY)).toEqual(entry);
+  });
+
+  it("should fall back to node-redis pExpireAt", async () => {
+    const { client } = createRedisClient();
+    const nodeRedis = { ...client, pexpireat: undefined, pExpireAt: vi.fn(async () => true) };
+    const store = new RedisDetectorCacheStore(nodeRedis);
+    const expiresAt = Date.now() + 60_000;
+
+    await store.set(TOKEN_KEY, createEntry(expiresAt));
+
+    expect(nodeRedis.pExpireAt).toHaveBeenCalledWith(`x402:detector:${TOKEN_KEY}`, expiresAt);
+  });
+
+  it("should not return or list expired entries", async () => {
+    const { client } = createRedisClient();
+    const store = new RedisDetectorCacheStore(client);
+
+    await store.set(TOKEN_KEY, createEntry(Date.now() - 1));
+    await store.set(OTHER_KEY, createEntry());
+
+    expect(await store.get(TOKEN_KEY)).toBeUndefined();
+    expect((await store.entries()).map(([key]) => key)).toEqual([OTHER_KEY]);
+  });
+
+  it("should list and clear keys across SCAN pages without KEYS", async () => {
+    const { client, data } = createRedisClient();
+    const store = new RedisDetectorCacheStore(client);
+    const keys = Array.from({ length: 5 }, (_, i) => `84532:0x${String(i).repeat(40)}`);
+    for (const key of keys) {
+      await store.set(key, createEntry());
+    }
+    data.set("other:key", "value");
+
+    expect((await store.entries()).map(([key]) => key).sort()).toEqual(keys.sort());
+    await store.clear();
+
+    expect(Array.from(data.keys())).toEqual(["other:key"]);
+    expect(client.scan).toHaveBeenCalledWith("2", "MATCH", "x402:detector:*", "COUNT", 100);
+    expect(client.keys).not.toHaveBeenCalled();
+  });
+
+  it("should use scanIterator when the client provides it", async () => {
+    const { client, data } = createRedisClient();
+    const nodeRedis: RedisClientLike = {
+      ...client,
+      scanIterator: async function* ({ MATCH }) {
+        yield* Array.from(data.keys()).filter(key => key.startsWith(MATCH.slice(0, -1)));
+      },
+    };
+    const store = new RedisDetectorCacheStore(nodeRedis, { prefix: "custom:" });
+
+    await store.set(TOKEN_KEY, createEntry());
+    await store.clear();
+
+    expect(data.size).toBe(0);
+    expect(client.scan).not.toHaveBeenCalled();
+  });
+});
+
+describe("FileDetectorCacheStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-detector-"));
+    filePath = join(dir, "cache", "detector.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries in the snapshot format", async () => {
+    const entry = createEntry();
+
+    await new FileDetectorCacheStore(filePath).set(TOKEN_KEY, entry);
+
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+      version: 1,
+      entries: { [TOKEN_KEY]: entry },
+    });
+    expect(await new FileDetectorCacheStore(filePath).get(TOKEN_KEY)).toEqual(entry);
+  });
+
+  it("should skip expired entries and drop them on the next write", async () => {
+    const store = new FileDetectorCacheStore(filePath);
+
+    await store.set(TOKEN_KEY, createEntry(Date.now() + 1_000));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 2_000);
+
+      expect(await store.get(TOKEN_KEY)).toBeUndefined();
+      expect(await store.entries()).toEqual([]);
+
+      await store.set(OTHER_KEY, createEntry());
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const snapshot = JSON.parse(await readFile(filePath, "utf8"));
+    expect(Object.keys(snapshot.entries)).toEqual([OTHER_KEY]);
+  });
+
+  it("should serialize concurrent writes", async () => {
+    const store = new FileDetectorCacheStore(filePath);
+
+    await Promise.all([store.set(TOKEN_KEY, createEntry()), store.set(OTHER_KEY, createEntry())]);
+    await store.delete(TOKEN_KEY);
+
+    const snapshot = JSON.parse(await readFile(filePath, "utf8"));
+    expect(Object.keys(snapshot.entries)).toEqual([OTHER_KEY]);
+  });
+
+  it("should reject unsupported snapshot versions", async () => {
+    await new FileDetectorCacheStore(filePath).set(TOKEN_KEY, createEntry());
+    await writeFile(filePath, JSON.stringify({ version: 2, entries: {} }));
+
+    await expect(new FileDetectorCacheStore(filePath).get(TOKEN_KEY)).rejects.toThrow(
+      "Unsupported detector cache snapshot version: 2",
+    );
+  });
+});
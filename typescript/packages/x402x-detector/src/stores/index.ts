@@ -0,0 +1,10 @@
+/**
+ * TokenDetector cache stores
+ */
+
+export { MemoryDetectorCacheStore } from "./memory";
+export { FileDetectorCacheStore } from "./file";
+export { RedisDetectorCacheStore } from "./redis";
+export type { RedisClientLike, RedisDetectorCacheStoreOptions } from "./redis";
+export { isExpired } from "./types";
+export type { DetectorCacheStore, DetectorCacheEntry, DetectorCacheSnapshot } from "./types";
@@ -0,0 +1,78 @@
+import type { DetectorCacheEntry, DetectorCacheStore } from "./types";
+import { isExpired } from "./types";
+
+/**
+ * 内存缓存存储
+ *
+ * 适用于同一进程内多个 TokenDetector 共享缓存（例如按网络创建的多个 detector）
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryDetectorCacheStore();
+ * const bscDetector = new TokenDetector(bscClient, { cacheStore: store });
+ * const baseDetector = new TokenDetector(baseClient, { cacheStore: store });
+ * ```
+ */
+export class MemoryDetectorCacheStore implements DetectorCacheStore {
+  private store = new Map<string, DetectorCacheEntry>();
+
+  /**
+   * 获取当前条目数（包含尚未清理的过期条目）
+   *
+   * @returns 条目数
+   */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /**
+   * 读取缓存条目，过期条目会被删除
+   *
+   * @param key - 缓存键
+   * @returns 缓存条目
+   */
+  async get(key: string): Promise<DetectorCacheEntry | undefined> {
+    const entry = this.store.get(key);
+    if (entry && isExpired(entry)) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * 写入缓存条目
+   *
+   * @param key - 缓存键
+   * @param entry - 缓存条目
+   */
+  async set(key: string, entry: DetectorCacheEntry): Promise<void> {
+    this.store.set(key, entry);
+  }
+
+  /**
+   * 删除缓存条目
+   *
+   * @param key - 缓存键
+   */
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  /**
+   * 清空所有缓存条目
+   */
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  /**
+   * 列出所有未过期的缓存条目
+   *
+   * @returns 缓存键与条目列表
+   */
+  async entries(): Promise<Array<[string, DetectorCacheEntry]>> {
+    const now = Date.now();
+    return Array.from(this.store.entries()).filter(([, entry]) => !isExpired(entry, now));
+  }
+}
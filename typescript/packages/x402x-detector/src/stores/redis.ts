@@ -0,0 +1,167 @@
+import type { DetectorCacheEntry, DetectorCacheStore } from "./types";
+import { isExpired } from "./types";
+
+/**
+ * 每次 SCAN 的建议返回数量
+ */
+const SCAN_COUNT = 100;
+
+/**
+ * Redis 客户端的最小接口
+ * 兼容 ioredis（pexpireat、scan）与 node-redis v4（pExpireAt、scanIterator），避免直接依赖具体实现
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  scan(
+    cursor: string | number,
+    ...args: unknown[]
+  ): Promise<[string, string[]] | { cursor: string | number; keys: string[] }>;
+  scanIterator?(options: { MATCH: string; COUNT?: number }): AsyncIterable<string | string[]>;
+  pexpireat?(key: string, timestamp: number): Promise<unknown>;
+  pExpireAt?(key: string, timestamp: number): Promise<unknown>;
+}
+
+/**
+ * RedisDetectorCacheStore 配置选项
+ */
+export interface RedisDetectorCacheStoreOptions {
+  /** 键前缀，默认 "x402:detector:" */
+  prefix?: string;
+}
+
+/**
+ * Redis 缓存存储
+ *
+ * 多实例、serverless 部署共享检测结果。设置了 cacheTtl 时使用 Redis 原生过期
+ *
+ * @example
+ * ```typescript
+ * import Redis from "ioredis";
+ *
+ * const detector = new TokenDetector(client, {
+ *   cacheStore: new RedisDetectorCacheStore(new Redis(process.env.REDIS_URL)),
+ *   cacheTtl: 24 * 60 * 60 * 1000,
+ * });
+ * ```
+ */
+export class RedisDetectorCacheStore implements DetectorCacheStore {
+  private client: RedisClientLike;
+  private prefix: string;
+
+  /**
+   * 构造函数
+   *
+   * @param client - Redis 客户端
+   * @param options - 配置选项
+   */
+  constructor(client: RedisClientLike, options: RedisDetectorCacheStoreOptions = {}) {
+    this.client = client;
+    this.prefix = options.prefix ?? "x402:detector:";
+  }
+
+  /**
+   * 读取缓存条目
+   *
+   * @param key - 缓存键
+   * @returns 缓存条目
+   */
+  async get(key: string): Promise<DetectorCacheEntry | undefined> {
+    const value = await this.client.get(this.prefix + key);
+    if (!value) {
+      return undefined;
+    }
+
+    const entry = JSON.parse(value) as DetectorCacheEntry;
+    return isExpired(entry) ? undefined : entry;
+  }
+
+  /**
+   * 写入缓存条目
+   *
+   * @param key - 缓存键
+   * @param entry - 缓存条目
+   */
+  async set(key: string, entry: DetectorCacheEntry): Promise<void> {
+    const redisKey = this.prefix + key;
+    await this.client.set(redisKey, JSON.stringify(entry));
+
+    if (entry.expiresAt !== undefined) {
+      if (this.client.pexpireat) {
+        await this.client.pexpireat(redisKey, entry.expiresAt);
+      } else if (this.client.pExpireAt) {
+        await this.client.pExpireAt(redisKey, entry.expiresAt);
+      }
+    }
+  }
+
+  /**
+   * 删除缓存条目
+   *
+   * @param key - 缓存键
+   */
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  /**
+   * 清空当前前缀下的所有缓存条目
+   */
+  async clear(): Promise<void> {
+    const keys = await this.scanKeys();
+    for (const key of keys) {
+      await this.client.del(key);
+    }
+  }
+
+  /**
+   * 列出当前前缀下所有未过期的缓存条目
+   *
+   * @returns 缓存键与条目列表
+   */
+  async entries(): Promise<Array<[string, DetectorCacheEntry]>> {
+    const keys = await this.scanKeys();
+    const entries: Array<[string, DetectorCacheEntry]> = [];
+
+    for (const redisKey of keys) {
+      const key = redisKey.slice(this.prefix.length);
+      const entry = await this.get(key);
+      if (entry) {
+        entries.push([key, entry]);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 用 SCAN 分批列出当前前缀下的键，避免 KEYS 阻塞 Redis
+   *
+   * @returns 带前缀的 Redis 键
+   */
+  private async scanKeys(): Promise<string[]> {
+    const match = `${this.prefix}*`;
+    const keys = new Set<string>();
+
+    if (this.client.scanIterator) {
+      for await (const batch of this.client.scanIterator({ MATCH: match, COUNT: SCAN_COUNT })) {
+        for (const key of Array.isArray(batch) ? batch : [batch]) {
+          keys.add(key);
+        }
+      }
+      return Array.from(keys);
+    }
+
+    // SCAN 可能重复返回同一个键，用 Set 去重
+    let cursor = "0";
+    do {
+      const reply = await this.client.scan(cursor, "MATCH", match, "COUNT", SCAN_COUNT);
+      const [next, batch] = Array.isArray(reply) ? reply : [String(reply.cursor), reply.keys];
+      batch.forEach(key => keys.add(key));
+      cursor = next;
+    } while (cursor !== "0");
+
+    return Array.from(keys);
+  }
+}
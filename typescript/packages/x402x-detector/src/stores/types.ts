@@ -0,0 +1,79 @@
+import type { TokenDetectionResult } from "../types";
+
+/**
+ * 缓存条目
+ */
+export interface DetectorCacheEntry {
+  /** 检测结果 */
+  result: TokenDetectionResult;
+  /** 写入时间（毫秒时间戳） */
+  cachedAt: number;
+  /** 过期时间（毫秒时间戳），未设置表示永不过期 */
+  expiresAt?: number;
+  /** 检测时的代理实现合约地址（小写），非代理合约为 null */
+  implementation: string | null;
+  /** 上次检查代理实现地址的时间（毫秒时间戳） */
+  checkedAt: number;
+}
+
+/**
+ * 缓存快照，可随部署一起发布以预热缓存
+ */
+export interface DetectorCacheSnapshot {
+  version: 1;
+  /** chainId:address -> 缓存条目 */
+  entries: Record<string, DetectorCacheEntry>;
+}
+
+/**
+ * TokenDetector 缓存存储接口
+ *
+ * 用于在进程重启、多实例之间持久化检测结果
+ */
+export interface DetectorCacheStore {
+  /**
+   * 读取缓存条目
+   *
+   * @param key - 缓存键（chainId:address）
+   * @returns 缓存条目，不存在时返回 undefined
+   */
+  get(key: string): Promise<DetectorCacheEntry | undefined>;
+
+  /**
+   * 写入缓存条目
+   *
+   * @param key - 缓存键
+   * @param entry - 缓存条目
+   */
+  set(key: string, entry: DetectorCacheEntry): Promise<void>;
+
+  /**
+   * 删除缓存条目
+   *
+   * @param key - 缓存键
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * 清空所有缓存条目
+   */
+  clear(): Promise<void>;
+
+  /**
+   * 列出所有缓存条目（用于导出快照）
+   *
+   * @returns 缓存键与条目列表
+   */
+  entries(): Promise<Array<[string, DetectorCacheEntry]>>;
+}
+
+/**
+ * 判断缓存条目是否已过期
+ *
+ * @param entry - 缓存条目
+ * @param now - 当前时间（毫秒时间戳）
+ * @returns 是否已过期
+ */
+export function isExpired(entry: DetectorCacheEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
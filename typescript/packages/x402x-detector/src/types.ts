@@ -1,3 +1,5 @@
+import type { DetectorCacheStore } from "./stores";
+
 /**
  * 支持的支付方式
  */
@@ -23,6 +25,8 @@ export interface TokenPaymentCapabilities {
   details: {
     /** 是否支持 EIP-3009 (transferWithAuthorization) */
     hasEIP3009: boolean;
+    /** 是否支持 EIP-3009 receiveWithAuthorization */
+    hasReceiveWithAuthorization: boolean;
     /** 是否支持 EIP-2612 (permit) */
     hasPermit: boolean;
     /** 是否支持 Permit2 (通用授权) */
@@ -66,4 +70,16 @@ export interface Logger {
 export interface TokenDetectorOptions {
   /** 自定义 logger，默认使用 console */
   logger?: Logger | null; // null 表示禁用日志
+
+  /** 持久化缓存存储（内存、文件、Redis），默认只使用进程内缓存 */
+  cacheStore?: DetectorCacheStore;
+
+  /** 缓存有效期（毫秒），默认永不过期 */
+  cacheTtl?: number;
+
+  /**
+   * 代理合约实现地址的检查间隔（毫秒），默认 60000
+   * 命中缓存的代理 Token 超过该间隔会重新读取实现地址，实现地址变化时缓存自动失效
+   */
+  proxyCheckInterval?: number;
 }
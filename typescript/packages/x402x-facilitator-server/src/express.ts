@@ -0,0 +1,73 @@
+/**
+ * Express 中间件 for x402 Facilitator
+ */
+
+import type { FacilitatorServer } from "./server";
+
+/**
+ * Express-like Request 接口
+ * 定义最小化的类型，避免直接依赖 express
+ */
+export interface ExpressRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Express-like Response 接口
+ */
+export interface ExpressResponse {
+  status(code: number): this;
+  json(body: unknown): this;
+}
+
+/**
+ * Express-like NextFunction 类型
+ */
+export type ExpressNextFunction = (error?: unknown) => void;
+
+/**
+ * 创建 Express 中间件
+ *
+ * 处理 POST /verify、POST /settle、GET /supported 和 GET /discovery/resources，
+ * 其他请求交给下一个中间件。需要先挂载 express.json() 解析请求体
+ *
+ * @param server - FacilitatorServer 实例
+ * @returns Express 中间件函数
+ *
+ * @example
+ * ```typescript
+ * const app = express();
+ * app.use(express.json(), createExpressHandler(facilitator));
+ * app.listen(3000);
+ * ```
+ */
+export function createExpressHandler(server: FacilitatorServer) {
+  return async (
+    req: ExpressRequest,
+    res: ExpressResponse,
+    next: ExpressNextFunction,
+  ): Promise<void> => {
+    try {
+      const result = await server.handle({
+        method: req.method,
+        path: req.path,
+        headers: req.headers,
+        query: req.query as Record<string, string | string[] | undefined>,
+        body: req.body,
+      });
+
+      if (!result) {
+        next();
+        return;
+      }
+
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Facilitator HTTP server for x402 Payment Protocol
+ *
+ * - /verify, /settle, /supported and /discovery/resources endpoints
+ * - Built on x402x/facilitator verify / settle
+ * - Zod request validation with VerifyRequestSchema / SettleRequestSchema
+ * - Multi-network signer configuration (EVM and Solana)
+ * - API key auth compatible with x402x-facilitator
+ * - Express middleware and Web standard fetch handler
+ */
+
+// Export main class
+export { FacilitatorServer } from "./server";
+
+// Export middlewares
+export { createExpressHandler } from "./express";
+export type { ExpressRequest, ExpressResponse, ExpressNextFunction } from "./express";
+
+// Export types
+export type {
+  FacilitatorServerConfig,
+  NetworkSignerConfig,
+  FacilitatorRequest,
+  FacilitatorResponse,
+  FacilitatorVerifyResponse,
+  FacilitatorSettleResponse,
+} from "./types";
@@ -0,0 +1,436 @@
+/**
+ * FacilitatorServer 测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { settle, verify } from "x402x/facilitator";
+import { FacilitatorServer } from "./server";
+import { createExpressHandler } from "./express";
+
+vi.mock("x402x/facilitator", () => ({
+  verify: vi.fn(),
+  settle: vi.fn(),
+}));
+
+const PRIVATE_KEY = "0x1234567890123456789012345678901234567890123456789012345678901234";
+const FACILITATOR_ADDRESS = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+const SUI_PRIVATE_KEY = "suiprivkey1qqqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszasa5uj";
+const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const API_KEY = "test-api-key";
+
+const paymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+};
+
+const paymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    authorizationType: "eip3009",
+    signature: `0x${"1".repeat(130)}`,
+    authorization: {
+      from: PAYER,
+      to: paymentRequirements.payTo,
+      value: "1000",
+      validAfter: "0",
+      validBefore: "9999999999",
+      nonce: `0x${"2".repeat(64)}`,
+    },
+  },
+};
+
+const headers = { authorization: `Bearer ${API_KEY}` };
+
+/**
+ * 创建测试用 FacilitatorServer
+ *
+ * @returns FacilitatorServer 实例
+ */
+function createServer() {
+  return new FacilitatorServer({
+    networks: { "base-sepolia": { privateKey: PRIVATE_KEY } },
+    apiKeys: [API_KEY],
+    resources: [
+      {
+        resource: "https://example.com/a",
+        type: "http",
+        x402Version: 1,
+        accepts: [],
+        lastUpdated: new Date("2024-01-01T00:00:00Z"),
+      },
+      {
+        resource: "https://example.com/b",
+        type: "http",
+        x402Version: 1,
+        accepts: [],
+        lastUpdated: new Date("2024-01-01T00:00:00Z"),
+      },
+    ],
+  });
+}
+
+describe("FacilitatorServer", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("constructor", () => {
+    it("should require at least one network", () => {
+      expect(() => new FacilitatorServer({ networks: {} })).toThrow(
+        "At least one network is required",
+      );
+    });
+
+    it("should reject unsupported networks", () => {
+      expect(
+        () => new FacilitatorServer({ networks: { "not-a-chain": { privateKey: PRIVATE_KEY } } }),
+      ).toThrow("Unsupported network: not-a-chain");
+    });
+  });
+
+  describe("auth", () => {
+    it("should reject requests without a valid API key", async () => {
+      const server = createServer();
+
+      const missing = await server.handle({ method: "GET", path: "/supported", headers: {} });
+      const wrong = await server.handle({
+        method: "GET",
+        path: "/supported",
+        headers: { authorization: "Bearer wrong" },
+      });
+
+      expect(missing?.status).toBe(401);
+      expect(wrong?.status).toBe(401);
+    });
+
+    it("should return null for unknown routes", async () => {
+      const server = createServer();
+      expect(await server.handle({ method: "GET", path: "/health", headers })).toBeNull();
+    });
+  });
+
+  describe("/verify", () => {
+    it("should verify with the network signer and include success/error", async () => {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, payer: PAYER });
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/verify",
+        headers,
+        body: { x402Version: 1, paymentPayload, paymentRequirements },
+      });
+
+      expect(result).toEqual({
+        status: 200,
+        body: { isValid: true, payer: PAYER, success: true },
+      });
+      expect(verify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          account: expect.objectContaining({ address: FACILITATOR_ADDRESS }),
+        }),
+        paymentPayload,
+        paymentRequirements,
+        undefined,
+        { simulate: false },
+      );
+    });
+
+    it("should create EVM signers on the RPC configured in x402Config.evmConfig", async () => {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, payer: PAYER });
+      const rpcUrl = "https://base-sepolia.example.org";
+      const server = new FacilitatorServer({
+        networks: { "base-sepolia": { privateKey: PRIVATE_KEY } },
+        x402Config: { evmConfig: { networks: { "base-sepolia": { rpcUrl } } } },
+      });
+
+      await server.handle({
+        method: "POST",
+        path: "/verify",
+        headers: {},
+        body: { x402Version: 1, paymentPayload, paymentRequirements },
+      });
+
+      const [signer] = vi.mocked(verify).mock.calls[0];
+      expect((signer as unknown as { transport: { url: string } }).transport.url).toBe(rpcUrl);
+    });
+
+    it("should simulate the settlement when simulateVerify is enabled", async () => {
+      vi.mocked(verify).mockResolvedValue({
+        isValid: false,
+        invalidReason: "settlement_simulation_failed",
+        payer: PAYER,
+      });
+      const server = new FacilitatorServer({
+        networks: { "base-sepolia": { privateKey: PRIVATE_KEY } },
+        simulateVerify: true,
+      });
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/verify",
+        headers: {},
+        body: { paymentPayload, paymentRequirements },
+      });
+
+      expect(result?.body).toMatchObject({ success: false, error: "settlement_simulation_failed" });
+      expect(verify).toHaveBeenCalledWith(
+        expect.anything(),
+        paymentPayload,
+        paymentRequirements,
+        undefined,
+        { simulate: true },
+      );
+    });
+
+    it("should return invalid_payload for malformed requests", async () => {
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/verify",
+        headers,
+        body: { paymentPayload: {}, paymentRequirements },
+      });
+
+      expect(result?.status).toBe(400);
+      expect(result?.body).toMatchObject({
+        isValid: false,
+        invalidReason: "invalid_payload",
+        success: false,
+        error: "invalid_payload",
+      });
+      expect(verify).not.toHaveBeenCalled();
+    });
+
+    it("should return invalid_network for networks without a signer", async () => {
+      const server = createServer();
+
+      const result = await server.verify({
+        paymentPayload: { ...paymentPayload, network: "base" },
+        paymentRequirements: { ...paymentRequirements, network: "base" },
+      } as Parameters<FacilitatorServer["verify"]>[0]);
+
+      expect(result).toEqual({
+        isValid: false,
+        invalidReason: "invalid_network",
+        success: false,
+        error: "invalid_network",
+      });
+    });
+
+    it("should map thrown errors to unexpected_verify_error", async () => {
+      vi.mocked(verify).mockRejectedValue(new Error("rpc down"));
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/verify",
+        headers,
+        body: { paymentPayload, paymentRequirements },
+      });
+
+      expect(result?.body).toMatchObject({
+        isValid: false,
+        invalidReason: "unexpected_verify_error",
+        errorMessage: "rpc down",
+      });
+    });
+  });
+
+  describe("/settle", () => {
+    it("should settle and pass the upto amount through", async () => {
+      vi.mocked(settle).mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "base-sepolia",
+        payer: PAYER,
+      });
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/settle",
+        headers,
+        body: { paymentPayload, paymentRequirements, amount: "500", waitUntil: "confirmed" },
+      });
+
+      expect(result).toEqual({
+        status: 200,
+        body: { success: true, transaction: "0xabc", network: "base-sepolia", payer: PAYER },
+      });
+      expect(settle).toHaveBeenCalledWith(
+        expect.anything(),
+        paymentPayload,
+        paymentRequirements,
+        undefined,
+        undefined,
+        "500",
+        { waitUntil: "confirmed", onConfirmed: undefined },
+      );
+    });
+
+    it("should return submitted settlements and report their confirmation", async () => {
+      vi.mocked(settle).mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "base-sepolia",
+        payer: PAYER,
+        status: "submitted",
+      });
+      const onSettlementConfirmed = vi.fn();
+      const server = new FacilitatorServer({
+        networks: { "base-sepolia": { privateKey: PRIVATE_KEY } },
+        onSettlementConfirmed,
+      });
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/settle",
+        headers: {},
+        body: { paymentPayload, paymentRequirements, waitUntil: "submitted" },
+      });
+
+      expect(result?.body).toMatchObject({ success: true, status: "submitted" });
+      expect(settle).toHaveBeenCalledWith(
+        expect.anything(),
+        paymentPayload,
+        paymentRequirements,
+        undefined,
+        undefined,
+        undefined,
+        { waitUntil: "submitted", onConfirmed: onSettlementConfirmed },
+      );
+    });
+
+    it("should expose errorReason as error", async () => {
+      vi.mocked(settle).mockResolvedValue({
+        success: false,
+        errorReason: "insufficient_funds",
+        transaction: "",
+        network: "base-sepolia",
+        payer: PAYER,
+      });
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "POST",
+        path: "/settle",
+        headers,
+        body: { paymentPayload, paymentRequirements },
+      });
+
+      expect(result?.body).toMatchObject({
+        success: false,
+        errorReason: "insufficient_funds",
+        error: "insufficient_funds",
+      });
+    });
+  });
+
+  describe("/supported", () => {
+    it("should list exact and upto kinds for configured EVM networks", async () => {
+      const server = createServer();
+
+      const { kinds } = await server.supported();
+
+      expect(kinds.map(kind => kind.extra?.authorizationType ?? kind.scheme)).toEqual([
+        "eip3009",
+        "permit",
+        "permit2",
+        "upto",
+      ]);
+      expect(kinds[3]).toEqual({
+        x402Version: 1,
+        scheme: "upto",
+        network: "base-sepolia",
+        extra: { spender: FACILITATOR_ADDRESS },
+      });
+    });
+
+    it("should only list exact for configured Sui networks", async () => {
+      const server = new FacilitatorServer({
+        networks: { "sui-testnet": { privateKey: SUI_PRIVATE_KEY } },
+      });
+
+      expect(await server.supported()).toEqual({
+        kinds: [{ x402Version: 1, scheme: "exact", network: "sui-testnet" }],
+      });
+      expect(await server.supported(84532)).toEqual({ kinds: [] });
+    });
+
+    it("should filter by chainId", async () => {
+      const server = createServer();
+
+      const result = await server.handle({
+        method: "GET",
+        path: "/supported",
+        headers,
+        query: { chainId: "1" },
+      });
+
+      expect(result?.body).toEqual({ kinds: [] });
+    });
+  });
+
+  describe("/discovery/resources", () => {
+    it("should paginate resources", async () => {
+      const server = createServer();
+
+      const result = server.listResources({ limit: "1", offset: "1" });
+
+      expect(result.items.map(item => item.resource)).toEqual(["https://example.com/b"]);
+      expect(result.pagination).toEqual({ limit: 1, offset: 1, total: 2 });
+    });
+  });
+
+  describe("fetch", () => {
+    it("should handle Web standard requests", async () => {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, payer: PAYER });
+      const server = createServer();
+
+      const response = await server.fetch(
+        new Request("http://localhost/verify", {
+          method: "POST",
+          headers: { ...headers, "Content-Type": "application/json" },
+          body: JSON.stringify({ paymentPayload, paymentRequirements }),
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ isValid: true, success: true });
+    });
+
+    it("should return 404 for unknown routes", async () => {
+      const server = createServer();
+      const response = await server.fetch(new Request("http://localhost/unknown"));
+      expect(response.status).toBe(404);
+    });
+  });
+});
+
+describe("createExpressHandler", () => {
+  it("should respond to facilitator routes and pass others to next", async () => {
+    const server = createServer();
+    const handler = createExpressHandler(server);
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    const next = vi.fn();
+
+    await handler({ method: "GET", path: "/supported", headers }, res, next);
+    await handler({ method: "GET", path: "/other", headers }, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith();
+  });
+});
@@ -0,0 +1,504 @@
+import { settle, verify } from "x402x/facilitator";
+import { getNetworkId } from "x402x/shared";
+import {
+  ListDiscoveryResourcesRequestSchema,
+  SettleRequestSchema,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+  SupportedSuiNetworks,
+  VerifyRequestSchema,
+  createSigner,
+  evm,
+  isSuiSignerWallet,
+  isSvmSignerWallet,
+  type DiscoveredResource,
+  type ListDiscoveryResourcesResponse,
+  type Network,
+  type SettleRequest,
+  type Signer,
+  type SupportedPaymentKind,
+  type SupportedPaymentKindsResponse,
+  type VerifyRequest,
+  type X402Config,
+} from "x402x/types";
+import type { ZodError } from "zod";
+import type {
+  FacilitatorRequest,
+  FacilitatorResponse,
+  FacilitatorServerConfig,
+  FacilitatorSettleResponse,
+  FacilitatorVerifyResponse,
+  NetworkSignerConfig,
+} from "./types";
+
+/**
+ * /discovery/resources 默认分页大小
+ */
+const DEFAULT_DISCOVERY_LIMIT = 100;
+
+/**
+ * Facilitator HTTP 服务
+ *
+ * 基于 x402x/facilitator 的 verify / settle 实现 /verify、/settle、/supported 和
+ * /discovery/resources，与框架无关，通过 createExpressHandler 或 fetch 接入 HTTP 服务
+ *
+ * @example
+ * ```typescript
+ * const facilitator = new FacilitatorServer({
+ *   networks: {
+ *     "base-sepolia": { privateKey: process.env.EVM_PRIVATE_KEY! },
+ *     "solana-devnet": { privateKey: process.env.SVM_PRIVATE_KEY! },
+ *   },
+ *   apiKeys: [process.env.FACILITATOR_API_KEY!],
+ * });
+ *
+ * app.use(express.json(), createExpressHandler(facilitator));
+ * ```
+ */
+export class FacilitatorServer {
+  private networks: Record<string, NetworkSignerConfig>;
+  private apiKeys: Set<string>;
+  private x402Config?: X402Config;
+  private resources: DiscoveredResource[];
+  private onSettlementConfirmed?: FacilitatorServerConfig["onSettlementConfirmed"];
+  private simulateVerify: boolean;
+  private signers = new Map<string, Promise<Signer>>();
+
+  /**
+   * 构造函数
+   *
+   * @param config - FacilitatorServer 配置
+   */
+  constructor(config: FacilitatorServerConfig) {
+    const networks = Object.keys(config.networks || {});
+    if (networks.length === 0) {
+      throw new Error("At least one network is required");
+    }
+    for (const network of networks) {
+      if (!isSupportedNetwork(network)) {
+        throw new Error(`Unsupported network: ${network}`);
+      }
+    }
+
+    this.networks = config.networks;
+    this.apiKeys = new Set(config.apiKeys || []);
+    this.x402Config = config.x402Config;
+    this.resources = config.resources || [];
+    this.onSettlementConfirmed = config.onSettlementConfirmed;
+    this.simulateVerify = config.simulateVerify ?? false;
+  }
+
+  /**
+   * 处理请求
+   *
+   * @param request - 框架无关的请求
+   * @returns 响应，路由不存在时返回 null
+   */
+  async handle(request: FacilitatorRequest): Promise<FacilitatorResponse | null> {
+    const route = `${request.method.toUpperCase()} ${request.path.replace(/\/+$/, "")}`;
+    if (!ROUTES.includes(route)) {
+      return null;
+    }
+
+    if (!this.isAuthorized(request.headers)) {
+      return {
+        status: 401,
+        body: { error: "unauthorized", errorMessage: "Missing or invalid API key" },
+      };
+    }
+
+    switch (route) {
+      case "POST /verify": {
+        const parsed = VerifyRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+          return { status: 400, body: invalidVerifyRequest(parsed.error) };
+        }
+        return { status: 200, body: await this.verify(parsed.data) };
+      }
+
+      case "POST /settle": {
+        const parsed = SettleRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+          return { status: 400, body: invalidSettleRequest(parsed.error) };
+        }
+        return { status: 200, body: await this.settle(parsed.data) };
+      }
+
+      case "GET /supported": {
+        const chainId = Number(getQueryValue(request.query, "chainId"));
+        return { status: 200, body: await this.supported(chainId || undefined) };
+      }
+
+      default:
+        return { status: 200, body: this.listResources(request.query) };
+    }
+  }
+
+  /**
+   * Web 标准 fetch handler，可用于 Hono、Bun、Deno、Cloudflare Workers 等
+   *
+   * @param request - Web 标准 Request
+   * @returns Web 标准 Response
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    let body: unknown;
+    if (request.method.toUpperCase() === "POST") {
+      body = await request.json().catch(() => undefined);
+    }
+
+    const result = await this.handle({
+      method: request.method,
+      path: url.pathname,
+      headers,
+      query,
+      body,
+    });
+
+    return new Response(JSON.stringify(result ? result.body : { error: "not_found" }), {
+      status: result ? result.status : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * 验证支付
+   *
+   * @param request - 已校验的 /verify 请求体
+   * @returns 验证结果
+   */
+  async verify(request: VerifyRequest): Promise<FacilitatorVerifyResponse> {
+    const { paymentPayload, paymentRequirements } = request;
+    if (!this.acceptsNetwork(paymentPayload.network, paymentRequirements.network)) {
+      return toVerifyResponse({ isValid: false, invalidReason: "invalid_network" });
+    }
+
+    try {
+      const signer = await this.getSigner(paymentRequirements.network);
+      const result = await verify(signer, paymentPayload, paymentRequirements, this.x402Config, {
+        simulate: this.simulateVerify,
+      });
+      return toVerifyResponse(result);
+    } catch (error) {
+      return toVerifyResponse(
+        { isValid: false, invalidReason: "unexpected_verify_error" },
+        getErrorMessage(error),
+      );
+    }
+  }
+
+  /**
+   * 结算支付
+   *
+   * @param request - 已校验的 /settle 请求体，amount 仅用于 "upto" scheme，
+   * waitUntil 为 "simulated" 时仅模拟交易，为 "submitted" 时交易提交后立即返回
+   * @returns 结算结果
+   */
+  async settle(request: SettleRequest): Promise<FacilitatorSettleResponse> {
+    const { paymentPayload, paymentRequirements, amount, waitUntil } = request;
+    if (!this.acceptsNetwork(paymentPayload.network, paymentRequirements.network)) {
+      return toSettleResponse({
+        success: false,
+        errorReason: "invalid_network",
+        transaction: "",
+        network: paymentRequirements.network,
+      });
+    }
+
+    try {
+      const signer = await this.getSigner(paymentRequirements.network);
+      const result = await settle(
+        signer,
+        paymentPayload,
+        paymentRequirements,
+        this.x402Config,
+        undefined,
+        amount,
+        { waitUntil, onConfirmed: this.onSettlementConfirmed },
+      );
+      return toSettleResponse(result);
+    } catch (error) {
+      return toSettleResponse(
+        {
+          success: false,
+          errorReason: "unexpected_settle_error",
+          transaction: "",
+          network: paymentRequirements.network,
+        },
+        getErrorMessage(error),
+      );
+    }
+  }
+
+  /**
+   * 获取支持的支付类型（根据已配置的网络生成）
+   *
+   * @param chainId - 可选，只返回指定 chainId 的网络
+   * @returns 支持的支付类型列表
+   */
+  async supported(chainId?: number): Promise<SupportedPaymentKindsResponse> {
+    const kinds: SupportedPaymentKind[] = [];
+
+    for (const network of Object.keys(this.networks) as Network[]) {
+      // Sui 网络没有数字 chainId，按 chainId 过滤时不会匹配
+      if (
+        chainId !== undefined &&
+        (SupportedSuiNetworks.includes(network) || getNetworkId(network) !== chainId)
+      ) {
+        continue;
+      }
+
+      const address = getSignerAddress(await this.getSigner(network));
+
+      // Solana: 手续费由 facilitator 支付
+      if (SupportedSVMNetworks.includes(network)) {
+        kinds.push({ x402Version: 1, scheme: "exact", network, extra: { feePayer: address } });
+        continue;
+      }
+
+      // Sui: 买家自付 gas，只支持 exact
+      if (SupportedSuiNetworks.includes(network)) {
+        kinds.push({ x402Version: 1, scheme: "exact", network });
+        continue;
+      }
+
+      kinds.push(
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network,
+          extra: {
+            authorizationType: "eip3009",
+            description: "USDC/EURC with transferWithAuthorization",
+          },
+        },
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network,
+          extra: {
+            authorizationType: "permit",
+            description: "ERC20 tokens with EIP-2612 Permit support",
+          },
+        },
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network,
+          extra: {
+            authorizationType: "permit2",
+            description: "Any ERC20 token via Uniswap Permit2",
+          },
+        },
+        // upto: 买家授权给 facilitator，按实际用量结算
+        { x402Version: 1, scheme: "upto", network, extra: { spender: address } },
+      );
+    }
+
+    return { kinds };
+  }
+
+  /**
+   * 列出可发现的资源
+   *
+   * @param query - 查询参数 type / limit / offset
+   * @returns 分页的资源列表
+   */
+  listResources(query: FacilitatorRequest["query"] = {}): ListDiscoveryResourcesResponse {
+    const limit = getQueryValue(query, "limit");
+    const offset = getQueryValue(query, "offset");
+    const parsed = ListDiscoveryResourcesRequestSchema.safeParse({
+      type: getQueryValue(query, "type"),
+      limit: limit === undefined ? undefined : Number(limit),
+      offset: offset === undefined ? undefined : Number(offset),
+    });
+    const request = parsed.success ? parsed.data : {};
+
+    const items = request.type
+      ? this.resources.filter(resource => resource.type === request.type)
+      : this.resources;
+    const pageLimit = request.limit && request.limit > 0 ? request.limit : DEFAULT_DISCOVERY_LIMIT;
+    const pageOffset = request.offset && request.offset > 0 ? request.offset : 0;
+
+    return {
+      x402Version: 1,
+      items: items.slice(pageOffset, pageOffset + pageLimit),
+      pagination: { limit: pageLimit, offset: pageOffset, total: items.length },
+    };
+  }
+
+  /**
+   * 校验 API key
+   *
+   * @param headers - 请求 headers
+   * @returns 未配置 apiKeys 或 Bearer token 匹配时返回 true
+   */
+  private isAuthorized(headers: FacilitatorRequest["headers"]): boolean {
+    if (this.apiKeys.size === 0) {
+      return true;
+    }
+
+    const header = headers.authorization ?? headers.Authorization;
+    const value = Array.isArray(header) ? header[0] : header;
+    const match = value?.match(/^Bearer\s+(.+)$/i);
+    return !!match && this.apiKeys.has(match[1].trim());
+  }
+
+  /**
+   * 检查网络是否已配置，且 payload 与 requirements 的网络一致
+   *
+   * @param payloadNetwork - 支付负载的网络
+   * @param requirementsNetwork - 支付要求的网络
+   * @returns 是否接受该网络
+   */
+  private acceptsNetwork(payloadNetwork: string, requirementsNetwork: string): boolean {
+    return payloadNetwork === requirementsNetwork && requirementsNetwork in this.networks;
+  }
+
+  /**
+   * 获取网络对应的 signer（按需创建并缓存）
+   *
+   * @param network - 网络名称
+   * @returns Signer
+   */
+  private getSigner(network: string): Promise<Signer> {
+    let signer = this.signers.get(network);
+    if (!signer) {
+      const { privateKey, rpcUrl } = this.networks[network];
+      // 网络的 rpcUrl 优先，其次使用 x402Config.evmConfig 中的 RPC、备用 RPC 和超时
+      signer = createSigner(network, privateKey, rpcUrl, this.x402Config?.evmConfig);
+      // 创建失败时允许下次重试
+      signer.catch(() => this.signers.delete(network));
+      this.signers.set(network, signer);
+    }
+    return signer;
+  }
+}
+
+/**
+ * 支持的路由
+ */
+const ROUTES = ["POST /verify", "POST /settle", "GET /supported", "GET /discovery/resources"];
+
+/**
+ * 判断网络是否受 x402 支持
+ *
+ * @param network - 网络名称
+ * @returns 是否为支持的 EVM、Solana 或 Sui 网络
+ */
+function isSupportedNetwork(network: string): boolean {
+  return (
+    SupportedEVMNetworks.includes(network as Network) ||
+    SupportedSVMNetworks.includes(network as Network) ||
+    SupportedSuiNetworks.includes(network as Network)
+  );
+}
+
+/**
+ * 获取 signer 地址
+ *
+ * @param signer - EVM、Solana 或 Sui signer
+ * @returns 地址
+ */
+function getSignerAddress(signer: Signer): string {
+  if (isSvmSignerWallet(signer)) {
+    return signer.address;
+  }
+  if (isSuiSignerWallet(signer)) {
+    return signer.toSuiAddress();
+  }
+  return evm.isSignerWallet(signer) ? signer.account.address : signer.address;
+}
+
+/**
+ * 读取单个查询参数
+ *
+ * @param query - 查询参数
+ * @param key - 参数名
+ * @returns 参数值
+ */
+function getQueryValue(query: FacilitatorRequest["query"], key: string): string | undefined {
+  const value = query?.[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * 转换为 /verify 响应
+ *
+ * @param result - x402 VerifyResponse
+ * @param errorMessage - 可选的错误详情
+ * @returns 附带 success / error 的响应
+ */
+function toVerifyResponse(
+  result: FacilitatorVerifyResponse | Omit<FacilitatorVerifyResponse, "success">,
+  errorMessage?: string,
+): FacilitatorVerifyResponse {
+  return {
+    ...result,
+    success: result.isValid,
+    ...(result.invalidReason && { error: result.invalidReason }),
+    ...(errorMessage && { errorMessage }),
+  };
+}
+
+/**
+ * 转换为 /settle 响应
+ *
+ * @param result - x402 SettleResponse
+ * @param errorMessage - 可选的错误详情
+ * @returns 附带 error 的响应
+ */
+function toSettleResponse(
+  result: FacilitatorSettleResponse,
+  errorMessage?: string,
+): FacilitatorSettleResponse {
+  return {
+    ...result,
+    ...(result.errorReason && { error: result.errorReason }),
+    ...(errorMessage && { errorMessage }),
+  };
+}
+
+/**
+ * 请求体校验失败时的 /verify 响应
+ *
+ * @param error - Zod 校验错误
+ * @returns invalid_payload 响应
+ */
+function invalidVerifyRequest(error: ZodError): FacilitatorVerifyResponse {
+  return toVerifyResponse({ isValid: false, invalidReason: "invalid_payload" }, error.message);
+}
+
+/**
+ * 请求体校验失败时的 /settle 响应（无法确定网络，不含 transaction / network）
+ *
+ * @param error - Zod 校验错误
+ * @returns invalid_payload 响应
+ */
+function invalidSettleRequest(error: ZodError): Partial<FacilitatorSettleResponse> {
+  return {
+    success: false,
+    errorReason: "invalid_payload",
+    error: "invalid_payload",
+    errorMessage: error.message,
+  };
+}
+
+/**
+ * 提取错误信息
+ *
+ * @param error - 错误
+ * @returns 错误信息
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
@@ -0,0 +1,85 @@
+import type { DiscoveredResource, SettleResponse, VerifyResponse, X402Config } from "x402x/types";
+
+/**
+ * 单个网络的 signer 配置
+ */
+export interface NetworkSignerConfig {
+  /** 私钥：EVM 网络为 hex 字符串，Solana 网络为 base58 字符串，Sui 网络为 suiprivkey 字符串 */
+  privateKey: string;
+
+  /** 自定义 RPC URL（仅 EVM 网络），优先于 x402Config.evmConfig */
+  rpcUrl?: string;
+}
+
+/**
+ * FacilitatorServer 配置选项
+ */
+export interface FacilitatorServerConfig {
+  /**
+   * 按网络名称配置 signer (必填)
+   * 未配置的网络在 /verify、/settle 中返回 invalid_network
+   */
+  networks: Record<string, NetworkSignerConfig>;
+
+  /**
+   * 允许访问的 API key 列表
+   * 与 x402x-facilitator 的 Facilitator 发送的 `Authorization: Bearer <apiKey>` 对应，不提供时不校验
+   */
+  apiKeys?: string[];
+
+  /** x402 配置，svmConfig.rpcUrl 用于 Solana 验证和结算，evmConfig 配置 EVM 网络的 RPC、备用 RPC 和超时 */
+  x402Config?: X402Config;
+
+  /** /discovery/resources 返回的资源列表 */
+  resources?: DiscoveredResource[];
+
+  /**
+   * /verify 时是否额外通过 simulateContract 模拟结算调用（仅 EVM "exact" scheme），默认 false
+   * 开启后会多一次 RPC 调用，结算会回滚的支付返回 settlement_simulation_failed
+   */
+  simulateVerify?: boolean;
+
+  /**
+   * waitUntil 为 "submitted" 的结算在链上确认（或失败）后的回调
+   * 仅 EVM 网络，response.status 为 "confirmed" 时包含 breakdown
+   */
+  onSettlementConfirmed?: (response: SettleResponse) => void | Promise<void>;
+}
+
+/**
+ * 框架无关的请求
+ */
+export interface FacilitatorRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/**
+ * 框架无关的响应
+ */
+export interface FacilitatorResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * /verify 响应
+ * x402 VerifyResponse，附带 x402x-facilitator 客户端读取的 success / error 字段
+ */
+export type FacilitatorVerifyResponse = VerifyResponse & {
+  success: boolean;
+  error?: VerifyResponse["invalidReason"];
+  errorMessage?: string;
+};
+
+/**
+ * /settle 响应
+ * x402 SettleResponse，附带 x402x-facilitator 客户端读取的 error 字段
+ */
+export type FacilitatorSettleResponse = SettleResponse & {
+  error?: SettleResponse["errorReason"];
+  errorMessage?: string;
+};
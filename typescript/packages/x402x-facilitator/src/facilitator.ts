@@ -3,10 +3,12 @@ import type {
   PaymentPayload,
   PaymentRequirements,
   SettleResponse,
+  SettlementBreakdown,
   SupportedResponse,
   VerifyResponse,
   WaitUntil,
 } from "./types";
+import { SVM_NETWORKS } from "./types";
 
 /**
  * WTF Facilitator 默认 URL
@@ -51,6 +53,7 @@ export class Facilitator {
 
     this.config = {
       recipientAddress: config.recipientAddress,
+      svmRecipientAddress: config.svmRecipientAddress || "",
       waitUntil: config.waitUntil || "confirmed",
       baseUrl: config.baseUrl || DEFAULT_FACILITATOR_URL,
       apiKey: config.apiKey || "",
@@ -70,6 +73,13 @@ export class Facilitator {
     return this.config.recipientAddress;
   }
 
+  /**
+   * 获取 Solana recipient 地址
+   */
+  get svmRecipientAddress(): string {
+    return this.config.svmRecipientAddress;
+  }
+
   /**
    * 获取等待策略
    */
@@ -137,12 +147,14 @@ export class Facilitator {
    * @param payload 支付负载
    * @param requirements 支付要求
    * @param waitUntil 可选的等待策略，覆盖配置中的默认值
+   * @param amount 可选的实际结算金额 ("upto" scheme)，不超过 maxAmountRequired
    * @returns 结算结果
    */
   async settle(
     payload: PaymentPayload,
     requirements: PaymentRequirements,
     waitUntil?: WaitUntil,
+    amount?: string,
   ): Promise<SettleResponse> {
     try {
       const response = await fetch(`${this.config.baseUrl}/settle`, {
@@ -156,6 +168,7 @@ export class Facilitator {
           paymentPayload: payload,
           paymentRequirements: requirements,
           waitUntil: waitUntil || this.config.waitUntil,
+          ...(amount !== undefined ? { amount } : {}),
         }),
       });
 
@@ -173,6 +186,8 @@ export class Facilitator {
         transaction?: string;
         network?: string;
         receipt?: any;
+        breakdown?: SettlementBreakdown;
+        status?: WaitUntil;
         error?: string;
         errorMessage?: string;
       };
@@ -181,6 +196,8 @@ export class Facilitator {
         transaction: data.transaction,
         network: data.network,
         receipt: data.receipt,
+        breakdown: data.breakdown,
+        status: data.status,
         error: data.error,
         errorMessage: data.errorMessage,
       };
@@ -228,6 +245,55 @@ export class Facilitator {
     }
   }
 
+  /**
+   * 获取指定网络的收款地址
+   * @param network 网络名称
+   * @returns EVM 网络返回 recipientAddress，Solana 网络返回 svmRecipientAddress
+   */
+  getRecipientAddress(network: string): string {
+    if (!isSvmNetwork(network)) {
+      return this.config.recipientAddress;
+    }
+    if (!this.config.svmRecipientAddress) {
+      throw new Error(
+        `svmRecipientAddress is required for network '${network}'`,
+      );
+    }
+    return this.config.svmRecipientAddress;
+  }
+
+  /**
+   * 获取 Solana 网络的手续费支付地址 (feePayer)
+   * 从 /supported 返回的 kinds[].extra.feePayer 中读取
+   * @param network Solana 网络名称
+   * @returns feePayer 地址，facilitator 未提供时返回 undefined
+   */
+  async getFeePayer(network: string): Promise<string | undefined> {
+    const supported = await this.supported();
+    const kind = supported.kinds.find(
+      (kind) =>
+        kind.network === network && typeof kind.extra?.feePayer === "string",
+    );
+    return kind?.extra?.feePayer;
+  }
+
+  /**
+   * 获取 "upto" scheme 的授权地址 (spender)
+   * 从 /supported 返回的 upto kinds[].extra.spender 中读取
+   * @param network 网络名称
+   * @returns spender 地址，facilitator 未提供时返回 undefined
+   */
+  async getSpender(network: string): Promise<string | undefined> {
+    const supported = await this.supported();
+    const kind = supported.kinds.find(
+      (kind) =>
+        kind.scheme === "upto" &&
+        kind.network === network &&
+        typeof kind.extra?.spender === "string",
+    );
+    return kind?.extra?.spender;
+  }
+
   /**
    * 获取完整配置
    */
@@ -236,3 +302,11 @@ export class Facilitator {
   }
 }
 
+/**
+ * 判断是否为 Solana (SVM) 网络
+ * @param network 网络名称
+ * @returns 是否为 SVM 网络
+ */
+export function isSvmNetwork(network: string): boolean {
+  return (SVM_NETWORKS as readonly string[]).includes(network);
+}
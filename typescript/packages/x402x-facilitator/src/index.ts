@@ -1,3 +1,3 @@
-export { Facilitator } from "./facilitator";
+export { Facilitator, isSvmNetwork } from "./facilitator";
 export * from "./types";
 
@@ -1,7 +1,14 @@
 /**
  * Facilitator 等待策略
  */
-export type WaitUntil = "confirmed";
+export type WaitUntil = "simulated" | "submitted" | "confirmed";
+
+/**
+ * Solana (SVM) 网络
+ */
+export const SVM_NETWORKS = ["solana", "solana-devnet"] as const;
+
+export type SvmNetwork = (typeof SVM_NETWORKS)[number];
 
 /**
  * Facilitator 配置选项
@@ -12,6 +19,11 @@ export interface FacilitatorConfig {
    */
   recipientAddress: string;
 
+  /**
+   * Solana 收款地址 (可选，接受 solana / solana-devnet 支付时必填)
+   */
+  svmRecipientAddress?: string;
+
   /**
    * 等待策略
    * - "simulated": 仅模拟交易 (最快)
@@ -67,6 +79,29 @@ export interface VerifyResponse {
   errorMessage?: string;
 }
 
+/**
+ * 结算金额明细，从结算交易的 SettlementExecuted / SettledSplit / SettledDirect 或 ERC-20 Transfer 日志解析
+ */
+export interface SettlementBreakdown {
+  /** 明细来源的日志 */
+  source: "SettlementExecuted" | "SettledSplit" | "SettledDirect" | "Transfer";
+
+  /** 付款人支付的总金额（最小单位） */
+  gross: string;
+
+  /** 手续费（最小单位） */
+  fee: string;
+
+  /** 收款方实际到账金额（最小单位） */
+  net: string;
+
+  /** 手续费接收地址（有手续费时存在） */
+  feeRecipient?: string;
+
+  /** 实际收款地址 */
+  beneficiary: string;
+}
+
 /**
  * 结算响应
  */
@@ -77,6 +112,14 @@ export interface SettleResponse {
   error?: string;
   errorMessage?: string;
   receipt?: any;
+  breakdown?: SettlementBreakdown;
+  /**
+   * 结算进度，与请求的等待策略对应
+   * - "simulated": 交易仅经过模拟，未上链，transaction 为空
+   * - "submitted": 交易已提交，尚未确认，不含 breakdown
+   * - "confirmed": 交易已在链上确认
+   */
+  status?: WaitUntil;
 }
 
 /**
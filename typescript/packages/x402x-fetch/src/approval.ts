@@ -0,0 +1,73 @@
+import { PaymentRequirements } from "x402x/types";
+
+/**
+ * Authorization type used to sign a payment
+ */
+export type PaymentType = "eip3009" | "permit" | "permit2";
+
+/**
+ * A payment about to be signed, passed to the onPaymentRequired hook
+ */
+export interface PaymentQuote {
+  /** The requested resource (URL) */
+  resource: string;
+
+  /** The selected payment requirements */
+  requirements: PaymentRequirements;
+
+  /** Every payment option offered by the server */
+  accepts: PaymentRequirements[];
+
+  /** Authorization type that will be signed */
+  paymentType: PaymentType;
+
+  /** Amount in base units */
+  amount: string;
+
+  /** Amount in human units (e.g. "0.1"), undefined if the token decimals are unknown */
+  formattedAmount?: string;
+
+  /** Token decimals, from `extra.decimals` or read from the token contract */
+  decimals?: number;
+}
+
+/**
+ * Decision of the onPaymentRequired hook.
+ *
+ * - `true` / `{ approved: true }` signs the quoted payment
+ * - `{ approved: true, requirements }` signs another entry of `quote.accepts` instead
+ * - `false` / `{ approved: false, reason }` rejects the payment with a PaymentRejectedError
+ */
+export type PaymentApproval =
+  | boolean
+  | { approved: true; requirements?: PaymentRequirements }
+  | { approved: false; reason?: string };
+
+/**
+ * Hook called before a payment is signed, e.g. to show a confirmation dialog
+ */
+export type OnPaymentRequired = (quote: PaymentQuote) => PaymentApproval | Promise<PaymentApproval>;
+
+/**
+ * Error thrown when the onPaymentRequired hook rejects a payment
+ */
+export class PaymentRejectedError extends Error {
+  /** The rejected payment */
+  readonly quote: PaymentQuote;
+
+  /** Reason given by the hook */
+  readonly reason?: string;
+
+  /**
+   * Creates a payment rejected error
+   *
+   * @param quote - The rejected payment
+   * @param reason - Reason given by the hook
+   */
+  constructor(quote: PaymentQuote, reason?: string) {
+    super(`Payment for ${quote.resource} rejected${reason ? `: ${reason}` : ""}`);
+    this.name = "PaymentRejectedError";
+    this.quote = quote;
+    this.reason = reason;
+  }
+}
@@ -1,25 +1,51 @@
-import {
-  ChainIdToNetwork,
-  PaymentRequirementsSchema,
-  Signer,
-  evm,
-  MultiNetworkSigner,
-  isMultiNetworkSigner,
-  isSvmSignerWallet,
-  Network,
-  X402Config,
-} from "x402x/types";
-import {
-  createPaymentHeader,
-  PaymentRequirementsSelector,
-  selectPaymentRequirements,
-} from "x402x/client";
-import { exact } from "x402x/schemes";
+import { Signer, MultiNetworkSigner, X402Config } from "x402x/types";
+import { PaymentRequirementsSelector, selectPaymentRequirements } from "x402x/client";
+import { createPaymentFromRequirements, PAYMENT_TYPE_HEADER } from "./payment";
+import type { SpendingPolicy } from "./policy";
+import type { OnPaymentRequired } from "./approval";
+import type { OnPermit2ApprovalRequired } from "./permit2";
+
+export { PAYMENT_TYPE_HEADER } from "./payment";
+export { PaymentRejectedError } from "./approval";
+export type { PaymentType, PaymentQuote, PaymentApproval, OnPaymentRequired } from "./approval";
+export type {
+  Permit2ApprovalRequest,
+  Permit2ApprovalDecision,
+  OnPermit2ApprovalRequired,
+} from "./permit2";
+export { SpendingPolicy, SpendingPolicyError } from "./policy";
+export type {
+  SpendingLimits,
+  AssetSpendingLimits,
+  SpendingPolicyConfig,
+  SpendingPolicyRule,
+} from "./policy";
+export { MemorySpendingLedger, FileSpendingLedger } from "./ledger";
+export type { SpendingLedger, SpendingRecord } from "./ledger";
+export { wrapCallToolWithPayment } from "./mcp";
+export type { McpCallToolParams, McpCallToolResult } from "./mcp";
 
 /**
- * Header name for specifying payment type
+ * Options for wrapFetchWithPayment
  */
-export const PAYMENT_TYPE_HEADER = "x-payment-type" as const;
+export interface WrapFetchWithPaymentOptions {
+  /** Spending policy every payment must fit, blocked payments throw a SpendingPolicyError */
+  spendingPolicy?: SpendingPolicy;
+
+  /**
+   * Called before a payment is signed with the selected requirements, the payment type and the
+   * human readable amount. Can approve, reject (throws a PaymentRejectedError) or pick another
+   * `accepts` entry, e.g. to show a confirmation dialog.
+   */
+  onPaymentRequired?: OnPaymentRequired;
+
+  /**
+   * Called when paying with Permit2 and the Permit2 contract is not approved for the token.
+   * Chooses a gasless EIP-2612 permit submitted by the facilitator, a one-time approve transaction,
+   * or cancels the payment. Without this hook such payments fail before signing.
+   */
+  onPermit2ApprovalRequired?: OnPermit2ApprovalRequired;
+}
 
 /**
  * Enables the payment of APIs using the x402 payment protocol.
@@ -28,15 +54,20 @@ export const PAYMENT_TYPE_HEADER = "x-payment-type" as const;
  * by creating and sending a payment header. It will:
  * 1. Make the initial request
  * 2. If a 402 response is received, parse the payment requirements
- * 3. Verify the payment amount is within the allowed maximum
- * 4. Create a payment header using the provided wallet client
- * 5. Retry the request with the payment header
+ * 3. Verify the payment amount is within the allowed maximum and the spending policy
+ * 4. Ask the onPaymentRequired hook, if any, to approve the payment
+ * 5. Create a payment header using the provided wallet client
+ * 6. Retry the request with the payment header
  *
  * @param fetch - The fetch function to wrap (typically globalThis.fetch)
  * @param walletClient - The wallet client used to sign payment messages
  * @param maxValue - The maximum allowed payment amount in base units (defaults to 0.1 USDC)
  * @param paymentRequirementsSelector - A function that selects the payment requirements from the response
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param options - Optional wrapper options
+ * @param options.spendingPolicy - Spending policy every payment must fit
+ * @param options.onPaymentRequired - Hook that approves, rejects or changes a payment before signing
+ * @param options.onPermit2ApprovalRequired - Hook that approves Permit2 when the allowance is missing
  * @returns A wrapped fetch function that handles 402 responses automatically
  *
  * @example
@@ -46,7 +77,18 @@ export const PAYMENT_TYPE_HEADER = "x-payment-type" as const;
  *
  * // With custom RPC configuration
  * const fetchWithPay = wrapFetchWithPayment(fetch, wallet, undefined, undefined, {
- *   svmConfig: { rpcUrl: "http://localhost:8899" }
+ *   svmConfig: { rpcUrl: "http://localhost:8899" },
+ *   evmConfig: { networks: { bsc: { rpcUrl: "https://my-bsc-rpc.com" } } },
+ * });
+ *
+ * // With a spending policy
+ * const fetchWithPay = wrapFetchWithPayment(fetch, wallet, undefined, undefined, undefined, {
+ *   spendingPolicy: new SpendingPolicy({ hosts: { "*": { daily: "5" } } }),
+ * });
+ *
+ * // Ask the user before signing
+ * const fetchWithPay = wrapFetchWithPayment(fetch, wallet, undefined, undefined, undefined, {
+ *   onPaymentRequired: async quote => confirm(`Pay ${quote.formattedAmount} for ${quote.resource}?`),
  * });
  *
  * // Make a request that may require payment
@@ -54,6 +96,8 @@ export const PAYMENT_TYPE_HEADER = "x-payment-type" as const;
  * ```
  *
  * @throws {Error} If the payment amount exceeds the maximum allowed value
+ * @throws {SpendingPolicyError} If the spending policy blocks the payment
+ * @throws {PaymentRejectedError} If the onPaymentRequired hook rejects the payment
  * @throws {Error} If the request configuration is missing
  * @throws {Error} If a payment has already been attempted for this request
  * @throws {Error} If there's an error creating the payment header
@@ -64,6 +108,11 @@ export function wrapFetchWithPayment(
   maxValue?: bigint,
   paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
   config?: X402Config,
+  {
+    spendingPolicy,
+    onPaymentRequired,
+    onPermit2ApprovalRequired,
+  }: WrapFetchWithPaymentOptions = {},
 ) {
   return async (input: RequestInfo, init?: RequestInit) => {
     const response = await fetch(input, init);
@@ -76,77 +125,22 @@ export function wrapFetchWithPayment(
       x402Version: number;
       accepts: unknown[];
     };
-    const parsedPaymentRequirements = accepts.map(x => PaymentRequirementsSchema.parse(x));
-
-    const network = isMultiNetworkSigner(walletClient)
-      ? undefined
-      : evm.isSignerWallet(walletClient as typeof evm.EvmSigner)
-        ? ChainIdToNetwork[(walletClient as typeof evm.EvmSigner).chain?.id]
-        : isSvmSignerWallet(walletClient)
-          ? (["solana", "solana-devnet"] as Network[])
-          : undefined;
-
-    const selectedPaymentRequirements = paymentRequirementsSelector(
-      parsedPaymentRequirements,
-      network,
-      "exact",
+    const { paymentHeader } = await createPaymentFromRequirements(
+      walletClient,
+      x402Version,
+      accepts,
+      maxValue,
+      paymentRequirementsSelector,
+      config,
+      response.headers.get(PAYMENT_TYPE_HEADER),
+      {
+        resource: input instanceof Request ? input.url : String(input),
+        spendingPolicy,
+        onPaymentRequired,
+        onPermit2ApprovalRequired,
+      },
     );
 
-    if (maxValue && BigInt(selectedPaymentRequirements.maxAmountRequired) > maxValue) {
-      throw new Error("Payment amount exceeds maximum allowed");
-    }
-
-    // 从响应 header 中获取支付类型
-    const headerPaymentType = response.headers.get(PAYMENT_TYPE_HEADER);
-
-    // 获取支付类型，优先级：header > paymentRequirements > 自动检测 > 默认
-    const paymentType =
-      selectedPaymentRequirements.paymentType ||
-      headerPaymentType ||
-      (await exact.evm.getRecommendedPaymentMethod(
-        selectedPaymentRequirements.asset,
-        walletClient as typeof evm.EvmSigner,
-      )) ||
-      "eip3009";
-
-    // 根据支付类型创建支付头
-    let paymentHeader: string;
-
-    // 仅对 EVM 网络支持 permit 和 permit2
-    const isEvmNetwork = network && !["solana", "solana-devnet"].includes(network[0]);
-
-    if (paymentType === "permit" && isEvmNetwork) {
-      // 使用 EIP-2612 Permit
-      if (!evm.isSignerWallet(walletClient as typeof evm.EvmSigner)) {
-        throw new Error("Permit authorization requires an EVM signer wallet");
-      }
-      paymentHeader = await exact.evm.permit.createPaymentHeader(
-        walletClient as typeof evm.EvmSigner,
-        x402Version,
-        selectedPaymentRequirements,
-      );
-    } else if (paymentType === "permit2" && isEvmNetwork) {
-      // 使用 Permit2
-      if (!evm.isSignerWallet(walletClient as typeof evm.EvmSigner)) {
-        throw new Error("Permit2 authorization requires an EVM signer wallet");
-      }
-      paymentHeader = await exact.evm.permit2.createPaymentHeader(
-        walletClient as typeof evm.EvmSigner,
-        x402Version,
-        selectedPaymentRequirements,
-      );
-    } else if (paymentType === "eip3009" || !paymentType) {
-      // 默认使用 EIP-3009（统一的 createPaymentHeader）
-      paymentHeader = await createPaymentHeader(
-        walletClient,
-        x402Version,
-        selectedPaymentRequirements,
-        config,
-      );
-    } else {
-      throw new Error(`Unsupported payment type: ${paymentType}`);
-    }
-
     if (!init) {
       throw new Error("Missing fetch request configuration");
     }
@@ -0,0 +1,216 @@
+/**
+ * A payment counted against a spending policy
+ */
+export interface SpendingRecord {
+  /** Unique id of the record */
+  id: string;
+
+  /** Time the payment was authorized (milliseconds since epoch) */
+  timestamp: number;
+
+  /** Host of the paid resource */
+  host: string;
+
+  /** Network of the payment */
+  network: string;
+
+  /** Token address (EVM) or mint (Solana) */
+  asset: string;
+
+  /** Payment recipient */
+  payTo: string;
+
+  /** Amount in base units */
+  amount: string;
+
+  /** Token decimals used to convert the amount to human units */
+  decimals: number;
+}
+
+/**
+ * Persistent store of authorized payments, used to enforce rolling daily / monthly limits
+ */
+export interface SpendingLedger {
+  /**
+   * Adds a payment to the ledger
+   *
+   * @param record - The authorized payment
+   */
+  add(record: SpendingRecord): Promise<void>;
+
+  /**
+   * Removes a payment that was never sent (e.g. signing failed)
+   *
+   * @param id - The record id
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Lists the payments authorized at or after a point in time
+   *
+   * @param since - Start of the window (milliseconds since epoch)
+   * @returns The payments in the window
+   */
+  list(since: number): Promise<SpendingRecord[]>;
+}
+
+/**
+ * In-memory spending ledger. Budgets reset when the process restarts.
+ */
+export class MemorySpendingLedger implements SpendingLedger {
+  private records: SpendingRecord[] = [];
+
+  /**
+   * Adds a payment to the ledger
+   *
+   * @param record - The authorized payment
+   */
+  async add(record: SpendingRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  /**
+   * Removes a payment from the ledger
+   *
+   * @param id - The record id
+   */
+  async remove(id: string): Promise<void> {
+    this.records = this.records.filter(record => record.id !== id);
+  }
+
+  /**
+   * Lists the payments authorized at or after a point in time
+   *
+   * @param since - Start of the window (milliseconds since epoch)
+   * @returns The payments in the window
+   */
+  async list(since: number): Promise<SpendingRecord[]> {
+    return this.records.filter(record => record.timestamp >= since).map(record => ({ ...record }));
+  }
+}
+
+/**
+ * JSON file spending ledger, keeps budgets across process restarts (Node.js only).
+ *
+ * The file is read on first access and rewritten after every change (written to a temporary file,
+ * then renamed). Records older than `retentionMs` are dropped on write.
+ *
+ * @example
+ * ```typescript
+ * const policy = new SpendingPolicy({
+ *   ledger: new FileSpendingLedger("./.x402/spending.json"),
+ *   hosts: { "*": { daily: "5" } },
+ * });
+ * ```
+ */
+export class FileSpendingLedger implements SpendingLedger {
+  private filePath: string;
+  private retentionMs: number;
+  private records: SpendingRecord[] | null = null;
+  private loading: Promise<SpendingRecord[]> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a file ledger
+   *
+   * @param filePath - Path of the JSON file, created on first write
+   * @param retentionMs - How long records are kept (defaults to 31 days, enough for monthly limits)
+   */
+  constructor(filePath: string, retentionMs = 31 * 24 * 60 * 60 * 1000) {
+    this.filePath = filePath;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Adds a payment to the ledger and writes the file
+   *
+   * @param record - The authorized payment
+   */
+  async add(record: SpendingRecord): Promise<void> {
+    const records = await this.load();
+    records.push({ ...record });
+    await this.persist();
+  }
+
+  /**
+   * Removes a payment from the ledger and writes the file
+   *
+   * @param id - The record id
+   */
+  async remove(id: string): Promise<void> {
+    const records = await this.load();
+    const index = records.findIndex(record => record.id === id);
+    if (index !== -1) {
+      records.splice(index, 1);
+      await this.persist();
+    }
+  }
+
+  /**
+   * Lists the payments authorized at or after a point in time
+   *
+   * @param since - Start of the window (milliseconds since epoch)
+   * @returns The payments in the window
+   */
+  async list(since: number): Promise<SpendingRecord[]> {
+    const records = await this.load();
+    return records.filter(record => record.timestamp >= since).map(record => ({ ...record }));
+  }
+
+  /**
+   * Reads the file on first access
+   *
+   * @returns The records in memory
+   */
+  private async load(): Promise<SpendingRecord[]> {
+    if (this.records) {
+      return this.records;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        // Imported lazily so browser bundles do not include node:fs
+        const { readFile } = await import("node:fs/promises");
+        let snapshot: { version: number; records: SpendingRecord[] } | undefined;
+        try {
+          snapshot = JSON.parse(await readFile(this.filePath, "utf8"));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            throw error;
+          }
+        }
+
+        if (snapshot && snapshot.version !== 1) {
+          throw new Error(`Unsupported spending ledger version: ${snapshot.version}`);
+        }
+
+        this.records = snapshot?.records ?? [];
+        return this.records;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Writes the records to the file, serializing concurrent writes
+   *
+   * @returns A promise resolved once the file is written
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const { mkdir, rename, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+      const since = Date.now() - this.retentionMs;
+      this.records = (this.records ?? []).filter(record => record.timestamp >= since);
+
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify({ version: 1, records: this.records }, null, 2));
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
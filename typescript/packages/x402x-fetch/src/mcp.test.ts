@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { wrapCallToolWithPayment } from "./mcp";
+import { createPaymentFromRequirements } from "./payment";
+import type { Signer } from "x402x/types";
+
+vi.mock("./payment", () => ({
+  createPaymentFromRequirements: vi.fn(),
+}));
+
+vi.mock("x402x/schemes", () => ({
+  exact: { evm: { decodePayment: vi.fn((header: string) => ({ decoded: header })) } },
+}));
+
+describe("wrapCallToolWithPayment()", () => {
+  const wallet = {} as Signer;
+  const paymentRequired = {
+    x402Version: 1,
+    error: "missing_payment_header",
+    accepts: [{ scheme: "exact", network: "base-sepolia", maxAmountRequired: "10000" }],
+  };
+  const params = { name: "financial_analysis", arguments: { ticker: "AAPL" } };
+  const paidResult = {
+    content: [{ type: "text", text: "ok" }],
+    _meta: { "x402/payment-response": { success: true, transaction: "0xabc" } },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createPaymentFromRequirements).mockResolvedValue({
+      paymentHeader: "payment-header",
+      requirements: paymentRequired.accepts[0] as never,
+    });
+  });
+
+  it("should return results that do not require payment", async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "free" }] });
+
+    const result = await wrapCallToolWithPayment(callTool, wallet)(params);
+
+    expect(result).toEqual({ content: [{ type: "text", text: "free" }] });
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pay and retry with the payment in _meta", async () => {
+    const callTool = vi
+      .fn()
+      .mockResolvedValueOnce({
+        isError: true,
+        content: [{ type: "text", text: JSON.stringify(paymentRequired) }],
+        _meta: { "x402/error": paymentRequired },
+      })
+      .mockResolvedValueOnce(paidResult);
+
+    const callToolWithPayment = wrapCallToolWithPayment(callTool, wallet, 10000n);
+    const result = await callToolWithPayment(params, { timeout: 1000 });
+
+    expect(result).toBe(paidResult);
+    expect(createPaymentFromRequirements).toHaveBeenCalledWith(
+      wallet,
+      1,
+      paymentRequired.accepts,
+      10000n,
+      expect.any(Function),
+      undefined,
+    );
+    expect(callTool).toHaveBeenLastCalledWith(
+      { ...params, _meta: { "x402/payment": { decoded: "payment-header" } } },
+      { timeout: 1000 },
+    );
+  });
+
+  it("should read requirements from the text content and JSON-RPC 402 errors", async () => {
+    const textOnly = vi
+      .fn()
+      .mockResolvedValueOnce({
+        isError: true,
+        content: [{ type: "text", text: JSON.stringify(paymentRequired) }],
+      })
+      .mockResolvedValueOnce(paidResult);
+    const jsonRpcError = vi
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error("Payment required"), { code: 402, data: paymentRequired }),
+      )
+      .mockResolvedValueOnce(paidResult);
+
+    expect(await wrapCallToolWithPayment(textOnly, wallet)(params)).toBe(paidResult);
+    expect(await wrapCallToolWithPayment(jsonRpcError, wallet)(params)).toBe(paidResult);
+  });
+
+  it("should rethrow unrelated errors and pass through other error results", async () => {
+    const failing = vi.fn().mockRejectedValue(Object.assign(new Error("boom"), { code: -32603 }));
+    const toolError = { isError: true, content: [{ type: "text", text: "invalid ticker" }] };
+
+    await expect(wrapCallToolWithPayment(failing, wallet)(params)).rejects.toThrow("boom");
+    expect(
+      await wrapCallToolWithPayment(vi.fn().mockResolvedValue(toolError), wallet)(params),
+    ).toBe(toolError);
+    expect(createPaymentFromRequirements).not.toHaveBeenCalled();
+  });
+
+  it("should not pay twice for the same call", async () => {
+    const callTool = vi
+      .fn()
+      .mockResolvedValue({ isError: true, _meta: { "x402/error": paymentRequired } });
+
+    const callToolWithPayment = wrapCallToolWithPayment(callTool, wallet);
+
+    await expect(
+      callToolWithPayment({ ...params, _meta: { "x402/payment": { x402Version: 1 } } }),
+    ).rejects.toThrow("Payment already attempted");
+  });
+});
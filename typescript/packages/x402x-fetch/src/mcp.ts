@@ -0,0 +1,180 @@
+import { MultiNetworkSigner, Signer, X402Config } from "x402x/types";
+import { PaymentRequirementsSelector, selectPaymentRequirements } from "x402x/client";
+import {
+  MCP_PAYMENT_META_KEY,
+  MCP_PAYMENT_REQUIRED_CODE,
+  MCP_PAYMENT_REQUIRED_META_KEY,
+} from "x402x/shared";
+import { exact } from "x402x/schemes";
+import { createPaymentFromRequirements } from "./payment";
+
+/**
+ * Parameters of an MCP `tools/call` request (minimal shape of the MCP SDK's `CallToolRequest["params"]`)
+ */
+export interface McpCallToolParams {
+  [key: string]: unknown;
+  name: string;
+  arguments?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Result of an MCP `tools/call` request (minimal shape of the MCP SDK's `CallToolResult`)
+ */
+export interface McpCallToolResult {
+  [key: string]: unknown;
+  content?: Array<{ type: string; text?: string }>;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Payment requirements response returned by a paid MCP tool
+ */
+interface McpPaymentRequired {
+  x402Version: number;
+  accepts: unknown[];
+}
+
+/**
+ * Enables paying for MCP tools using the x402 payment protocol.
+ *
+ * This function wraps an MCP client's `callTool` to automatically handle payment required results,
+ * the same way `wrapFetchWithPayment` handles 402 responses. It will:
+ * 1. Call the tool
+ * 2. If the tool returns a payment required error result (`_meta["x402/error"]`) or the server
+ *    responds with a JSON-RPC error with code 402, parse the payment requirements
+ * 3. Verify the payment amount is within the allowed maximum
+ * 4. Create a payment using the provided wallet client
+ * 5. Call the tool again with the payment in `_meta["x402/payment"]`
+ *
+ * The settlement response is available in the result's `_meta["x402/payment-response"]`.
+ *
+ * @param callTool - The callTool function to wrap (typically `client.callTool.bind(client)`)
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param maxValue - The maximum allowed payment amount in base units
+ * @param paymentRequirementsSelector - A function that selects the payment requirements from the response
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A wrapped callTool function that pays for tools automatically
+ *
+ * @example
+ * ```typescript
+ * const client = new Client({ name: "agent", version: "1.0.0" });
+ * await client.connect(transport);
+ *
+ * const callTool = wrapCallToolWithPayment(client.callTool.bind(client), wallet);
+ * const result = await callTool({ name: "financial_analysis", arguments: { ticker: "AAPL" } });
+ * ```
+ *
+ * @throws {Error} If the payment amount exceeds the maximum allowed value
+ * @throws {Error} If there's an error creating the payment
+ */
+export function wrapCallToolWithPayment<TRest extends unknown[], TResult extends McpCallToolResult>(
+  callTool: (params: McpCallToolParams, ...rest: TRest) => Promise<TResult>,
+  walletClient: Signer | MultiNetworkSigner,
+  maxValue?: bigint,
+  paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
+  config?: X402Config,
+) {
+  return async (params: McpCallToolParams, ...rest: TRest): Promise<TResult> => {
+    let paymentRequired: McpPaymentRequired | undefined;
+    try {
+      const result = await callTool(params, ...rest);
+      paymentRequired = getPaymentRequiredFromResult(result);
+      if (!paymentRequired) {
+        return result;
+      }
+    } catch (error) {
+      paymentRequired = getPaymentRequiredFromError(error);
+      if (!paymentRequired) {
+        throw error;
+      }
+    }
+
+    if (params._meta?.[MCP_PAYMENT_META_KEY]) {
+      throw new Error("Payment already attempted");
+    }
+
+    const { paymentHeader } = await createPaymentFromRequirements(
+      walletClient,
+      paymentRequired.x402Version,
+      paymentRequired.accepts,
+      maxValue,
+      paymentRequirementsSelector,
+      config,
+    );
+
+    return callTool(
+      {
+        ...params,
+        _meta: {
+          ...params._meta,
+          [MCP_PAYMENT_META_KEY]: exact.evm.decodePayment(paymentHeader),
+        },
+      },
+      ...rest,
+    );
+  };
+}
+
+/**
+ * Extracts the payment requirements from a paid tool's error result
+ *
+ * @param result - The tool result
+ * @returns The payment requirements response, or undefined if the result is not a payment error
+ */
+function getPaymentRequiredFromResult(result: McpCallToolResult): McpPaymentRequired | undefined {
+  if (!result.isError) {
+    return undefined;
+  }
+
+  const fromMeta = toPaymentRequired(result._meta?.[MCP_PAYMENT_REQUIRED_META_KEY]);
+  if (fromMeta) {
+    return fromMeta;
+  }
+
+  // Servers without _meta support only return the requirements as text content
+  const text = result.content?.find(item => item.type === "text")?.text;
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return toPaymentRequired(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the payment requirements from a JSON-RPC error with code 402
+ *
+ * @param error - The error thrown by callTool
+ * @returns The payment requirements response, or undefined if the error is not a payment error
+ */
+function getPaymentRequiredFromError(error: unknown): McpPaymentRequired | undefined {
+  if (
+    !error ||
+    typeof error !== "object" ||
+    (error as { code?: unknown }).code !== MCP_PAYMENT_REQUIRED_CODE
+  ) {
+    return undefined;
+  }
+  return toPaymentRequired((error as { data?: unknown }).data);
+}
+
+/**
+ * Validates the shape of a payment requirements response
+ *
+ * @param value - The candidate value
+ * @returns The payment requirements response, or undefined if the shape does not match
+ */
+function toPaymentRequired(value: unknown): McpPaymentRequired | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const { x402Version, accepts } = value as Partial<McpPaymentRequired>;
+  if (typeof x402Version !== "number" || !Array.isArray(accepts) || accepts.length === 0) {
+    return undefined;
+  }
+  return { x402Version, accepts };
+}
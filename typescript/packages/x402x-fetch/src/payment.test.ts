@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createPaymentHeader, selectPaymentRequirements } from "x402x/client";
+import { exact, upto } from "x402x/schemes";
+import { createSigner } from "x402x/types";
+import type { PaymentRequirements, Signer } from "x402x/types";
+import { createPaymentFromRequirements } from "./payment";
+import { PaymentRejectedError, type OnPaymentRequired } from "./approval";
+import { SpendingPolicy } from "./policy";
+import { ensurePermit2Allowance } from "./permit2";
+
+vi.mock("x402x/client", async importOriginal => ({
+  ...(await importOriginal<typeof import("x402x/client")>()),
+  createPaymentHeader: vi.fn(),
+}));
+
+vi.mock("x402x/schemes", async importOriginal => {
+  const actual = await importOriginal<typeof import("x402x/schemes")>();
+  return {
+    ...actual,
+    exact: {
+      ...actual.exact,
+      evm: { ...actual.exact.evm, getRecommendedPaymentMethod: vi.fn() },
+    },
+    upto: {
+      ...actual.upto,
+      evm: { ...actual.upto.evm, createPaymentHeader: vi.fn() },
+    },
+  };
+});
+
+vi.mock("./permit2", async importOriginal => ({
+  ...(await importOriginal<typeof import("./permit2")>()),
+  ensurePermit2Allowance: vi.fn(),
+}));
+
+describe("createPaymentFromRequirements() onPaymentRequired", () => {
+  const wallet = {} as Signer;
+  const resource = "https://api.example.com/report";
+  const usdc: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "250000",
+    resource,
+    description: "Report",
+    mimeType: "application/json",
+    payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    paymentType: "eip3009",
+    extra: { name: "USDC", version: "2", decimals: 6 },
+  };
+  const other: PaymentRequirements = {
+    ...usdc,
+    maxAmountRequired: "100000000000000000",
+    asset: "0x1111111111111111111111111111111111111111",
+    paymentType: "permit2",
+    extra: { decimals: 18 },
+  };
+
+  /**
+   * Creates a payment with the approval hook
+   *
+   * @param onPaymentRequired - The approval hook
+   * @param maxValue - The maximum allowed payment amount in base units
+   * @returns The created payment
+   */
+  const pay = (onPaymentRequired: OnPaymentRequired, maxValue?: bigint) =>
+    createPaymentFromRequirements(
+      wallet,
+      1,
+      [usdc, other],
+      maxValue,
+      selectPaymentRequirements,
+      undefined,
+      undefined,
+      { resource, onPaymentRequired },
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createPaymentHeader).mockResolvedValue("payment-header");
+  });
+
+  it("should pass a quote with the human readable amount and sign when approved", async () => {
+    const hook = vi.fn().mockResolvedValue(true);
+
+    const result = await pay(hook);
+
+    expect(hook).toHaveBeenCalledWith({
+      resource,
+      requirements: usdc,
+      accepts: [usdc, other],
+      paymentType: "eip3009",
+      amount: "250000",
+      formattedAmount: "0.25",
+      decimals: 6,
+    });
+    expect(result).toEqual({ paymentHeader: "payment-header", requirements: usdc });
+  });
+
+  it("should throw a PaymentRejectedError without signing when rejected", async () => {
+    const error = await pay(async () => ({ approved: false, reason: "too expensive" })).catch(
+      e => e,
+    );
+
+    expect(error).toBeInstanceOf(PaymentRejectedError);
+    expect(error.reason).toBe("too expensive");
+    expect(error.quote.formattedAmount).toBe("0.25");
+    await expect(pay(() => false)).rejects.toThrow(PaymentRejectedError);
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should only switch to an offered entry within the maximum value", async () => {
+    const switched = { ...usdc, maxAmountRequired: "1" };
+
+    await expect(pay(() => ({ approved: true, requirements: switched }))).rejects.toThrow(
+      "Approved payment requirements are not offered by the server",
+    );
+    await expect(
+      pay(quote => ({ approved: true, requirements: quote.accepts[1] }), 300000n),
+    ).rejects.toThrow("Payment amount exceeds maximum allowed");
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should check the spending policy before the hook and release rejected signatures", async () => {
+    const spendingPolicy = new SpendingPolicy({ hosts: { "*": { daily: "0.3" } } });
+    vi.mocked(createPaymentHeader).mockRejectedValueOnce(new Error("user denied signature"));
+
+    const options = { resource, spendingPolicy, onPaymentRequired: () => true };
+    const create = () =>
+      createPaymentFromRequirements(
+        wallet,
+        1,
+        [usdc],
+        undefined,
+        selectPaymentRequirements,
+        undefined,
+        undefined,
+        options,
+      );
+
+    await expect(create()).rejects.toThrow("user denied signature");
+    await expect(create()).resolves.toMatchObject({ paymentHeader: "payment-header" });
+    await expect(create()).rejects.toThrow("host_daily_limit");
+  });
+
+  it("should not ask the hook for payments the policy blocks and release rejected ones", async () => {
+    const spendingPolicy = new SpendingPolicy({ hosts: { "*": { daily: "0.3" } } });
+    const hook = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+
+    const options = { resource, spendingPolicy, onPaymentRequired: hook };
+    const create = () =>
+      createPaymentFromRequirements(
+        wallet,
+        1,
+        [usdc],
+        undefined,
+        selectPaymentRequirements,
+        undefined,
+        undefined,
+        options,
+      );
+
+    await expect(create()).rejects.toThrow(PaymentRejectedError);
+    await expect(create()).resolves.toMatchObject({ paymentHeader: "payment-header" });
+    await expect(create()).rejects.toThrow("host_daily_limit");
+    expect(hook).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createPaymentFromRequirements() spending policy", () => {
+  it("should read the token decimals when the requirements have none", async () => {
+    const wallet = await createSigner(
+      "base-sepolia",
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+    const readContract = vi
+      .spyOn(wallet as unknown as { readContract: () => Promise<number> }, "readContract")
+      .mockResolvedValue(6);
+    const requirements = {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "250000",
+      resource: "https://api.example.com/report",
+      description: "Report",
+      mimeType: "application/json",
+      payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+      maxTimeoutSeconds: 300,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      paymentType: "eip3009",
+    };
+    const spendingPolicy = new SpendingPolicy({ hosts: { "*": { perPayment: "0.2" } } });
+    vi.clearAllMocks();
+
+    await expect(
+      createPaymentFromRequirements(
+        wallet,
+        1,
+        [requirements],
+        undefined,
+        selectPaymentRequirements,
+        undefined,
+        undefined,
+        { resource: requirements.resource, spendingPolicy },
+      ),
+    ).rejects.toThrow("host_per_payment_limit");
+    expect(readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: requirements.asset, functionName: "decimals" }),
+    );
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+});
+
+describe("createPaymentFromRequirements() evmConfig", () => {
+  it("should detect the payment type and sign with the configured RPC", async () => {
+    const rpcUrl = "https://base-sepolia.example.org";
+    const config = { evmConfig: { networks: { "base-sepolia": { rpcUrl } } } };
+    const wallet = await createSigner(
+      "base-sepolia",
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+    const requirements = {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "10000",
+      resource: "https://api.example.com/report",
+      description: "Report",
+      mimeType: "application/json",
+      payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+      maxTimeoutSeconds: 300,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    };
+    vi.mocked(exact.evm.getRecommendedPaymentMethod).mockResolvedValue("eip3009");
+    vi.mocked(createPaymentHeader).mockResolvedValue("payment-header");
+
+    await createPaymentFromRequirements(
+      wallet,
+      1,
+      [requirements],
+      undefined,
+      selectPaymentRequirements,
+      config,
+    );
+
+    const [asset, client] = vi.mocked(exact.evm.getRecommendedPaymentMethod).mock.calls[0];
+    expect(asset).toBe(requirements.asset);
+    expect((client as unknown as { transport: { url: string } }).transport.url).toBe(rpcUrl);
+    expect(createPaymentHeader).toHaveBeenCalledWith(
+      wallet,
+      1,
+      expect.objectContaining({ network: "base-sepolia" }),
+      config,
+    );
+  });
+});
+
+describe("createPaymentFromRequirements() upto", () => {
+  const requirements: PaymentRequirements = {
+    scheme: "upto",
+    network: "base-sepolia",
+    maxAmountRequired: "500000",
+    resource: "https://api.example.com/report",
+    description: "Report",
+    mimeType: "application/json",
+    payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { decimals: 6, spender: "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(upto.evm.createPaymentHeader).mockResolvedValue("upto-header");
+  });
+
+  it("should select an upto offer and sign it with the upto scheme", async () => {
+    const wallet = await createSigner(
+      "base-sepolia",
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+    const hook = vi.fn().mockResolvedValue(true);
+
+    const payment = await createPaymentFromRequirements(
+      wallet,
+      1,
+      [requirements],
+      undefined,
+      selectPaymentRequirements,
+      undefined,
+      undefined,
+      { resource: requirements.resource, onPaymentRequired: hook },
+    );
+
+    expect(payment.paymentHeader).toBe("upto-header");
+    expect(hook).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requirements: expect.objectContaining({ scheme: "upto" }),
+        paymentType: "permit2",
+        formattedAmount: "0.5",
+      }),
+    );
+    // upto 的 permit 不能随支付携带，只能链上 approve Permit2
+    expect(ensurePermit2Allowance).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ scheme: "upto" }),
+      undefined,
+      false,
+    );
+    expect(upto.evm.createPaymentHeader).toHaveBeenCalledWith(
+      wallet,
+      1,
+      expect.objectContaining({ scheme: "upto", maxAmountRequired: "500000" }),
+      undefined,
+    );
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should sign an EIP-2612 upto permit without touching Permit2", async () => {
+    const wallet = await createSigner(
+      "base-sepolia",
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+
+    await createPaymentFromRequirements(
+      wallet,
+      1,
+      [{ ...requirements, paymentType: "permit" }],
+      undefined,
+      selectPaymentRequirements,
+    );
+
+    expect(ensurePermit2Allowance).not.toHaveBeenCalled();
+    expect(upto.evm.createPaymentHeader).toHaveBeenCalledWith(
+      wallet,
+      1,
+      expect.objectContaining({ paymentType: "permit" }),
+      undefined,
+    );
+  });
+
+  it("should refuse upto offers without an EVM signer wallet", async () => {
+    await expect(
+      createPaymentFromRequirements(
+        {} as Signer,
+        1,
+        [requirements],
+        undefined,
+        selectPaymentRequirements,
+      ),
+    ).rejects.toThrow("Upto authorization requires an EVM signer wallet");
+    expect(upto.evm.createPaymentHeader).not.toHaveBeenCalled();
+  });
+});
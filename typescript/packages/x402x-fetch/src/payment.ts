@@ -0,0 +1,387 @@
+import { Address, erc20Abi, formatUnits } from "viem";
+import {
+  ChainIdToNetwork,
+  PaymentRequirements,
+  PaymentRequirementsSchema,
+  Signer,
+  evm,
+  MultiNetworkSigner,
+  isMultiNetworkSigner,
+  isSvmSignerWallet,
+  Network,
+  X402Config,
+} from "x402x/types";
+import { createPaymentHeader, PaymentRequirementsSelector } from "x402x/client";
+import { exact, upto } from "x402x/schemes";
+import type { SpendingPolicy } from "./policy";
+import { OnPaymentRequired, PaymentQuote, PaymentRejectedError, PaymentType } from "./approval";
+import { ensurePermit2Allowance, OnPermit2ApprovalRequired } from "./permit2";
+
+/**
+ * Header name for specifying payment type
+ */
+export const PAYMENT_TYPE_HEADER = "x-payment-type" as const;
+
+/**
+ * Options of a payment created by the fetch wrapper
+ */
+export interface PaymentOptions {
+  /** The requested resource (URL), used for the spending policy host and the payment quote */
+  resource?: string;
+
+  /** Spending policy the payment must fit */
+  spendingPolicy?: SpendingPolicy;
+
+  /** Hook that approves, rejects or changes the payment before it is signed */
+  onPaymentRequired?: OnPaymentRequired;
+
+  /** Hook asking how to approve the Permit2 contract when paying with Permit2 without allowance */
+  onPermit2ApprovalRequired?: OnPermit2ApprovalRequired;
+}
+
+/**
+ * Selects payment requirements from a payment required response and creates the payment header.
+ *
+ * Shared by the fetch and MCP wrappers.
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param x402Version - The x402 version from the payment required response
+ * @param accepts - The unparsed payment requirements from the payment required response
+ * @param maxValue - The maximum allowed payment amount in base units
+ * @param paymentRequirementsSelector - A function that selects the payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param headerPaymentType - Optional payment type advertised by the server outside the requirements
+ * @param options - Optional spending policy and approval hooks
+ * @returns The selected payment requirements and the base64 encoded payment header
+ */
+export async function createPaymentFromRequirements(
+  walletClient: Signer | MultiNetworkSigner,
+  x402Version: number,
+  accepts: unknown[],
+  maxValue: bigint | undefined,
+  paymentRequirementsSelector: PaymentRequirementsSelector,
+  config?: X402Config,
+  headerPaymentType?: string | null,
+  options: PaymentOptions = {},
+): Promise<{ paymentHeader: string; requirements: PaymentRequirements }> {
+  const parsedPaymentRequirements = accepts.map(x => PaymentRequirementsSchema.parse(x));
+
+  const network = isMultiNetworkSigner(walletClient)
+    ? undefined
+    : evm.isSignerWallet(walletClient as typeof evm.EvmSigner)
+      ? ChainIdToNetwork[(walletClient as typeof evm.EvmSigner).chain?.id]
+      : isSvmSignerWallet(walletClient)
+        ? (["solana", "solana-devnet"] as Network[])
+        : undefined;
+
+  // 优先 exact，没有 exact 报价时使用 upto（授权 maxAmountRequired，按实际用量结算）
+  let selectedPaymentRequirements = paymentRequirementsSelector(
+    parsedPaymentRequirements,
+    network,
+    "exact",
+  );
+  if (selectedPaymentRequirements.scheme !== "exact") {
+    selectedPaymentRequirements = paymentRequirementsSelector(
+      parsedPaymentRequirements,
+      network,
+      "upto",
+    );
+  }
+
+  const assertMaxValue = (requirements: PaymentRequirements) => {
+    if (maxValue && BigInt(requirements.maxAmountRequired) > maxValue) {
+      throw new Error("Payment amount exceeds maximum allowed");
+    }
+  };
+  assertMaxValue(selectedPaymentRequirements);
+
+  // 在询问 hook 之前计入支出，被拒绝或签名失败时释放
+  const { spendingPolicy } = options;
+  const authorizeSpending = (requirements: PaymentRequirements) =>
+    spendingPolicy?.authorize(
+      options.resource ? new URL(options.resource).host : "",
+      requirements,
+      () => getAssetDecimals(walletClient, requirements, config),
+    );
+  let spent = await authorizeSpending(selectedPaymentRequirements);
+
+  try {
+    // 签名前交给 hook 确认，hook 可以拒绝或换用其他 accepts 项
+    let paymentType: string | undefined;
+    if (options.onPaymentRequired) {
+      paymentType = await getPaymentType(
+        walletClient,
+        selectedPaymentRequirements,
+        headerPaymentType,
+        config,
+      );
+      const quote = await createPaymentQuote(
+        walletClient,
+        options.resource ?? selectedPaymentRequirements.resource,
+        selectedPaymentRequirements,
+        parsedPaymentRequirements,
+        paymentType,
+        config,
+      );
+      const approval = await options.onPaymentRequired(quote);
+
+      if (approval === false || (typeof approval === "object" && !approval.approved)) {
+        throw new PaymentRejectedError(
+          quote,
+          typeof approval === "object" && !approval.approved ? approval.reason : undefined,
+        );
+      }
+
+      const chosen = typeof approval === "object" && approval.approved && approval.requirements;
+      if (chosen && chosen !== selectedPaymentRequirements) {
+        const offered = parsedPaymentRequirements.find(
+          requirements => JSON.stringify(requirements) === JSON.stringify(chosen),
+        );
+        if (!offered) {
+          throw new Error("Approved payment requirements are not offered by the server");
+        }
+        assertMaxValue(offered);
+
+        // 换用其他报价时按新报价重新检查支出
+        if (spent) {
+          await spendingPolicy?.release(spent);
+          spent = undefined;
+        }
+        spent = await authorizeSpending(offered);
+        selectedPaymentRequirements = offered;
+        paymentType = await getPaymentType(walletClient, offered, headerPaymentType, config);
+      }
+    }
+
+    const paymentHeader = await signPayment(
+      walletClient,
+      x402Version,
+      selectedPaymentRequirements,
+      network,
+      config,
+      paymentType ??
+        (await getPaymentType(
+          walletClient,
+          selectedPaymentRequirements,
+          headerPaymentType,
+          config,
+        )),
+      options.onPermit2ApprovalRequired,
+    );
+    return { paymentHeader, requirements: selectedPaymentRequirements };
+  } catch (error) {
+    if (spent) {
+      await spendingPolicy?.release(spent);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gets the payment type to sign
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param requirements - The selected payment requirements
+ * @param headerPaymentType - Optional payment type advertised by the server outside the requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The payment type
+ */
+async function getPaymentType(
+  walletClient: Signer | MultiNetworkSigner,
+  requirements: PaymentRequirements,
+  headerPaymentType?: string | null,
+  config?: X402Config,
+): Promise<string> {
+  // upto 只支持 permit 和 permit2，未指定时与 x402x 一样使用 permit2
+  if (requirements.scheme === "upto") {
+    return requirements.paymentType === "permit" ? "permit" : "permit2";
+  }
+
+  // 获取支付类型，优先级：header > paymentRequirements > 自动检测 > 默认
+  return (
+    requirements.paymentType ||
+    headerPaymentType ||
+    (await exact.evm.getRecommendedPaymentMethod(
+      requirements.asset,
+      withEvmConfig(walletClient, requirements, config) as typeof evm.EvmSigner,
+    )) ||
+    "eip3009"
+  );
+}
+
+/**
+ * Creates the quote passed to the onPaymentRequired hook
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param resource - The requested resource
+ * @param requirements - The selected payment requirements
+ * @param accepts - Every payment option offered by the server
+ * @param paymentType - The payment type to sign
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The payment quote
+ */
+async function createPaymentQuote(
+  walletClient: Signer | MultiNetworkSigner,
+  resource: string,
+  requirements: PaymentRequirements,
+  accepts: PaymentRequirements[],
+  paymentType: string,
+  config?: X402Config,
+): Promise<PaymentQuote> {
+  if (!["eip3009", "permit", "permit2"].includes(paymentType)) {
+    throw new Error(`Unsupported payment type: ${paymentType}`);
+  }
+
+  const decimals = await getAssetDecimals(walletClient, requirements, config);
+
+  return {
+    resource,
+    requirements,
+    accepts,
+    paymentType: paymentType as PaymentType,
+    amount: requirements.maxAmountRequired,
+    formattedAmount:
+      decimals === undefined
+        ? undefined
+        : formatUnits(BigInt(requirements.maxAmountRequired), decimals),
+    decimals,
+  };
+}
+
+/**
+ * Gets the decimals of the payment asset from `extra.decimals`, or from the token contract
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param requirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The decimals, undefined if they are unknown
+ */
+async function getAssetDecimals(
+  walletClient: Signer | MultiNetworkSigner,
+  requirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<number | undefined> {
+  if (typeof requirements.extra?.decimals === "number") {
+    return requirements.extra.decimals;
+  }
+  // extra 中没有精度时从代币合约读取
+  if (!evm.isSignerWallet(walletClient as evm.EvmSigner)) {
+    return undefined;
+  }
+  return (withEvmConfig(walletClient, requirements, config) as evm.SignerWallet)
+    .readContract({
+      address: requirements.asset as Address,
+      abi: erc20Abi,
+      functionName: "decimals",
+    })
+    .catch(() => undefined);
+}
+
+/**
+ * Creates the payment header for the selected payment requirements
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param x402Version - The x402 version from the payment required response
+ * @param selectedPaymentRequirements - The selected payment requirements
+ * @param network - The networks supported by the wallet client
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param paymentType - The payment type to sign
+ * @param onPermit2ApprovalRequired - Hook asking how to approve Permit2 when the allowance is missing
+ * @returns The base64 encoded payment header
+ */
+async function signPayment(
+  walletClient: Signer | MultiNetworkSigner,
+  x402Version: number,
+  selectedPaymentRequirements: PaymentRequirements,
+  network: Network | Network[] | undefined,
+  config: X402Config | undefined,
+  paymentType: string,
+  onPermit2ApprovalRequired?: OnPermit2ApprovalRequired,
+): Promise<string> {
+  // 根据支付类型创建支付头
+  let paymentHeader: string;
+
+  // 仅对 EVM 网络支持 permit 和 permit2
+  const isEvmNetwork = network && !["solana", "solana-devnet"].includes(network[0]);
+
+  if (selectedPaymentRequirements.scheme === "upto") {
+    // upto 授权给 extra.spender，额度为 maxAmountRequired
+    if (!isEvmNetwork || !evm.isSignerWallet(walletClient as evm.EvmSigner)) {
+      throw new Error("Upto authorization requires an EVM signer wallet");
+    }
+    if (paymentType === "permit2") {
+      // upto 的 payload 不能携带 Permit2 的 permit 授权，只能链上 approve
+      await ensurePermit2Allowance(
+        withEvmConfig(walletClient, selectedPaymentRequirements, config) as evm.SignerWallet,
+        selectedPaymentRequirements,
+        onPermit2ApprovalRequired,
+        false,
+      );
+    }
+    paymentHeader = await upto.evm.createPaymentHeader(
+      walletClient as evm.EvmSigner,
+      x402Version,
+      selectedPaymentRequirements,
+      config,
+    );
+  } else if (paymentType === "permit" && isEvmNetwork) {
+    // 使用 EIP-2612 Permit
+    if (!evm.isSignerWallet(walletClient as typeof evm.EvmSigner)) {
+      throw new Error("Permit authorization requires an EVM signer wallet");
+    }
+    paymentHeader = await exact.evm.permit.createPaymentHeader(
+      walletClient as typeof evm.EvmSigner,
+      x402Version,
+      selectedPaymentRequirements,
+      config,
+    );
+  } else if (paymentType === "permit2" && isEvmNetwork) {
+    // 使用 Permit2
+    if (!evm.isSignerWallet(walletClient as typeof evm.EvmSigner)) {
+      throw new Error("Permit2 authorization requires an EVM signer wallet");
+    }
+    // 检查 Permit2 授权额度，不足时经用户同意后通过 permit 或 approve 授权
+    const permit2Approval = await ensurePermit2Allowance(
+      withEvmConfig(walletClient, selectedPaymentRequirements, config) as evm.SignerWallet,
+      selectedPaymentRequirements,
+      onPermit2ApprovalRequired,
+    );
+    paymentHeader = await exact.evm.permit2.createPaymentHeader(
+      walletClient as typeof evm.EvmSigner,
+      x402Version,
+      selectedPaymentRequirements,
+      permit2Approval,
+      config,
+    );
+  } else if (paymentType === "eip3009" || !paymentType) {
+    // 默认使用 EIP-3009（统一的 createPaymentHeader）
+    paymentHeader = await createPaymentHeader(
+      walletClient,
+      x402Version,
+      selectedPaymentRequirements,
+      config,
+    );
+  } else {
+    throw new Error(`Unsupported payment type: ${paymentType}`);
+  }
+
+  return paymentHeader;
+}
+
+/**
+ * Uses the RPC configured in `config.evmConfig` for the payment network
+ *
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param requirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The wallet client on the configured transport, or the original wallet client
+ */
+function withEvmConfig(
+  walletClient: Signer | MultiNetworkSigner,
+  requirements: PaymentRequirements,
+  config?: X402Config,
+): Signer | MultiNetworkSigner {
+  return isMultiNetworkSigner(walletClient)
+    ? walletClient
+    : evm.withEvmConfig(walletClient, requirements.network, config?.evmConfig);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getERC20Allowance } from "x402x/shared/evm";
+import { exact } from "x402x/schemes";
+import type { evm, PaymentRequirements } from "x402x/types";
+import { ensurePermit2Allowance } from "./permit2";
+
+vi.mock("x402x/shared/evm", () => ({
+  getERC20Allowance: vi.fn(),
+}));
+
+vi.mock("x402x/schemes", () => ({
+  exact: {
+    evm: {
+      detectTokenPaymentMethods: vi.fn(),
+      permit2: { approvePermit2: vi.fn(), signPermit2Approval: vi.fn() },
+    },
+  },
+}));
+
+describe("ensurePermit2Allowance()", () => {
+  const owner = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+  const wallet = { account: { address: owner } } as unknown as evm.SignerWallet;
+  const requirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    paymentType: "permit2",
+  } as PaymentRequirements;
+  const approval = { value: "1000000", deadline: "1", nonce: "0", signature: "0x01" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getERC20Allowance).mockResolvedValue(0n);
+    vi.mocked(exact.evm.detectTokenPaymentMethods).mockResolvedValue({
+      details: { hasPermit: true },
+    } as never);
+    vi.mocked(exact.evm.permit2.signPermit2Approval).mockResolvedValue(approval);
+  });
+
+  it("should do nothing when Permit2 is already approved", async () => {
+    vi.mocked(getERC20Allowance).mockResolvedValue(1000000n);
+    const hook = vi.fn();
+
+    expect(await ensurePermit2Allowance(wallet, requirements, hook)).toBeUndefined();
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  it("should require consent when the allowance is missing", async () => {
+    await expect(ensurePermit2Allowance(wallet, requirements)).rejects.toThrow(
+      "Permit2 is not approved",
+    );
+    await expect(ensurePermit2Allowance(wallet, requirements, () => false)).rejects.toThrow(
+      "Permit2 approval rejected",
+    );
+    expect(exact.evm.permit2.signPermit2Approval).not.toHaveBeenCalled();
+    expect(exact.evm.permit2.approvePermit2).not.toHaveBeenCalled();
+  });
+
+  it("should sign a gasless permit for Permit2 to bundle with the payment", async () => {
+    const hook = vi.fn().mockResolvedValue({ method: "permit", value: 5000000n });
+
+    expect(await ensurePermit2Allowance(wallet, requirements, hook)).toBe(approval);
+    expect(hook).toHaveBeenCalledWith({
+      token: requirements.asset,
+      owner,
+      network: "base-sepolia",
+      allowance: 0n,
+      amount: 1000000n,
+      supportsPermit: true,
+    });
+    expect(exact.evm.permit2.signPermit2Approval).toHaveBeenCalledWith(
+      wallet,
+      requirements,
+      5000000n,
+    );
+  });
+
+  it("should send an approve transaction or refuse permit for tokens without EIP-2612", async () => {
+    vi.mocked(exact.evm.detectTokenPaymentMethods).mockResolvedValue({
+      details: { hasPermit: false },
+    } as never);
+
+    expect(
+      await ensurePermit2Allowance(wallet, requirements, () => ({ method: "approve" })),
+    ).toBeUndefined();
+    expect(exact.evm.permit2.approvePermit2).toHaveBeenCalledWith(
+      wallet,
+      requirements.asset,
+      undefined,
+    );
+    await expect(
+      ensurePermit2Allowance(wallet, requirements, () => ({ method: "permit" })),
+    ).rejects.toThrow("does not support EIP-2612 permit");
+  });
+
+  it("should only offer an approve transaction when the permit cannot be bundled", async () => {
+    const hook = vi.fn().mockResolvedValue({ method: "permit" });
+
+    await expect(ensurePermit2Allowance(wallet, requirements, hook, false)).rejects.toThrow(
+      'use the "approve" method',
+    );
+    expect(hook).toHaveBeenCalledWith(expect.objectContaining({ supportsPermit: false }));
+    expect(exact.evm.permit2.signPermit2Approval).not.toHaveBeenCalled();
+  });
+});
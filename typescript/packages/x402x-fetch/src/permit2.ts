@@ -0,0 +1,108 @@
+import { Address, getAddress, PublicClient } from "viem";
+import { evm, PaymentRequirements, Permit2Approval } from "x402x/types";
+import { getERC20Allowance } from "x402x/shared/evm";
+import { exact } from "x402x/schemes";
+
+/**
+ * A missing Permit2 allowance, passed to the onPermit2ApprovalRequired hook
+ */
+export interface Permit2ApprovalRequest {
+  /** Token to approve */
+  token: Address;
+
+  /** Payer address */
+  owner: Address;
+
+  /** Network of the payment */
+  network: string;
+
+  /** Current allowance of the Permit2 contract in base units */
+  allowance: bigint;
+
+  /** Allowance needed by the payment in base units */
+  amount: bigint;
+
+  /** Whether the token supports EIP-2612, required for the gasless `permit` method */
+  supportsPermit: boolean;
+}
+
+/**
+ * Decision of the onPermit2ApprovalRequired hook.
+ *
+ * - `{ method: "permit" }` signs an EIP-2612 permit for Permit2, submitted by the facilitator
+ *   with the payment (no gas for the payer)
+ * - `{ method: "approve" }` sends a one-time approve transaction from the payer's wallet
+ * - `false` cancels the payment
+ *
+ * `value` is the Permit2 allowance to approve, unlimited by default.
+ */
+export type Permit2ApprovalDecision = false | { method: "permit" | "approve"; value?: bigint };
+
+/**
+ * Hook asking the user to approve the Permit2 contract before paying with Permit2
+ */
+export type OnPermit2ApprovalRequired = (
+  request: Permit2ApprovalRequest,
+) => Permit2ApprovalDecision | Promise<Permit2ApprovalDecision>;
+
+/**
+ * Checks the Permit2 allowance of the payer and, with the user's consent, approves Permit2
+ *
+ * @param wallet - The payer's wallet
+ * @param requirements - The selected Permit2 payment requirements
+ * @param onPermit2ApprovalRequired - Hook asking the user how to approve Permit2
+ * @param canBundlePermit - Whether the payment can carry an EIP-2612 approval (upto payments cannot)
+ * @returns The EIP-2612 approval to bundle with the payment, if the user chose `permit`
+ * @throws {Error} If the allowance is missing and the user did not approve Permit2
+ */
+export async function ensurePermit2Allowance(
+  wallet: evm.SignerWallet,
+  requirements: PaymentRequirements,
+  onPermit2ApprovalRequired?: OnPermit2ApprovalRequired,
+  canBundlePermit = true,
+): Promise<Permit2Approval | undefined> {
+  const token = getAddress(requirements.asset);
+  const owner = wallet.account.address;
+  const amount = BigInt(requirements.maxAmountRequired);
+
+  const allowance = await getERC20Allowance(wallet, token, owner, evm.PERMIT2_ADDRESS);
+  if (allowance >= amount) {
+    return undefined;
+  }
+
+  if (!onPermit2ApprovalRequired) {
+    throw new Error(
+      `Permit2 is not approved for token ${token}, pass onPermit2ApprovalRequired to approve it`,
+    );
+  }
+
+  const { details } = await exact.evm.detectTokenPaymentMethods(
+    token,
+    wallet as unknown as PublicClient,
+  );
+  const decision = await onPermit2ApprovalRequired({
+    token,
+    owner,
+    network: requirements.network,
+    allowance,
+    amount,
+    supportsPermit: canBundlePermit && details.hasPermit,
+  });
+
+  if (!decision) {
+    throw new Error("Permit2 approval rejected");
+  }
+
+  if (decision.method === "approve") {
+    await exact.evm.permit2.approvePermit2(wallet, token, decision.value);
+    return undefined;
+  }
+
+  if (!canBundlePermit) {
+    throw new Error('Upto payments need Permit2 approved on chain, use the "approve" method');
+  }
+  if (!details.hasPermit) {
+    throw new Error(`Token ${token} does not support EIP-2612 permit`);
+  }
+  return exact.evm.permit2.signPermit2Approval(wallet, requirements, decision.value);
+}
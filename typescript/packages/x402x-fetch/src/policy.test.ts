@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { PaymentRequirements } from "x402x/types";
+import { FileSpendingLedger, MemorySpendingLedger } from "./ledger";
+import { SpendingPolicy, SpendingPolicyError } from "./policy";
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const HOST = "api.example.com";
+
+/**
+ * Creates USDC payment requirements
+ *
+ * @param amount - Amount in base units (6 decimals)
+ * @param overrides - Fields to override
+ * @returns The payment requirements
+ */
+function requirements(
+  amount: string,
+  overrides: Partial<PaymentRequirements> = {},
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: amount,
+    resource: `https://${HOST}/paid`,
+    description: "",
+    mimeType: "application/json",
+    payTo: PAY_TO,
+    maxTimeoutSeconds: 60,
+    asset: USDC,
+    extra: { name: "USDC", version: "2", decimals: 6 },
+    ...overrides,
+  } as PaymentRequirements;
+}
+
+/**
+ * Returns the error a promise rejects with
+ *
+ * @param promise - The promise expected to reject
+ * @returns The rejection reason
+ */
+async function rejection(promise: Promise<unknown>): Promise<SpendingPolicyError> {
+  return promise.then(
+    () => {
+      throw new Error("expected rejection");
+    },
+    error => error,
+  );
+}
+
+describe("SpendingPolicy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should enforce per-payment and rolling daily host limits", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const policy = new SpendingPolicy({ hosts: { [HOST]: { perPayment: "0.5", daily: "1" } } });
+
+    await policy.authorize(HOST, requirements("500000"));
+    await policy.authorize(HOST, requirements("400000"));
+
+    const tooLarge = await rejection(policy.authorize(HOST, requirements("600000")));
+    expect(tooLarge).toBeInstanceOf(SpendingPolicyError);
+    expect(tooLarge.rule).toBe("host_per_payment_limit");
+    expect(tooLarge.limit).toBe("0.5");
+
+    const overDaily = await rejection(policy.authorize(HOST, requirements("200000")));
+    expect(overDaily.rule).toBe("host_daily_limit");
+    expect(overDaily.spent).toBe("0.9");
+    expect(overDaily.payment).toMatchObject({ host: HOST, amount: "200000", payTo: PAY_TO });
+
+    // The window rolls after 24 hours
+    vi.setSystemTime(24 * 60 * 60 * 1000 + 1);
+    await expect(policy.authorize(HOST, requirements("200000"))).resolves.toBeDefined();
+  });
+
+  it("should apply the '*' host limits to other hosts and count each host separately", async () => {
+    const policy = new SpendingPolicy({ hosts: { "*": { monthly: "1" } } });
+
+    await policy.authorize("a.example.com", requirements("1000000"));
+    await policy.authorize("b.example.com", requirements("1000000"));
+
+    const error = await rejection(policy.authorize("a.example.com", requirements("1")));
+    expect(error.rule).toBe("host_monthly_limit");
+  });
+
+  it("should enforce asset limits and block unlisted assets", async () => {
+    const policy = new SpendingPolicy({
+      assets: [{ asset: USDC.toLowerCase(), network: "base-sepolia", decimals: 6, daily: "2" }],
+    });
+
+    await policy.authorize(HOST, requirements("1500000", { extra: undefined }));
+
+    expect((await rejection(policy.authorize(HOST, requirements("600000")))).rule).toBe(
+      "asset_daily_limit",
+    );
+    expect(
+      (await rejection(policy.authorize(HOST, requirements("1", { network: "base" })))).rule,
+    ).toBe("asset_not_allowed");
+  });
+
+  it("should require decimals when limits apply", async () => {
+    const policy = new SpendingPolicy({ hosts: { "*": { daily: "1" } } });
+
+    const error = await rejection(policy.authorize(HOST, requirements("1", { extra: {} })));
+
+    expect(error.rule).toBe("asset_decimals_unknown");
+  });
+
+  it("should read decimals from the token when extra has none", async () => {
+    const policy = new SpendingPolicy({ hosts: { "*": { perPayment: "1" } } });
+    const getDecimals = vi.fn(async () => 6);
+
+    await policy.authorize(HOST, requirements("1000000", { extra: {} }), getDecimals);
+    const error = await rejection(
+      policy.authorize(HOST, requirements("1000001", { extra: {} }), getDecimals),
+    );
+
+    expect(error.rule).toBe("host_per_payment_limit");
+    expect(getDecimals).toHaveBeenCalledTimes(2);
+  });
+
+  it("should enforce allow and deny lists of recipients and networks", async () => {
+    const other = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+    const denied = new SpendingPolicy({
+      denyPayTo: [PAY_TO.toLowerCase()],
+      denyNetworks: ["base"],
+    });
+    const allowed = new SpendingPolicy({ allowPayTo: [other], allowNetworks: ["base"] });
+
+    expect((await rejection(denied.authorize(HOST, requirements("1")))).rule).toBe("pay_to_denied");
+    expect(
+      (
+        await rejection(
+          denied.authorize(HOST, requirements("1", { payTo: other, network: "base" })),
+        )
+      ).rule,
+    ).toBe("network_denied");
+    expect((await rejection(allowed.authorize(HOST, requirements("1")))).rule).toBe(
+      "pay_to_not_allowed",
+    );
+    expect(
+      (await rejection(allowed.authorize(HOST, requirements("1", { payTo: other })))).rule,
+    ).toBe("network_not_allowed");
+  });
+
+  it("should not let concurrent payments exceed a limit and release unsent payments", async () => {
+    const ledger = new MemorySpendingLedger();
+    const policy = new SpendingPolicy({ ledger, hosts: { "*": { daily: "1" } } });
+
+    const results = await Promise.allSettled([
+      policy.authorize(HOST, requirements("600000")),
+      policy.authorize(HOST, requirements("600000")),
+    ]);
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+
+    await policy.release((results[0] as PromiseFulfilledResult<never>).value);
+    expect(await ledger.list(0)).toEqual([]);
+  });
+});
+
+describe("FileSpendingLedger", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-spending-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep spending across restarts", async () => {
+    const filePath = join(dir, "ledger", "spending.json");
+    const config = { hosts: { "*": { daily: "1" } } };
+
+    await new SpendingPolicy({ ...config, ledger: new FileSpendingLedger(filePath) }).authorize(
+      HOST,
+      requirements("800000"),
+    );
+
+    const restarted = new SpendingPolicy({ ...config, ledger: new FileSpendingLedger(filePath) });
+    const error = await rejection(restarted.authorize(HOST, requirements("300000")));
+
+    expect(error.rule).toBe("host_daily_limit");
+    expect(error.spent).toBe("0.8");
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toMatchObject({
+      version: 1,
+      records: [{ host: HOST, amount: "800000", decimals: 6 }],
+    });
+  });
+});
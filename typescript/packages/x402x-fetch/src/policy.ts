@@ -0,0 +1,372 @@
+import { formatUnits, parseUnits } from "viem";
+import { PaymentRequirements } from "x402x/types";
+import { MemorySpendingLedger, SpendingLedger, SpendingRecord } from "./ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+/**
+ * Spending limits in human units (e.g. "1.5" for 1.5 USDC)
+ */
+export interface SpendingLimits {
+  /** Maximum amount of a single payment */
+  perPayment?: string;
+
+  /** Maximum amount over the last 24 hours */
+  daily?: string;
+
+  /** Maximum amount over the last 30 days */
+  monthly?: string;
+}
+
+/**
+ * Limits for one asset, optionally on one network
+ */
+export interface AssetSpendingLimits extends SpendingLimits {
+  /** Token address (EVM) or mint (Solana) */
+  asset: string;
+
+  /** Only apply to this network */
+  network?: string;
+
+  /**
+   * Token decimals, defaults to `extra.decimals` of the payment requirements, then to the
+   * decimals read from the token
+   */
+  decimals?: number;
+}
+
+/**
+ * Spending policy configuration
+ */
+export interface SpendingPolicyConfig {
+  /** Ledger of authorized payments, defaults to an in-memory ledger */
+  ledger?: SpendingLedger;
+
+  /**
+   * Limits per host of the paid resource, `"*"` applies to hosts that are not listed.
+   * Amounts of different assets are added up in human units, so host limits assume assets of
+   * comparable value (e.g. USD stablecoins).
+   */
+  hosts?: Record<string, SpendingLimits>;
+
+  /** Limits per asset. When set, payments in assets that are not listed are blocked. */
+  assets?: AssetSpendingLimits[];
+
+  /** Only pay these recipients */
+  allowPayTo?: string[];
+
+  /** Never pay these recipients */
+  denyPayTo?: string[];
+
+  /** Only pay on these networks */
+  allowNetworks?: string[];
+
+  /** Never pay on these networks */
+  denyNetworks?: string[];
+}
+
+/**
+ * Rule of a spending policy that blocked a payment
+ */
+export type SpendingPolicyRule =
+  | "pay_to_denied"
+  | "pay_to_not_allowed"
+  | "network_denied"
+  | "network_not_allowed"
+  | "asset_not_allowed"
+  | "asset_decimals_unknown"
+  | "asset_per_payment_limit"
+  | "asset_daily_limit"
+  | "asset_monthly_limit"
+  | "host_per_payment_limit"
+  | "host_daily_limit"
+  | "host_monthly_limit";
+
+/**
+ * Error thrown when a spending policy blocks a payment
+ */
+export class SpendingPolicyError extends Error {
+  /** The rule that blocked the payment */
+  readonly rule: SpendingPolicyRule;
+
+  /** The blocked payment */
+  readonly payment: { host: string; network: string; asset: string; payTo: string; amount: string };
+
+  /** The limit of the rule in human units (limit rules only) */
+  readonly limit?: string;
+
+  /** The amount already spent in the rule's window in human units (daily / monthly rules only) */
+  readonly spent?: string;
+
+  /**
+   * Creates a spending policy error
+   *
+   * @param rule - The rule that blocked the payment
+   * @param payment - The blocked payment, amount in base units
+   * @param payment.host - Host of the paid resource
+   * @param payment.network - Network of the payment
+   * @param payment.asset - Token address or mint
+   * @param payment.payTo - Payment recipient
+   * @param payment.amount - Amount in base units
+   * @param details - The limit and the amount already spent, in human units
+   * @param details.limit - The limit of the rule
+   * @param details.spent - The amount already spent in the rule's window
+   */
+  constructor(
+    rule: SpendingPolicyRule,
+    payment: { host: string; network: string; asset: string; payTo: string; amount: string },
+    details: { limit?: string; spent?: string } = {},
+  ) {
+    const limit = details.limit !== undefined ? ` (limit ${details.limit}` : "";
+    const spent = details.spent !== undefined ? `, spent ${details.spent}` : "";
+    super(
+      `Payment of ${payment.amount} ${payment.asset} on ${payment.network} to ${payment.payTo} ` +
+        `for ${payment.host} blocked by spending policy: ${rule}` +
+        (limit && `${limit}${spent})`),
+    );
+    this.name = "SpendingPolicyError";
+    this.rule = rule;
+    this.payment = payment;
+    this.limit = details.limit;
+    this.spent = details.spent;
+  }
+}
+
+/**
+ * Compares two addresses, ignoring case for EVM addresses
+ *
+ * @param a - The first address
+ * @param b - The second address
+ * @returns True if both addresses are the same
+ */
+function sameAddress(a: string, b: string): boolean {
+  return a === b || (a.startsWith("0x") && a.toLowerCase() === b.toLowerCase());
+}
+
+/**
+ * Budgets for autonomous payments: per-host and per-asset limits in human units, rolling daily /
+ * monthly limits and allow / deny lists of recipients and networks.
+ *
+ * Payments are counted when they are authorized, before the payment header is signed, so a signed
+ * payment always fits the budget even if the server never settles it.
+ *
+ * @example
+ * ```typescript
+ * const policy = new SpendingPolicy({
+ *   ledger: new FileSpendingLedger("./.x402/spending.json"),
+ *   hosts: { "api.example.com": { perPayment: "0.5", daily: "5" }, "*": { daily: "1" } },
+ *   assets: [{ asset: USDC, network: "base", decimals: 6, monthly: "100" }],
+ *   denyNetworks: ["base-sepolia"],
+ * });
+ *
+ * const fetchWithPay = wrapFetchWithPayment(fetch, wallet, undefined, undefined, undefined, {
+ *   spendingPolicy: policy,
+ * });
+ * ```
+ */
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private ledger: SpendingLedger;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a spending policy
+   *
+   * @param config - The policy configuration
+   */
+  constructor(config: SpendingPolicyConfig) {
+    this.config = config;
+    this.ledger = config.ledger ?? new MemorySpendingLedger();
+  }
+
+  /**
+   * Checks a payment against the policy and records it in the ledger.
+   * Checks are serialized so concurrent payments cannot exceed a limit together.
+   *
+   * @param host - Host of the paid resource
+   * @param requirements - The selected payment requirements
+   * @param getDecimals - Reads the token decimals when neither the limits nor `extra` have them
+   * @returns The ledger record of the payment
+   * @throws {SpendingPolicyError} If a rule blocks the payment
+   */
+  authorize(
+    host: string,
+    requirements: PaymentRequirements,
+    getDecimals?: () => Promise<number | undefined>,
+  ): Promise<SpendingRecord> {
+    const result = this.pending.then(() => this.check(host, requirements, getDecimals));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Removes an authorized payment that was never sent
+   *
+   * @param record - The record returned by authorize
+   */
+  async release(record: SpendingRecord): Promise<void> {
+    await this.ledger.remove(record.id);
+  }
+
+  /**
+   * Checks a payment against every rule and records it
+   *
+   * @param host - Host of the paid resource
+   * @param requirements - The selected payment requirements
+   * @param getDecimals - Reads the token decimals when neither the limits nor `extra` have them
+   * @returns The ledger record of the payment
+   */
+  private async check(
+    host: string,
+    requirements: PaymentRequirements,
+    getDecimals?: () => Promise<number | undefined>,
+  ): Promise<SpendingRecord> {
+    const { network, asset, payTo, maxAmountRequired: amount } = requirements;
+    const payment = { host, network, asset, payTo, amount };
+    const block = (rule: SpendingPolicyRule, details?: { limit?: string; spent?: string }) =>
+      new SpendingPolicyError(rule, payment, details);
+    const { allowPayTo, denyPayTo, allowNetworks, denyNetworks } = this.config;
+
+    if (denyPayTo?.some(address => sameAddress(address, payTo))) {
+      throw block("pay_to_denied");
+    }
+    if (allowPayTo && !allowPayTo.some(address => sameAddress(address, payTo))) {
+      throw block("pay_to_not_allowed");
+    }
+    if (denyNetworks?.includes(network)) {
+      throw block("network_denied");
+    }
+    if (allowNetworks && !allowNetworks.includes(network)) {
+      throw block("network_not_allowed");
+    }
+
+    const assetLimits = this.config.assets?.find(
+      limits => sameAddress(limits.asset, asset) && (!limits.network || limits.network === network),
+    );
+    if (this.config.assets && !assetLimits) {
+      throw block("asset_not_allowed");
+    }
+
+    const hostLimits = this.config.hosts?.[host] ?? this.config.hosts?.["*"];
+    let decimals = assetLimits?.decimals ?? (requirements.extra?.decimals as number | undefined);
+    if (decimals === undefined && (assetLimits || hostLimits)) {
+      decimals = await getDecimals?.();
+      if (decimals === undefined) {
+        throw block("asset_decimals_unknown");
+      }
+    }
+
+    const now = Date.now();
+    const record: SpendingRecord = {
+      id: globalThis.crypto.randomUUID(),
+      timestamp: now,
+      host,
+      network,
+      asset,
+      payTo,
+      amount,
+      decimals: decimals ?? 0,
+    };
+
+    const history = await this.ledger.list(now - MONTH_MS);
+
+    if (assetLimits) {
+      this.checkLimits(
+        assetLimits,
+        "asset",
+        record,
+        history.filter(
+          spent =>
+            sameAddress(spent.asset, asset) &&
+            (!assetLimits.network || spent.network === assetLimits.network),
+        ),
+        block,
+      );
+    }
+    if (hostLimits) {
+      this.checkLimits(
+        hostLimits,
+        "host",
+        record,
+        history.filter(spent => spent.host === host),
+        block,
+      );
+    }
+
+    // Without limits the decimals may be unknown, so the payment is not counted
+    if (assetLimits || hostLimits) {
+      await this.ledger.add(record);
+    }
+    return record;
+  }
+
+  /**
+   * Checks the per-payment, daily and monthly limits of an asset or host
+   *
+   * Amounts are compared in base units of the payment's asset with 18 decimals of precision,
+   * so records of assets with different decimals can be added up.
+   *
+   * @param limits - The limits to enforce
+   * @param scope - Whether the limits are asset or host limits
+   * @param record - The payment being authorized
+   * @param history - The ledger records of the last 30 days in the same scope
+   * @param block - Creates the error for a rule
+   */
+  private checkLimits(
+    limits: SpendingLimits,
+    scope: "asset" | "host",
+    record: SpendingRecord,
+    history: SpendingRecord[],
+    block: (rule: SpendingPolicyRule, details?: { limit?: string; spent?: string }) => Error,
+  ): void {
+    const amount = toWad(record);
+    const since = record.timestamp - DAY_MS;
+    const windows = [
+      { rule: `${scope}_per_payment_limit`, limit: limits.perPayment, spent: 0n },
+      {
+        rule: `${scope}_daily_limit`,
+        limit: limits.daily,
+        spent: sumWad(history.filter(spent => spent.timestamp >= since)),
+      },
+      { rule: `${scope}_monthly_limit`, limit: limits.monthly, spent: sumWad(history) },
+    ] as const;
+
+    for (const { rule, limit, spent } of windows) {
+      if (limit !== undefined && spent + amount > parseUnits(limit, WAD_DECIMALS)) {
+        throw block(rule, {
+          limit,
+          ...(rule !== `${scope}_per_payment_limit` && { spent: formatUnits(spent, WAD_DECIMALS) }),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Precision used to add up amounts of assets with different decimals
+ */
+const WAD_DECIMALS = 18;
+
+/**
+ * Converts the amount of a record to 18 decimals
+ *
+ * @param record - The ledger record
+ * @returns The amount with 18 decimals
+ */
+function toWad(record: SpendingRecord): bigint {
+  const amount = BigInt(record.amount);
+  return record.decimals <= WAD_DECIMALS
+    ? amount * 10n ** BigInt(WAD_DECIMALS - record.decimals)
+    : amount / 10n ** BigInt(record.decimals - WAD_DECIMALS);
+}
+
+/**
+ * Adds up the amounts of records with 18 decimals
+ *
+ * @param records - The ledger records
+ * @returns The total with 18 decimals
+ */
+function sumWad(records: SpendingRecord[]): bigint {
+  return records.reduce((total, record) => total + toWad(record), 0n);
+}
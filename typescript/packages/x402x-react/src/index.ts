@@ -2,7 +2,12 @@
  * X402 Payment Hook - using @x402-fetch
  */
 import { useMutation } from '@tanstack/react-query';
-import { wrapFetchWithPayment, type Signer } from 'x402x-fetch';
+import {
+  wrapFetchWithPayment,
+  decodeXPaymentResponse,
+  type OnPaymentRequired,
+  type Signer,
+} from 'x402x-fetch';
 import { publicActions } from 'viem';
 import type { WalletClient } from 'viem';
 import createFetchWithProxyHeader from './lib/x402-helpers';
@@ -21,10 +26,30 @@ export interface X402PaymentResponse {
   network: string;
   payer: string;
   txHash: string;
-  asset: string;
-  amount: string;
-  recipient: string;
+  asset?: string;
+  amount?: string;
+  recipient?: string;
   description?: string;
+  data?: unknown;             // Parsed response body (when settled via X-PAYMENT-RESPONSE)
+}
+
+/**
+ * Check whether a parsed body uses the ApiResponse wrapper
+ */
+function isApiResponse(body: unknown): body is ApiResponse<unknown> {
+  return typeof body === 'object' && body !== null && 'code' in body && 'data' in body;
+}
+
+/**
+ * Read the response body as JSON, falling back to text
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
 }
 
 export interface UseX402PaymentOptions {
@@ -33,6 +58,7 @@ export interface UseX402PaymentOptions {
   paymentType?: string;      // Payment type (default 'permit')
   walletClient?: WalletClient; // Wallet client from wagmi
   init?: RequestInit;        // Fetch options
+  onPaymentRequired?: OnPaymentRequired; // Confirm the payment before signing (e.g. show a dialog)
   mutationOptions?: Omit<UseMutationOptions<X402PaymentResponse, Error>, 'mutationFn'>;
 }
 
@@ -51,6 +77,7 @@ export function useX402Payment(options: UseX402PaymentOptions) {
     paymentType = 'permit',
     walletClient,
     init,
+    onPaymentRequired,
     mutationOptions,
   } = options;
 
@@ -76,7 +103,14 @@ export function useX402Payment(options: UseX402PaymentOptions) {
       // 3. Use x402-fetch package to handle payment
       const fetchWithProxyHeader = createFetchWithProxyHeader();
       const signer = walletClient.extend(publicActions) as unknown as Signer;
-      const fetchWithPayment = wrapFetchWithPayment(fetchWithProxyHeader, signer, value);
+      const fetchWithPayment = wrapFetchWithPayment(
+        fetchWithProxyHeader,
+        signer,
+        value,
+        undefined,
+        undefined,
+        { onPaymentRequired },
+      );
 
       const endTime = Date.now();
       console.log('endTime:', endTime);
@@ -102,19 +136,40 @@ export function useX402Payment(options: UseX402PaymentOptions) {
         throw new Error(`支付请求失败: ${response.status} ${errorText}`);
       }
 
+      // 6. Prefer the settlement receipt from X-PAYMENT-RESPONSE
+      const paymentResponseHeader = response.headers.get('X-PAYMENT-RESPONSE');
+      if (paymentResponseHeader) {
+        const receipt = decodeXPaymentResponse(paymentResponseHeader);
+        if (!receipt.success) {
+          throw new Error('支付失败');
+        }
+
+        const body = await readBody(response);
+        const data = isApiResponse(body) ? body.data : body;
+        return {
+          ...(typeof data === 'object' && data !== null ? data : {}),
+          success: true,
+          network: receipt.network,
+          payer: receipt.payer,
+          txHash: receipt.transaction,
+          data,
+        };
+      }
+
+      // 7. Fall back to the ApiResponse body
       const apiResponse: ApiResponse<X402PaymentResponse> = await response.json();
 
-      // 6. Check business status code
+      // Check business status code
       if (apiResponse.code !== 0) {
         throw new Error(apiResponse.message || '支付失败');
       }
 
-      // 7. Check if payment succeeded
+      // Check if payment succeeded
       if (!apiResponse.data.success) {
         throw new Error('支付失败');
       }
 
-      // 8. Return payment data
+      // Return payment data
       return apiResponse.data;
     },
     ...mutationOptions,
@@ -0,0 +1,41 @@
+import { svm } from "x402x/shared";
+import type { ParsedPayment } from "../schemas";
+import type { PaymentEventBase } from "./types";
+
+/**
+ * 从支付数据中提取事件字段
+ *
+ * @param payment - 解析后的支付数据
+ * @returns payer / amount / asset / network / scheme / paymentType / resource
+ */
+export function getPaymentEventContext(
+  payment: ParsedPayment,
+): Omit<PaymentEventBase, "type" | "timestamp" | "durationMs"> {
+  const { payload, requirements } = payment;
+  const inner = payload.payload;
+
+  let payer: string | undefined;
+  let paymentType: string | undefined;
+  if ("authorizationType" in inner) {
+    const { authorization } = inner;
+    payer = "from" in authorization ? authorization.from : authorization.owner;
+    paymentType = inner.authorizationType;
+  } else {
+    try {
+      payer =
+        svm.getTokenPayerFromTransaction(svm.decodeTransactionFromPayload(inner)) || undefined;
+    } catch {
+      payer = undefined;
+    }
+  }
+
+  return {
+    payer,
+    amount: requirements.maxAmountRequired,
+    asset: requirements.asset,
+    network: payload.network,
+    scheme: payload.scheme,
+    paymentType,
+    resource: requirements.resource || undefined,
+  };
+}
@@ -0,0 +1,110 @@
+import type {
+  PaymentEvent,
+  PaymentEventListener,
+  PaymentEventMap,
+  PaymentEventSink,
+  PaymentEventType,
+} from "./types";
+
+/**
+ * 类型化的支付事件发射器
+ *
+ * 监听器和 sink 的异常（包括返回的 rejected Promise）只会打印警告，不会影响支付流程
+ *
+ * @example
+ * ```typescript
+ * const off = server.events.on("payment.settle_failed", event => {
+ *   alert(`Settlement failed for ${event.payer}: ${event.error}`);
+ * });
+ * ```
+ */
+export class PaymentEventEmitter {
+  private listeners = new Map<PaymentEventType, Set<PaymentEventListener>>();
+  private sinks = new Set<PaymentEventSink>();
+
+  /**
+   * 订阅事件
+   *
+   * @param type - 事件类型
+   * @param listener - 监听器
+   * @returns 取消订阅的函数
+   */
+  on<T extends PaymentEventType>(type: T, listener: PaymentEventListener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener as PaymentEventListener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * 订阅一次事件，触发后自动取消
+   *
+   * @param type - 事件类型
+   * @param listener - 监听器
+   * @returns 取消订阅的函数
+   */
+  once<T extends PaymentEventType>(type: T, listener: PaymentEventListener<T>): () => void {
+    const off = this.on(type, event => {
+      off();
+      return listener(event);
+    });
+    return off;
+  }
+
+  /**
+   * 取消订阅
+   *
+   * @param type - 事件类型
+   * @param listener - on 时传入的监听器
+   */
+  off<T extends PaymentEventType>(type: T, listener: PaymentEventListener<T>): void {
+    this.listeners.get(type)?.delete(listener as PaymentEventListener);
+  }
+
+  /**
+   * 添加接收所有事件的 sink（例如 JsonlAuditLog）
+   *
+   * @param sink - 事件 sink
+   * @returns 移除 sink 的函数
+   */
+  pipe(sink: PaymentEventSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  /**
+   * 发出事件
+   *
+   * @param event - 支付事件
+   */
+  emit<T extends PaymentEventType>(event: PaymentEventMap[T]): void {
+    for (const listener of Array.from(this.listeners.get(event.type) ?? [])) {
+      this.invoke(() => listener(event), event.type);
+    }
+    for (const sink of this.sinks) {
+      this.invoke(() => sink.write(event as PaymentEvent), event.type);
+    }
+  }
+
+  /**
+   * 调用监听器并吞掉同步和异步异常
+   *
+   * @param fn - 监听器调用
+   * @param type - 事件类型，用于日志
+   */
+  private invoke(fn: () => void | Promise<void>, type: PaymentEventType): void {
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        result.catch(error => console.warn(`Payment event listener failed (${type}):`, error));
+      }
+    } catch (error) {
+      console.warn(`Payment event listener failed (${type}):`, error);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * 支付事件测试
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonlAuditLog, PaymentEventEmitter } from "./index";
+import type { PaymentSettledEvent } from "./index";
+
+const settledEvent: PaymentSettledEvent = {
+  type: "payment.settled",
+  timestamp: "2025-01-01T00:00:00.000Z",
+  durationMs: 120,
+  payer: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+  amount: "1000",
+  asset: "0x25d066c4C68C8A6332DfDB4230263608305Ca991",
+  network: "bsc",
+  scheme: "exact",
+  paymentType: "eip3009",
+  txHash: "0xabc",
+};
+
+describe("PaymentEventEmitter", () => {
+  it("should only call listeners of the emitted type", () => {
+    const emitter = new PaymentEventEmitter();
+    const settled = vi.fn();
+    const rejected = vi.fn();
+    emitter.on("payment.settled", settled);
+    emitter.on("payment.rejected", rejected);
+
+    emitter.emit(settledEvent);
+
+    expect(settled).toHaveBeenCalledWith(settledEvent);
+    expect(rejected).not.toHaveBeenCalled();
+  });
+
+  it("should support unsubscribe and once", () => {
+    const emitter = new PaymentEventEmitter();
+    const listener = vi.fn();
+    const onceListener = vi.fn();
+    const off = emitter.on("payment.settled", listener);
+    emitter.once("payment.settled", onceListener);
+
+    emitter.emit(settledEvent);
+    off();
+    emitter.emit(settledEvent);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(onceListener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not throw when a listener or sink fails", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const emitter = new PaymentEventEmitter();
+    const after = vi.fn();
+    emitter.on("payment.settled", () => {
+      throw new Error("boom");
+    });
+    emitter.on("payment.settled", after);
+    emitter.pipe({ write: () => Promise.reject(new Error("disk full")) });
+
+    expect(() => emitter.emit(settledEvent)).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(after).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe("JsonlAuditLog", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it("should append one JSON line per event", async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-audit-"));
+    const filePath = join(dir, "logs", "audit.jsonl");
+    const log = new JsonlAuditLog(filePath);
+
+    void log.write(settledEvent);
+    void log.write({ ...settledEvent, txHash: "0xdef" });
+    await log.flush();
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map(line => JSON.parse(line).txHash)).toEqual(["0xabc", "0xdef"]);
+  });
+
+  it("should filter events", async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-audit-"));
+    const filePath = join(dir, "audit.jsonl");
+    const log = new JsonlAuditLog(filePath, { events: ["payment.settle_failed"] });
+
+    await log.write(settledEvent);
+    await log.write({ ...settledEvent, type: "payment.settle_failed", error: "reverted" });
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      type: "payment.settle_failed",
+      error: "reverted",
+    });
+  });
+});
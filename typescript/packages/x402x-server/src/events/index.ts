@@ -0,0 +1,28 @@
+/**
+ * Payment lifecycle events and audit log sinks
+ */
+
+export { PaymentEventEmitter } from "./emitter";
+export { JsonlAuditLog } from "./jsonl";
+export type { JsonlAuditLogOptions } from "./jsonl";
+export { getPaymentEventContext } from "./context";
+export type {
+  PaymentEvent,
+  PaymentEventBase,
+  PaymentEventListener,
+  PaymentEventMap,
+  PaymentEventSink,
+  PaymentEventType,
+  PaymentParsedEvent,
+  PaymentVerifiedEvent,
+  PaymentRejectedEvent,
+  PaymentSettledEvent,
+  PaymentSettleFailedEvent,
+  PaymentConfirmedEvent,
+  PaymentConfirmationFailedEvent,
+  RefundEventBase,
+  RefundPendingEvent,
+  RefundSentEvent,
+  RefundConfirmedEvent,
+  RefundFailedEvent,
+} from "./types";
@@ -0,0 +1,92 @@
+import type { PaymentEvent, PaymentEventSink, PaymentEventType } from "./types";
+
+/**
+ * JsonlAuditLog 配置选项
+ */
+export interface JsonlAuditLogOptions {
+  /** 只记录指定事件，默认记录全部 */
+  events?: PaymentEventType[];
+}
+
+/**
+ * JSONL 审计日志
+ *
+ * 每个事件追加一行 JSON 到文件，适合对账和导入数据仓库。写入串行化，保证行顺序与事件顺序一致。
+ *
+ * @example
+ * ```typescript
+ * const server = new X402Server({
+ *   client,
+ *   facilitator,
+ *   auditLog: new JsonlAuditLog("./logs/x402-audit.jsonl", {
+ *     events: ["payment.settled", "payment.settle_failed"],
+ *   }),
+ * });
+ * ```
+ */
+export class JsonlAuditLog implements PaymentEventSink {
+  private filePath: string;
+  private events: Set<PaymentEventType> | null;
+  private writing: Promise<void> = Promise.resolve();
+  private ready: Promise<void> | null = null;
+
+  /**
+   * 构造函数
+   *
+   * @param filePath - 日志文件路径，不存在时自动创建（包括父目录）
+   * @param options - 配置选项
+   */
+  constructor(filePath: string, options: JsonlAuditLogOptions = {}) {
+    this.filePath = filePath;
+    this.events = options.events ? new Set(options.events) : null;
+  }
+
+  /**
+   * 追加一条事件
+   *
+   * @param event - 支付事件
+   * @returns 写入完成的 Promise
+   */
+  write(event: PaymentEvent): Promise<void> {
+    if (this.events && !this.events.has(event.type)) {
+      return Promise.resolve();
+    }
+
+    const line = `${JSON.stringify(event)}\n`;
+    const append = async () => {
+      // 动态引入，避免浏览器环境打包 node:fs
+      const { appendFile } = await import("node:fs/promises");
+      await this.ensureDirectory();
+      await appendFile(this.filePath, line, "utf8");
+    };
+
+    this.writing = this.writing.then(append, append);
+    return this.writing;
+  }
+
+  /**
+   * 等待所有待写入的事件落盘（例如进程退出前）
+   */
+  async flush(): Promise<void> {
+    await this.writing.catch(() => undefined);
+  }
+
+  /**
+   * 首次写入时创建父目录
+   *
+   * @returns 创建完成的 Promise
+   */
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const { mkdir } = await import("node:fs/promises");
+        const { dirname } = await import("node:path");
+        await mkdir(dirname(this.filePath), { recursive: true });
+      })().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
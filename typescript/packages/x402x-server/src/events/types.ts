@@ -0,0 +1,245 @@
+import type { SettlementBreakdown, WaitUntil } from "x402x/types";
+
+/**
+ * 支付生命周期事件
+ *
+ * - payment.parsed: X-PAYMENT 解析成功并匹配到支付要求
+ * - payment.verified: facilitator 验证通过
+ * - payment.rejected: 解析或验证失败、重复支付
+ * - payment.settled: 结算成功
+ * - payment.settle_failed: 结算失败
+ * - payment.confirmed: 以 waitUntil "submitted" 结算的交易已在链上确认
+ * - payment.confirmation_failed: 以 waitUntil "submitted" 结算的交易回滚或未能确认
+ * - refund.pending: 退款记录已创建
+ * - refund.sent: 退款交易已广播
+ * - refund.confirmed: 退款交易已确认
+ * - refund.failed: 退款发送失败或交易回滚
+ */
+export type PaymentEventType =
+  | "payment.parsed"
+  | "payment.verified"
+  | "payment.rejected"
+  | "payment.settled"
+  | "payment.settle_failed"
+  | "payment.confirmed"
+  | "payment.confirmation_failed"
+  | "refund.pending"
+  | "refund.sent"
+  | "refund.confirmed"
+  | "refund.failed";
+
+/**
+ * 所有事件共有的字段
+ *
+ * 支付相关字段在解析失败时（例如缺少 X-PAYMENT）可能不存在
+ */
+export interface PaymentEventBase {
+  /** 事件类型 */
+  type: PaymentEventType;
+
+  /** 事件发生时间（ISO 8601） */
+  timestamp: string;
+
+  /**
+   * 本阶段耗时（毫秒）：parse / verify / settle；confirmed / confirmation_failed 为交易提交起的耗时；
+   * 退款事件为调用 refund() 起的耗时
+   */
+  durationMs: number;
+
+  /** 付款人地址（EVM 取授权中的 from / owner，Solana 取转账的 owner） */
+  payer?: string;
+
+  /** 金额（最小单位）；settled / settle_failed 为实际结算金额 */
+  amount?: string;
+
+  /** Token 地址 */
+  asset?: string;
+
+  /** 网络名称 */
+  network?: string;
+
+  /** 支付方案：exact / upto */
+  scheme?: string;
+
+  /** EVM 授权类型：eip3009 / permit / permit2 */
+  paymentType?: string;
+
+  /** 资源 URL */
+  resource?: string;
+}
+
+/**
+ * payment.parsed
+ */
+export interface PaymentParsedEvent extends PaymentEventBase {
+  type: "payment.parsed";
+}
+
+/**
+ * payment.verified
+ */
+export interface PaymentVerifiedEvent extends PaymentEventBase {
+  type: "payment.verified";
+  payer: string;
+}
+
+/**
+ * payment.rejected
+ */
+export interface PaymentRejectedEvent extends PaymentEventBase {
+  type: "payment.rejected";
+
+  /** 失败阶段 */
+  stage: "parse" | "verify";
+
+  /** 失败原因，例如 facilitator 返回的 invalidReason 或 duplicate_payment */
+  error: string;
+}
+
+/**
+ * payment.settled
+ */
+export interface PaymentSettledEvent extends PaymentEventBase {
+  type: "payment.settled";
+
+  /** 交易哈希（upto 实际金额为 0 或仅模拟结算时为空字符串） */
+  txHash: string;
+
+  /** 结算进度，facilitator 未返回时不存在 */
+  status?: WaitUntil;
+}
+
+/**
+ * payment.settle_failed
+ */
+export interface PaymentSettleFailedEvent extends PaymentEventBase {
+  type: "payment.settle_failed";
+
+  /** 失败原因 */
+  error: string;
+}
+
+/**
+ * payment.confirmed
+ */
+export interface PaymentConfirmedEvent extends PaymentEventBase {
+  type: "payment.confirmed";
+
+  /** 交易哈希 */
+  txHash: string;
+
+  /** 结算金额明细（gross / fee / net），无法从交易回执解析时不存在 */
+  breakdown?: SettlementBreakdown;
+}
+
+/**
+ * payment.confirmation_failed
+ */
+export interface PaymentConfirmationFailedEvent extends PaymentEventBase {
+  type: "payment.confirmation_failed";
+
+  /** 交易哈希 */
+  txHash: string;
+
+  /** 失败原因 */
+  error: string;
+}
+
+/**
+ * 退款事件共有的字段，amount 为本次退款金额
+ */
+export interface RefundEventBase extends PaymentEventBase {
+  /** 被退款的支付 id */
+  paymentId: string;
+
+  /** 退款 id */
+  refundId: string;
+
+  /** 退款原因 */
+  reason: string;
+
+  /** 是否为部分退款（退款后仍有剩余金额） */
+  partial: boolean;
+}
+
+/**
+ * refund.pending
+ */
+export interface RefundPendingEvent extends RefundEventBase {
+  type: "refund.pending";
+}
+
+/**
+ * refund.sent
+ */
+export interface RefundSentEvent extends RefundEventBase {
+  type: "refund.sent";
+
+  /** 退款交易哈希 */
+  txHash: string;
+}
+
+/**
+ * refund.confirmed
+ */
+export interface RefundConfirmedEvent extends RefundEventBase {
+  type: "refund.confirmed";
+
+  /** 退款交易哈希 */
+  txHash: string;
+}
+
+/**
+ * refund.failed
+ */
+export interface RefundFailedEvent extends RefundEventBase {
+  type: "refund.failed";
+
+  /** 退款交易哈希（交易已广播时存在） */
+  txHash?: string;
+
+  /** 失败原因 */
+  error: string;
+}
+
+/**
+ * 支付生命周期事件
+ */
+export type PaymentEvent =
+  | PaymentParsedEvent
+  | PaymentVerifiedEvent
+  | PaymentRejectedEvent
+  | PaymentSettledEvent
+  | PaymentSettleFailedEvent
+  | PaymentConfirmedEvent
+  | PaymentConfirmationFailedEvent
+  | RefundPendingEvent
+  | RefundSentEvent
+  | RefundConfirmedEvent
+  | RefundFailedEvent;
+
+/**
+ * 事件类型到事件对象的映射
+ */
+export type PaymentEventMap = {
+  [T in PaymentEventType]: Extract<PaymentEvent, { type: T }>;
+};
+
+/**
+ * 事件监听器，返回的 Promise 不会被等待
+ */
+export type PaymentEventListener<T extends PaymentEventType = PaymentEventType> = (
+  event: PaymentEventMap[T],
+) => void | Promise<void>;
+
+/**
+ * 事件输出（例如审计日志），接收所有事件
+ */
+export interface PaymentEventSink {
+  /**
+   * 写入事件
+   *
+   * @param event - 支付事件
+   */
+  write(event: PaymentEvent): void | Promise<void>;
+}
@@ -2,11 +2,13 @@
  * 基础测试 - x402x-server
  */
 
-import { describe, it, expect, beforeAll } from "vitest";
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
 import { X402Server } from "./server";
+import type { PaymentEvent } from "./events";
 import { Facilitator } from "x402x-facilitator";
+import { FacilitatorServer } from "x402x-facilitator-server";
 import { createPublicClient, http } from "viem";
-import { bscTestnet } from "viem/chains";
+import { bsc, bscTestnet } from "viem/chains";
 
 describe("X402Server", () => {
   let server: X402Server;
@@ -58,11 +60,29 @@ describe("X402Server", () => {
   });
 
   describe("createRequirements", () => {
+    it("should reject networks without a configured client", async () => {
+      const testnetServer = new X402Server({
+        client: createPublicClient({ chain: bscTestnet, transport: http() }),
+        facilitator: new Facilitator({
+          recipientAddress: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+        }),
+        network: "bsc-testnet",
+      });
+
+      await expect(
+        testnetServer.createRequirements({
+          asset: USDC,
+          maxAmountRequired: "1000",
+          network: "base",
+        }),
+      ).rejects.toThrow("No client configured for network 'base'");
+    });
+
     it("should create payment requirements with auto-detect", async () => {
       const requirements = await server.createRequirements({
         asset: USDC,
         maxAmountRequired: "1000",
-        network: "bsc",
+        network: "bsc-testnet",
       });
 
       expect(requirements).toBeDefined();
@@ -98,6 +118,60 @@ describe("X402Server", () => {
     });
   });
 
+  describe("createRequirements (solana)", () => {
+    const USDC_DEVNET = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+    const SVM_RECIPIENT = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+    const FEE_PAYER = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+
+    it("should populate feePayer and decimals for solana-devnet", async () => {
+      const client = createPublicClient({ chain: bscTestnet, transport: http() });
+      const facilitator = new Facilitator({
+        recipientAddress: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+        svmRecipientAddress: SVM_RECIPIENT,
+      });
+      vi.spyOn(facilitator, "getFeePayer").mockResolvedValue(FEE_PAYER);
+      const svmServer = new X402Server({ client, facilitator });
+      vi.spyOn(
+        svmServer as unknown as { getMintDecimals: () => Promise<number> },
+        "getMintDecimals",
+      ).mockResolvedValue(6);
+
+      const requirements = await svmServer.createRequirements({
+        asset: USDC_DEVNET,
+        maxAmountRequired: "1000",
+        network: "solana-devnet",
+        resource: "https://api.example.com/resource",
+      });
+
+      expect(requirements.network).toBe("solana-devnet");
+      expect(requirements.payTo).toBe(SVM_RECIPIENT);
+      expect(requirements.paymentType).toBeUndefined();
+      expect(requirements.extra).toMatchObject({ feePayer: FEE_PAYER, decimals: 6 });
+    });
+
+    it("should throw if the facilitator has no feePayer for the network", async () => {
+      const client = createPublicClient({ chain: bscTestnet, transport: http() });
+      const facilitator = new Facilitator({
+        recipientAddress: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+        svmRecipientAddress: SVM_RECIPIENT,
+      });
+      vi.spyOn(facilitator, "getFeePayer").mockResolvedValue(undefined);
+      const svmServer = new X402Server({ client, facilitator });
+      vi.spyOn(
+        svmServer as unknown as { getMintDecimals: () => Promise<number> },
+        "getMintDecimals",
+      ).mockResolvedValue(6);
+
+      await expect(
+        svmServer.createRequirements({
+          asset: USDC_DEVNET,
+          maxAmountRequired: "1000",
+          network: "solana-devnet",
+        }),
+      ).rejects.toThrow("Facilitator does not provide a feePayer for network 'solana-devnet'");
+    });
+  });
+
   describe("parse", () => {
     it("should return 402 if payment header is missing", async () => {
       const requirements = await server.createRequirements({
@@ -134,6 +208,849 @@ describe("X402Server", () => {
     });
   });
 
+  describe("parse with multiple requirements", () => {
+    const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+    const USD1 = "0x8d0D000Ee44948FC98c9B98A4FA4921476f08B0d";
+
+    const offer = (network: "bsc" | "base", asset: string, paymentType: "eip3009" | "permit2") => ({
+      scheme: "exact" as const,
+      network,
+      maxAmountRequired: "1000",
+      payTo: PAYER,
+      asset,
+      maxTimeoutSeconds: 300,
+      resource: "",
+      description: "",
+      mimeType: "application/json",
+      paymentType,
+    });
+
+    const accepts = [
+      offer("base", USDC, "eip3009"),
+      offer("bsc", USDC, "permit2"),
+      offer("bsc", USD1, "permit2"),
+    ];
+
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString("base64");
+
+    it("should match requirements by network", () => {
+      const header = encode({
+        x402Version: 1,
+        scheme: "exact",
+        network: "base",
+        payload: {
+          authorizationType: "eip3009",
+          signature: "0x1234",
+          authorization: {
+            from: PAYER,
+            to: PAYER,
+            value: "1000",
+            validAfter: "0",
+            validBefore: "9999999999",
+            nonce: `0x${"0".repeat(64)}`,
+          },
+        },
+      });
+
+      const result = server.parse(header, accepts);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.requirements).toBe(accepts[0]);
+      }
+    });
+
+    it("should match permit2 requirements by token address", () => {
+      const header = encode({
+        x402Version: 1,
+        scheme: "exact",
+        network: "bsc",
+        payload: {
+          authorizationType: "permit2",
+          signature: "0x1234",
+          authorization: {
+            owner: PAYER,
+            spender: PAYER,
+            token: USD1.toLowerCase(),
+            amount: "1000",
+            deadline: "9999999999",
+            nonce: "1",
+          },
+        },
+      });
+
+      const result = server.parse(header, accepts);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.requirements).toBe(accepts[2]);
+      }
+    });
+
+    it("should return 402 with all offers if no requirements match", () => {
+      const header = encode({
+        x402Version: 1,
+        scheme: "exact",
+        network: "polygon",
+        payload: {
+          authorizationType: "eip3009",
+          signature: "0x1234",
+          authorization: {
+            from: PAYER,
+            to: PAYER,
+            value: "1000",
+            validAfter: "0",
+            validBefore: "9999999999",
+            nonce: `0x${"0".repeat(64)}`,
+          },
+        },
+      });
+
+      const result = server.parse(header, accepts);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.response402.error).toBe("no_matching_payment_requirements");
+        expect(result.response402.accepts).toHaveLength(3);
+      }
+    });
+  });
+
+  describe("replay protection", () => {
+    const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+
+    const requirements = {
+      scheme: "exact" as const,
+      network: "bsc" as const,
+      maxAmountRequired: "1000",
+      payTo: PAYER,
+      asset: USDC,
+      maxTimeoutSeconds: 300,
+      resource: "https://api.example.com/resource",
+      description: "",
+      mimeType: "application/json",
+      paymentType: "eip3009" as const,
+    };
+
+    const header = Buffer.from(
+      JSON.stringify({
+        x402Version: 1,
+        scheme: "exact",
+        network: "bsc",
+        payload: {
+          authorizationType: "eip3009",
+          signature: "0x1234",
+          authorization: {
+            from: PAYER,
+            to: PAYER,
+            value: "1000",
+            validAfter: "0",
+            validBefore: "9999999999",
+            nonce: `0x${"2".repeat(64)}`,
+          },
+        },
+      }),
+    ).toString("base64");
+
+    /**
+     * 创建 verify 总是成功的 server
+     *
+     * @returns server 与 facilitator
+     */
+    const createServer = () => {
+      const client = createPublicClient({ chain: bscTestnet, transport: http() });
+      const facilitator = new Facilitator({ recipientAddress: PAYER });
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      return { server: new X402Server({ client, facilitator }), facilitator };
+    };
+
+    it("should reject a replayed payment header", async () => {
+      const { server } = createServer();
+
+      const first = await server.authorize(header, requirements);
+      const second = await server.authorize(header, requirements);
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.errorStage).toBe("verify");
+        expect(second.response.error).toBe("duplicate_payment");
+      }
+    });
+
+    it("should accept the payment again after settlement fails", async () => {
+      const { server, facilitator } = createServer();
+      vi.spyOn(facilitator, "settle").mockResolvedValue({ success: false, error: "reverted" });
+
+      const first = await server.process(header, requirements);
+      const retry = await server.authorize(header, requirements);
+
+      expect(first.status).toBe(500);
+      expect(retry.success).toBe(true);
+    });
+  });
+
+  describe("payment events", () => {
+    const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+
+    const requirements = {
+      scheme: "exact" as const,
+      network: "bsc" as const,
+      maxAmountRequired: "1000",
+      payTo: PAYER,
+      asset: USDC,
+      maxTimeoutSeconds: 300,
+      resource: "https://api.example.com/resource",
+      description: "",
+      mimeType: "application/json",
+      paymentType: "eip3009" as const,
+    };
+
+    const header = Buffer.from(
+      JSON.stringify({
+        x402Version: 1,
+        scheme: "exact",
+        network: "bsc",
+        payload: {
+          authorizationType: "eip3009",
+          signature: "0x1234",
+          authorization: {
+            from: PAYER,
+            to: PAYER,
+            value: "1000",
+            validAfter: "0",
+            validBefore: "9999999999",
+            nonce: `0x${"3".repeat(64)}`,
+          },
+        },
+      }),
+    ).toString("base64");
+
+    /**
+     * 创建记录所有事件的 server
+     *
+     * @returns server、client、facilitator 与收到的事件
+     */
+    const createServer = () => {
+      const client = createPublicClient({ chain: bsc, transport: http() });
+      vi.spyOn(client, "getChainId").mockResolvedValue(bsc.id);
+      const facilitator = new Facilitator({ recipientAddress: PAYER });
+      const events: PaymentEvent[] = [];
+      const server = new X402Server({
+        client,
+        facilitator,
+        auditLog: { write: event => void events.push(event) },
+      });
+      return { server, client, facilitator, events };
+    };
+
+    it("should emit parsed, verified and settled events", async () => {
+      const { server, facilitator, events } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "bsc",
+      });
+
+      await server.process(header, requirements);
+
+      expect(events.map(event => event.type)).toEqual([
+        "payment.parsed",
+        "payment.verified",
+        "payment.settled",
+      ]);
+      expect(events[2]).toMatchObject({
+        payer: PAYER,
+        amount: "1000",
+        asset: USDC,
+        network: "bsc",
+        scheme: "exact",
+        paymentType: "eip3009",
+        txHash: "0xabc",
+      });
+      expect(events[2].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should return the settlement breakdown from settle", async () => {
+      const { server, facilitator } = createServer();
+      const breakdown = {
+        source: "SettlementExecuted" as const,
+        gross: "1000",
+        fee: "10",
+        net: "990",
+        beneficiary: PAYER,
+        feeRecipient: USDC,
+      };
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "bsc",
+        breakdown,
+      });
+
+      const parsed = server.parse(header, requirements);
+      if (!parsed.success) throw new Error("parse failed");
+
+      expect(await server.settle(parsed.data)).toEqual({
+        success: true,
+        txHash: "0xabc",
+        network: "bsc",
+        breakdown,
+      });
+    });
+
+    it("should pass waitUntil to the facilitator and accept simulated settlements", async () => {
+      const { server, facilitator } = createServer();
+      const settle = vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "",
+        network: "bsc",
+        status: "simulated",
+      });
+
+      const parsed = server.parse(header, requirements);
+      if (!parsed.success) throw new Error("parse failed");
+
+      expect(await server.settle(parsed.data, undefined, "simulated")).toEqual({
+        success: true,
+        txHash: "",
+        network: "bsc",
+        status: "simulated",
+      });
+      expect(settle).toHaveBeenCalledWith(expect.anything(), requirements, "simulated", undefined);
+    });
+
+    it("should treat a simulated finalize as a dry run", async () => {
+      const { server, facilitator, events } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "",
+        network: "bsc",
+        status: "simulated",
+      });
+
+      const authorized = await server.authorize(header, requirements);
+      if (!authorized.success) throw new Error("authorize failed");
+      const result = await server.finalize(authorized.data.payment, PAYER, undefined, "simulated");
+
+      expect(result).toEqual({
+        success: true,
+        status: 200,
+        data: { payer: PAYER, txHash: "", network: "bsc", status: "simulated" },
+      });
+      expect(events.map(event => event.type)).not.toContain("payment.settled");
+      // 支付 key 已释放，同一授权之后仍可以真正结算
+      expect((await server.authorize(header, requirements)).success).toBe(true);
+    });
+
+    it("should skip confirmation tracking without a client for the network", async () => {
+      const { server, client, facilitator, events } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "bsc",
+        status: "submitted",
+      });
+      vi.spyOn(client, "getChainId").mockResolvedValue(bscTestnet.id);
+      const waitForReceipt = vi.spyOn(client, "waitForTransactionReceipt");
+      const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+      await server.process(header, requirements);
+
+      await vi.waitFor(() => expect(consoleWarn).toHaveBeenCalled());
+      expect(waitForReceipt).not.toHaveBeenCalled();
+      expect(events.map(event => event.type)).not.toContain("payment.confirmation_failed");
+      consoleWarn.mockRestore();
+    });
+
+    it("should emit confirmed once a submitted settlement is mined", async () => {
+      const { server, client, facilitator, events } = createServer();
+      const txHash = `0x${"a".repeat(64)}`;
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: txHash,
+        network: "bsc",
+        status: "submitted",
+      });
+      const waitForReceipt = vi
+        .spyOn(client, "waitForTransactionReceipt")
+        .mockResolvedValue({ status: "success", logs: [] } as never);
+
+      const authorized = await server.authorize(header, requirements);
+      if (!authorized.success) throw new Error("authorize failed");
+      const result = await server.finalize(authorized.data.payment, PAYER, undefined, "submitted");
+
+      expect(result).toMatchObject({ success: true, data: { txHash } });
+      expect(events.find(event => event.type === "payment.settled")).toMatchObject({
+        status: "submitted",
+      });
+      await vi.waitFor(() =>
+        expect(events.at(-1)).toMatchObject({ type: "payment.confirmed", txHash, payer: PAYER }),
+      );
+      expect(waitForReceipt).toHaveBeenCalledWith({ hash: txHash });
+    });
+
+    it("should emit confirmation_failed when a submitted settlement reverts", async () => {
+      const { server, client, facilitator, events } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "bsc",
+        status: "submitted",
+      });
+      vi.spyOn(client, "waitForTransactionReceipt").mockResolvedValue({
+        status: "reverted",
+        logs: [],
+      } as never);
+
+      await server.process(header, requirements);
+
+      await vi.waitFor(() =>
+        expect(events.at(-1)).toMatchObject({
+          type: "payment.confirmation_failed",
+          txHash: "0xabc",
+          error: "settlement_transaction_reverted",
+        }),
+      );
+    });
+
+    it("should emit rejected events with the failure reason", async () => {
+      const { server, facilitator, events } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({
+        success: false,
+        error: "insufficient_funds",
+      });
+
+      await server.authorize(undefined, requirements);
+      await server.authorize(header, requirements);
+
+      expect(events.filter(event => event.type === "payment.rejected")).toMatchObject([
+        { stage: "parse", error: "missing_payment_header" },
+        { stage: "verify", error: "insufficient_funds", payer: PAYER },
+      ]);
+    });
+
+    it("should emit settle_failed and notify typed listeners", async () => {
+      const { server, facilitator } = createServer();
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({ success: false, error: "reverted" });
+      const listener = vi.fn();
+      server.events.on("payment.settle_failed", listener);
+
+      await server.process(header, requirements);
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "payment.settle_failed", error: "reverted", payer: PAYER }),
+      );
+    });
+  });
+
+  describe("refund", () => {
+    const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+    const SETTLE_TX = `0x${"a".repeat(64)}`;
+    const REFUND_TX = `0x${"b".repeat(64)}`;
+
+    const requirements = {
+      scheme: "exact" as const,
+      network: "bsc" as const,
+      maxAmountRequired: "1000",
+      payTo: PAYER,
+      asset: USDC,
+      maxTimeoutSeconds: 300,
+      resource: "https://api.example.com/resource",
+      description: "",
+      mimeType: "application/json",
+      paymentType: "eip3009" as const,
+    };
+
+    const header = Buffer.from(
+      JSON.stringify({
+        x402Version: 1,
+        scheme: "exact",
+        network: "bsc",
+        payload: {
+          authorizationType: "eip3009",
+          signature: "0x1234",
+          authorization: {
+            from: PAYER,
+            to: PAYER,
+            value: "1000",
+            validAfter: "0",
+            validBefore: "9999999999",
+            nonce: `0x${"4".repeat(64)}`,
+          },
+        },
+      }),
+    ).toString("base64");
+
+    /**
+     * 创建已结算一笔支付、配置了退款钱包的 server
+     *
+     * @param receiptStatus - 退款交易回执状态
+     * @param chainId - 默认 client 的 chainId
+     * @returns server、退款钱包与收到的事件
+     */
+    const createPaidServer = async (
+      receiptStatus: "success" | "reverted" = "success",
+      chainId: number = bsc.id,
+    ) => {
+      const client = createPublicClient({ chain: bsc, transport: http() });
+      vi.spyOn(client, "getChainId").mockResolvedValue(chainId);
+      vi.spyOn(client, "waitForTransactionReceipt").mockResolvedValue({
+        status: receiptStatus,
+      } as never);
+      const facilitator = new Facilitator({ recipientAddress: PAYER });
+      vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+      vi.spyOn(facilitator, "settle").mockResolvedValue({
+        success: true,
+        transaction: SETTLE_TX,
+        network: "bsc",
+      });
+      const wallet = {
+        chain: bsc,
+        account: { address: PAYER },
+        writeContract: vi.fn().mockResolvedValue(REFUND_TX),
+      };
+      const events: PaymentEvent[] = [];
+      const server = new X402Server({
+        client,
+        facilitator,
+        refund: { wallet: wallet as never },
+        auditLog: { write: event => void events.push(event) },
+      });
+
+      await server.process(header, requirements);
+      return { server, wallet, events };
+    };
+
+    it("should fully refund a settled payment by txHash", async () => {
+      const { server, wallet, events } = await createPaidServer();
+
+      const result = await server.refund({ txHash: SETTLE_TX, reason: "service_unavailable" });
+
+      expect(result).toMatchObject({
+        success: true,
+        refund: { amount: "1000", status: "confirmed", txHash: REFUND_TX },
+      });
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: USDC,
+          functionName: "transfer",
+          args: [PAYER, 1000n],
+        }),
+      );
+      expect(events.filter(event => event.type.startsWith("refund."))).toMatchObject([
+        { type: "refund.pending", amount: "1000", partial: false, reason: "service_unavailable" },
+        { type: "refund.sent", txHash: REFUND_TX },
+        { type: "refund.confirmed", txHash: REFUND_TX, payer: PAYER },
+      ]);
+    });
+
+    it("should support partial refunds up to the settled amount", async () => {
+      const { server, events } = await createPaidServer();
+
+      const first = await server.refund({ txHash: SETTLE_TX, amount: "400", reason: "partial" });
+      const exceeding = await server.refund({
+        txHash: SETTLE_TX,
+        amount: "700",
+        reason: "too much",
+      });
+      const rest = await server.refund({ txHash: SETTLE_TX, reason: "rest" });
+      const again = await server.refund({ txHash: SETTLE_TX, reason: "again" });
+
+      expect(first).toMatchObject({ success: true, refund: { amount: "400" } });
+      expect(exceeding).toEqual({ success: false, error: "refund_exceeds_payment" });
+      expect(rest).toMatchObject({ success: true, refund: { amount: "600" } });
+      expect(again).toEqual({ success: false, error: "payment_fully_refunded" });
+      expect(
+        events.filter(event => event.type === "refund.pending").map(event => event.partial),
+      ).toEqual([true, false]);
+    });
+
+    it("should mark reverted refunds as failed and allow a retry", async () => {
+      const { server, events } = await createPaidServer("reverted");
+
+      const result = await server.refund({ txHash: SETTLE_TX, reason: "retry" });
+
+      expect(result).toMatchObject({
+        success: false,
+        error: "refund_transaction_reverted",
+        refund: { status: "failed", txHash: REFUND_TX },
+      });
+      expect(events.at(-1)).toMatchObject({ type: "refund.failed", txHash: REFUND_TX });
+      expect(
+        await server.refund({ txHash: SETTLE_TX, amount: "1000", reason: "retry" }),
+      ).toMatchObject({ refund: { amount: "1000" } });
+    });
+
+    it("should keep the refund sent without a client for the payment network", async () => {
+      const { server, events } = await createPaidServer("success", bscTestnet.id);
+      const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+      const result = await server.refund({ txHash: SETTLE_TX, reason: "other_chain" });
+
+      expect(result).toMatchObject({
+        success: false,
+        error: "refund_confirmation_unavailable",
+        refund: { status: "sent", txHash: REFUND_TX },
+      });
+      expect(events.map(event => event.type)).not.toContain("refund.confirmed");
+      consoleWarn.mockRestore();
+    });
+
+    it("should report unknown payments and missing configuration", async () => {
+      const { server: paidServer } = await createPaidServer();
+
+      expect(await paidServer.refund({ txHash: `0x${"c".repeat(64)}`, reason: "unknown" })).toEqual(
+        { success: false, error: "payment_not_found" },
+      );
+      expect(await server.refund({ txHash: SETTLE_TX, reason: "x" })).toEqual({
+        success: false,
+        error: "refunds_not_configured",
+      });
+    });
+  });
+
+  describe("upto scheme", () => {
+    const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+    const SPENDER = "0x9999999999999999999999999999999999999999";
+
+    const requirements = {
+      scheme: "upto" as const,
+      network: "bsc" as const,
+      maxAmountRequired: "1000",
+      payTo: PAYER,
+      asset: USDC,
+      maxTimeoutSeconds: 300,
+      resource: "https://api.example.com/llm",
+      description: "",
+      mimeType: "application/json",
+      paymentType: "permit2" as const,
+      extra: { spender: SPENDER },
+    };
+
+    const payment = {
+      payload: {
+        x402Version: 1,
+        scheme: "upto" as const,
+        network: "bsc" as const,
+        payload: {
+          authorizationType: "permit2" as const,
+          signature: "0x1234",
+          authorization: {
+            owner: PAYER,
+            spender: SPENDER,
+            token: USDC,
+            amount: "1000",
+            deadline: "9999999999",
+            nonce: "1",
+            to: PAYER,
+          },
+        },
+      },
+      requirements,
+    };
+
+    /**
+     * 创建 facilitator 提供 upto spender 的 server
+     *
+     * @returns server 与 facilitator
+     */
+    const createServer = () => {
+      const client = createPublicClient({ chain: bscTestnet, transport: http() });
+      const facilitator = new Facilitator({ recipientAddress: PAYER });
+      vi.spyOn(facilitator, "supported").mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "upto",
+            network: "bsc",
+            extra: {
+              spender: SPENDER,
+              assets: [{ address: USDC, eip712: { primaryType: "Permit2" } }],
+            },
+          },
+        ],
+      });
+      return { server: new X402Server({ client, facilitator }), facilitator };
+    };
+
+    it("should advertise the facilitator spender", async () => {
+      const { server } = createServer();
+
+      const created = await server.createRequirements({
+        asset: USDC,
+        maxAmountRequired: "1000",
+        scheme: "upto",
+        paymentType: "permit2",
+        autoDetect: false,
+        network: "bsc",
+        resource: "https://api.example.com/llm",
+      });
+
+      expect(created.scheme).toBe("upto");
+      expect(created.extra?.spender).toBe(SPENDER);
+    });
+
+    it("should reject eip3009 for upto", async () => {
+      const { server } = createServer();
+
+      await expect(
+        server.createRequirements({
+          asset: USDC,
+          maxAmountRequired: "1000",
+          scheme: "upto",
+          paymentType: "eip3009",
+          autoDetect: false,
+          network: "bsc",
+        }),
+      ).rejects.toThrow('The upto scheme requires paymentType "permit" or "permit2"');
+    });
+
+    it("should pass the actual amount to the facilitator", async () => {
+      const { server, facilitator } = createServer();
+      const settle = vi
+        .spyOn(facilitator, "settle")
+        .mockResolvedValue({ success: true, transaction: "0xabc", network: "bsc" });
+
+      const result = await server.settle(payment, "400");
+
+      expect(result).toEqual({ success: true, txHash: "0xabc", network: "bsc" });
+      expect(settle).toHaveBeenCalledWith(
+        expect.objectContaining({ scheme: "upto" }),
+        requirements,
+        undefined,
+        "400",
+      );
+    });
+
+    it("should not report a zero usage as paid", async () => {
+      const client = createPublicClient({ chain: bsc, transport: http() });
+      const facilitator = new Facilitator({ recipientAddress: PAYER });
+      const settle = vi.spyOn(facilitator, "settle");
+      const events: PaymentEvent[] = [];
+      const server = new X402Server({
+        client,
+        facilitator,
+        auditLog: { write: event => void events.push(event) },
+      });
+
+      const result = await server.finalize(payment, PAYER, "0");
+
+      expect(result).toEqual({
+        success: true,
+        status: 200,
+        data: { payer: PAYER, txHash: "", network: "bsc", status: "not_charged" },
+      });
+      expect(settle).not.toHaveBeenCalled();
+      expect(events.map(event => event.type)).not.toContain("payment.settled");
+    });
+
+    it("should reject amounts above maxAmountRequired", async () => {
+      const { server, facilitator } = createServer();
+      const settle = vi.spyOn(facilitator, "settle");
+
+      const result = await server.settle(payment, "1001");
+
+      expect(result).toEqual({ success: false, error: "invalid_upto_settle_amount" });
+      expect(settle).not.toHaveBeenCalled();
+    });
+
+    it("should reject an amount for the exact scheme", async () => {
+      const { server } = createServer();
+
+      const result = await server.settle(
+        {
+          payload: { ...payment.payload, scheme: "exact" },
+          requirements: { ...requirements, scheme: "exact" },
+        },
+        "400",
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("with x402x-facilitator-server", () => {
+    const PRIVATE_KEY = "0x1234567890123456789012345678901234567890123456789012345678901234";
+    const FACILITATOR_ADDRESS = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+
+    /**
+     * 创建通过 Facilitator 连接 FacilitatorServer 的 server，请求直接交给 FacilitatorServer 处理
+     *
+     * @returns server
+     */
+    const createServer = () => {
+      const facilitatorServer = new FacilitatorServer({
+        networks: { bsc: { privateKey: PRIVATE_KEY } },
+      });
+      vi.spyOn(globalThis, "fetch").mockImplementation((input, init) =>
+        facilitatorServer.fetch(new Request(input, init)),
+      );
+      const client = createPublicClient({ chain: bsc, transport: http() });
+      const facilitator = new Facilitator({
+        recipientAddress: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+        baseUrl: "http://facilitator.test",
+      });
+      return new X402Server({ client, facilitator });
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should create exact requirements for the listed authorization types", async () => {
+      const server = createServer();
+
+      for (const paymentType of ["eip3009", "permit", "permit2"] as const) {
+        const created = await server.createRequirements({
+          asset: USDC,
+          maxAmountRequired: "1000",
+          paymentType,
+          autoDetect: false,
+          network: "bsc",
+          resource: "https://api.example.com/report",
+        });
+        expect(created.paymentType).toBe(paymentType);
+      }
+    });
+
+    it("should advertise the facilitator server signer as the upto spender", async () => {
+      const server = createServer();
+
+      const created = await server.createRequirements({
+        asset: USDC,
+        maxAmountRequired: "1000",
+        scheme: "upto",
+        paymentType: "permit2",
+        autoDetect: false,
+        network: "bsc",
+        resource: "https://api.example.com/llm",
+      });
+
+      expect(created.extra?.spender).toBe(FACILITATOR_ADDRESS);
+    });
+
+    it("should reject networks the facilitator server has no signer for", async () => {
+      const server = createServer();
+
+      await expect(
+        server.createRequirements({
+          asset: USDC,
+          maxAmountRequired: "1000",
+          paymentType: "permit",
+          autoDetect: false,
+          network: "polygon",
+        }),
+      ).rejects.toThrow("does not support 'permit'");
+    });
+  });
+
   describe("get402Response", () => {
     it("should generate 402 response", async () => {
       const requirements = await server.createRequirements({
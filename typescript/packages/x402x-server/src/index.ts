@@ -5,20 +5,39 @@
  * - Payment verification and settlement (via @wtflabs/x402-facilitator)
  * - Dynamic PaymentRequirements creation with Zod validation for server side
  * - Built-in caching for performance
- * - Express and Hono middlewares
+ * - Express and Hono middlewares, MCP paid tools and A2A paid agents
  */
 
 // Export main class
 export { X402Server } from "./server";
 
 // Export middlewares
-export { createExpressMiddleware, createHonoMiddleware } from "./middlewares";
-export type { ExpressMiddlewareOptions, HonoMiddlewareOptions } from "./middlewares";
+export {
+  createExpressMiddleware,
+  createHonoMiddleware,
+  createMcpPaidTool,
+  createA2APaidAgent,
+} from "./middlewares";
+export type {
+  ExpressMiddlewareOptions,
+  HonoMiddlewareOptions,
+  McpPaidToolOptions,
+  McpPaidToolHandler,
+  McpPaymentInfo,
+  McpCallToolResult,
+  McpRequestExtra,
+  A2APaidAgentOptions,
+  A2APaidAgentHandler,
+  A2APaidAgentResult,
+  A2APaymentInfo,
+} from "./middlewares";
 
 // Export types and schemas
 export type {
   X402ServerConfig,
+  SettlementMode,
   CreateRequirementsConfig,
+  RequirementsOffer,
   PaymentRequirements,
   PaymentPayload,
   Response402,
@@ -27,11 +46,15 @@ export type {
   ParseResult,
   VerifyResult,
   SettleResult,
+  SettleStatus,
   ParsedPayment,
+  AuthorizeResult,
+  PaymentResponse,
 } from "./types";
 
 export {
   CreateRequirementsConfigSchema,
+  RequirementsOfferSchema,
   PaymentRequirementsSchema,
   PaymentPayloadSchema,
   Response402Schema,
@@ -40,11 +63,76 @@ export {
   ParseResultSchema,
   VerifyResultSchema,
   SettleResultSchema,
+  SettleStatusSchema,
   ParsedPaymentSchema,
+  AuthorizeResultSchema,
+  PaymentResponseSchema,
 } from "./types";
 
+// Export payment stores
+export { MemoryPaymentStore, SqlitePaymentStore, getPaymentKey, getPaymentExpiry } from "./stores";
+export type {
+  PaymentStore,
+  SqliteDatabase,
+  SqliteStatement,
+  SqlitePaymentStoreOptions,
+} from "./stores";
+
+// Export EIP-7702 seller wallet
+export { SellerWallet } from "./seller";
+export type {
+  SellerWalletConfig,
+  SellerWalletEffectiveConfig,
+  SellerWalletFee,
+  SellerWalletOptions,
+} from "./seller";
+
+// Export refund tracking
+export { MemoryRefundStore, SqliteRefundStore } from "./refunds";
+export type {
+  RefundStatus,
+  SettledPaymentRecord,
+  RefundRecord,
+  RefundStore,
+  RefundConfig,
+  RefundOptions,
+  RefundResult,
+  SqliteQueryDatabase,
+  SqliteQueryStatement,
+  SqliteRefundStoreOptions,
+} from "./refunds";
+
+// Export payment events and audit log
+export { PaymentEventEmitter, JsonlAuditLog, getPaymentEventContext } from "./events";
+export type {
+  JsonlAuditLogOptions,
+  PaymentEvent,
+  PaymentEventBase,
+  PaymentEventListener,
+  PaymentEventMap,
+  PaymentEventSink,
+  PaymentEventType,
+  PaymentParsedEvent,
+  PaymentVerifiedEvent,
+  PaymentRejectedEvent,
+  PaymentSettledEvent,
+  PaymentSettleFailedEvent,
+  PaymentConfirmedEvent,
+  PaymentConfirmationFailedEvent,
+  RefundEventBase,
+  RefundPendingEvent,
+  RefundSentEvent,
+  RefundConfirmedEvent,
+  RefundFailedEvent,
+} from "./events";
+
 // Export utilities
-export { decodeBase64, encodeBase64 } from "./utils";
+export {
+  decodeBase64,
+  encodeBase64,
+  createPaymentResponseHeader,
+  X_PAYMENT_RESPONSE_HEADER,
+} from "./utils";
 
 // Re-export WaitUntil from facilitator
 export type { WaitUntil } from "x402x-facilitator";
@@ -0,0 +1,216 @@
+/**
+ * A2A 付费 agent 端到端测试
+ *
+ * 客户端使用 x402x/client 的 wrapSendMessageWithPayment 签名真实的 EIP-3009 授权，
+ * 消息经过 JSON 序列化的进程内 A2A 传输到达商户 agent，facilitator 为模拟
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createPublicClient, http } from "viem";
+import { bscTestnet } from "viem/chains";
+import { Facilitator } from "x402x-facilitator";
+import { createA2APaymentMessage, wrapSendMessageWithPayment } from "x402x/client";
+import { createSigner } from "x402x/types";
+import { getA2APaymentReceipts, getA2APaymentRequired } from "x402x/shared";
+import type { A2AMessage, A2ATask } from "x402x/shared";
+import { X402Server } from "../server";
+import { createA2APaidAgent } from "./a2a";
+import type { A2APaidAgentHandler, A2APaidAgentOptions } from "./a2a";
+
+const PRIVATE_KEY = "0x1234567890123456789012345678901234567890123456789012345678901234";
+const PAYER = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const TX_HASH = `0x${"a".repeat(64)}`;
+
+const requirements = {
+  scheme: "exact" as const,
+  network: "base-sepolia" as const,
+  maxAmountRequired: "10000",
+  payTo: PAY_TO,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  maxTimeoutSeconds: 600,
+  resource: "a2a://agent/image-generator",
+  description: "Generate an image",
+  mimeType: "application/json",
+  paymentType: "eip3009" as const,
+  extra: { name: "USDC", version: "2" },
+};
+
+const request: A2AMessage = {
+  kind: "message",
+  messageId: "msg-1",
+  role: "user",
+  parts: [{ kind: "text", text: "Generate a cat" }],
+};
+
+/**
+ * 创建商户 agent 和进程内 A2A 传输
+ *
+ * @param handler - agent handler
+ * @param settleSuccess - facilitator 结算是否成功
+ * @param options - 额外的 agent 配置
+ * @returns 发送消息的函数、server 与 facilitator
+ */
+function createAgent(
+  handler: A2APaidAgentHandler = async () => ({
+    text: "Your image is ready.",
+    artifacts: [{ artifactId: "image", parts: [{ kind: "text", text: "cat.png" }] }],
+  }),
+  settleSuccess = true,
+  options: Partial<A2APaidAgentOptions> = {},
+) {
+  const client = createPublicClient({ chain: bscTestnet, transport: http() });
+  const facilitator = new Facilitator({ recipientAddress: PAY_TO });
+  vi.spyOn(facilitator, "verify").mockResolvedValue({ success: true, payer: PAYER });
+  vi.spyOn(facilitator, "settle").mockResolvedValue(
+    settleSuccess
+      ? { success: true, transaction: TX_HASH, network: "base-sepolia" }
+      : { success: false, error: "insufficient_funds" },
+  );
+
+  const server = new X402Server({ client, facilitator });
+  vi.spyOn(server, "createRequirements").mockResolvedValue(requirements);
+
+  const agent = createA2APaidAgent(
+    {
+      server,
+      name: "image-generator",
+      getToken: () => requirements.asset,
+      getAmount: () => "10000",
+      ...options,
+    },
+    handler,
+  );
+
+  // 进程内 A2A 传输：和 JSON-RPC 一样只传递可序列化的数据
+  const sendMessage = async (message: A2AMessage): Promise<A2ATask> =>
+    JSON.parse(JSON.stringify(await agent(JSON.parse(JSON.stringify(message)))));
+
+  return { sendMessage, server, facilitator };
+}
+
+describe("createA2APaidAgent", () => {
+  it("should ask for payment with an input-required task", async () => {
+    const { sendMessage } = createAgent();
+
+    const task = await sendMessage(request);
+
+    expect(task.status.state).toBe("input-required");
+    expect(task.status.message?.metadata?.["x402.payment.status"]).toBe("payment-required");
+    expect(getA2APaymentRequired(task)?.accepts).toEqual([requirements]);
+  });
+
+  it("should pay, verify, run the agent and settle end to end", async () => {
+    const handler = vi.fn(async () => ({ text: "Your image is ready." }));
+    const { sendMessage, facilitator } = createAgent(handler);
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+    const send = wrapSendMessageWithPayment(sendMessage, signer);
+
+    const task = await send(request);
+
+    expect(task.status.state).toBe("completed");
+    expect(task.status.message?.metadata?.["x402.payment.status"]).toBe("payment-completed");
+    expect(getA2APaymentReceipts(task)).toEqual([
+      { success: true, transaction: TX_HASH, network: "base-sepolia", payer: PAYER },
+    ]);
+    expect(handler).toHaveBeenCalledWith(request, { payer: PAYER });
+
+    const [payload] = vi.mocked(facilitator.verify).mock.calls[0];
+    expect(payload).toMatchObject({
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        authorizationType: "eip3009",
+        authorization: { from: PAYER, to: PAY_TO, value: "10000" },
+      },
+    });
+  });
+
+  it("should fail the task without settling when the agent throws", async () => {
+    const { sendMessage, facilitator } = createAgent(async () => {
+      throw new Error("generation_failed");
+    });
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+
+    const task = await wrapSendMessageWithPayment(sendMessage, signer)(request);
+
+    expect(task.status.state).toBe("failed");
+    expect(task.status.message?.metadata?.["x402.payment.error"]).toBe("generation_failed");
+    expect(facilitator.settle).not.toHaveBeenCalled();
+  });
+
+  it("should return failed receipts when settlement fails", async () => {
+    const { sendMessage } = createAgent(undefined, false);
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+
+    const task = await wrapSendMessageWithPayment(sendMessage, signer)(request);
+
+    expect(task.status.state).toBe("failed");
+    expect(getA2APaymentReceipts(task)).toEqual([
+      {
+        success: false,
+        errorReason: "insufficient_funds",
+        transaction: "",
+        network: "base-sepolia",
+        payer: PAYER,
+      },
+    ]);
+  });
+
+  it("should reject a second payment for an already paid task", async () => {
+    const { sendMessage } = createAgent();
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+    const first = await sendMessage(request);
+    const payment = await createA2APaymentMessage(signer, first);
+
+    const paid = await sendMessage(payment);
+    const replayed = await sendMessage(payment);
+
+    expect(paid.status.state).toBe("completed");
+    expect(replayed.status.state).toBe("failed");
+    expect(replayed.status.message?.metadata?.["x402.payment.error"]).toBe("task_not_found");
+  });
+
+  it("should not reuse a task id chosen by the client", async () => {
+    const { sendMessage } = createAgent();
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+    const victim = await sendMessage(request);
+
+    // 另一个客户端用相同 taskId 发起新任务，不能覆盖等待支付的任务
+    const hijack = await sendMessage({ ...request, messageId: "msg-2", taskId: victim.id });
+    const paid = await sendMessage(await createA2APaymentMessage(signer, victim));
+
+    expect(hijack.id).not.toBe(victim.id);
+    expect(paid.status.state).toBe("completed");
+  });
+
+  it("should drop the oldest pending task beyond maxPendingTasks", async () => {
+    const { sendMessage } = createAgent(undefined, true, { maxPendingTasks: 2 });
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+    const oldest = await sendMessage(request);
+    const second = await sendMessage(request);
+    await sendMessage(request);
+
+    const dropped = await sendMessage(await createA2APaymentMessage(signer, oldest));
+    const paid = await sendMessage(await createA2APaymentMessage(signer, second));
+
+    expect(dropped.status.message?.metadata?.["x402.payment.error"]).toBe("task_not_found");
+    expect(paid.status.state).toBe("completed");
+  });
+
+  it("should return the completed task when onPaymentSuccess throws", async () => {
+    const onPaymentSuccess = vi.fn().mockRejectedValue(new Error("callback failed"));
+    const { sendMessage } = createAgent(undefined, true, { onPaymentSuccess });
+    const signer = await createSigner("base-sepolia", PRIVATE_KEY);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const task = await sendMessage(
+      await createA2APaymentMessage(signer, await sendMessage(request)),
+    );
+
+    expect(onPaymentSuccess).toHaveBeenCalledWith(PAYER, TX_HASH, request);
+    expect(task.status.state).toBe("completed");
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * A2A (Agent-to-Agent) 商户 agent 付费处理 for x402 Payment Protocol
+ *
+ * 见 specs/transports/a2a.md
+ */
+
+import {
+  createA2AId,
+  createA2APaymentCompletedTask,
+  createA2APaymentFailedTask,
+  createA2APaymentRequiredTask,
+  getA2APaymentPayload,
+  getA2APaymentStatus,
+} from "x402x/shared";
+import type { A2AArtifact, A2AMessage, A2APaymentReceipt, A2ATask } from "x402x/shared";
+import type { X402Server } from "../server";
+import type { CreateRequirementsConfig, PaymentRequirements, RequirementsOffer } from "../schemas";
+import { encodeBase64, isPaid, notifyPaymentSuccess } from "../utils";
+
+/**
+ * 默认最多保留的等待支付任务数
+ */
+const DEFAULT_MAX_PENDING_TASKS = 1000;
+
+/**
+ * 传给 agent handler 的支付信息
+ */
+export interface A2APaymentInfo {
+  payer: string;
+  /**
+   * 仅 "upto" 支付：handler 报告实际用量（最小单位），
+   * 不调用时按 maxAmountRequired 结算
+   */
+  setAmount?: (amount: string) => void;
+}
+
+/**
+ * agent handler 的输出，放入 completed 任务
+ */
+export interface A2APaidAgentResult {
+  /** 状态消息文本 */
+  text?: string;
+
+  /** 任务产物 */
+  artifacts?: A2AArtifact[];
+}
+
+/**
+ * 付费 agent handler，收到的是发起任务的原始消息
+ */
+export type A2APaidAgentHandler = (
+  message: A2AMessage,
+  payment: A2APaymentInfo,
+) => A2APaidAgentResult | Promise<A2APaidAgentResult>;
+
+/**
+ * A2A 付费 agent 配置选项
+ */
+export interface A2APaidAgentOptions {
+  /** X402Server 实例 */
+  server: X402Server;
+
+  /** agent 名称，用于生成默认 resource（`a2a://agent/<name>`） */
+  name: string;
+
+  /** 获取 token 地址的函数（未提供 getOffers 时必填） */
+  getToken?: (message: A2AMessage) => string | Promise<string>;
+
+  /** 获取金额的函数（未提供 getOffers 时必填） */
+  getAmount?: (message: A2AMessage) => string | Promise<string>;
+
+  /** 可选：返回多资产、多网络报价，提供后忽略 getToken / getAmount */
+  getOffers?: (message: A2AMessage) => RequirementsOffer[] | Promise<RequirementsOffer[]>;
+
+  /** 可选：获取额外配置的函数 */
+  getConfig?: (
+    message: A2AMessage,
+  ) => Partial<CreateRequirementsConfig> | Promise<Partial<CreateRequirementsConfig>>;
+
+  /** 可选：支付成功后的回调 */
+  onPaymentSuccess?: (payer: string, txHash: string, message: A2AMessage) => void | Promise<void>;
+
+  /** 可选：最多保留的等待支付任务数，超出时丢弃最早的任务，默认 1000 */
+  maxPendingTasks?: number;
+}
+
+/**
+ * 等待支付的任务
+ */
+interface PendingTask {
+  contextId: string;
+  message: A2AMessage;
+  requirements: PaymentRequirements[];
+  expiresAt: number;
+}
+
+/**
+ * 创建 A2A 付费 agent
+ *
+ * 返回处理 `message/send` 消息的函数：
+ * 1. 新任务：返回 `input-required` 任务，`x402.payment.required` 包含支付要求
+ * 2. 客户端带 `taskId` 回复 `payment-submitted` 消息：X402Server 验证支付（verify），
+ *    执行 handler 后结算（settle），返回 `completed` 任务和 `x402.payment.receipts`
+ * 3. 验证、handler 或结算失败：返回 `failed` 任务，handler 失败时不扣款
+ *
+ * 任务 id 总是由 agent 生成。等待支付的任务保存在内存中，超过支付要求的 maxTimeoutSeconds
+ * 或超过 maxPendingTasks 时丢弃最早的任务
+ *
+ * @param options - 付费配置
+ * @param handler - agent handler，支付验证通过后执行
+ * @returns 处理 A2A 消息的函数
+ *
+ * @example
+ * ```typescript
+ * const agent = createA2APaidAgent(
+ *   {
+ *     server,
+ *     name: "image-generator",
+ *     getToken: () => USDC,
+ *     getAmount: () => "48240000",
+ *   },
+ *   async message => ({
+ *     text: "Your image is ready.",
+ *     artifacts: [{ artifactId: "image", parts: [await generateImage(message)] }],
+ *   }),
+ * );
+ *
+ * // A2A 服务端的 message/send 处理
+ * const task = await agent(params.message);
+ * ```
+ */
+export function createA2APaidAgent(options: A2APaidAgentOptions, handler: A2APaidAgentHandler) {
+  const pending = new Map<string, PendingTask>();
+  const maxPendingTasks = options.maxPendingTasks ?? DEFAULT_MAX_PENDING_TASKS;
+
+  return async (message: A2AMessage): Promise<A2ATask> => {
+    const now = Date.now();
+    for (const [taskId, task] of pending) {
+      if (task.expiresAt <= now) {
+        pending.delete(taskId);
+      }
+    }
+
+    const task = message.taskId ? pending.get(message.taskId) : undefined;
+    const status = getA2APaymentStatus(message);
+
+    if (message.taskId && (status === "payment-submitted" || status === "payment-rejected")) {
+      const ref = { id: message.taskId, contextId: task?.contextId ?? message.contextId ?? "" };
+      if (!task) {
+        return createA2APaymentFailedTask(ref, "task_not_found");
+      }
+
+      // 每个任务只接受一次支付
+      pending.delete(message.taskId);
+
+      if (status === "payment-rejected") {
+        return createA2APaymentFailedTask(ref, "payment_rejected", undefined, "payment-rejected");
+      }
+
+      return settleTask(options, handler, ref, task, getA2APaymentPayload(message));
+    }
+
+    // 新任务：返回支付要求
+    const requirements = await createRequirements(options, message);
+    const list = Array.isArray(requirements) ? requirements : [requirements];
+    // 不使用客户端提供的 taskId，避免覆盖其他客户端等待支付的任务
+    const ref = {
+      id: createA2AId(),
+      contextId: message.contextId ?? createA2AId(),
+    };
+
+    // Map 按插入顺序遍历，第一个即最早的任务
+    while (pending.size >= maxPendingTasks) {
+      pending.delete(pending.keys().next().value as string);
+    }
+    pending.set(ref.id, {
+      contextId: ref.contextId,
+      message,
+      requirements: list,
+      expiresAt: now + Math.max(...list.map(r => r.maxTimeoutSeconds)) * 1000,
+    });
+
+    return createA2APaymentRequiredTask(ref, options.server.get402Response(list));
+  };
+}
+
+/**
+ * 验证支付、执行 handler 并结算
+ *
+ * @param options - 付费配置
+ * @param handler - agent handler
+ * @param ref - 任务引用
+ * @param ref.id - 任务 id
+ * @param ref.contextId - 上下文 id
+ * @param task - 等待支付的任务
+ * @param payload - 客户端提交的支付数据
+ * @returns completed 或 failed 任务
+ */
+async function settleTask(
+  options: A2APaidAgentOptions,
+  handler: A2APaidAgentHandler,
+  ref: { id: string; contextId: string },
+  task: PendingTask,
+  payload: unknown,
+): Promise<A2ATask> {
+  const paymentHeader =
+    payload === undefined || payload === null
+      ? undefined
+      : typeof payload === "string"
+        ? payload
+        : encodeBase64(JSON.stringify(payload));
+
+  const authorized = await options.server.authorize(paymentHeader, task.requirements);
+  if (!authorized.success) {
+    const error = authorized.response.error || "invalid_payment";
+    return createA2APaymentFailedTask(ref, error, [
+      {
+        success: false,
+        errorReason: error,
+        transaction: "",
+        network: task.requirements[0].network,
+      },
+    ]);
+  }
+
+  const { payer, payment } = authorized.data;
+  const usage: { amount?: string } = {};
+  let result: A2APaidAgentResult;
+  try {
+    result = await handler(task.message, {
+      payer,
+      ...(payment.requirements.scheme === "upto" && {
+        setAmount: (amount: string) => {
+          usage.amount = amount;
+        },
+      }),
+    });
+  } catch (error) {
+    // handler 失败不结算
+    await options.server.release(payment);
+    return createA2APaymentFailedTask(ref, error instanceof Error ? error.message : "agent_error");
+  }
+
+  const settled = await options.server.finalize(payment, payer, usage.amount);
+  if (!settled.success) {
+    const error = settled.response.error || "settlement_failed";
+    const receipt: A2APaymentReceipt = {
+      success: false,
+      errorReason: error,
+      transaction: "",
+      network: payment.requirements.network,
+      payer,
+    };
+    return createA2APaymentFailedTask(ref, error, [receipt]);
+  }
+
+  if (isPaid(settled.data)) {
+    await notifyPaymentSuccess(
+      options.onPaymentSuccess,
+      settled.data.payer,
+      settled.data.txHash,
+      task.message,
+    );
+  }
+
+  const receipt: A2APaymentReceipt = {
+    success: true,
+    transaction: settled.data.txHash,
+    network: settled.data.network,
+    payer: settled.data.payer,
+  };
+  return createA2APaymentCompletedTask(ref, [receipt], result.text, result.artifacts);
+}
+
+/**
+ * 根据消息创建支付要求
+ *
+ * @param options - 付费配置
+ * @param message - 发起任务的消息
+ * @returns 支付要求
+ */
+async function createRequirements(
+  options: A2APaidAgentOptions,
+  message: A2AMessage,
+): Promise<PaymentRequirements | PaymentRequirements[]> {
+  const extraConfig = options.getConfig ? await options.getConfig(message) : {};
+  const resource = extraConfig.resource || `a2a://agent/${options.name}`;
+
+  // 过滤掉 undefined 值
+  const filteredConfig = Object.fromEntries(
+    Object.entries({ ...extraConfig, resource }).filter(([, value]) => value !== undefined),
+  );
+
+  if (options.getOffers) {
+    const offers = await options.getOffers(message);
+    return options.server.createRequirementsSet(offers, filteredConfig);
+  }
+
+  if (!options.getToken || !options.getAmount) {
+    throw new Error("getToken and getAmount are required unless getOffers is provided");
+  }
+
+  return options.server.createRequirements({
+    asset: await options.getToken(message),
+    maxAmountRequired: await options.getAmount(message),
+    ...filteredConfig,
+  } as CreateRequirementsConfig);
+}
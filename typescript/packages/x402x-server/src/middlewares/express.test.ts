@@ -0,0 +1,388 @@
+/**
+ * Express 中间件测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createExpressMiddleware } from "./express";
+import type { ExpressRequest, ExpressResponse } from "./express";
+import type { X402Server } from "../server";
+import { X_PAYMENT_RESPONSE_HEADER, decodeBase64 } from "../utils";
+
+const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const TX_HASH = "0xabc";
+
+const requirements = {
+  scheme: "exact",
+  network: "bsc-testnet",
+  maxAmountRequired: "1000",
+  payTo: PAYER,
+  asset: "0x25d066c4C68C8A6332DfDB4230263608305Ca991",
+  maxTimeoutSeconds: 300,
+  resource: "",
+  description: "",
+  mimeType: "application/json",
+};
+
+const payment = { payload: {}, requirements };
+
+/**
+ * 创建模拟的 X402Server
+ *
+ * @param settleSuccess - finalize 是否成功
+ * @returns 模拟的 server
+ */
+function createMockServer(settleSuccess: boolean) {
+  return {
+    getSettlementMode: vi.fn(() => "deferred"),
+    createRequirements: vi.fn(async () => requirements),
+    process: vi.fn(),
+    release: vi.fn(async () => undefined),
+    authorize: vi.fn(async () => ({
+      success: true,
+      status: 200,
+      data: { payer: PAYER, payment },
+    })),
+    finalize: vi.fn(async () =>
+      settleSuccess
+        ? {
+            success: true,
+            status: 200,
+            data: { payer: PAYER, txHash: TX_HASH, network: "bsc-testnet" },
+          }
+        : {
+            success: false,
+            status: 500,
+            errorStage: "settle",
+            response: { x402Version: 1, accepts: [requirements], error: "settle_failed" },
+            error: "settle_failed",
+          },
+    ),
+  };
+}
+
+/**
+ * 创建模拟的 Express Response，记录最终写出的内容
+ *
+ * @returns 模拟的 response 与写出记录
+ */
+function createMockResponse() {
+  const sent: {
+    status?: number;
+    chunks: unknown[];
+    json?: unknown;
+    ended: boolean;
+    headers: Record<string, string>;
+  } = {
+    chunks: [],
+    ended: false,
+    headers: {},
+  };
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      this.statusCode = code;
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.json = body;
+      sent.ended = true;
+      return this;
+    },
+    write(chunk: unknown) {
+      sent.chunks.push(chunk);
+      return true;
+    },
+    end(chunk?: unknown) {
+      if (chunk !== undefined) {
+        sent.chunks.push(chunk);
+      }
+      sent.ended = true;
+      return this;
+    },
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+    },
+    getHeader(name: string) {
+      return sent.headers[name];
+    },
+    removeHeader: vi.fn(),
+  };
+  return { res: res as ExpressResponse, sent };
+}
+
+describe("createExpressMiddleware (deferred)", () => {
+  let req: ExpressRequest;
+
+  beforeEach(() => {
+    req = { headers: { "x-payment": "payment" } };
+  });
+
+  it("should settle after a 2xx response and flush the body", async () => {
+    const server = createMockServer(true);
+    const { res, sent } = createMockResponse();
+    const onPaymentSuccess = vi.fn();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+      onPaymentSuccess,
+    });
+
+    const next = vi.fn(() => {
+      expect(req.x402).toEqual({ payer: PAYER, txHash: "", settled: false });
+      res.write?.("hello ");
+      res.end?.("world");
+    });
+    await middleware(req, res, next);
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(server.process).not.toHaveBeenCalled();
+    expect(server.finalize).toHaveBeenCalledWith(payment, PAYER, undefined);
+    expect(sent.chunks).toEqual(["hello ", "world"]);
+    expect(req.x402).toEqual({ payer: PAYER, txHash: TX_HASH, settled: true });
+    expect(onPaymentSuccess).toHaveBeenCalledWith(req, PAYER, TX_HASH);
+    expect(JSON.parse(decodeBase64(sent.headers[X_PAYMENT_RESPONSE_HEADER]))).toEqual({
+      success: true,
+      transaction: TX_HASH,
+      network: "bsc-testnet",
+      payer: PAYER,
+    });
+  });
+
+  it("should not settle when the handler responds with an error", async () => {
+    const server = createMockServer(true);
+    const { res, sent } = createMockResponse();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    });
+
+    await middleware(req, res, () => {
+      res.statusCode = 503;
+      res.end?.("unavailable");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(server.finalize).not.toHaveBeenCalled();
+    expect(server.release).toHaveBeenCalledWith(payment);
+    expect(sent.chunks).toEqual(["unavailable"]);
+    expect(sent.headers[X_PAYMENT_RESPONSE_HEADER]).toBeUndefined();
+  });
+
+  it("should withhold the body when settlement fails", async () => {
+    const server = createMockServer(false);
+    const { res, sent } = createMockResponse();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    });
+
+    await middleware(req, res, () => {
+      res.end?.("paid content");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(sent.chunks).toEqual([]);
+    expect(sent.status).toBe(500);
+    expect(sent.json).toMatchObject({ error: "settle_failed" });
+    expect(res.removeHeader).toHaveBeenCalledWith("Content-Length");
+  });
+
+  it("should still send the paid response when onPaymentSuccess throws", async () => {
+    const server = createMockServer(true);
+    const { res, sent } = createMockResponse();
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+      onPaymentSuccess: () => {
+        throw new Error("callback failed");
+      },
+    });
+
+    await middleware(req, res, () => {
+      res.end?.("paid content");
+    });
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalled());
+
+    expect(sent.chunks).toEqual(["paid content"]);
+    expect(sent.status).toBeUndefined();
+    expect(sent.headers[X_PAYMENT_RESPONSE_HEADER]).toBeDefined();
+    expect(res.removeHeader).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("should not report a simulated settlement as paid", async () => {
+    const server = createMockServer(true);
+    server.finalize.mockResolvedValue({
+      success: true,
+      status: 200,
+      data: { payer: PAYER, txHash: "", network: "bsc-testnet", status: "simulated" },
+    } as never);
+    const { res, sent } = createMockResponse();
+    const onPaymentSuccess = vi.fn();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+      onPaymentSuccess,
+    });
+
+    await middleware(req, res, () => {
+      res.end?.("dry run");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(sent.chunks).toEqual(["dry run"]);
+    expect(req.x402).toEqual({ payer: PAYER, txHash: "", settled: false });
+    expect(onPaymentSuccess).not.toHaveBeenCalled();
+  });
+
+  it("should merge existing Access-Control-Expose-Headers", async () => {
+    const server = createMockServer(true);
+    const { res, sent } = createMockResponse();
+    sent.headers["Access-Control-Expose-Headers"] = "X-Request-Id";
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    });
+
+    await middleware(req, res, () => {
+      res.end?.("ok");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(sent.headers["Access-Control-Expose-Headers"]).toBe("X-Request-Id, X-PAYMENT-RESPONSE");
+  });
+});
+
+describe("createExpressMiddleware (upto)", () => {
+  const uptoRequirements = { ...requirements, scheme: "upto" };
+  const uptoPayment = { payload: {}, requirements: uptoRequirements };
+
+  /**
+   * 创建返回 upto 报价的模拟 server（默认结算模式为 immediate）
+   *
+   * @returns 模拟的 server
+   */
+  function createUptoServer() {
+    const server = createMockServer(true);
+    server.getSettlementMode.mockReturnValue("immediate");
+    server.createRequirements.mockResolvedValue(uptoRequirements);
+    server.authorize.mockResolvedValue({
+      success: true,
+      status: 200,
+      data: { payer: PAYER, payment: uptoPayment },
+    });
+    return server;
+  }
+
+  it("should settle the amount reported by the handler", async () => {
+    const server = createUptoServer();
+    const { res, sent } = createMockResponse();
+    const req: ExpressRequest = { headers: { "x-payment": "payment" } };
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    });
+
+    await middleware(req, res, () => {
+      req.x402?.setAmount?.("400");
+      res.end?.("usage: 400");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(server.process).not.toHaveBeenCalled();
+    expect(server.finalize).toHaveBeenCalledWith(uptoPayment, PAYER, "400");
+    expect(sent.chunks).toEqual(["usage: 400"]);
+  });
+
+  it("should not report a zero usage as paid", async () => {
+    const server = createUptoServer();
+    server.finalize.mockResolvedValue({
+      success: true,
+      status: 200,
+      data: { payer: PAYER, txHash: "", network: "bsc-testnet", status: "not_charged" },
+    } as never);
+    const { res, sent } = createMockResponse();
+    const req: ExpressRequest = { headers: { "x-payment": "payment" } };
+    const onPaymentSuccess = vi.fn();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+      onPaymentSuccess,
+    });
+
+    await middleware(req, res, () => {
+      req.x402?.setAmount?.("0");
+      res.end?.("usage: 0");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(server.finalize).toHaveBeenCalledWith(uptoPayment, PAYER, "0");
+    expect(sent.chunks).toEqual(["usage: 0"]);
+    expect(onPaymentSuccess).not.toHaveBeenCalled();
+  });
+
+  it("should settle the full amount when the handler reports no usage", async () => {
+    const server = createUptoServer();
+    const { res, sent } = createMockResponse();
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    });
+
+    await middleware({ headers: { "x-payment": "payment" } }, res, () => {
+      res.end?.("ok");
+    });
+    await vi.waitFor(() => expect(sent.ended).toBe(true));
+
+    expect(server.finalize).toHaveBeenCalledWith(uptoPayment, PAYER, undefined);
+  });
+});
+
+describe("createExpressMiddleware (offers)", () => {
+  it("should build accepts from getOffers and return all offers in the 402 response", async () => {
+    const accepts = [requirements, { ...requirements, network: "base" }];
+    const response402 = { x402Version: 1, accepts, error: "missing_payment_header" };
+    const server = {
+      getSettlementMode: vi.fn(() => "immediate"),
+      createRequirements: vi.fn(),
+      createRequirementsSet: vi.fn(async () => accepts),
+      process: vi.fn(async () => ({
+        success: false,
+        status: 402,
+        errorStage: "parse",
+        response: response402,
+      })),
+    };
+    const { res, sent } = createMockResponse();
+    const offers = [
+      { network: "bsc-testnet" as const, asset: requirements.asset, amount: "1000" },
+      { network: "base" as const, asset: requirements.asset, amount: "1000" },
+    ];
+    const middleware = createExpressMiddleware({
+      server: server as unknown as X402Server,
+      getOffers: () => offers,
+      getConfig: () => ({ description: "multi" }),
+    });
+    const next = vi.fn();
+
+    await middleware({ headers: {} }, res, next);
+
+    expect(server.createRequirements).not.toHaveBeenCalled();
+    expect(server.createRequirementsSet).toHaveBeenCalledWith(offers, { description: "multi" });
+    expect(server.process).toHaveBeenCalledWith(undefined, accepts);
+    expect(sent.status).toBe(402);
+    expect(sent.json).toBe(response402);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
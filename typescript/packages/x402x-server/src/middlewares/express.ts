@@ -3,7 +3,22 @@
  */
 
 import type { X402Server } from "../server";
-import type { CreateRequirementsConfig, Response402 } from "../schemas";
+import type {
+  CreateRequirementsConfig,
+  PaymentRequirements,
+  RequirementsOffer,
+  ParsedPayment,
+  Response402,
+} from "../schemas";
+import type { SettlementMode } from "../types";
+import {
+  X_PAYMENT_RESPONSE_HEADER,
+  appendExposeHeader,
+  createPaymentResponseHeader,
+  hasUptoRequirements,
+  isPaid,
+  notifyPaymentSuccess,
+} from "../utils";
 
 /**
  * Express-like Request 接口
@@ -20,7 +35,15 @@ export interface ExpressRequest {
   path?: string;
   x402?: {
     payer: string;
+    /** 延迟结算模式下，handler 执行期间为空字符串 */
     txHash: string;
+    /** 是否已完成结算 */
+    settled?: boolean;
+    /**
+     * 仅 "upto" 支付：handler 在写出响应前报告实际用量（最小单位），
+     * 不调用时按 maxAmountRequired 结算
+     */
+    setAmount?: (amount: string) => void;
   };
 }
 
@@ -28,8 +51,16 @@ export interface ExpressRequest {
  * Express-like Response 接口
  */
 export interface ExpressResponse {
+  /** 以下可选成员仅在延迟结算模式下使用 */
+  statusCode?: number;
   status(code: number): this;
   json(body: unknown): this;
+  /** 用于写入 X-PAYMENT-RESPONSE header */
+  setHeader?(name: string, value: string): unknown;
+  getHeader?(name: string): unknown;
+  write?(...args: unknown[]): unknown;
+  end?(...args: unknown[]): unknown;
+  removeHeader?(name: string): void;
 }
 
 /**
@@ -44,11 +75,17 @@ export interface ExpressMiddlewareOptions {
   /** X402Server 实例 */
   server: X402Server;
 
-  /** 获取 token 地址的函数 */
-  getToken: (req: ExpressRequest) => string | Promise<string>;
+  /** 获取 token 地址的函数（未提供 getOffers 时必填） */
+  getToken?: (req: ExpressRequest) => string | Promise<string>;
 
-  /** 获取金额的函数 */
-  getAmount: (req: ExpressRequest) => string | Promise<string>;
+  /** 获取金额的函数（未提供 getOffers 时必填） */
+  getAmount?: (req: ExpressRequest) => string | Promise<string>;
+
+  /**
+   * 可选：返回多资产、多网络报价，提供后忽略 getToken / getAmount
+   * 402 响应的 accepts 会包含所有报价，支付时按 payload 的 network/asset 匹配
+   */
+  getOffers?: (req: ExpressRequest) => RequirementsOffer[] | Promise<RequirementsOffer[]>;
 
   /** 可选：获取额外配置的函数 */
   getConfig?: (
@@ -63,6 +100,13 @@ export interface ExpressMiddlewareOptions {
 
   /** 可选：支付成功后的回调 */
   onPaymentSuccess?: (req: ExpressRequest, payer: string, txHash: string) => void | Promise<void>;
+
+  /**
+   * 可选：结算模式，默认使用 server 的配置
+   * - "deferred": handler 返回 2xx 后才结算，结算失败时用 500 替换原响应
+   * 包含 "upto" 报价时始终使用 "deferred"
+   */
+  settlementMode?: SettlementMode;
 }
 
 /**
@@ -89,36 +133,81 @@ export interface ExpressMiddlewareOptions {
 export function createExpressMiddleware(options: ExpressMiddlewareOptions) {
   return async (req: ExpressRequest, res: ExpressResponse, next: ExpressNextFunction) => {
     try {
-      // 1. 获取 token 和 amount
-      const token = await options.getToken(req);
-      const amount = await options.getAmount(req);
-
-      // 2. 获取额外配置
+      // 1. 获取额外配置
       const extraConfig = options.getConfig ? await options.getConfig(req) : {};
 
-      // 3. 自动生成 resource URL（如果未在 extraConfig 中提供）
+      // 2. 自动生成 resource URL（如果未在 extraConfig 中提供）
       let resource: string | undefined = extraConfig.resource;
       if (!resource && req.protocol && req.hostname && req.originalUrl) {
         // 自动从请求信息生成完整的 resource URL
         resource = `${req.protocol}://${req.hostname}${req.originalUrl}`;
       }
 
-      // 4. 创建支付要求（过滤掉 undefined 值）
+      // 3. 创建支付要求（过滤掉 undefined 值）
       const filteredConfig = Object.fromEntries(
         Object.entries({ ...extraConfig, resource }).filter(([, value]) => value !== undefined),
       );
 
-      const requirements = await options.server.createRequirements({
-        asset: token,
-        maxAmountRequired: amount,
-        ...filteredConfig,
-      } as CreateRequirementsConfig);
+      let requirements: PaymentRequirements | PaymentRequirements[];
+      if (options.getOffers) {
+        // 多资产、多网络报价
+        const offers = await options.getOffers(req);
+        requirements = await options.server.createRequirementsSet(offers, filteredConfig);
+      } else {
+        if (!options.getToken || !options.getAmount) {
+          throw new Error("getToken and getAmount are required unless getOffers is provided");
+        }
+
+        // 单一报价：获取 token 和 amount
+        const token = await options.getToken(req);
+        const amount = await options.getAmount(req);
+
+        requirements = await options.server.createRequirements({
+          asset: token,
+          maxAmountRequired: amount,
+          ...filteredConfig,
+        } as CreateRequirementsConfig);
+      }
 
-      // 5. 处理支付
+      // 4. 处理支付
       const paymentHeader = req.headers["x-payment"] as string | undefined;
+      const settlementMode = hasUptoRequirements(requirements)
+        ? "deferred"
+        : options.settlementMode || options.server.getSettlementMode();
+
+      if (settlementMode === "deferred") {
+        // 延迟结算：只验证，结算推迟到 handler 写出响应时
+        const authorized = await options.server.authorize(paymentHeader, requirements);
+        if (!authorized.success) {
+          if (options.on402) {
+            options.on402(req, res, authorized.response);
+          } else {
+            res.status(authorized.status).json(authorized.response);
+          }
+          return;
+        }
+
+        // upto：由 handler 报告实际用量
+        const usage: { amount?: string } = {};
+        req.x402 = {
+          payer: authorized.data.payer,
+          txHash: "",
+          settled: false,
+          ...(authorized.data.payment.requirements.scheme === "upto" && {
+            setAmount: (amount: string) => {
+              usage.amount = amount;
+            },
+          }),
+        };
+        deferSettlement(req, res, authorized.data.payment, authorized.data.payer, options, usage);
+
+        next();
+        return;
+      }
+
       const result = await options.server.process(paymentHeader, requirements);
 
-      // 6. 处理结果
+      // 5. 处理结果
       if (!result.success) {
         // 支付失败，根据错误阶段返回不同状态码
         // - parse/verify 失败: 402 (客户端需要重新支付)
@@ -131,16 +220,23 @@ export function createExpressMiddleware(options: ExpressMiddlewareOptions) {
         return;
       }
 
-      // 7. 支付成功
+      // 6. 支付成功
       // 将支付信息附加到 req 对象
       req.x402 = {
         payer: result.data.payer,
         txHash: result.data.txHash,
+        settled: isPaid(result.data),
       };
+      setPaymentResponseHeaders(res, result.data);
 
       // 调用成功回调
-      if (options.onPaymentSuccess) {
-        await options.onPaymentSuccess(req, result.data.payer, result.data.txHash);
+      if (isPaid(result.data)) {
+        await notifyPaymentSuccess(
+          options.onPaymentSuccess,
+          req,
+          result.data.payer,
+          result.data.txHash,
+        );
       }
 
       // 继续到下一个中间件
@@ -172,6 +268,144 @@ export function createExpressMiddleware(options: ExpressMiddlewareOptions) {
   };
 }
 
+/**
+ * 写入 X-PAYMENT-RESPONSE header，并允许浏览器客户端读取
+ *
+ * @param res - 响应对象
+ * @param data - 结算成功的数据
+ * @param data.payer - 付款人地址
+ * @param data.txHash - 交易哈希
+ * @param data.network - 结算网络
+ */
+function setPaymentResponseHeaders(
+  res: ExpressResponse,
+  data: { payer: string; txHash: string; network: string },
+): void {
+  if (!res.setHeader) {
+    return;
+  }
+
+  res.setHeader(
+    X_PAYMENT_RESPONSE_HEADER,
+    createPaymentResponseHeader({
+      success: true,
+      transaction: data.txHash,
+      network: data.network,
+      payer: data.payer,
+    }),
+  );
+
+  const exposed = res.getHeader?.("Access-Control-Expose-Headers");
+  res.setHeader(
+    "Access-Control-Expose-Headers",
+    appendExposeHeader(Array.isArray(exposed) ? exposed.join(", ") : (exposed as string)),
+  );
+}
+
+/**
+ * 拦截响应输出，handler 返回 2xx 时先结算再发送响应体
+ *
+ * @param req - 请求对象
+ * @param res - 响应对象
+ * @param payment - 已验证的支付数据
+ * @param payer - 付款人地址
+ * @param options - 中间件配置
+ * @param usage - handler 报告的实际用量（仅 upto）
+ * @param usage.amount - 实际结算金额
+ */
+function deferSettlement(
+  req: ExpressRequest,
+  res: ExpressResponse,
+  payment: ParsedPayment,
+  payer: string,
+  options: ExpressMiddlewareOptions,
+  usage: { amount?: string },
+): void {
+  const { write, end } = res;
+  if (!write || !end) {
+    throw new Error("Deferred settlement requires a response with write() and end()");
+  }
+
+  const chunks: unknown[][] = [];
+  let ending = false;
+
+  const restore = () => {
+    res.write = write;
+    res.end = end;
+  };
+
+  const flush = (endArgs: unknown[]) => {
+    restore();
+    for (const args of chunks) {
+      write.apply(res, args);
+    }
+    end.apply(res, endArgs);
+  };
+
+  const fail = (body: unknown) => {
+    restore();
+    // 丢弃 handler 的响应体及其 header
+    res.removeHeader?.("Content-Length");
+    res.removeHeader?.("Content-Type");
+    res.status(500).json(body);
+  };
+
+  const settleAndFlush = async (endArgs: unknown[]) => {
+    // 非 2xx 响应不结算，释放支付后原样返回
+    const statusCode = res.statusCode ?? 200;
+    if (statusCode < 200 || statusCode >= 300) {
+      await options.server.release(payment);
+      flush(endArgs);
+      return;
+    }
+
+    let txHash: string;
+    let paid: boolean;
+    try {
+      const result = await options.server.finalize(payment, payer, usage.amount);
+      if (!result.success) {
+        fail(result.response);
+        return;
+      }
+      txHash = result.data.txHash;
+      paid = isPaid(result.data);
+
+      req.x402 = {
+        payer: result.data.payer,
+        txHash: result.data.txHash,
+        settled: paid,
+      };
+      setPaymentResponseHeaders(res, result.data);
+      flush(endArgs);
+    } catch (error) {
+      console.error("x402 deferred settlement error:", error);
+      fail({
+        error: "Payment processing error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    // 响应已发送，回调出错不影响已结算的支付
+    if (paid) {
+      await notifyPaymentSuccess(options.onPaymentSuccess, req, payer, txHash);
+    }
+  };
+
+  res.write = (...args: unknown[]) => {
+    chunks.push(args);
+    return true;
+  };
+
+  res.end = (...args: unknown[]) => {
+    if (!ending) {
+      ending = true;
+      void settleAndFlush(args);
+    }
+    return res;
+  };
+}
+
 /**
  * Express 中间件函数类型
  */
@@ -3,7 +3,21 @@
  */
 
 import type { X402Server } from "../server";
-import type { CreateRequirementsConfig, Response402 } from "../schemas";
+import type {
+  CreateRequirementsConfig,
+  PaymentRequirements,
+  RequirementsOffer,
+  Response402,
+} from "../schemas";
+import type { SettlementMode } from "../types";
+import {
+  X_PAYMENT_RESPONSE_HEADER,
+  appendExposeHeader,
+  createPaymentResponseHeader,
+  hasUptoRequirements,
+  isPaid,
+  notifyPaymentSuccess,
+} from "../utils";
 
 /**
  * Hono-like Request 接口
@@ -20,9 +34,13 @@ export interface HonoRequest {
  */
 export interface HonoContext {
   req: HonoRequest;
+  /** handler 返回的响应，仅在延迟结算模式下使用 */
+  res?: Response;
   json(body: unknown, status?: number): Response;
   set(key: string, value: unknown): void;
   get(key: string): unknown;
+  /** 用于写入 X-PAYMENT-RESPONSE header */
+  header?(name: string, value: string): void;
 }
 
 /**
@@ -42,11 +60,17 @@ export interface HonoMiddlewareOptions {
   /** X402Server 实例 */
   server: X402Server;
 
-  /** 获取 token 地址的函数 */
-  getToken: (c: HonoContext) => string | Promise<string>;
+  /** 获取 token 地址的函数（未提供 getOffers 时必填） */
+  getToken?: (c: HonoContext) => string | Promise<string>;
 
-  /** 获取金额的函数 */
-  getAmount: (c: HonoContext) => string | Promise<string>;
+  /** 获取金额的函数（未提供 getOffers 时必填） */
+  getAmount?: (c: HonoContext) => string | Promise<string>;
+
+  /**
+   * 可选：返回多资产、多网络报价，提供后忽略 getToken / getAmount
+   * 402 响应的 accepts 会包含所有报价，支付时按 payload 的 network/asset 匹配
+   */
+  getOffers?: (c: HonoContext) => RequirementsOffer[] | Promise<RequirementsOffer[]>;
 
   /** 可选：获取额外配置的函数 */
   getConfig?: (
@@ -61,6 +85,45 @@ export interface HonoMiddlewareOptions {
 
   /** 可选：支付成功后的回调 */
   onPaymentSuccess?: (c: HonoContext, payer: string, txHash: string) => void | Promise<void>;
+
+  /**
+   * 可选：结算模式，默认使用 server 的配置
+   * - "deferred": handler 返回 2xx 后才结算，结算失败时用 500 替换原响应
+   * 包含 "upto" 报价时始终使用 "deferred"，handler 通过 c.get("x402").setAmount() 报告实际用量
+   */
+  settlementMode?: SettlementMode;
+}
+
+/**
+ * 写入 X-PAYMENT-RESPONSE header，并允许浏览器客户端读取
+ *
+ * @param c - Hono context
+ * @param data - 结算成功的数据
+ * @param data.payer - 付款人地址
+ * @param data.txHash - 交易哈希
+ * @param data.network - 结算网络
+ */
+function setPaymentResponseHeaders(
+  c: HonoContext,
+  data: { payer: string; txHash: string; network: string },
+): void {
+  if (!c.header) {
+    return;
+  }
+
+  c.header(
+    X_PAYMENT_RESPONSE_HEADER,
+    createPaymentResponseHeader({
+      success: true,
+      transaction: data.txHash,
+      network: data.network,
+      payer: data.payer,
+    }),
+  );
+  c.header(
+    "Access-Control-Expose-Headers",
+    appendExposeHeader(c.res?.headers.get("Access-Control-Expose-Headers")),
+  );
 }
 
 /**
@@ -90,36 +153,112 @@ export interface HonoMiddlewareOptions {
 export function createHonoMiddleware(options: HonoMiddlewareOptions): HonoMiddlewareHandler {
   return async (c: HonoContext, next: HonoNext) => {
     try {
-      // 1. 获取 token 和 amount
-      const token = await options.getToken(c);
-      const amount = await options.getAmount(c);
-
-      // 2. 获取额外配置
+      // 1. 获取额外配置
       const extraConfig = options.getConfig ? await options.getConfig(c) : {};
 
-      // 3. 自动生成 resource URL（如果未在 extraConfig 中提供）
+      // 2. 自动生成 resource URL（如果未在 extraConfig 中提供）
       let resource: string | undefined = extraConfig.resource;
       if (!resource && c.req.url) {
         // 自动从请求信息生成完整的 resource URL
         resource = c.req.url;
       }
 
-      // 4. 创建支付要求（过滤掉 undefined 值）
+      // 3. 创建支付要求（过滤掉 undefined 值）
       const filteredConfig = Object.fromEntries(
         Object.entries({ ...extraConfig, resource }).filter(([, value]) => value !== undefined),
       );
 
-      const requirements = await options.server.createRequirements({
-        asset: token,
-        maxAmountRequired: amount,
-        ...filteredConfig,
-      } as CreateRequirementsConfig);
+      let requirements: PaymentRequirements | PaymentRequirements[];
+      if (options.getOffers) {
+        // 多资产、多网络报价
+        const offers = await options.getOffers(c);
+        requirements = await options.server.createRequirementsSet(offers, filteredConfig);
+      } else {
+        if (!options.getToken || !options.getAmount) {
+          throw new Error("getToken and getAmount are required unless getOffers is provided");
+        }
+
+        // 单一报价：获取 token 和 amount
+        const token = await options.getToken(c);
+        const amount = await options.getAmount(c);
 
-      // 5. 处理支付
+        requirements = await options.server.createRequirements({
+          asset: token,
+          maxAmountRequired: amount,
+          ...filteredConfig,
+        } as CreateRequirementsConfig);
+      }
+
+      // 4. 处理支付
       const paymentHeader = c.req.header("x-payment");
+      const settlementMode = hasUptoRequirements(requirements)
+        ? "deferred"
+        : options.settlementMode || options.server.getSettlementMode();
+
+      if (settlementMode === "deferred") {
+        // 延迟结算：只验证，handler 执行完成后再结算
+        const authorized = await options.server.authorize(paymentHeader, requirements);
+        if (!authorized.success) {
+          if (options.on402) {
+            return options.on402(c, authorized.response);
+          }
+          return c.json(authorized.response, authorized.status);
+        }
+
+        // upto：由 handler 报告实际用量
+        const usage: { amount?: string } = {};
+        c.set("x402", {
+          payer: authorized.data.payer,
+          txHash: "",
+          settled: false,
+          ...(authorized.data.payment.requirements.scheme === "upto" && {
+            setAmount: (amount: string) => {
+              usage.amount = amount;
+            },
+          }),
+        });
+
+        await next();
+
+        // 非 2xx 响应不结算，释放支付后原样返回
+        const statusCode = c.res?.status ?? 200;
+        if (statusCode < 200 || statusCode >= 300) {
+          await options.server.release(authorized.data.payment);
+          return;
+        }
+
+        const settled = await options.server.finalize(
+          authorized.data.payment,
+          authorized.data.payer,
+          usage.amount,
+        );
+        if (!settled.success) {
+          // 结算失败，丢弃 handler 的响应
+          c.res = c.json(settled.response, settled.status);
+          return;
+        }
+
+        c.set("x402", {
+          payer: settled.data.payer,
+          txHash: settled.data.txHash,
+          settled: isPaid(settled.data),
+        });
+        setPaymentResponseHeaders(c, settled.data);
+
+        if (isPaid(settled.data)) {
+          await notifyPaymentSuccess(
+            options.onPaymentSuccess,
+            c,
+            settled.data.payer,
+            settled.data.txHash,
+          );
+        }
+        return;
+      }
+
       const result = await options.server.process(paymentHeader, requirements);
 
-      // 6. 处理结果
+      // 5. 处理结果
       if (!result.success) {
         // 支付失败，根据错误阶段返回不同状态码
         // - parse/verify 失败: 402 (客户端需要重新支付)
@@ -131,16 +270,23 @@ export function createHonoMiddleware(options: HonoMiddlewareOptions): HonoMiddle
         }
       }
 
-      // 7. 支付成功
+      // 6. 支付成功
       // 将支付信息存储到 context
       c.set("x402", {
         payer: result.data.payer,
         txHash: result.data.txHash,
+        settled: isPaid(result.data),
       });
+      setPaymentResponseHeaders(c, result.data);
 
       // 调用成功回调
-      if (options.onPaymentSuccess) {
-        await options.onPaymentSuccess(c, result.data.payer, result.data.txHash);
+      if (isPaid(result.data)) {
+        await notifyPaymentSuccess(
+          options.onPaymentSuccess,
+          c,
+          result.data.payer,
+          result.data.txHash,
+        );
       }
 
       // 继续到下一个中间件
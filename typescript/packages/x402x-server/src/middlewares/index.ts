@@ -19,3 +19,21 @@ export type {
   HonoNext,
   HonoMiddlewareHandler,
 } from "./hono";
+
+export { createMcpPaidTool } from "./mcp";
+export type {
+  McpPaidToolOptions,
+  McpPaidToolHandler,
+  McpPaymentInfo,
+  McpCallToolResult,
+  McpContent,
+  McpRequestExtra,
+} from "./mcp";
+
+export { createA2APaidAgent } from "./a2a";
+export type {
+  A2APaidAgentOptions,
+  A2APaidAgentHandler,
+  A2APaidAgentResult,
+  A2APaymentInfo,
+} from "./a2a";
@@ -0,0 +1,196 @@
+/**
+ * MCP 付费工具测试
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createMcpPaidTool } from "./mcp";
+import type { X402Server } from "../server";
+import { decodeBase64 } from "../utils";
+
+const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const TX_HASH = "0xabc";
+
+const requirements = {
+  scheme: "exact",
+  network: "bsc-testnet",
+  maxAmountRequired: "1000",
+  payTo: PAYER,
+  asset: "0x25d066c4C68C8A6332DfDB4230263608305Ca991",
+  maxTimeoutSeconds: 300,
+  resource: "mcp://tool/analyze",
+  description: "",
+  mimeType: "application/json",
+};
+
+const payment = { payload: {}, requirements };
+
+const paymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "bsc-testnet",
+  payload: { authorizationType: "eip3009", signature: "0x1234", authorization: {} },
+};
+
+const response402 = { x402Version: 1, accepts: [requirements], error: "missing_payment_header" };
+
+/**
+ * 创建模拟的 X402Server
+ *
+ * @param settlementMode - 结算模式
+ * @returns 模拟的 server
+ */
+function createMockServer(settlementMode: "immediate" | "deferred") {
+  return {
+    getSettlementMode: vi.fn(() => settlementMode),
+    createRequirements: vi.fn(async () => requirements),
+    release: vi.fn(async () => undefined),
+    process: vi.fn(async (header?: string) =>
+      header
+        ? {
+            success: true,
+            status: 200,
+            data: { payer: PAYER, txHash: TX_HASH, network: "bsc-testnet" },
+          }
+        : { success: false, status: 402, errorStage: "parse", response: response402 },
+    ),
+    authorize: vi.fn(async (header?: string) =>
+      header
+        ? { success: true, status: 200, data: { payer: PAYER, payment } }
+        : { success: false, status: 402, errorStage: "parse", response: response402 },
+    ),
+    finalize: vi.fn(async () => ({
+      success: true,
+      status: 200,
+      data: { payer: PAYER, txHash: TX_HASH, network: "bsc-testnet" },
+    })),
+  };
+}
+
+/**
+ * 创建付费工具
+ *
+ * @param server - 模拟的 server
+ * @param handler - 工具 handler
+ * @returns 工具回调
+ */
+function createTool(
+  server: ReturnType<typeof createMockServer>,
+  handler = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] })),
+) {
+  return createMcpPaidTool(
+    {
+      server: server as unknown as X402Server,
+      name: "analyze",
+      getToken: () => requirements.asset,
+      getAmount: () => "1000",
+    },
+    handler,
+  );
+}
+
+describe("createMcpPaidTool", () => {
+  it("should return payment requirements in the tool error result", async () => {
+    const server = createMockServer("immediate");
+    const handler = vi.fn();
+    const tool = createTool(server, handler);
+
+    const result = await tool({ ticker: "AAPL" });
+
+    expect(result.isError).toBe(true);
+    expect(result._meta?.["x402/error"]).toEqual(response402);
+    expect(JSON.parse(result.content[0].text!)).toEqual(response402);
+    expect(handler).not.toHaveBeenCalled();
+    expect(server.createRequirements).toHaveBeenCalledWith(
+      expect.objectContaining({ resource: "mcp://tool/analyze", maxAmountRequired: "1000" }),
+    );
+  });
+
+  it("should settle the _meta payment and attach the payment response", async () => {
+    const server = createMockServer("immediate");
+    const handler = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+    const tool = createTool(server, handler);
+
+    const result = await tool(
+      { ticker: "AAPL" },
+      { _meta: { "x402/payment": paymentPayload }, sessionId: "s1" },
+    );
+
+    const header = server.process.mock.calls[0][0] as string;
+    expect(JSON.parse(decodeBase64(header))).toEqual(paymentPayload);
+    expect(handler).toHaveBeenCalledWith(
+      { ticker: "AAPL" },
+      expect.objectContaining({
+        sessionId: "s1",
+        x402: { payer: PAYER, txHash: TX_HASH, settled: true },
+      }),
+    );
+    expect(result._meta?.["x402/payment-response"]).toEqual({
+      success: true,
+      transaction: TX_HASH,
+      network: "bsc-testnet",
+      payer: PAYER,
+    });
+  });
+
+  it("should not settle when the tool fails in deferred mode", async () => {
+    const server = createMockServer("deferred");
+    const tool = createTool(
+      server,
+      vi.fn(async () => ({ isError: true, content: [{ type: "text", text: "boom" }] })),
+    );
+
+    const result = await tool({}, { _meta: { "x402/payment": paymentPayload } });
+
+    expect(result.isError).toBe(true);
+    expect(server.finalize).not.toHaveBeenCalled();
+    expect(server.release).toHaveBeenCalledWith(payment);
+  });
+
+  it("should return the paid result when onPaymentSuccess throws", async () => {
+    const server = createMockServer("deferred");
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const tool = createMcpPaidTool(
+      {
+        server: server as unknown as X402Server,
+        name: "analyze",
+        getToken: () => requirements.asset,
+        getAmount: () => "1000",
+        onPaymentSuccess: () => {
+          throw new Error("callback failed");
+        },
+      },
+      vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] })),
+    );
+
+    const result = await tool({}, { _meta: { "x402/payment": paymentPayload } });
+
+    expect(result.isError).toBeUndefined();
+    expect(result._meta?.["x402/payment-response"]).toMatchObject({ transaction: TX_HASH });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("should include the failed payment response when settlement fails", async () => {
+    const server = createMockServer("deferred");
+    server.finalize.mockResolvedValueOnce({
+      success: false,
+      status: 500,
+      errorStage: "settle",
+      response: { x402Version: 1, accepts: [requirements], error: "insufficient_funds" },
+      error: "insufficient_funds",
+    } as never);
+    const tool = createTool(server);
+
+    const result = await tool({}, { _meta: { "x402/payment": paymentPayload } });
+
+    expect(result.isError).toBe(true);
+    expect(result._meta?.["x402/error"]).toMatchObject({
+      error: "insufficient_funds",
+      "x402/payment-response": {
+        success: false,
+        errorReason: "insufficient_funds",
+        payer: PAYER,
+      },
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * MCP (Model Context Protocol) 工具付费包装 for x402 Payment Protocol
+ *
+ * 见 specs/transports/mcp.md
+ */
+
+import {
+  MCP_PAYMENT_META_KEY,
+  MCP_PAYMENT_REQUIRED_META_KEY,
+  MCP_PAYMENT_RESPONSE_META_KEY,
+} from "x402x/shared";
+import type { X402Server } from "../server";
+import type {
+  CreateRequirementsConfig,
+  PaymentRequirements,
+  RequirementsOffer,
+  Response402,
+} from "../schemas";
+import type { SettlementMode } from "../types";
+import { encodeBase64, hasUptoRequirements, isPaid, notifyPaymentSuccess } from "../utils";
+
+/**
+ * MCP 内容块
+ * 定义最小化的类型，避免直接依赖 @modelcontextprotocol/sdk
+ */
+export interface McpContent {
+  [key: string]: unknown;
+  type: string;
+  text?: string;
+}
+
+/**
+ * MCP tools/call 结果
+ */
+export interface McpCallToolResult {
+  [key: string]: unknown;
+  content: McpContent[];
+  isError?: boolean;
+  structuredContent?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * MCP 工具回调的第二个参数（@modelcontextprotocol/sdk 的 RequestHandlerExtra）
+ * 仅使用其中 tools/call 请求的 `_meta`
+ */
+export interface McpRequestExtra {
+  [key: string]: unknown;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * 传给工具 handler 的支付信息
+ */
+export interface McpPaymentInfo {
+  payer: string;
+  /** 延迟结算模式下，handler 执行期间为空字符串 */
+  txHash: string;
+  /** 是否已完成结算 */
+  settled: boolean;
+  /**
+   * 仅 "upto" 支付：handler 报告实际用量（最小单位），
+   * 不调用时按 maxAmountRequired 结算
+   */
+  setAmount?: (amount: string) => void;
+}
+
+/**
+ * 付费工具 handler
+ */
+export type McpPaidToolHandler<TArgs> = (
+  args: TArgs,
+  extra: McpRequestExtra & { x402: McpPaymentInfo },
+) => McpCallToolResult | Promise<McpCallToolResult>;
+
+/**
+ * MCP 付费工具配置选项
+ */
+export interface McpPaidToolOptions<TArgs> {
+  /** X402Server 实例 */
+  server: X402Server;
+
+  /** 工具名称，用于生成默认 resource（`mcp://tool/<name>`） */
+  name: string;
+
+  /** 获取 token 地址的函数（未提供 getOffers 时必填） */
+  getToken?: (args: TArgs) => string | Promise<string>;
+
+  /** 获取金额的函数（未提供 getOffers 时必填） */
+  getAmount?: (args: TArgs) => string | Promise<string>;
+
+  /** 可选：返回多资产、多网络报价，提供后忽略 getToken / getAmount */
+  getOffers?: (args: TArgs) => RequirementsOffer[] | Promise<RequirementsOffer[]>;
+
+  /** 可选：获取额外配置的函数 */
+  getConfig?: (
+    args: TArgs,
+  ) => Partial<CreateRequirementsConfig> | Promise<Partial<CreateRequirementsConfig>>;
+
+  /** 可选：支付成功后的回调 */
+  onPaymentSuccess?: (payer: string, txHash: string, args: TArgs) => void | Promise<void>;
+
+  /**
+   * 可选：结算模式，默认使用 server 的配置
+   * - "deferred": handler 返回非错误结果后才结算，handler 返回 isError 时不扣款
+   * 包含 "upto" 报价时始终使用 "deferred"
+   */
+  settlementMode?: SettlementMode;
+}
+
+/**
+ * 结算失败时附带在错误结果中的结算响应
+ */
+interface McpPaymentFailure {
+  success: false;
+  errorReason: string;
+  transaction: "";
+  network: string;
+  payer: string;
+}
+
+/**
+ * 创建 MCP 付费工具
+ *
+ * 未携带 `_meta["x402/payment"]` 或支付无效时，返回 `isError: true` 的工具结果，
+ * 支付要求放在 `_meta["x402/error"]` 和文本内容中；支付成功后结果的
+ * `_meta["x402/payment-response"]` 包含结算信息
+ *
+ * @param options - 付费配置
+ * @param handler - 工具 handler，第二个参数的 `x402` 包含付款人和交易哈希
+ * @returns 可直接注册到 McpServer 的工具回调
+ *
+ * @example
+ * ```typescript
+ * const mcp = new McpServer({ name: "analysis", version: "1.0.0" });
+ *
+ * mcp.tool(
+ *   "financial_analysis",
+ *   { ticker: z.string() },
+ *   createMcpPaidTool(
+ *     {
+ *       server,
+ *       name: "financial_analysis",
+ *       getToken: () => USDC,
+ *       getAmount: () => "10000",
+ *       getConfig: () => ({ description: "Advanced financial analysis tool" }),
+ *     },
+ *     async ({ ticker }, { x402 }) => ({
+ *       content: [{ type: "text", text: `Analysis for ${ticker}, paid by ${x402.payer}` }],
+ *     }),
+ *   ),
+ * );
+ * ```
+ */
+export function createMcpPaidTool<TArgs>(
+  options: McpPaidToolOptions<TArgs>,
+  handler: McpPaidToolHandler<TArgs>,
+) {
+  return async (args: TArgs, extra: McpRequestExtra = {}): Promise<McpCallToolResult> => {
+    // 1. 创建支付要求
+    const requirements = await createRequirements(options, args);
+
+    // 2. 读取 _meta 中的支付数据，转换为 X-PAYMENT 格式交给 X402Server
+    const payment = extra._meta?.[MCP_PAYMENT_META_KEY];
+    const paymentHeader =
+      payment === undefined || payment === null
+        ? undefined
+        : typeof payment === "string"
+          ? payment
+          : encodeBase64(JSON.stringify(payment));
+
+    const settlementMode = hasUptoRequirements(requirements)
+      ? "deferred"
+      : options.settlementMode || options.server.getSettlementMode();
+
+    if (settlementMode === "deferred") {
+      // 延迟结算：只验证，handler 成功后再结算
+      const authorized = await options.server.authorize(paymentHeader, requirements);
+      if (!authorized.success) {
+        return createPaymentRequiredResult(authorized.response);
+      }
+
+      const { payer, payment: parsed } = authorized.data;
+      const usage: { amount?: string } = {};
+      let result: McpCallToolResult;
+      try {
+        result = await handler(args, {
+          ...extra,
+          x402: {
+            payer,
+            txHash: "",
+            settled: false,
+            ...(parsed.requirements.scheme === "upto" && {
+              setAmount: (amount: string) => {
+                usage.amount = amount;
+              },
+            }),
+          },
+        });
+      } catch (error) {
+        await options.server.release(parsed);
+        throw error;
+      }
+
+      // 工具报错不结算
+      if (result.isError) {
+        await options.server.release(parsed);
+        return result;
+      }
+
+      const settled = await options.server.finalize(parsed, payer, usage.amount);
+      if (!settled.success) {
+        return createPaymentRequiredResult(settled.response, {
+          success: false,
+          errorReason: settled.response.error || "settlement_failed",
+          transaction: "",
+          network: parsed.requirements.network,
+          payer,
+        });
+      }
+
+      if (isPaid(settled.data)) {
+        await notifyPaymentSuccess(
+          options.onPaymentSuccess,
+          settled.data.payer,
+          settled.data.txHash,
+          args,
+        );
+      }
+
+      return withPaymentResponse(result, settled.data);
+    }
+
+    const processed = await options.server.process(paymentHeader, requirements);
+    if (!processed.success) {
+      return createPaymentRequiredResult(processed.response);
+    }
+
+    if (isPaid(processed.data)) {
+      await notifyPaymentSuccess(
+        options.onPaymentSuccess,
+        processed.data.payer,
+        processed.data.txHash,
+        args,
+      );
+    }
+
+    const result = await handler(args, {
+      ...extra,
+      x402: {
+        payer: processed.data.payer,
+        txHash: processed.data.txHash,
+        settled: isPaid(processed.data),
+      },
+    });
+
+    return withPaymentResponse(result, processed.data);
+  };
+}
+
+/**
+ * 根据工具参数创建支付要求
+ *
+ * @param options - 付费配置
+ * @param args - 工具参数
+ * @returns 支付要求
+ */
+async function createRequirements<TArgs>(
+  options: McpPaidToolOptions<TArgs>,
+  args: TArgs,
+): Promise<PaymentRequirements | PaymentRequirements[]> {
+  const extraConfig = options.getConfig ? await options.getConfig(args) : {};
+  const resource = extraConfig.resource || `mcp://tool/${options.name}`;
+
+  // 过滤掉 undefined 值
+  const filteredConfig = Object.fromEntries(
+    Object.entries({ ...extraConfig, resource }).filter(([, value]) => value !== undefined),
+  );
+
+  if (options.getOffers) {
+    const offers = await options.getOffers(args);
+    return options.server.createRequirementsSet(offers, filteredConfig);
+  }
+
+  if (!options.getToken || !options.getAmount) {
+    throw new Error("getToken and getAmount are required unless getOffers is provided");
+  }
+
+  return options.server.createRequirements({
+    asset: await options.getToken(args),
+    maxAmountRequired: await options.getAmount(args),
+    ...filteredConfig,
+  } as CreateRequirementsConfig);
+}
+
+/**
+ * 生成需要支付的工具错误结果
+ *
+ * @param response402 - 402 响应（x402Version / accepts / error）
+ * @param paymentResponse - 可选，结算失败时的结算响应
+ * @returns 工具错误结果
+ */
+function createPaymentRequiredResult(
+  response402: Response402,
+  paymentResponse?: McpPaymentFailure,
+): McpCallToolResult {
+  const data = paymentResponse
+    ? { ...response402, [MCP_PAYMENT_RESPONSE_META_KEY]: paymentResponse }
+    : response402;
+
+  return {
+    isError: true,
+    content: [{ type: "text", text: JSON.stringify(data) }],
+    _meta: { [MCP_PAYMENT_REQUIRED_META_KEY]: data },
+  };
+}
+
+/**
+ * 在工具结果的 _meta 中附加结算信息
+ *
+ * @param result - 工具结果
+ * @param data - 结算成功的数据
+ * @param data.payer - 付款人地址
+ * @param data.txHash - 交易哈希
+ * @param data.network - 结算网络
+ * @returns 附带 `_meta["x402/payment-response"]` 的工具结果
+ */
+function withPaymentResponse(
+  result: McpCallToolResult,
+  data: { payer: string; txHash: string; network: string },
+): McpCallToolResult {
+  return {
+    ...result,
+    _meta: {
+      ...result._meta,
+      [MCP_PAYMENT_RESPONSE_META_KEY]: {
+        success: true,
+        transaction: data.txHash,
+        network: data.network,
+        payer: data.payer,
+      },
+    },
+  };
+}
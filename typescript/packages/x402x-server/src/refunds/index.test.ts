@@ -0,0 +1,54 @@
+/**
+ * 退款存储测试
+ */
+
+import { describe, it, expect } from "vitest";
+import { MemoryRefundStore } from "./index";
+import type { RefundRecord } from "./index";
+
+const payment = {
+  paymentId: "bsc:usdc:payer:eip3009-0x01",
+  txHash: `0x${"A".repeat(64)}`,
+  network: "bsc",
+  asset: "0x25d066c4C68C8A6332DfDB4230263608305Ca991",
+  payer: "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3",
+  amount: "1000",
+  settledAt: "2026-01-01T00:00:00.000Z",
+};
+
+const refund: RefundRecord = {
+  refundId: "refund-1",
+  paymentId: payment.paymentId,
+  amount: "400",
+  reason: "partial_delivery",
+  status: "pending",
+  createdAt: "2026-01-01T00:01:00.000Z",
+  updatedAt: "2026-01-01T00:01:00.000Z",
+};
+
+describe("MemoryRefundStore", () => {
+  it("should find payments by id or case-insensitive txHash", async () => {
+    const store = new MemoryRefundStore();
+    await store.savePayment(payment);
+
+    expect(await store.getPayment({ paymentId: payment.paymentId })).toEqual(payment);
+    expect(await store.getPayment({ txHash: payment.txHash.toLowerCase() })).toEqual(payment);
+    expect(await store.getPayment({ txHash: `0x${"b".repeat(64)}` })).toBeUndefined();
+  });
+
+  it("should track refund status updates per payment", async () => {
+    const store = new MemoryRefundStore();
+    await store.createRefund(refund);
+    await store.createRefund({ ...refund, refundId: "refund-2", paymentId: "other" });
+
+    await store.updateRefund("refund-1", {
+      status: "sent",
+      txHash: "0xabc",
+      updatedAt: "2026-01-01T00:02:00.000Z",
+    });
+
+    expect(await store.listRefunds(payment.paymentId)).toEqual([
+      { ...refund, status: "sent", txHash: "0xabc", updatedAt: "2026-01-01T00:02:00.000Z" },
+    ]);
+  });
+});
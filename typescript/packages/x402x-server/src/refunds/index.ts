@@ -0,0 +1,16 @@
+/**
+ * Refund tracking for settled x402 payments
+ */
+
+export { MemoryRefundStore } from "./memory";
+export { SqliteRefundStore } from "./sqlite";
+export type { SqliteQueryDatabase, SqliteQueryStatement, SqliteRefundStoreOptions } from "./sqlite";
+export type {
+  RefundStatus,
+  SettledPaymentRecord,
+  RefundRecord,
+  RefundStore,
+  RefundConfig,
+  RefundOptions,
+  RefundResult,
+} from "./types";
@@ -0,0 +1,78 @@
+import type { RefundRecord, RefundStore, SettledPaymentRecord } from "./types";
+
+/**
+ * 内存退款存储
+ *
+ * 进程重启后记录丢失，仅适用于开发和测试；生产环境请使用 SqliteRefundStore 或自定义持久化存储
+ */
+export class MemoryRefundStore implements RefundStore {
+  private payments = new Map<string, SettledPaymentRecord>();
+  private paymentIdsByTxHash = new Map<string, string>();
+  private refunds = new Map<string, RefundRecord>();
+
+  /**
+   * 保存已结算的支付
+   *
+   * @param payment - 支付记录
+   */
+  async savePayment(payment: SettledPaymentRecord): Promise<void> {
+    this.payments.set(payment.paymentId, { ...payment });
+    this.paymentIdsByTxHash.set(payment.txHash.toLowerCase(), payment.paymentId);
+  }
+
+  /**
+   * 按支付 id 或结算交易哈希查找支付
+   *
+   * @param query - 查询条件
+   * @param query.paymentId - 支付 id
+   * @param query.txHash - 结算交易哈希
+   * @returns 支付记录
+   */
+  async getPayment(query: {
+    paymentId?: string;
+    txHash?: string;
+  }): Promise<SettledPaymentRecord | undefined> {
+    const paymentId =
+      query.paymentId ?? (query.txHash && this.paymentIdsByTxHash.get(query.txHash.toLowerCase()));
+    const payment = paymentId ? this.payments.get(paymentId) : undefined;
+    return payment && { ...payment };
+  }
+
+  /**
+   * 保存新的退款记录
+   *
+   * @param refund - 退款记录
+   */
+  async createRefund(refund: RefundRecord): Promise<void> {
+    this.refunds.set(refund.refundId, { ...refund });
+  }
+
+  /**
+   * 更新退款状态
+   *
+   * @param refundId - 退款 id
+   * @param update - 要更新的字段
+   */
+  async updateRefund(
+    refundId: string,
+    update: Pick<RefundRecord, "status" | "updatedAt"> &
+      Partial<Pick<RefundRecord, "txHash" | "error">>,
+  ): Promise<void> {
+    const refund = this.refunds.get(refundId);
+    if (refund) {
+      this.refunds.set(refundId, { ...refund, ...update });
+    }
+  }
+
+  /**
+   * 列出支付的所有退款
+   *
+   * @param paymentId - 支付 id
+   * @returns 退款记录
+   */
+  async listRefunds(paymentId: string): Promise<RefundRecord[]> {
+    return [...this.refunds.values()]
+      .filter(refund => refund.paymentId === paymentId)
+      .map(refund => ({ ...refund }));
+  }
+}
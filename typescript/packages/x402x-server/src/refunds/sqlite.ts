@@ -0,0 +1,245 @@
+import type { RefundRecord, RefundStore, SettledPaymentRecord } from "./types";
+
+/**
+ * SQLite prepared statement 的最小接口（退款存储需要查询结果）
+ */
+export interface SqliteQueryStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * SQLite 数据库的最小接口
+ * 兼容 better-sqlite3 的 Database 和 node:sqlite 的 DatabaseSync
+ */
+export interface SqliteQueryDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteQueryStatement;
+}
+
+/**
+ * SqliteRefundStore 配置选项
+ */
+export interface SqliteRefundStoreOptions {
+  /** 表名前缀，默认 "x402"，生成 x402_settled_payments 与 x402_refunds 两张表 */
+  tablePrefix?: string;
+}
+
+/**
+ * refunds 表的行
+ */
+interface RefundRow {
+  refund_id: string;
+  payment_id: string;
+  amount: string;
+  reason: string;
+  status: RefundRecord["status"];
+  tx_hash: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * settled_payments 表的行
+ */
+interface PaymentRow {
+  payment_id: string;
+  tx_hash: string;
+  network: string;
+  asset: string;
+  payer: string;
+  amount: string;
+  settled_at: string;
+}
+
+/**
+ * SQLite 退款存储
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const server = new X402Server({
+ *   client,
+ *   facilitator,
+ *   refund: {
+ *     wallet: refundWallet,
+ *     store: new SqliteRefundStore(new Database("x402.db")),
+ *   },
+ * });
+ * ```
+ */
+export class SqliteRefundStore implements RefundStore {
+  private savePaymentStatement: SqliteQueryStatement;
+  private getPaymentByIdStatement: SqliteQueryStatement;
+  private getPaymentByTxHashStatement: SqliteQueryStatement;
+  private createRefundStatement: SqliteQueryStatement;
+  private updateRefundStatement: SqliteQueryStatement;
+  private listRefundsStatement: SqliteQueryStatement;
+
+  /**
+   * 构造函数
+   *
+   * @param database - SQLite 数据库实例
+   * @param options - 配置选项
+   */
+  constructor(database: SqliteQueryDatabase, options: SqliteRefundStoreOptions = {}) {
+    const prefix = options.tablePrefix || "x402";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid table prefix: ${prefix}`);
+    }
+    const payments = `${prefix}_settled_payments`;
+    const refunds = `${prefix}_refunds`;
+
+    database.exec(
+      `CREATE TABLE IF NOT EXISTS ${payments} (` +
+        `payment_id TEXT PRIMARY KEY, tx_hash TEXT NOT NULL, network TEXT NOT NULL, ` +
+        `asset TEXT NOT NULL, payer TEXT NOT NULL, amount TEXT NOT NULL, settled_at TEXT NOT NULL)`,
+    );
+    database.exec(
+      `CREATE INDEX IF NOT EXISTS ${payments}_tx_hash ON ${payments} (tx_hash COLLATE NOCASE)`,
+    );
+    database.exec(
+      `CREATE TABLE IF NOT EXISTS ${refunds} (` +
+        `refund_id TEXT PRIMARY KEY, payment_id TEXT NOT NULL, amount TEXT NOT NULL, ` +
+        `reason TEXT NOT NULL, status TEXT NOT NULL, tx_hash TEXT, error TEXT, ` +
+        `created_at TEXT NOT NULL, updated_at TEXT NOT NULL)`,
+    );
+    database.exec(`CREATE INDEX IF NOT EXISTS ${refunds}_payment_id ON ${refunds} (payment_id)`);
+
+    this.savePaymentStatement = database.prepare(
+      `INSERT OR REPLACE INTO ${payments} ` +
+        `(payment_id, tx_hash, network, asset, payer, amount, settled_at) ` +
+        `VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.getPaymentByIdStatement = database.prepare(
+      `SELECT * FROM ${payments} WHERE payment_id = ?`,
+    );
+    this.getPaymentByTxHashStatement = database.prepare(
+      `SELECT * FROM ${payments} WHERE tx_hash = ? COLLATE NOCASE`,
+    );
+    this.createRefundStatement = database.prepare(
+      `INSERT INTO ${refunds} ` +
+        `(refund_id, payment_id, amount, reason, status, tx_hash, error, created_at, updated_at) ` +
+        `VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.updateRefundStatement = database.prepare(
+      `UPDATE ${refunds} SET status = ?, updated_at = ?, ` +
+        `tx_hash = COALESCE(?, tx_hash), error = COALESCE(?, error) WHERE refund_id = ?`,
+    );
+    this.listRefundsStatement = database.prepare(
+      `SELECT * FROM ${refunds} WHERE payment_id = ? ORDER BY created_at, rowid`,
+    );
+  }
+
+  /**
+   * 保存已结算的支付
+   *
+   * @param payment - 支付记录
+   */
+  async savePayment(payment: SettledPaymentRecord): Promise<void> {
+    this.savePaymentStatement.run(
+      payment.paymentId,
+      payment.txHash,
+      payment.network,
+      payment.asset,
+      payment.payer,
+      payment.amount,
+      payment.settledAt,
+    );
+  }
+
+  /**
+   * 按支付 id 或结算交易哈希查找支付
+   *
+   * @param query - 查询条件
+   * @param query.paymentId - 支付 id
+   * @param query.txHash - 结算交易哈希
+   * @returns 支付记录
+   */
+  async getPayment(query: {
+    paymentId?: string;
+    txHash?: string;
+  }): Promise<SettledPaymentRecord | undefined> {
+    const row = (
+      query.paymentId
+        ? this.getPaymentByIdStatement.get(query.paymentId)
+        : query.txHash
+          ? this.getPaymentByTxHashStatement.get(query.txHash)
+          : undefined
+    ) as PaymentRow | undefined;
+
+    return row
+      ? {
+          paymentId: row.payment_id,
+          txHash: row.tx_hash,
+          network: row.network,
+          asset: row.asset,
+          payer: row.payer,
+          amount: row.amount,
+          settledAt: row.settled_at,
+        }
+      : undefined;
+  }
+
+  /**
+   * 保存新的退款记录
+   *
+   * @param refund - 退款记录
+   */
+  async createRefund(refund: RefundRecord): Promise<void> {
+    this.createRefundStatement.run(
+      refund.refundId,
+      refund.paymentId,
+      refund.amount,
+      refund.reason,
+      refund.status,
+      refund.txHash ?? null,
+      refund.error ?? null,
+      refund.createdAt,
+      refund.updatedAt,
+    );
+  }
+
+  /**
+   * 更新退款状态
+   *
+   * @param refundId - 退款 id
+   * @param update - 要更新的字段
+   */
+  async updateRefund(
+    refundId: string,
+    update: Pick<RefundRecord, "status" | "updatedAt"> &
+      Partial<Pick<RefundRecord, "txHash" | "error">>,
+  ): Promise<void> {
+    this.updateRefundStatement.run(
+      update.status,
+      update.updatedAt,
+      update.txHash ?? null,
+      update.error ?? null,
+      refundId,
+    );
+  }
+
+  /**
+   * 列出支付的所有退款
+   *
+   * @param paymentId - 支付 id
+   * @returns 退款记录
+   */
+  async listRefunds(paymentId: string): Promise<RefundRecord[]> {
+    return (this.listRefundsStatement.all(paymentId) as RefundRow[]).map(row => ({
+      refundId: row.refund_id,
+      paymentId: row.payment_id,
+      amount: row.amount,
+      reason: row.reason,
+      status: row.status,
+      ...(row.tx_hash !== null && { txHash: row.tx_hash }),
+      ...(row.error !== null && { error: row.error }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+}
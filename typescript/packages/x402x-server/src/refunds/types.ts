@@ -0,0 +1,169 @@
+import type { Account, Chain, Transport, WalletClient } from "viem";
+
+/**
+ * 退款状态
+ * - pending: 已创建，尚未发送交易
+ * - sent: 交易已广播，等待确认
+ * - confirmed: 交易已确认
+ * - failed: 发送失败或交易回滚，不计入已退款金额
+ */
+export type RefundStatus = "pending" | "sent" | "confirmed" | "failed";
+
+/**
+ * 已结算的支付记录，退款时用于查找付款人、token 和金额
+ */
+export interface SettledPaymentRecord {
+  /** 支付 id（见 getPaymentKey） */
+  paymentId: string;
+
+  /** 结算交易哈希 */
+  txHash: string;
+
+  /** 网络名称 */
+  network: string;
+
+  /** Token 地址 */
+  asset: string;
+
+  /** 付款人地址，退款的接收方 */
+  payer: string;
+
+  /** 实际结算金额（最小单位） */
+  amount: string;
+
+  /** 结算时间（ISO 8601） */
+  settledAt: string;
+}
+
+/**
+ * 退款记录
+ */
+export interface RefundRecord {
+  /** 退款 id */
+  refundId: string;
+
+  /** 被退款的支付 id */
+  paymentId: string;
+
+  /** 退款金额（最小单位） */
+  amount: string;
+
+  /** 退款原因 */
+  reason: string;
+
+  /** 退款状态 */
+  status: RefundStatus;
+
+  /** 退款交易哈希（sent 之后存在） */
+  txHash?: string;
+
+  /** 失败原因（failed 时存在） */
+  error?: string;
+
+  /** 创建时间（ISO 8601） */
+  createdAt: string;
+
+  /** 最后更新时间（ISO 8601） */
+  updatedAt: string;
+}
+
+/**
+ * 退款存储接口
+ *
+ * 记录已结算的支付和每笔退款的状态，多实例部署时应使用共享存储
+ */
+export interface RefundStore {
+  /**
+   * 保存已结算的支付
+   *
+   * @param payment - 支付记录
+   */
+  savePayment(payment: SettledPaymentRecord): Promise<void>;
+
+  /**
+   * 按支付 id 或结算交易哈希查找支付
+   *
+   * @param query - 查询条件
+   * @param query.paymentId - 支付 id
+   * @param query.txHash - 结算交易哈希
+   * @returns 支付记录，不存在时返回 undefined
+   */
+  getPayment(query: {
+    paymentId?: string;
+    txHash?: string;
+  }): Promise<SettledPaymentRecord | undefined>;
+
+  /**
+   * 保存新的退款记录
+   *
+   * @param refund - 退款记录
+   */
+  createRefund(refund: RefundRecord): Promise<void>;
+
+  /**
+   * 更新退款状态
+   *
+   * @param refundId - 退款 id
+   * @param update - 要更新的字段
+   */
+  updateRefund(
+    refundId: string,
+    update: Pick<RefundRecord, "status" | "updatedAt"> &
+      Partial<Pick<RefundRecord, "txHash" | "error">>,
+  ): Promise<void>;
+
+  /**
+   * 列出支付的所有退款
+   *
+   * @param paymentId - 支付 id
+   * @returns 按创建时间排序的退款记录
+   */
+  listRefunds(paymentId: string): Promise<RefundRecord[]>;
+}
+
+/**
+ * 退款配置
+ */
+export interface RefundConfig {
+  /** 发送退款的钱包，需持有对应 token；按网络提供时以网络名称为 key */
+  wallet:
+    | WalletClient<Transport, Chain, Account>
+    | Record<string, WalletClient<Transport, Chain, Account>>;
+
+  /** 退款存储，默认 MemoryRefundStore */
+  store?: RefundStore;
+
+  /**
+   * refund() 返回的时机
+   * - "confirmed": 等待交易确认（默认）
+   * - "sent": 交易广播后立即返回，确认结果在后台更新并发出事件
+   */
+  waitUntil?: "sent" | "confirmed";
+
+  /** 等待的确认数，默认 1 */
+  confirmations?: number;
+}
+
+/**
+ * refund() 参数，txHash 与 paymentId 至少提供一个
+ */
+export interface RefundOptions {
+  /** 结算交易哈希 */
+  txHash?: string;
+
+  /** 支付 id（见 getPaymentKey） */
+  paymentId?: string;
+
+  /** 退款金额（最小单位），默认退还剩余全部金额 */
+  amount?: string;
+
+  /** 退款原因 */
+  reason: string;
+}
+
+/**
+ * refund() 结果
+ */
+export type RefundResult =
+  | { success: true; refund: RefundRecord }
+  | { success: false; error: string; refund?: RefundRecord };
@@ -1,4 +1,10 @@
-import { NetworkSchema, PaymentPayloadSchema, PaymentRequirementsSchema } from "x402x/types";
+import {
+  NetworkSchema,
+  PaymentPayloadSchema,
+  PaymentRequirementsSchema,
+  SettlementBreakdownSchema,
+  WaitUntilSchema,
+} from "x402x/types";
 import { z } from "zod";
 
 /**
@@ -6,6 +12,21 @@ import { z } from "zod";
  */
 const EthAddressRegex = /^0x[a-fA-F0-9]{40}$/;
 
+/**
+ * Solana 地址正则（Base58）
+ */
+const SvmAddressRegex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * EVM 或 Solana 地址
+ */
+const AddressSchema = z
+  .string()
+  .refine(
+    value => EthAddressRegex.test(value) || SvmAddressRegex.test(value),
+    "Invalid EVM or Solana address",
+  );
+
 /**
  * 整数字符串验证
  *
@@ -32,14 +53,14 @@ const isIntegerString = (value: string) => {
  */
 export const CreateRequirementsConfigSchema = z.object({
   // 必填
-  asset: z.string().regex(EthAddressRegex, "Invalid token address"),
+  asset: AddressSchema,
   maxAmountRequired: z
     .string()
     .refine(isIntegerString, "Amount must be a non-negative integer string"),
 
-  // 可选 - 网络和 scheme
+  // 可选 - 网络和 scheme（"upto": 按最大金额授权，结算实际用量）
   network: NetworkSchema.optional(),
-  scheme: z.literal("exact").optional(),
+  scheme: z.enum(["exact", "upto"]).optional(),
   outputSchema: z.record(z.any()).optional(),
 
   // 可选 - 额外信息
@@ -60,6 +81,28 @@ export const CreateRequirementsConfigSchema = z.object({
 
 export type CreateRequirementsConfig = z.infer<typeof CreateRequirementsConfigSchema>;
 
+/**
+ * RequirementsOffer Schema
+ *
+ * 多资产、多网络报价中的单个选项，用于 createRequirementsSet
+ *
+ * @example
+ * ```typescript
+ * const offers = [
+ *   { network: "base", asset: USDC_BASE, amount: "1000000" },
+ *   { network: "bsc", asset: USD1_BSC, amount: "1000000000000000000" },
+ * ];
+ * ```
+ */
+export const RequirementsOfferSchema = z.object({
+  network: NetworkSchema,
+  asset: AddressSchema,
+  amount: z.string().refine(isIntegerString, "Amount must be a non-negative integer string"),
+  paymentType: z.enum(["permit", "eip3009", "permit2", "auto"]).optional(),
+});
+
+export type RequirementsOffer = z.infer<typeof RequirementsOfferSchema>;
+
 /**
  * PaymentRequirements Schema
  *
@@ -139,12 +182,31 @@ export type Response402 = z.infer<typeof Response402Schema>;
  * InitResult Schema
  */
 export const InitResultSchema = z.discriminatedUnion("success", [
-  z.object({ success: z.literal(true) }),
+  z.object({
+    success: z.literal(true),
+    // 收款地址为 EIP-7702 卖家钱包时，每笔支付收取的手续费配置
+    sellerWallet: z
+      .object({
+        beneficiary: z.string(),
+        feeRecipient: z.string(),
+        feeBps: z.number(),
+        basisPoints: z.number(),
+      })
+      .optional(),
+  }),
   z.object({ success: z.literal(false), error: z.string() }),
 ]);
 
 export type InitResult = z.infer<typeof InitResultSchema>;
 
+/**
+ * 结算状态
+ * WaitUntil 表示结算进度，"not_charged" 表示 upto 用量为 0，没有上链也没有扣款
+ */
+export const SettleStatusSchema = z.union([WaitUntilSchema, z.literal("not_charged")]);
+
+export type SettleStatus = z.infer<typeof SettleStatusSchema>;
+
 /**
  * ProcessResult Schema
  */
@@ -153,8 +215,11 @@ export const ProcessResultSchema = z.discriminatedUnion("status", [
     success: z.literal(true),
     status: z.literal(200),
     data: z.object({
-      payer: z.string().regex(EthAddressRegex),
+      payer: AddressSchema,
       txHash: z.string(),
+      network: z.string(),
+      // 结算进度：simulated 时只是演练，not_charged 时用量为 0，都没有扣款
+      status: SettleStatusSchema.optional(),
     }),
   }),
   z.object({
@@ -194,11 +259,35 @@ export const ParseResultSchema = z.discriminatedUnion("success", [
 
 export type ParseResult = z.infer<typeof ParseResultSchema>;
 
+/**
+ * AuthorizeResult Schema
+ *
+ * 延迟结算模式下 parse → verify 的结果，验证通过的支付会原样返回供之后结算
+ */
+export const AuthorizeResultSchema = z.discriminatedUnion("success", [
+  z.object({
+    success: z.literal(true),
+    status: z.literal(200),
+    data: z.object({
+      payer: AddressSchema,
+      payment: ParsedPaymentSchema,
+    }),
+  }),
+  z.object({
+    success: z.literal(false),
+    status: z.literal(402),
+    errorStage: z.enum(["parse", "verify"]),
+    response: Response402Schema,
+  }),
+]);
+
+export type AuthorizeResult = z.infer<typeof AuthorizeResultSchema>;
+
 /**
  * VerifyResult Schema
  */
 export const VerifyResultSchema = z.discriminatedUnion("success", [
-  z.object({ success: z.literal(true), payer: z.string().regex(EthAddressRegex) }),
+  z.object({ success: z.literal(true), payer: AddressSchema }),
   z.object({ success: z.literal(false), error: z.string() }),
 ]);
 
@@ -212,6 +301,10 @@ export const SettleResultSchema = z.discriminatedUnion("success", [
     success: z.literal(true),
     txHash: z.string(),
     network: z.string(),
+    // 结算金额明细（gross / fee / net），facilitator 未返回时不存在
+    breakdown: SettlementBreakdownSchema.optional(),
+    // 结算进度：simulated / not_charged 时 txHash 为空，submitted 时交易尚未确认、不含 breakdown
+    status: SettleStatusSchema.optional(),
   }),
   z.object({
     success: z.literal(false),
@@ -220,3 +313,17 @@ export const SettleResultSchema = z.discriminatedUnion("success", [
 ]);
 
 export type SettleResult = z.infer<typeof SettleResultSchema>;
+
+/**
+ * PaymentResponse Schema
+ *
+ * X-PAYMENT-RESPONSE header 中的结算回执（Base64 编码的 JSON）
+ */
+export const PaymentResponseSchema = z.object({
+  success: z.boolean(),
+  transaction: z.string(),
+  network: z.string(),
+  payer: z.string(),
+});
+
+export type PaymentResponse = z.infer<typeof PaymentResponseSchema>;
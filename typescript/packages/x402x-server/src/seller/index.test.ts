@@ -0,0 +1,122 @@
+/**
+ * EIP-7702 卖家钱包测试
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { decodeFunctionData } from "viem";
+import type { PublicClient } from "viem";
+import { evm } from "x402x/types";
+import { SellerWallet } from "./index";
+
+const SELLER = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const TREASURY = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+const FEE_RECIPIENT = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const IMPLEMENTATION = "0x1234567890123456789012345678901234567890";
+
+/**
+ * 创建模拟的 PublicClient
+ *
+ * @param code - 卖家钱包地址上的代码
+ * @returns PublicClient
+ */
+const createClient = (code?: string) =>
+  ({
+    readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case "getConfig":
+          return [TREASURY, true];
+        case "getEffectiveConfig":
+          return [TREASURY, FEE_RECIPIENT, 30n];
+        case "BASIS_POINTS":
+          return 10000n;
+      }
+    }),
+    getCode: vi.fn().mockResolvedValue(code),
+  }) as unknown as PublicClient;
+
+/**
+ * 创建模拟的所有者 WalletClient
+ *
+ * @param address - 账户地址
+ * @returns WalletClient
+ */
+const createWalletClient = (address = SELLER) => ({
+  account: { address },
+  chain: { id: 8453 },
+  signAuthorization: vi.fn().mockResolvedValue({ address: IMPLEMENTATION, chainId: 8453 }),
+  sendTransaction: vi.fn().mockResolvedValue(`0x${"a".repeat(64)}`),
+});
+
+describe("SellerWallet", () => {
+  it("should read the config and the effective fee", async () => {
+    const seller = new SellerWallet({ address: SELLER, client: createClient() });
+
+    expect(await seller.getConfig()).toEqual({ beneficiary: TREASURY, initialized: true });
+    expect(await seller.getEffectiveConfig()).toEqual({
+      beneficiary: TREASURY,
+      feeRecipient: FEE_RECIPIENT,
+      feeBps: 30,
+      basisPoints: 10000,
+    });
+    expect(await seller.getFee("1000000")).toEqual({ gross: 1000000n, fee: 3000n, net: 997000n });
+  });
+
+  it("should prepare and send updateConfig from the owner", async () => {
+    const walletClient = createWalletClient();
+    const seller = new SellerWallet({
+      address: SELLER,
+      client: createClient(),
+      walletClient: walletClient as never,
+    });
+
+    const prepared = seller.prepareUpdateConfig(TREASURY);
+    await seller.updateConfig(TREASURY);
+
+    expect(prepared.to).toBe(SELLER);
+    expect(
+      decodeFunctionData({ abi: evm.EIP7702SellerWalletMinimalAbi, data: prepared.data }),
+    ).toEqual({ functionName: "updateConfig", args: [TREASURY] });
+    expect(walletClient.sendTransaction).toHaveBeenCalledWith(expect.objectContaining(prepared));
+  });
+
+  it("should reject transactions from a wallet that is not the owner", async () => {
+    const seller = new SellerWallet({
+      address: SELLER,
+      client: createClient(),
+      walletClient: createWalletClient(TREASURY) as never,
+    });
+
+    await expect(seller.updateConfig(TREASURY)).rejects.toThrow("seller wallet owner");
+    await expect(
+      new SellerWallet({ address: SELLER, client: createClient() }).delegate(IMPLEMENTATION),
+    ).rejects.toThrow("walletClient is required");
+  });
+
+  it("should delegate with an EIP-7702 authorization and verify it", async () => {
+    const walletClient = createWalletClient();
+    const delegated = `0xef0100${IMPLEMENTATION.slice(2)}`;
+    const seller = new SellerWallet({
+      address: SELLER,
+      client: createClient(delegated),
+      walletClient: walletClient as never,
+    });
+
+    await seller.delegate(IMPLEMENTATION, { beneficiary: TREASURY });
+
+    expect(walletClient.signAuthorization).toHaveBeenCalledWith(
+      expect.objectContaining({ contractAddress: IMPLEMENTATION, executor: "self" }),
+    );
+    expect(walletClient.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: SELLER,
+        authorizationList: [{ address: IMPLEMENTATION, chainId: 8453 }],
+        data: seller.prepareUpdateConfig(TREASURY).data,
+      }),
+    );
+    expect(await seller.isDelegatedTo(IMPLEMENTATION)).toBe(true);
+    expect(await seller.isDelegatedTo(TREASURY)).toBe(false);
+    expect(
+      await new SellerWallet({ address: SELLER, client: createClient("0x") }).getDelegation(),
+    ).toBeNull();
+  });
+});
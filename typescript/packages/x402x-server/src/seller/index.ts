@@ -0,0 +1,11 @@
+/**
+ * EIP-7702 seller wallet configuration
+ */
+
+export { SellerWallet } from "./wallet";
+export type {
+  SellerWalletConfig,
+  SellerWalletEffectiveConfig,
+  SellerWalletFee,
+  SellerWalletOptions,
+} from "./wallet";
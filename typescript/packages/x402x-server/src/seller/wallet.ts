@@ -0,0 +1,264 @@
+import { encodeFunctionData, getAddress, isAddressEqual } from "viem";
+import type {
+  Account,
+  Address,
+  Chain,
+  Hash,
+  Hex,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from "viem";
+import { evm } from "x402x/types";
+
+/**
+ * EIP-7702 委托标识前缀：被委托 EOA 的代码为 0xef0100 ‖ 实现合约地址
+ */
+const DELEGATION_PREFIX = "0xef0100";
+
+/**
+ * 卖家钱包自身的配置（getConfig）
+ */
+export interface SellerWalletConfig {
+  /** 收款地址，未初始化时为零地址 */
+  beneficiary: Address;
+
+  /** 是否已调用过 updateConfig */
+  initialized: boolean;
+}
+
+/**
+ * 卖家钱包的生效配置（getEffectiveConfig）
+ *
+ * 手续费比例与接收地址由实现合约固定，所有委托到同一实现的钱包相同
+ */
+export interface SellerWalletEffectiveConfig {
+  /** 实际收款地址（未初始化时为钱包自身） */
+  beneficiary: Address;
+
+  /** 手续费接收地址 */
+  feeRecipient: Address;
+
+  /** 手续费比例（基点） */
+  feeBps: number;
+
+  /** 基点分母，通常为 10000 */
+  basisPoints: number;
+}
+
+/**
+ * 单笔支付的手续费拆分
+ */
+export interface SellerWalletFee {
+  /** 支付总金额（最小单位） */
+  gross: bigint;
+
+  /** 手续费（最小单位） */
+  fee: bigint;
+
+  /** 收款方到账金额（最小单位） */
+  net: bigint;
+}
+
+/**
+ * SellerWallet 配置选项
+ */
+export interface SellerWalletOptions {
+  /** 卖家钱包地址（委托到卖家钱包实现的 EOA） */
+  address: string;
+
+  /** 读取配置使用的 PublicClient */
+  client: PublicClient;
+
+  /** 可选：钱包所有者（即该 EOA 本身）的 WalletClient，发送交易时必填 */
+  walletClient?: WalletClient<Transport, Chain, Account>;
+}
+
+/**
+ * EIP-7702 卖家钱包
+ *
+ * 读取卖家钱包的配置和手续费，为所有者准备并发送 updateConfig 交易，
+ * 以及通过 EIP-7702 授权将 EOA 委托到卖家钱包实现并校验委托
+ *
+ * @example
+ * ```typescript
+ * const seller = new SellerWallet({ address: merchant.address, client, walletClient });
+ *
+ * // 委托到卖家钱包实现，同时设置收款地址
+ * if (!(await seller.isDelegatedTo(SELLER_WALLET_IMPLEMENTATION))) {
+ *   await seller.delegate(SELLER_WALLET_IMPLEMENTATION, { beneficiary: treasury });
+ * }
+ *
+ * const { feeBps, feeRecipient } = await seller.getEffectiveConfig();
+ * ```
+ */
+export class SellerWallet {
+  /** 卖家钱包地址 */
+  readonly address: Address;
+
+  private client: PublicClient;
+  private walletClient?: WalletClient<Transport, Chain, Account>;
+
+  /**
+   * 构造函数
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: SellerWalletOptions) {
+    this.address = getAddress(options.address);
+    this.client = options.client;
+    this.walletClient = options.walletClient;
+  }
+
+  /**
+   * 读取钱包自身的配置
+   *
+   * @returns 收款地址与是否已初始化
+   */
+  async getConfig(): Promise<SellerWalletConfig> {
+    const [beneficiary, initialized] = await this.client.readContract({
+      address: this.address,
+      abi: evm.EIP7702SellerWalletMinimalAbi,
+      functionName: "getConfig",
+    });
+    return { beneficiary, initialized };
+  }
+
+  /**
+   * 读取生效配置（收款地址、手续费接收地址和比例）
+   *
+   * @returns 生效配置
+   */
+  async getEffectiveConfig(): Promise<SellerWalletEffectiveConfig> {
+    const [[beneficiary, feeRecipient, feeBps], basisPoints] = await Promise.all([
+      this.client.readContract({
+        address: this.address,
+        abi: evm.EIP7702SellerWalletMinimalAbi,
+        functionName: "getEffectiveConfig",
+      }),
+      this.client.readContract({
+        address: this.address,
+        abi: evm.EIP7702SellerWalletMinimalAbi,
+        functionName: "BASIS_POINTS",
+      }),
+    ]);
+    return {
+      beneficiary,
+      feeRecipient,
+      feeBps: Number(feeBps),
+      basisPoints: Number(basisPoints),
+    };
+  }
+
+  /**
+   * 计算一笔支付的手续费拆分
+   *
+   * @param amount - 支付金额（最小单位）
+   * @returns 总金额、手续费与到账金额
+   */
+  async getFee(amount: bigint | string): Promise<SellerWalletFee> {
+    const { feeBps, basisPoints } = await this.getEffectiveConfig();
+    const gross = BigInt(amount);
+    const fee = (gross * BigInt(feeBps)) / BigInt(basisPoints);
+    return { gross, fee, net: gross - fee };
+  }
+
+  /**
+   * 准备 updateConfig 交易，由钱包所有者发送给钱包自身
+   *
+   * @param beneficiary - 新的收款地址
+   * @returns 交易的 to 与 data
+   */
+  prepareUpdateConfig(beneficiary: string): { to: Address; data: Hex } {
+    return {
+      to: this.address,
+      data: encodeFunctionData({
+        abi: evm.EIP7702SellerWalletMinimalAbi,
+        functionName: "updateConfig",
+        args: [getAddress(beneficiary)],
+      }),
+    };
+  }
+
+  /**
+   * 发送 updateConfig 交易
+   *
+   * @param beneficiary - 新的收款地址
+   * @returns 交易哈希
+   */
+  async updateConfig(beneficiary: string): Promise<Hash> {
+    const walletClient = this.getOwnerWalletClient();
+    return walletClient.sendTransaction({
+      ...this.prepareUpdateConfig(beneficiary),
+      account: walletClient.account,
+      chain: walletClient.chain,
+    });
+  }
+
+  /**
+   * 读取钱包当前委托的实现合约
+   *
+   * @returns 实现合约地址，未委托时返回 null
+   */
+  async getDelegation(): Promise<Address | null> {
+    const code = await this.client.getCode({ address: this.address });
+    if (!code || !code.toLowerCase().startsWith(DELEGATION_PREFIX) || code.length !== 48) {
+      return null;
+    }
+    return getAddress(`0x${code.slice(DELEGATION_PREFIX.length)}`);
+  }
+
+  /**
+   * 校验钱包是否已委托到指定实现
+   *
+   * @param implementation - 卖家钱包实现合约地址
+   * @returns 是否已委托
+   */
+  async isDelegatedTo(implementation: string): Promise<boolean> {
+    const delegation = await this.getDelegation();
+    return delegation !== null && isAddressEqual(delegation, getAddress(implementation));
+  }
+
+  /**
+   * 通过 EIP-7702 授权将钱包委托到卖家钱包实现
+   *
+   * 所有者签署授权并在同一笔交易中执行（executor: "self"），
+   * 提供 beneficiary 时在委托交易中同时调用 updateConfig
+   *
+   * @param implementation - 卖家钱包实现合约地址
+   * @param options - 可选配置
+   * @param options.beneficiary - 收款地址
+   * @returns 交易哈希
+   */
+  async delegate(implementation: string, options: { beneficiary?: string } = {}): Promise<Hash> {
+    const walletClient = this.getOwnerWalletClient();
+    const authorization = await walletClient.signAuthorization({
+      account: walletClient.account,
+      contractAddress: getAddress(implementation),
+      executor: "self",
+    });
+
+    return walletClient.sendTransaction({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      authorizationList: [authorization],
+      to: this.address,
+      data: options.beneficiary ? this.prepareUpdateConfig(options.beneficiary).data : "0x",
+    });
+  }
+
+  /**
+   * 获取钱包所有者的 WalletClient
+   *
+   * @returns WalletClient
+   */
+  private getOwnerWalletClient(): WalletClient<Transport, Chain, Account> {
+    if (!this.walletClient) {
+      throw new Error("walletClient is required to send seller wallet transactions");
+    }
+    if (!isAddressEqual(this.walletClient.account.address, this.address)) {
+      throw new Error("walletClient account must be the seller wallet owner");
+    }
+    return this.walletClient;
+  }
+}
@@ -1,6 +1,7 @@
-import type { PublicClient } from "viem";
+import { erc20Abi } from "viem";
+import type { Account, Chain, PublicClient, Transport, WalletClient } from "viem";
 import { TokenDetector, detectSettleMethods } from "x402x-detector";
-import { Facilitator } from "x402x-facilitator";
+import { Facilitator, isSvmNetwork } from "x402x-facilitator";
 import type {
   X402ServerConfig,
   PaymentRequirements,
@@ -12,16 +13,37 @@ import type {
   VerifyResult,
   SettleResult,
   ParsedPayment,
+  AuthorizeResult,
+  SettlementMode,
 } from "./types";
-import { CreateRequirementsConfigSchema } from "./schemas";
-import type { CreateRequirementsConfig } from "./schemas";
+import { CreateRequirementsConfigSchema, RequirementsOfferSchema } from "./schemas";
+import type { CreateRequirementsConfig, RequirementsOffer } from "./schemas";
 import { decodeBase64 } from "./utils";
+import { MemoryPaymentStore, getPaymentExpiry, getPaymentKey } from "./stores";
+import type { PaymentStore } from "./stores";
+import { PaymentEventEmitter, getPaymentEventContext } from "./events";
+import type { PaymentEventMap, PaymentEventType } from "./events";
+import { MemoryRefundStore } from "./refunds";
+import { SellerWallet } from "./seller";
+import type {
+  RefundConfig,
+  RefundOptions,
+  RefundRecord,
+  RefundResult,
+  RefundStore,
+  SettledPaymentRecord,
+} from "./refunds";
 import {
+  ChainIdToNetwork,
+  EvmNetworkToChainId,
   NetworkName,
   NetworkSchema,
   PaymentPayloadSchema,
   PaymentRequirementsSchema,
 } from "x402x/types";
+import { svm } from "x402x/shared";
+import { decodeSettlementBreakdown } from "x402x/shared/evm";
+import type { WaitUntil, X402Config } from "x402x/types";
 import z from "zod";
 /**
  * X402 Server
@@ -53,13 +75,32 @@ import z from "zod";
  *
  * // 5. 处理支付
  * const result = await server.process(paymentHeader, requirements);
+ *
+ * // 6. 可选：订阅支付事件
+ * server.events.on("payment.settled", event => console.log(event.payer, event.txHash));
+ *
+ * // 7. 可选：配置 refund 后退款
+ * await server.refund({ txHash, amount: "500", reason: "partial_delivery" });
  * ```
  */
 export class X402Server {
+  /** 支付生命周期事件 */
+  readonly events = new PaymentEventEmitter();
+
   private client: PublicClient;
   private detector: TokenDetector;
+  private clients: Record<string, PublicClient>;
+  private detectors = new Map<string, TokenDetector>();
+  private detectorCache?: X402ServerConfig["detectorCache"];
+  private x402Config?: X402Config;
+  private mintDecimals = new Map<string, number>();
+  private paymentStore: PaymentStore | null;
   private facilitator: Facilitator;
   private network: string | null = null;
+  private settlementMode: SettlementMode;
+  private refundConfig?: RefundConfig;
+  private refundStore: RefundStore | null;
+  private refundLocks = new Map<string, Promise<unknown>>();
 
   /**
    * 构造函数
@@ -78,15 +119,40 @@ export class X402Server {
     this.facilitator = config.facilitator;
 
     // 初始化 detector (禁用日志)
-    this.detector = new TokenDetector(config.client, { logger: null });
+    this.detectorCache = config.detectorCache;
+    this.detector = new TokenDetector(config.client, { ...this.detectorCache, logger: null });
 
     // 保存网络配置
     this.network = config.network || null;
+
+    // 多网络 client（detector 按需创建）
+    this.clients = config.clients || {};
+
+    // Solana RPC 配置
+    this.x402Config = config.x402Config;
+
+    // 防重放存储
+    this.paymentStore =
+      config.paymentStore === undefined ? new MemoryPaymentStore() : config.paymentStore;
+
+    // 保存结算模式
+    this.settlementMode = config.settlementMode || "immediate";
+
+    // 退款配置
+    this.refundConfig = config.refund;
+    this.refundStore = config.refund ? config.refund.store || new MemoryRefundStore() : null;
+
+    // 审计日志
+    if (config.auditLog) {
+      this.events.pipe(config.auditLog);
+    }
   }
 
   /**
    * 可选的初始化 - 预热缓存
    *
+   * 同时读取收款地址（EIP-7702 卖家钱包）的生效配置，返回每笔支付将被收取的手续费
+   *
    * @param tokens - 要预热的 token 地址列表
    * @returns 初始化结果
    */
@@ -104,7 +170,15 @@ export class X402Server {
         throw new Error("Facilitator does not support settle methods");
       }
       await this.detector.initialize(tokens);
-      return { success: true };
+
+      const sellerWallet = await new SellerWallet({
+        address: this.facilitator.recipientAddress,
+        client: this.client,
+      })
+        .getEffectiveConfig()
+        .catch(() => undefined);
+
+      return { success: true, ...(sellerWallet && { sellerWallet }) };
     } catch (error) {
       return {
         success: false,
@@ -126,20 +200,34 @@ export class X402Server {
     // 获取网络名称
     const network = validatedConfig.network || this.network || (await this.getNetworkName());
 
+    // Solana 网络使用 SPL mint 信息，不经过 TokenDetector
+    if (isSvmNetwork(network)) {
+      return this.createSvmRequirements(validatedConfig, network);
+    }
+
     // 确定支付类型和 token 信息
     let paymentType: "permit" | "eip3009" | "permit2" | undefined;
     let tokenName: string | undefined;
     let tokenVersion: string | undefined;
+    // 要求 receiveWithAuthorization：只有收款方可以提交，签名的支付不会被抢先提交
+    const receiveWithAuthorization = validatedConfig.extra?.receiveWithAuthorization === true;
 
     if (validatedConfig.autoDetect !== false) {
       // 自动检测模式（默认）
-      const result = await this.detector.detect(validatedConfig.asset);
+      const detector = await this.getDetectorForNetwork(network);
+      const result = await detector.detect(validatedConfig.asset);
+
+      if (receiveWithAuthorization && !result.details.hasReceiveWithAuthorization) {
+        throw new Error(`Token ${validatedConfig.asset} does not support receiveWithAuthorization`);
+      }
 
       // 确定支付类型
       if (validatedConfig.paymentType && validatedConfig.paymentType !== "auto") {
         paymentType = validatedConfig.paymentType;
+      } else if (receiveWithAuthorization) {
+        paymentType = "eip3009";
       } else {
-        const recommendedMethod = await this.detector.getRecommendedMethod(validatedConfig.asset);
+        const recommendedMethod = await detector.getRecommendedMethod(validatedConfig.asset);
         if (!recommendedMethod) {
           throw new Error(
             `Token ${validatedConfig.asset} does not support advanced payment methods`,
@@ -158,12 +246,29 @@ export class X402Server {
       paymentType = validatedConfig.paymentType;
     }
 
+    if (receiveWithAuthorization && paymentType !== "eip3009") {
+      throw new Error('receiveWithAuthorization requires paymentType "eip3009"');
+    }
+
+    // upto 授权给 facilitator，只能使用 permit / permit2
+    const scheme = validatedConfig.scheme || "exact";
+    let spender: string | undefined;
+    if (scheme === "upto") {
+      if (paymentType === "eip3009") {
+        throw new Error('The upto scheme requires paymentType "permit" or "permit2"');
+      }
+      spender = validatedConfig.extra?.spender ?? (await this.facilitator.getSpender(network));
+      if (!spender) {
+        throw new Error(`Facilitator does not provide an upto spender for network '${network}'`);
+      }
+    }
+
     // 验证 facilitator 是否支持该 paymentType、网络和资产地址的组合
     await this.validateFacilitatorSupport(network, paymentType, validatedConfig.asset);
 
     // 构建支付要求（未验证的对象）
     const requirements: PaymentRequirements = {
-      scheme: validatedConfig.scheme || "exact",
+      scheme,
       network: network as z.infer<typeof NetworkSchema>,
       maxAmountRequired: validatedConfig.maxAmountRequired,
       payTo: this.facilitator.recipientAddress,
@@ -178,6 +283,7 @@ export class X402Server {
         ...(validatedConfig.extra || {}),
         ...(tokenName && { name: tokenName }),
         ...(tokenVersion && { version: tokenVersion }),
+        ...(spender && { spender }),
       },
     };
 
@@ -185,21 +291,86 @@ export class X402Server {
     return PaymentRequirementsSchema.parse(requirements);
   }
 
+  /**
+   * 为多资产、多网络报价创建完整的 accepts 列表
+   *
+   * @param offers - 报价列表，每项包含 network、asset、amount
+   * @param config - 所有报价共享的配置（resource、description 等）
+   * @returns 支付要求列表，可直接传给 process / get402Response
+   *
+   * @example
+   * ```typescript
+   * const accepts = await server.createRequirementsSet(
+   *   [
+   *     { network: "base", asset: USDC_BASE, amount: "1000000" },
+   *     { network: "bsc", asset: USD1_BSC, amount: "1000000000000000000" },
+   *   ],
+   *   { description: "API access" },
+   * );
+   * const result = await server.process(paymentHeader, accepts);
+   * ```
+   */
+  async createRequirementsSet(
+    offers: RequirementsOffer[],
+    config: Partial<CreateRequirementsConfig> = {},
+  ): Promise<PaymentRequirements[]> {
+    const validatedOffers = z.array(RequirementsOfferSchema).min(1).parse(offers);
+
+    return Promise.all(
+      validatedOffers.map(offer =>
+        this.createRequirements({
+          ...config,
+          network: offer.network,
+          asset: offer.asset,
+          maxAmountRequired: offer.amount,
+          ...(offer.paymentType && { paymentType: offer.paymentType }),
+        }),
+      ),
+    );
+  }
+
   /**
    * 完整的支付处理流程
    * parse → verify → settle 一步到位
    *
    * @param paymentHeader - X-PAYMENT header 的值 (Base64)
-   * @param expectedRequirements - 期望的支付要求
+   * @param expectedRequirements - 期望的支付要求（多个报价时按 payload 的 network/asset 匹配）
    * @returns 处理结果
    */
   async process(
     paymentHeader: string | undefined,
-    expectedRequirements: PaymentRequirements,
+    expectedRequirements: PaymentRequirements | PaymentRequirements[],
   ): Promise<ProcessResult> {
+    // 1. 解析 + 验证
+    const authorized = await this.authorize(paymentHeader, expectedRequirements);
+    if (!authorized.success) {
+      return authorized;
+    }
+
+    // 2. 结算
+    return this.finalize(authorized.data.payment, authorized.data.payer);
+  }
+
+  /**
+   * 授权支付（延迟结算的第一步）
+   * 只执行 parse → verify，不上链结算
+   *
+   * @param paymentHeader - X-PAYMENT header 的值 (Base64)
+   * @param expectedRequirements - 期望的支付要求（多个报价时按 payload 的 network/asset 匹配）
+   * @returns 授权结果，成功时包含之后用于结算的 payment
+   */
+  async authorize(
+    paymentHeader: string | undefined,
+    expectedRequirements: PaymentRequirements | PaymentRequirements[],
+  ): Promise<AuthorizeResult> {
     // 1. 解析
+    let startedAt = Date.now();
     const parsed = this.parse(paymentHeader, expectedRequirements);
     if (!parsed.success) {
+      this.emit("payment.rejected", startedAt, {
+        stage: "parse",
+        error: parsed.response402.error || "parse_failed",
+      });
       return {
         success: false,
         status: 402,
@@ -210,10 +381,18 @@ export class X402Server {
         },
       };
     }
+    const context = getPaymentEventContext(parsed.data);
+    this.emit("payment.parsed", startedAt, context);
 
     // 2. 验证
+    startedAt = Date.now();
     const verified = await this.verify(parsed.data);
     if (!verified.success) {
+      this.emit("payment.rejected", startedAt, {
+        ...context,
+        stage: "verify",
+        error: verified.error,
+      });
       return {
         success: false,
         status: 402,
@@ -222,37 +401,254 @@ export class X402Server {
       };
     }
 
-    // 3. 结算
-    const settled = await this.settle(parsed.data);
+    // 3. 占用支付 key，拒绝重复使用的支付
+    const reserved = await this.reserve(parsed.data);
+    if (!reserved.success) {
+      this.emit("payment.rejected", startedAt, {
+        ...context,
+        payer: verified.payer,
+        stage: "verify",
+        error: reserved.error,
+      });
+      return {
+        success: false,
+        status: 402,
+        errorStage: "verify",
+        response: this.get402Response(expectedRequirements, reserved.error, "verify"),
+      };
+    }
+    this.emit("payment.verified", startedAt, { ...context, payer: verified.payer });
+
+    return {
+      success: true,
+      status: 200,
+      data: {
+        payer: verified.payer,
+        payment: parsed.data,
+      },
+    };
+  }
+
+  /**
+   * 完成支付（延迟结算的第二步）
+   * 对已授权的支付执行 settle
+   *
+   * @param payment - authorize 返回的支付数据
+   * @param payer - authorize 返回的付款人地址
+   * @param amount - 可选，"upto" scheme 的实际结算金额，默认 maxAmountRequired
+   * @param waitUntil - 可选的等待策略，覆盖 facilitator 配置中的默认值；
+   * "submitted" 时交易确认后发出 payment.confirmed / payment.confirmation_failed 事件；
+   * "simulated" 视为演练：释放支付 key，不发出 payment.settled，不记录可退款的支付；
+   * upto 用量为 0 时返回 status "not_charged"，同样不发出 payment.settled，不记录可退款的支付
+   * @returns 处理结果
+   */
+  async finalize(
+    payment: ParsedPayment,
+    payer: string,
+    amount?: string,
+    waitUntil?: WaitUntil,
+  ): Promise<ProcessResult> {
+    const startedAt = Date.now();
+    const settled = await this.settle(payment, amount, waitUntil);
+    const context = {
+      ...getPaymentEventContext(payment),
+      payer,
+      amount: amount ?? payment.requirements.maxAmountRequired,
+    };
     if (!settled.success) {
+      this.emit("payment.settle_failed", startedAt, { ...context, error: settled.error });
+
+      // 授权未上链，释放 key 以便客户端重试
+      await this.release(payment);
+
       // 结算失败返回 500（服务端错误）
       return {
         success: false,
         status: 500,
         errorStage: "settle",
-        response: this.get402Response(expectedRequirements, settled.error, "settle"),
+        response: this.get402Response(payment.requirements, settled.error, "settle"),
         error: settled.error,
       };
     }
 
+    // 仅模拟，没有上链：释放 key，支付可以之后真正结算
+    if (settled.status === "simulated") {
+      await this.release(payment);
+      return {
+        success: true,
+        status: 200,
+        data: { payer, txHash: settled.txHash, network: settled.network, status: "simulated" },
+      };
+    }
+
+    // upto 用量为 0，没有扣款
+    if (settled.status === "not_charged") {
+      return {
+        success: true,
+        status: 200,
+        data: { payer, txHash: "", network: settled.network, status: "not_charged" },
+      };
+    }
+
+    this.emit("payment.settled", startedAt, {
+      ...context,
+      network: settled.network,
+      txHash: settled.txHash,
+      ...(settled.status && { status: settled.status }),
+    });
+
+    if (settled.status === "submitted") {
+      this.confirmSettlement(payment, settled.txHash as `0x${string}`, {
+        ...context,
+        network: settled.network,
+      }).catch(error => console.warn("Failed to confirm settlement:", error));
+    }
+
+    await this.recordSettledPayment(payment, {
+      txHash: settled.txHash,
+      network: settled.network,
+      payer,
+      amount: context.amount,
+    });
+
     return {
       success: true,
       status: 200,
       data: {
-        payer: verified.payer,
+        payer,
         txHash: settled.txHash,
+        network: settled.network,
+        ...(settled.status && { status: settled.status }),
       },
     };
   }
 
+  /**
+   * 释放已授权但不会结算的支付（例如延迟结算时 handler 返回非 2xx）
+   *
+   * @param payment - authorize 返回的支付数据
+   */
+  async release(payment: ParsedPayment): Promise<void> {
+    if (!this.paymentStore) {
+      return;
+    }
+
+    try {
+      await this.paymentStore.release(getPaymentKey(payment));
+    } catch (error) {
+      console.warn("Failed to release payment:", error);
+    }
+  }
+
+  /**
+   * 退款已结算的支付
+   *
+   * 从配置的钱包向付款人发送 ERC20 transfer，支持部分退款和多次退款，
+   * 累计退款金额不超过实际结算金额。退款状态依次为 pending → sent → confirmed，
+   * 发送失败或交易回滚时为 failed，并发出对应的 refund.* 事件
+   *
+   * 仅支持 EVM 网络，且只能退款配置 refund 之后结算的支付
+   *
+   * @param options - 退款参数
+   * @returns 退款结果
+   *
+   * @example
+   * ```typescript
+   * // 全额退款
+   * await server.refund({ txHash, reason: "service_unavailable" });
+   *
+   * // 部分退款
+   * await server.refund({ txHash, amount: "500", reason: "partial_delivery" });
+   * ```
+   */
+  async refund(options: RefundOptions): Promise<RefundResult> {
+    const startedAt = Date.now();
+    if (!this.refundConfig || !this.refundStore) {
+      return { success: false, error: "refunds_not_configured" };
+    }
+    if (!options.paymentId && !options.txHash) {
+      return { success: false, error: "payment_not_found" };
+    }
+
+    const payment = await this.refundStore.getPayment({
+      paymentId: options.paymentId,
+      txHash: options.txHash,
+    });
+    if (!payment) {
+      return { success: false, error: "payment_not_found" };
+    }
+
+    const wallet = this.getRefundWallet(payment.network);
+    if (!wallet) {
+      return {
+        success: false,
+        error: EvmNetworkToChainId.has(payment.network as NetworkName)
+          ? "refund_wallet_not_configured"
+          : "unsupported_network",
+      };
+    }
+
+    // 同一支付的退款串行创建，避免并发退款超出结算金额
+    const created = await this.withRefundLock(payment.paymentId, () =>
+      this.createRefund(payment, options),
+    );
+    if (!created.success) {
+      return created;
+    }
+
+    const { refund, partial } = created;
+    const store = this.refundStore;
+    const context = {
+      payer: payment.payer,
+      amount: refund.amount,
+      asset: payment.asset,
+      network: payment.network,
+      paymentId: payment.paymentId,
+      refundId: refund.refundId,
+      reason: refund.reason,
+      partial,
+    };
+    this.emit("refund.pending", startedAt, context);
+
+    let txHash: `0x${string}`;
+    try {
+      txHash = await wallet.writeContract({
+        address: payment.asset as `0x${string}`,
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [payment.payer as `0x${string}`, BigInt(refund.amount)],
+        account: wallet.account,
+        chain: wallet.chain,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "refund_transaction_failed";
+      const failed = await this.updateRefund(store, refund, { status: "failed", error: message });
+      this.emit("refund.failed", startedAt, { ...context, error: message });
+      return { success: false, error: message, refund: failed };
+    }
+
+    const sent = await this.updateRefund(store, refund, { status: "sent", txHash });
+    this.emit("refund.sent", startedAt, { ...context, txHash });
+
+    const confirmation = this.confirmRefund(store, sent, txHash, context, startedAt);
+    if (this.refundConfig.waitUntil === "sent") {
+      confirmation.catch(error => console.warn("Failed to confirm refund:", error));
+      return { success: true, refund: sent };
+    }
+    return confirmation;
+  }
+
   /**
    * 解析支付头
    *
    * @param paymentHeader - X-PAYMENT header 的值
-   * @param expectedRequirements - 期望的支付要求
+   * @param expectedRequirements - 期望的支付要求（多个报价时按 payload 的 network/asset 匹配）
    * @returns 解析结果
    */
-  parse(paymentHeader: string | undefined, expectedRequirements: PaymentRequirements): ParseResult {
+  parse(
+    paymentHeader: string | undefined,
+    expectedRequirements: PaymentRequirements | PaymentRequirements[],
+  ): ParseResult {
     // 检查是否提供了支付头
     if (!paymentHeader) {
       return {
@@ -281,11 +677,22 @@ export class X402Server {
       };
     }
 
+    // 匹配支付要求
+    const requirements = Array.isArray(expectedRequirements)
+      ? this.matchRequirements(payload, expectedRequirements)
+      : expectedRequirements;
+    if (!requirements) {
+      return {
+        success: false,
+        response402: this.get402Response(expectedRequirements, "no_matching_payment_requirements"),
+      };
+    }
+
     return {
       success: true,
       data: {
         payload,
-        requirements: expectedRequirements,
+        requirements,
       },
     };
   }
@@ -339,9 +746,42 @@ export class X402Server {
    * 结算支付
    *
    * @param parsed - 解析后的支付数据
+   * @param amount - 可选，"upto" scheme 的实际结算金额（不超过 maxAmountRequired），默认全额
+   * @param waitUntil - 可选的等待策略，覆盖 facilitator 配置中的默认值
+   * - "simulated": 仅模拟结算，不上链，txHash 为空
+   * - "submitted": 交易提交后立即返回
+   * - "confirmed": 等待链上确认
    * @returns 结算结果
    */
-  async settle(parsed: ParsedPayment): Promise<SettleResult> {
+  async settle(
+    parsed: ParsedPayment,
+    amount?: string,
+    waitUntil?: WaitUntil,
+  ): Promise<SettleResult> {
+    if (amount !== undefined) {
+      if (parsed.requirements.scheme !== "upto") {
+        return {
+          success: false,
+          error: "Settle amount is only supported for the upto scheme",
+        };
+      }
+      if (!/^\d+$/.test(amount) || BigInt(amount) > BigInt(parsed.requirements.maxAmountRequired)) {
+        return {
+          success: false,
+          error: "invalid_upto_settle_amount",
+        };
+      }
+      // 没有实际用量，无需上链
+      if (BigInt(amount) === 0n) {
+        return {
+          success: true,
+          txHash: "",
+          network: parsed.requirements.network,
+          status: "not_charged",
+        };
+      }
+    }
+
     try {
       // 调用 facilitator 结算
       const facilitatorPayload = {
@@ -352,6 +792,8 @@ export class X402Server {
       const result = await this.facilitator.settle(
         facilitatorPayload as Parameters<typeof this.facilitator.settle>[0],
         parsed.requirements as Parameters<typeof this.facilitator.settle>[1],
+        waitUntil,
+        amount,
       );
 
       if (!result.success) {
@@ -361,7 +803,8 @@ export class X402Server {
         };
       }
 
-      if (!result.transaction) {
+      // 仅模拟时没有交易
+      if (!result.transaction && result.status !== "simulated") {
         return {
           success: false,
           error: "Transaction hash not found in settlement result",
@@ -370,8 +813,10 @@ export class X402Server {
 
       return {
         success: true,
-        txHash: result.transaction,
+        txHash: result.transaction || "",
         network: result.network || parsed.requirements.network,
+        ...(result.breakdown && { breakdown: result.breakdown }),
+        ...(result.status && { status: result.status }),
       };
     } catch (error) {
       return {
@@ -390,13 +835,13 @@ export class X402Server {
    * @returns 402 响应对象
    */
   get402Response(
-    requirements: PaymentRequirements,
+    requirements: PaymentRequirements | PaymentRequirements[],
     error?: string,
     errorStage?: "parse" | "verify" | "settle",
   ): Response402 {
     return {
       x402Version: 1,
-      accepts: [requirements],
+      accepts: Array.isArray(requirements) ? requirements : [requirements],
       error,
       errorStage,
     };
@@ -409,6 +854,14 @@ export class X402Server {
    */
   async clearCache(token?: string): Promise<void> {
     await this.detector.clearCache(token);
+    for (const detector of this.detectors.values()) {
+      await detector.clearCache(token);
+    }
+    for (const key of this.mintDecimals.keys()) {
+      if (!token || key.endsWith(`:${token}`)) {
+        this.mintDecimals.delete(key);
+      }
+    }
   }
 
   /**
@@ -438,6 +891,15 @@ export class X402Server {
     return this.detector;
   }
 
+  /**
+   * 获取默认结算模式
+   *
+   * @returns 结算模式
+   */
+  getSettlementMode(): SettlementMode {
+    return this.settlementMode;
+  }
+
   /**
    * 获取 client 实例（供外部访问）
    *
@@ -447,6 +909,467 @@ export class X402Server {
     return this.client;
   }
 
+  /**
+   * 创建 Solana (SVM) 支付要求
+   * extra.feePayer 来自 facilitator 的 /supported，extra.decimals 来自 SPL mint
+   *
+   * @param config - 已验证的配置
+   * @param network - Solana 网络名称
+   * @returns 支付要求
+   */
+  private async createSvmRequirements(
+    config: CreateRequirementsConfig,
+    network: string,
+  ): Promise<PaymentRequirements> {
+    if (config.scheme === "upto") {
+      throw new Error(`The upto scheme is not supported on network '${network}'`);
+    }
+
+    const [feePayer, decimals] = await Promise.all([
+      this.facilitator.getFeePayer(network),
+      this.getMintDecimals(network, config.asset),
+    ]);
+    if (!feePayer) {
+      throw new Error(`Facilitator does not provide a feePayer for network '${network}'`);
+    }
+
+    const requirements: PaymentRequirements = {
+      scheme: config.scheme || "exact",
+      network: network as z.infer<typeof NetworkSchema>,
+      maxAmountRequired: config.maxAmountRequired,
+      payTo: this.facilitator.getRecipientAddress(network),
+      asset: config.asset,
+      maxTimeoutSeconds: config.maxTimeoutSeconds || 300,
+      resource: config.resource || "",
+      description: config.description || "",
+      mimeType: config.mimeType || "application/json",
+      outputSchema: config.outputSchema,
+      extra: {
+        ...(config.extra || {}),
+        feePayer,
+        decimals,
+      },
+    };
+
+    return PaymentRequirementsSchema.parse(requirements);
+  }
+
+  /**
+   * 查询 SPL mint 的精度（结果会缓存）
+   *
+   * @param network - Solana 网络名称
+   * @param mint - mint 地址
+   * @returns mint 精度
+   */
+  private async getMintDecimals(network: string, mint: string): Promise<number> {
+    const cacheKey = `${network}:${mint}`;
+    const cached = this.mintDecimals.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const rpc = svm.getRpcClient(
+      network as z.infer<typeof NetworkSchema>,
+      this.x402Config?.svmConfig?.rpcUrl,
+    );
+    const { value } = await rpc
+      .getTokenSupply(mint as Parameters<typeof rpc.getTokenSupply>[0])
+      .send();
+
+    this.mintDecimals.set(cacheKey, value.decimals);
+    return value.decimals;
+  }
+
+  /**
+   * 在支付存储中占用支付 key
+   *
+   * @param payment - 已验证的支付数据
+   * @returns 占用结果
+   */
+  private async reserve(
+    payment: ParsedPayment,
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    if (!this.paymentStore) {
+      return { success: true };
+    }
+
+    let key: string;
+    try {
+      key = getPaymentKey(payment);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "invalid_payload",
+      };
+    }
+
+    const reserved = await this.paymentStore.reserve(key, getPaymentExpiry(payment));
+    return reserved ? { success: true } : { success: false, error: "duplicate_payment" };
+  }
+
+  /**
+   * 记录结算成功的支付，供 refund() 查找
+   *
+   * @param payment - 已结算的支付数据
+   * @param settled - 结算结果
+   * @param settled.txHash - 结算交易哈希
+   * @param settled.network - 网络名称
+   * @param settled.payer - 付款人地址
+   * @param settled.amount - 实际结算金额
+   */
+  private async recordSettledPayment(
+    payment: ParsedPayment,
+    settled: { txHash: string; network: string; payer: string; amount: string },
+  ): Promise<void> {
+    // upto 实际金额为 0 时没有交易，无需记录
+    if (!this.refundStore || !settled.txHash) {
+      return;
+    }
+
+    let paymentId: string;
+    try {
+      paymentId = getPaymentKey(payment);
+    } catch {
+      paymentId = settled.txHash;
+    }
+
+    try {
+      await this.refundStore.savePayment({
+        paymentId,
+        txHash: settled.txHash,
+        network: settled.network,
+        asset: payment.requirements.asset,
+        payer: settled.payer,
+        amount: settled.amount,
+        settledAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn("Failed to record settled payment:", error);
+    }
+  }
+
+  /**
+   * 获取发送退款的钱包，钱包的链需与支付网络一致
+   *
+   * @param network - 网络名称
+   * @returns 钱包，未配置或链不匹配时返回 undefined
+   */
+  private getRefundWallet(network: string): WalletClient<Transport, Chain, Account> | undefined {
+    const chainId = EvmNetworkToChainId.get(network as NetworkName);
+    const configured = this.refundConfig?.wallet;
+    if (!chainId || !configured) {
+      return undefined;
+    }
+
+    const wallet =
+      "writeContract" in configured
+        ? (configured as WalletClient<Transport, Chain, Account>)
+        : configured[network];
+    return wallet?.chain.id === chainId ? wallet : undefined;
+  }
+
+  /**
+   * 串行执行同一支付的退款操作
+   *
+   * @param paymentId - 支付 id
+   * @param task - 要执行的操作
+   * @returns 操作结果
+   */
+  private async withRefundLock<T>(paymentId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.refundLocks.get(paymentId) ?? Promise.resolve();
+    const current = previous.then(task);
+    const tail = current.catch(() => undefined);
+    this.refundLocks.set(paymentId, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (this.refundLocks.get(paymentId) === tail) {
+        this.refundLocks.delete(paymentId);
+      }
+    }
+  }
+
+  /**
+   * 校验退款金额并创建 pending 退款记录
+   *
+   * @param payment - 已结算的支付
+   * @param options - 退款参数
+   * @returns 退款记录及是否为部分退款
+   */
+  private async createRefund(
+    payment: SettledPaymentRecord,
+    options: RefundOptions,
+  ): Promise<
+    { success: true; refund: RefundRecord; partial: boolean } | { success: false; error: string }
+  > {
+    const store = this.refundStore!;
+    const refunds = await store.listRefunds(payment.paymentId);
+    const refunded = refunds
+      .filter(refund => refund.status !== "failed")
+      .reduce((total, refund) => total + BigInt(refund.amount), 0n);
+    const remaining = BigInt(payment.amount) - refunded;
+
+    if (remaining <= 0n) {
+      return { success: false, error: "payment_fully_refunded" };
+    }
+    if (options.amount !== undefined && !/^\d+$/.test(options.amount)) {
+      return { success: false, error: "invalid_refund_amount" };
+    }
+
+    const amount = options.amount === undefined ? remaining : BigInt(options.amount);
+    if (amount <= 0n) {
+      return { success: false, error: "invalid_refund_amount" };
+    }
+    if (amount > remaining) {
+      return { success: false, error: "refund_exceeds_payment" };
+    }
+
+    const now = new Date().toISOString();
+    const refund: RefundRecord = {
+      refundId: globalThis.crypto.randomUUID(),
+      paymentId: payment.paymentId,
+      amount: amount.toString(),
+      reason: options.reason,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.createRefund(refund);
+
+    return { success: true, refund, partial: amount < remaining };
+  }
+
+  /**
+   * 更新退款状态
+   *
+   * @param store - 退款存储
+   * @param refund - 当前退款记录
+   * @param update - 新状态及交易哈希或失败原因
+   * @returns 更新后的退款记录
+   */
+  private async updateRefund(
+    store: RefundStore,
+    refund: RefundRecord,
+    update: Pick<RefundRecord, "status"> & Partial<Pick<RefundRecord, "txHash" | "error">>,
+  ): Promise<RefundRecord> {
+    const updated = { ...update, updatedAt: new Date().toISOString() };
+    await store.updateRefund(refund.refundId, updated);
+    return { ...refund, ...updated };
+  }
+
+  /**
+   * 等待退款交易确认
+   *
+   * 等待超时、RPC 出错或没有该网络的 client 时退款保持 sent 状态（交易仍可能上链），
+   * 仅在交易回滚时标记为 failed
+   *
+   * @param store - 退款存储
+   * @param refund - sent 状态的退款记录
+   * @param txHash - 退款交易哈希
+   * @param context - 退款事件字段
+   * @param startedAt - 调用 refund() 的时间（毫秒时间戳）
+   * @returns 退款结果
+   */
+  private async confirmRefund(
+    store: RefundStore,
+    refund: RefundRecord,
+    txHash: `0x${string}`,
+    context: Omit<
+      PaymentEventMap["refund.confirmed"],
+      "type" | "timestamp" | "durationMs" | "txHash"
+    >,
+    startedAt: number,
+  ): Promise<RefundResult> {
+    const client = await this.getClientForNetwork(context.network!);
+    if (!client) {
+      // 不能用其他链的 client 查询回执，不跟踪确认
+      console.warn(`No client configured for network '${context.network}', refund stays sent`);
+      return { success: false, error: "refund_confirmation_unavailable", refund };
+    }
+
+    try {
+      const receipt = await client.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: this.refundConfig?.confirmations ?? 1,
+      });
+
+      if (receipt.status !== "success") {
+        const error = "refund_transaction_reverted";
+        const failed = await this.updateRefund(store, refund, { status: "failed", error });
+        this.emit("refund.failed", startedAt, { ...context, txHash, error });
+        return { success: false, error, refund: failed };
+      }
+
+      const confirmed = await this.updateRefund(store, refund, { status: "confirmed" });
+      this.emit("refund.confirmed", startedAt, { ...context, txHash });
+      return { success: true, refund: confirmed };
+    } catch (error) {
+      console.warn("Failed to confirm refund:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "refund_confirmation_failed",
+        refund,
+      };
+    }
+  }
+
+  /**
+   * 等待以 waitUntil "submitted" 结算的交易确认，发出 payment.confirmed / payment.confirmation_failed
+   *
+   * @param payment - 已结算的支付
+   * @param txHash - 结算交易哈希
+   * @param context - 事件字段
+   */
+  private async confirmSettlement(
+    payment: ParsedPayment,
+    txHash: `0x${string}`,
+    context: Omit<
+      PaymentEventMap["payment.confirmed"],
+      "type" | "timestamp" | "durationMs" | "txHash" | "breakdown"
+    >,
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const client = await this.getClientForNetwork(context.network!);
+    if (!client) {
+      // 不能用其他链的 client 查询回执，不跟踪确认
+      console.warn(
+        `No client configured for network '${context.network}', settlement confirmation skipped`,
+      );
+      return;
+    }
+
+    try {
+      const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+
+      if (receipt.status !== "success") {
+        this.emit("payment.confirmation_failed", startedAt, {
+          ...context,
+          txHash,
+          error: "settlement_transaction_reverted",
+        });
+        return;
+      }
+
+      const breakdown = context.payer
+        ? decodeSettlementBreakdown(receipt, {
+            asset: payment.requirements.asset as `0x${string}`,
+            payer: context.payer as `0x${string}`,
+            payTo: payment.requirements.payTo as `0x${string}`,
+            amount: context.amount ? BigInt(context.amount) : undefined,
+          })
+        : undefined;
+      this.emit("payment.confirmed", startedAt, {
+        ...context,
+        txHash,
+        ...(breakdown && { breakdown }),
+      });
+    } catch (error) {
+      this.emit("payment.confirmation_failed", startedAt, {
+        ...context,
+        txHash,
+        error: error instanceof Error ? error.message : "settlement_confirmation_failed",
+      });
+    }
+  }
+
+  /**
+   * 发出支付事件，补充 timestamp 和本阶段耗时
+   *
+   * @param type - 事件类型
+   * @param startedAt - 本阶段开始时间（毫秒时间戳）
+   * @param fields - 事件字段
+   */
+  private emit<T extends PaymentEventType>(
+    type: T,
+    startedAt: number,
+    fields: Omit<PaymentEventMap[T], "type" | "timestamp" | "durationMs">,
+  ): void {
+    const now = Date.now();
+    this.events.emit({
+      type,
+      timestamp: new Date(now).toISOString(),
+      durationMs: now - startedAt,
+      ...fields,
+    } as PaymentEventMap[T]);
+  }
+
+  /**
+   * 获取指定网络的 client，网络与默认 client 相同时使用默认 client
+   *
+   * @param network - 网络名称
+   * @returns PublicClient，没有该网络的 client 时返回 undefined
+   */
+  private async getClientForNetwork(network: string): Promise<PublicClient | undefined> {
+    if (this.clients[network]) {
+      return this.clients[network];
+    }
+    return (await this.getNetworkName()) === network ? this.client : undefined;
+  }
+
+  /**
+   * 获取指定网络的 detector，网络与默认 client 相同时使用默认 detector
+   *
+   * @param network - 网络名称
+   * @returns TokenDetector 实例
+   * @throws Error 如果没有该网络的 client（否则会从错误的链上检测 Token）
+   */
+  private async getDetectorForNetwork(network: string): Promise<TokenDetector> {
+    const client = this.clients[network];
+    if (!client) {
+      if ((await this.getNetworkName()) !== network) {
+        throw new Error(
+          `No client configured for network '${network}', add it to X402ServerConfig.clients`,
+        );
+      }
+      return this.detector;
+    }
+
+    let detector = this.detectors.get(network);
+    if (!detector) {
+      detector = new TokenDetector(client, { ...this.detectorCache, logger: null });
+      this.detectors.set(network, detector);
+    }
+    return detector;
+  }
+
+  /**
+   * 按 payload 的 scheme、network 和资产从 accepts 中选出对应的支付要求
+   *
+   * 同一网络上有多个报价时，依次按 paymentType、permit2 的 token 地址和金额缩小范围
+   *
+   * @param payload - 客户端提交的支付 payload
+   * @param accepts - 服务端提供的支付要求列表
+   * @returns 匹配的支付要求，没有匹配时返回 undefined
+   */
+  private matchRequirements(
+    payload: PaymentPayload,
+    accepts: PaymentRequirements[],
+  ): PaymentRequirements | undefined {
+    const candidates = accepts.filter(
+      requirements =>
+        requirements.scheme === payload.scheme && requirements.network === payload.network,
+    );
+    if (candidates.length <= 1 || !("authorizationType" in payload.payload)) {
+      return candidates[0];
+    }
+
+    const { authorizationType, authorization } = payload.payload;
+    let matched = candidates.filter(
+      requirements => !requirements.paymentType || requirements.paymentType === authorizationType,
+    );
+
+    // permit2 payload 带有 token 地址，可以精确匹配资产
+    if ("token" in authorization) {
+      matched = matched.filter(
+        requirements => requirements.asset.toLowerCase() === authorization.token.toLowerCase(),
+      );
+    }
+
+    const value = "value" in authorization ? authorization.value : authorization.amount;
+    return matched.find(requirements => requirements.maxAmountRequired === value) || matched[0];
+  }
+
   /**
    * 获取网络名称
    *
@@ -459,23 +1382,17 @@ export class X402Server {
 
     const chainId = await this.client.getChainId();
 
-    // 映射常见的 chainId 到网络名称
-    const networkMap: Record<number, string> = {
-      56: NetworkName.Bsc,
-      97: NetworkName.BscTestnet,
-      137: NetworkName.Polygon,
-      80001: NetworkName.PolygonAmoy,
-      8453: NetworkName.Base,
-      84531: NetworkName.BaseSepolia,
-    };
-
-    this.network = networkMap[chainId] || `chain-${chainId}`;
+    // 从网络注册表查找 chainId 对应的网络名称（包含 evm.registerEvmNetwork 注册的网络）
+    this.network = ChainIdToNetwork[chainId] || `chain-${chainId}`;
     return this.network;
   }
 
   /**
    * 验证 facilitator 是否支持指定的支付类型、网络和资产地址
    *
+   * kind 可以通过 `extra.assets` 列出支持的资产及其 EIP-712 primaryType，
+   * 也可以只声明 `extra.authorizationType`，表示支持该类型的任意资产
+   *
    * @param network - 网络名称
    * @param paymentType - 支付类型
    * @param assetAddress - 资产地址
@@ -516,17 +1433,22 @@ export class X402Server {
           return false;
         }
 
+        // 只声明 authorizationType 的 kind（如 x402x-facilitator-server）支持该类型的任意资产
+        if (kind.extra?.assets === undefined && kind.extra?.authorizationType !== undefined) {
+          return kind.extra.authorizationType === paymentType;
+        }
+
         // 检查 extra.assets 是否存在
         const assets = kind.extra?.assets as
           | Array<{
-            address: string;
-            decimals?: number;
-            eip712?: {
-              name?: string;
-              version?: string;
-              primaryType?: string;
-            };
-          }>
+              address: string;
+              decimals?: number;
+              eip712?: {
+                name?: string;
+                version?: string;
+                primaryType?: string;
+              };
+            }>
           | undefined;
 
         if (!assets || !Array.isArray(assets)) {
@@ -548,16 +1470,23 @@ export class X402Server {
         // 提供更友好的错误信息
         const supportedCombinations: string[] = [];
         supportedResponse.kinds.forEach(kind => {
+          if (kind.extra?.assets === undefined && kind.extra?.authorizationType !== undefined) {
+            supportedCombinations.push(
+              `${kind.extra.authorizationType} for any asset on ${kind.network}`,
+            );
+            return;
+          }
+
           const assets = kind.extra?.assets as
             | Array<{
-              address: string;
-              decimals?: number;
-              eip712?: {
-                name?: string;
-                version?: string;
-                primaryType?: string;
-              };
-            }>
+                address: string;
+                decimals?: number;
+                eip712?: {
+                  name?: string;
+                  version?: string;
+                  primaryType?: string;
+                };
+              }>
             | undefined;
 
           if (assets && Array.isArray(assets)) {
@@ -573,7 +1502,7 @@ export class X402Server {
 
         throw new Error(
           `Facilitator does not support '${paymentType}' (${expectedPrimaryType}) for asset '${assetAddress}' on network '${network}'. ` +
-          `Supported combinations: \n${supportedCombinations.length > 0 ? supportedCombinations.join(";\n") : "none"}`,
+            `Supported combinations: \n${supportedCombinations.length > 0 ? supportedCombinations.join(";\n") : "none"}`,
         );
       }
     } catch (error) {
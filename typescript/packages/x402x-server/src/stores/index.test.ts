@@ -0,0 +1,125 @@
+/**
+ * 支付存储测试
+ */
+
+import { describe, it, expect } from "vitest";
+import { MemoryPaymentStore, getPaymentExpiry, getPaymentKey } from "./index";
+import type { ParsedPayment } from "../schemas";
+
+const PAYER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const USDC = "0x25d066c4C68C8A6332DfDB4230263608305Ca991";
+const NONCE = `0x${"1".repeat(64)}`;
+
+const requirements = {
+  scheme: "exact" as const,
+  network: "bsc" as const,
+  maxAmountRequired: "1000",
+  payTo: PAYER,
+  asset: USDC,
+  maxTimeoutSeconds: 300,
+  resource: "https://api.example.com/resource",
+  description: "",
+  mimeType: "application/json",
+};
+
+const eip3009Payment: ParsedPayment = {
+  requirements,
+  payload: {
+    x402Version: 1,
+    scheme: "exact",
+    network: "bsc",
+    payload: {
+      authorizationType: "eip3009",
+      signature: "0x1234",
+      authorization: {
+        from: PAYER,
+        to: PAYER,
+        value: "1000",
+        validAfter: "0",
+        validBefore: "2000000000",
+        nonce: NONCE,
+      },
+    },
+  },
+};
+
+describe("MemoryPaymentStore", () => {
+  it("should reject a key that is already reserved", async () => {
+    const store = new MemoryPaymentStore();
+    const expiresAt = Date.now() + 60_000;
+
+    expect(await store.reserve("key", expiresAt)).toBe(true);
+    expect(await store.reserve("key", expiresAt)).toBe(false);
+  });
+
+  it("should allow a key to be reserved again after release", async () => {
+    const store = new MemoryPaymentStore();
+    const expiresAt = Date.now() + 60_000;
+
+    await store.reserve("key", expiresAt);
+    await store.release("key");
+
+    expect(await store.reserve("key", expiresAt)).toBe(true);
+  });
+
+  it("should allow a key to be reserved again after it expires", async () => {
+    const store = new MemoryPaymentStore();
+
+    await store.reserve("key", Date.now() - 1);
+
+    expect(await store.reserve("key", Date.now() + 60_000)).toBe(true);
+  });
+
+  it("should only let one of many concurrent reservations win", async () => {
+    const store = new MemoryPaymentStore();
+    const expiresAt = Date.now() + 60_000;
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => store.reserve("key", expiresAt)),
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+});
+
+describe("getPaymentKey", () => {
+  it("should key eip3009 payments on network, asset, payer and nonce", () => {
+    expect(getPaymentKey(eip3009Payment)).toBe(
+      `bsc:${USDC.toLowerCase()}:${PAYER.toLowerCase()}:eip3009-${NONCE}`,
+    );
+  });
+
+  it("should use the permit2 token address as the asset", () => {
+    const token = "0x8d0D000Ee44948FC98c9B98A4FA4921476f08B0d";
+    const payment: ParsedPayment = {
+      requirements,
+      payload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "bsc",
+        payload: {
+          authorizationType: "permit2",
+          signature: "0x1234",
+          authorization: {
+            owner: PAYER,
+            spender: PAYER,
+            token,
+            amount: "1000",
+            deadline: "2000000000",
+            nonce: "42",
+          },
+        },
+      },
+    };
+
+    expect(getPaymentKey(payment)).toBe(
+      `bsc:${token.toLowerCase()}:${PAYER.toLowerCase()}:permit2-42`,
+    );
+  });
+});
+
+describe("getPaymentExpiry", () => {
+  it("should expire at the authorization validBefore", () => {
+    expect(getPaymentExpiry(eip3009Payment)).toBe(2000000000 * 1000);
+  });
+});
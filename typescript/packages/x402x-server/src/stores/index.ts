@@ -0,0 +1,9 @@
+/**
+ * Payment stores for x402 replay protection
+ */
+
+export { MemoryPaymentStore } from "./memory";
+export { SqlitePaymentStore } from "./sqlite";
+export type { SqliteDatabase, SqliteStatement, SqlitePaymentStoreOptions } from "./sqlite";
+export { getPaymentKey, getPaymentExpiry } from "./key";
+export type { PaymentStore } from "./types";
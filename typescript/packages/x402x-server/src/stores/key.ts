@@ -0,0 +1,72 @@
+import { svm } from "x402x/shared";
+import type { ParsedPayment } from "../schemas";
+
+/**
+ * 将字节转为十六进制字符串
+ *
+ * @param bytes - 字节数组
+ * @returns 十六进制字符串
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 生成支付的唯一 key
+ *
+ * 格式为 `network:asset:payer:nonce`
+ * - eip3009: authorization.from + authorization.nonce
+ * - permit: owner + token nonce
+ * - permit2: owner + Permit2 nonce（asset 取 authorization.token）
+ * - svm: 付款人 + 付款人对交易的签名
+ *
+ * @param payment - 解析后的支付数据
+ * @returns 支付 key
+ */
+export function getPaymentKey(payment: ParsedPayment): string {
+  const { payload, requirements } = payment;
+  const inner = payload.payload;
+
+  if ("authorizationType" in inner) {
+    const { authorization } = inner;
+    const payer = "from" in authorization ? authorization.from : authorization.owner;
+    const asset = "token" in authorization ? authorization.token : requirements.asset;
+    return [
+      payload.network,
+      asset.toLowerCase(),
+      payer.toLowerCase(),
+      `${inner.authorizationType}-${authorization.nonce}`,
+    ].join(":");
+  }
+
+  const transaction = svm.decodeTransactionFromPayload(inner);
+  const payer = svm.getTokenPayerFromTransaction(transaction);
+  const signature = transaction.signatures[payer as keyof typeof transaction.signatures];
+  if (!payer || !signature) {
+    throw new Error("invalid_exact_svm_payload_transaction");
+  }
+
+  return [payload.network, requirements.asset, payer, toHex(signature)].join(":");
+}
+
+/**
+ * 获取支付 key 的过期时间
+ *
+ * 授权过期后无法再被结算，因此 key 只需保留到 validBefore / deadline；
+ * 没有过期时间的支付（svm）使用 maxTimeoutSeconds
+ *
+ * @param payment - 解析后的支付数据
+ * @returns 过期时间（毫秒时间戳）
+ */
+export function getPaymentExpiry(payment: ParsedPayment): number {
+  const inner = payment.payload.payload;
+
+  if ("authorizationType" in inner) {
+    const { authorization } = inner;
+    const expiry =
+      "validBefore" in authorization ? authorization.validBefore : authorization.deadline;
+    return Number(expiry) * 1000;
+  }
+
+  return Date.now() + payment.requirements.maxTimeoutSeconds * 1000;
+}
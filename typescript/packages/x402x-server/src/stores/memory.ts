@@ -0,0 +1,81 @@
+import type { PaymentStore } from "./types";
+
+/**
+ * 过期记录的清理间隔（毫秒）
+ */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * 内存支付存储
+ *
+ * 适用于单进程部署；多实例部署请使用 SqlitePaymentStore 或自定义共享存储
+ *
+ * @example
+ * ```typescript
+ * const server = new X402Server({
+ *   client,
+ *   facilitator,
+ *   paymentStore: new MemoryPaymentStore(),
+ * });
+ * ```
+ */
+export class MemoryPaymentStore implements PaymentStore {
+  private entries = new Map<string, number>();
+  private lastSweep = Date.now();
+
+  /**
+   * 获取当前记录数（包含尚未清理的过期记录）
+   *
+   * @returns 记录数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 原子地占用支付 key
+   *
+   * @param key - 支付 key
+   * @param expiresAt - 过期时间（毫秒时间戳）
+   * @returns 是否占用成功
+   */
+  async reserve(key: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const existing = this.entries.get(key);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    this.entries.set(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * 释放支付 key
+   *
+   * @param key - 支付 key
+   */
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 定期清理过期记录
+   *
+   * @param now - 当前时间（毫秒时间戳）
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
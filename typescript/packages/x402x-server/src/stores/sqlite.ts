@@ -0,0 +1,103 @@
+import type { PaymentStore } from "./types";
+
+/**
+ * SQLite prepared statement 的最小接口
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+}
+
+/**
+ * SQLite 数据库的最小接口
+ * 兼容 better-sqlite3 的 Database 和 node:sqlite 的 DatabaseSync，避免直接依赖具体实现
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * SqlitePaymentStore 配置选项
+ */
+export interface SqlitePaymentStoreOptions {
+  /** 表名，默认 "x402_payments" */
+  tableName?: string;
+}
+
+/**
+ * SQLite 支付存储
+ *
+ * 使用主键冲突保证占用的原子性，多个进程共享同一个数据库文件时同样有效
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const server = new X402Server({
+ *   client,
+ *   facilitator,
+ *   paymentStore: new SqlitePaymentStore(new Database("x402.db")),
+ * });
+ * ```
+ */
+export class SqlitePaymentStore implements PaymentStore {
+  private reserveStatement: SqliteStatement;
+  private releaseStatement: SqliteStatement;
+  private pruneStatement: SqliteStatement;
+
+  /**
+   * 构造函数
+   *
+   * @param database - SQLite 数据库实例
+   * @param options - 配置选项
+   */
+  constructor(database: SqliteDatabase, options: SqlitePaymentStoreOptions = {}) {
+    const tableName = options.tableName || "x402_payments";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid table name: ${tableName}`);
+    }
+
+    database.exec(
+      `CREATE TABLE IF NOT EXISTS ${tableName} (key TEXT PRIMARY KEY, expires_at INTEGER NOT NULL)`,
+    );
+
+    // 新 key 直接插入；已存在的 key 仅在过期后才会被覆盖
+    this.reserveStatement = database.prepare(
+      `INSERT INTO ${tableName} (key, expires_at) VALUES (?, ?) ` +
+        `ON CONFLICT(key) DO UPDATE SET expires_at = excluded.expires_at ` +
+        `WHERE ${tableName}.expires_at <= ?`,
+    );
+    this.releaseStatement = database.prepare(`DELETE FROM ${tableName} WHERE key = ?`);
+    this.pruneStatement = database.prepare(`DELETE FROM ${tableName} WHERE expires_at <= ?`);
+  }
+
+  /**
+   * 原子地占用支付 key
+   *
+   * @param key - 支付 key
+   * @param expiresAt - 过期时间（毫秒时间戳）
+   * @returns 是否占用成功
+   */
+  async reserve(key: string, expiresAt: number): Promise<boolean> {
+    const result = this.reserveStatement.run(key, expiresAt, Date.now());
+    return Number(result.changes) > 0;
+  }
+
+  /**
+   * 释放支付 key
+   *
+   * @param key - 支付 key
+   */
+  async release(key: string): Promise<void> {
+    this.releaseStatement.run(key);
+  }
+
+  /**
+   * 删除所有过期记录
+   *
+   * @returns 删除的记录数
+   */
+  async prune(): Promise<number> {
+    return Number(this.pruneStatement.run(Date.now()).changes);
+  }
+}
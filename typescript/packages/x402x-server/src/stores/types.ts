@@ -0,0 +1,22 @@
+/**
+ * 支付存储接口
+ *
+ * 记录已使用的支付授权，防止同一个 X-PAYMENT 在结算完成前被重放
+ */
+export interface PaymentStore {
+  /**
+   * 原子地占用支付 key
+   *
+   * @param key - 支付 key（见 getPaymentKey）
+   * @param expiresAt - 过期时间（毫秒时间戳），过期后 key 可被再次占用
+   * @returns 占用成功返回 true，key 已被占用且未过期返回 false
+   */
+  reserve(key: string, expiresAt: number): Promise<boolean>;
+
+  /**
+   * 释放支付 key（结算失败或未结算时调用），之后同一支付可以重试
+   *
+   * @param key - 支付 key
+   */
+  release(key: string): Promise<void>;
+}
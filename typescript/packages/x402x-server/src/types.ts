@@ -1,5 +1,17 @@
 import type { PublicClient } from "viem";
+import type { TokenDetectorOptions } from "x402x-detector";
 import type { Facilitator } from "x402x-facilitator";
+import type { X402Config } from "x402x/types";
+import type { PaymentStore } from "./stores";
+import type { PaymentEventSink } from "./events";
+import type { RefundConfig } from "./refunds";
+
+/**
+ * 结算模式
+ * - "immediate": 在调用 handler 之前完成 parse → verify → settle（默认）
+ * - "deferred": 先 parse → verify，handler 返回 2xx 后再结算
+ */
+export type SettlementMode = "immediate" | "deferred";
 
 /**
  * X402Server 配置选项
@@ -13,11 +25,47 @@ export interface X402ServerConfig {
 
   /** 网络名称，默认从 client 自动检测 */
   network?: string;
+
+  /**
+   * 按网络名称提供的额外 client，用于多网络报价（createRequirementsSet）
+   * 未列出的网络只有与 client 的网络相同时才能自动检测 Token
+   */
+  clients?: Record<string, PublicClient>;
+
+  /** x402 配置，svmConfig.rpcUrl 用于 Solana 报价时查询 SPL mint 精度 */
+  x402Config?: X402Config;
+
+  /**
+   * 支付存储，用于防止同一支付在结算完成前被重放
+   * 默认使用 MemoryPaymentStore，传入 null 关闭
+   */
+  paymentStore?: PaymentStore | null;
+
+  /** 结算模式，默认 "immediate"，中间件可单独覆盖 */
+  settlementMode?: SettlementMode;
+
+  /**
+   * Token 检测缓存配置，传递给内部创建的所有 TokenDetector
+   * 例如使用 FileDetectorCacheStore / RedisDetectorCacheStore 在重启和多实例间共享检测结果
+   */
+  detectorCache?: Pick<TokenDetectorOptions, "cacheStore" | "cacheTtl" | "proxyCheckInterval">;
+
+  /**
+   * 审计日志，接收所有支付生命周期事件
+   * 例如 new JsonlAuditLog("./logs/x402-audit.jsonl")
+   */
+  auditLog?: PaymentEventSink;
+
+  /**
+   * 退款配置，提供后结算成功的支付会被记录，可通过 refund() 退款
+   */
+  refund?: RefundConfig;
 }
 
 // Re-export all types and schemas from schemas.ts
 export type {
   CreateRequirementsConfig,
+  RequirementsOffer,
   PaymentRequirements,
   PaymentPayload,
   Response402,
@@ -26,18 +74,25 @@ export type {
   ParseResult,
   VerifyResult,
   SettleResult,
+  SettleStatus,
   ParsedPayment,
+  AuthorizeResult,
+  PaymentResponse,
 } from "./schemas";
 
 export {
   CreateRequirementsConfigSchema,
+  RequirementsOfferSchema,
   Response402Schema,
   InitResultSchema,
   ProcessResultSchema,
   ParseResultSchema,
   VerifyResultSchema,
   SettleResultSchema,
+  SettleStatusSchema,
   ParsedPaymentSchema,
+  AuthorizeResultSchema,
+  PaymentResponseSchema,
 } from "./schemas";
 
 export { PaymentRequirementsSchema, PaymentPayloadSchema } from "x402x/types";
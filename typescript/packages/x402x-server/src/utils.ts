@@ -1,3 +1,10 @@
+import type { PaymentRequirements, PaymentResponse } from "./schemas";
+
+/**
+ * 结算回执 header 名称
+ */
+export const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
 /**
  * 解码 Base64 字符串
  *
@@ -40,3 +47,78 @@ export function encodeBase64(str: string): string {
 
   throw new Error("No Base64 encoder available");
 }
+
+/**
+ * 创建 X-PAYMENT-RESPONSE header 的值
+ *
+ * @param response - 结算回执
+ * @returns Base64 编码的结算回执
+ */
+export function createPaymentResponseHeader(response: PaymentResponse): string {
+  return encodeBase64(JSON.stringify(response));
+}
+
+/**
+ * 将 X-PAYMENT-RESPONSE 追加到 Access-Control-Expose-Headers，保留已有的值
+ *
+ * @param existing - 已有的 Access-Control-Expose-Headers 值
+ * @returns 合并后的值
+ */
+export function appendExposeHeader(existing?: string | null): string {
+  const headers = (existing || "")
+    .split(",")
+    .map(header => header.trim())
+    .filter(Boolean);
+
+  if (!headers.some(header => header.toLowerCase() === X_PAYMENT_RESPONSE_HEADER.toLowerCase())) {
+    headers.push(X_PAYMENT_RESPONSE_HEADER);
+  }
+
+  return headers.join(", ");
+}
+
+/**
+ * 是否包含 "upto" 报价，upto 需要在 handler 报告实际用量后再结算
+ *
+ * @param requirements - 支付要求或报价列表
+ * @returns 是否包含 upto 报价
+ */
+export function hasUptoRequirements(
+  requirements: PaymentRequirements | PaymentRequirements[],
+): boolean {
+  const list = Array.isArray(requirements) ? requirements : [requirements];
+  return list.some(requirement => requirement.scheme === "upto");
+}
+
+/**
+ * 结算是否真正扣款，"simulated" 结算只是演练，"not_charged" 表示 upto 用量为 0
+ *
+ * @param data - finalize / process 成功时返回的数据
+ * @param data.status - 结算进度
+ * @returns 是否已扣款
+ */
+export function isPaid(data: { status?: string }): boolean {
+  return data.status !== "simulated" && data.status !== "not_charged";
+}
+
+/**
+ * 调用支付成功回调
+ * 支付已经结算，回调抛出的错误只记录日志，不影响已付费的响应和结算回执
+ *
+ * @param callback - 支付成功回调
+ * @param args - 回调参数
+ */
+export async function notifyPaymentSuccess<TArgs extends unknown[]>(
+  callback: ((...args: TArgs) => void | Promise<void>) | undefined,
+  ...args: TArgs
+): Promise<void> {
+  if (!callback) {
+    return;
+  }
+
+  try {
+    await callback(...args);
+  } catch (error) {
+    console.error("x402 onPaymentSuccess error:", error);
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  A2AMessage,
+  A2ATask,
+  createA2APaymentSubmittedMessage,
+  getA2APaymentRequired,
+} from "../shared/a2a";
+import { decodePayment } from "../schemes/exact/evm/utils/paymentUtils";
+import {
+  ChainIdToNetwork,
+  evm,
+  isEvmSignerWallet,
+  isMultiNetworkSigner,
+  isSuiSignerWallet,
+  isSvmSignerWallet,
+  MultiNetworkSigner,
+  Network,
+  Signer,
+} from "../types/shared";
+import { X402Config } from "../types/config";
+import { PaymentRequirementsSchema } from "../types/verify";
+import { createPaymentHeader } from "./createPaymentHeader";
+import {
+  PaymentRequirementsSelector,
+  selectPaymentRequirements,
+} from "./selectPaymentRequirements";
+
+/**
+ * Creates the `payment-submitted` message answering an A2A task that asks for payment.
+ *
+ * @param client - The signer wallet used to sign the payment
+ * @param task - The `input-required` task carrying `x402.payment.required`
+ * @param maxValue - Optional maximum allowed payment amount in base units
+ * @param paymentRequirementsSelector - A function that selects the payment requirements to pay
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The user message carrying the signed payment payload
+ */
+export async function createA2APaymentMessage(
+  client: Signer | MultiNetworkSigner,
+  task: A2ATask,
+  maxValue?: bigint,
+  paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
+  config?: X402Config,
+): Promise<A2AMessage> {
+  const paymentRequired = getA2APaymentRequired(task);
+  if (!paymentRequired) {
+    throw new Error("Task does not require payment");
+  }
+
+  const accepts = paymentRequired.accepts.map(requirement =>
+    PaymentRequirementsSchema.parse(requirement),
+  );
+  const requirements = paymentRequirementsSelector(accepts, getSignerNetwork(client));
+
+  if (maxValue !== undefined && BigInt(requirements.maxAmountRequired) > maxValue) {
+    throw new Error("Payment amount exceeds maximum allowed");
+  }
+
+  const paymentHeader = await createPaymentHeader(
+    client,
+    paymentRequired.x402Version,
+    requirements,
+    config,
+  );
+
+  return createA2APaymentSubmittedMessage(task, decodePayment(paymentHeader));
+}
+
+/**
+ * Enables paying for A2A tasks using the x402 payment protocol.
+ *
+ * Wraps an A2A `message/send` call. When the merchant agent answers with an `input-required` task
+ * asking for payment, the wrapper signs a payment with `createPaymentHeader` and sends it back as a
+ * `payment-submitted` message correlated by `taskId`. The final task carries the settlement receipts
+ * in `x402.payment.receipts`.
+ *
+ * @param sendMessage - The function sending a message to the merchant agent
+ * @param client - The signer wallet used to sign the payment
+ * @param maxValue - Optional maximum allowed payment amount in base units
+ * @param paymentRequirementsSelector - A function that selects the payment requirements to pay
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A wrapped sendMessage function that pays for tasks automatically
+ *
+ * @example
+ * ```typescript
+ * const send = wrapSendMessageWithPayment(message => a2aClient.sendMessage({ message }), wallet);
+ * const task = await send({ kind: "message", messageId: "1", role: "user", parts: [...] });
+ * ```
+ */
+export function wrapSendMessageWithPayment<TResult extends A2ATask | A2AMessage>(
+  sendMessage: (message: A2AMessage) => Promise<TResult>,
+  client: Signer | MultiNetworkSigner,
+  maxValue?: bigint,
+  paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
+  config?: X402Config,
+) {
+  return async (message: A2AMessage): Promise<TResult> => {
+    const result = await sendMessage(message);
+    if (result.kind !== "task" || !getA2APaymentRequired(result)) {
+      return result;
+    }
+
+    const paymentMessage = await createA2APaymentMessage(
+      client,
+      result,
+      maxValue,
+      paymentRequirementsSelector,
+      config,
+    );
+    return sendMessage(paymentMessage);
+  };
+}
+
+/**
+ * Returns the networks the signer can pay on, used to select payment requirements
+ *
+ * @param client - The signer wallet
+ * @returns The networks, or undefined if the signer can pay on any network
+ */
+function getSignerNetwork(client: Signer | MultiNetworkSigner): Network | Network[] | undefined {
+  if (isMultiNetworkSigner(client)) {
+    return undefined;
+  }
+  if (isEvmSignerWallet(client)) {
+    return evm.isSignerWallet(client) && client.chain
+      ? (ChainIdToNetwork[client.chain.id] as Network | undefined)
+      : undefined;
+  }
+  if (isSvmSignerWallet(client)) {
+    return ["solana", "solana-devnet"];
+  }
+  if (isSuiSignerWallet(client)) {
+    return ["sui", "sui-testnet"];
+  }
+  return undefined;
+}
@@ -1,6 +1,8 @@
 import { createPaymentHeader as createPaymentHeaderExactEVM } from "../schemes/exact/evm/eip3009/client";
 import { createPaymentHeader as createPaymentHeaderExactSVM } from "../schemes/exact/svm/client";
-import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Signer, SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { createPaymentHeader as createPaymentHeaderExactSui } from "../schemes/exact/sui/client";
+import { createPaymentHeader as createPaymentHeaderUptoEVM } from "../schemes/upto/evm/client";
+import { isEvmSignerWallet, isMultiNetworkSigner, isSuiSignerWallet, isSvmSignerWallet, MultiNetworkSigner, Signer, SupportedEVMNetworks, SupportedSuiNetworks, SupportedSVMNetworks } from "../types/shared";
 import { PaymentRequirements } from "../types/verify";
 import { X402Config } from "../types/config";
 
@@ -33,6 +35,7 @@ export async function createPaymentHeader(
         evmClient,
         x402Version,
         paymentRequirements,
+        config,
       );
     }
     // svm
@@ -49,6 +52,38 @@ export async function createPaymentHeader(
         config,
       );
     }
+    // sui
+    if (SupportedSuiNetworks.includes(paymentRequirements.network)) {
+      const suiClient = isMultiNetworkSigner(client) ? client.sui : client;
+      if (!suiClient || !isSuiSignerWallet(suiClient)) {
+        throw new Error("Invalid sui wallet client provided");
+      }
+
+      return await createPaymentHeaderExactSui(
+        suiClient,
+        x402Version,
+        paymentRequirements,
+        config,
+      );
+    }
+    throw new Error("Unsupported network");
+  }
+  // upto scheme
+  if (paymentRequirements.scheme === "upto") {
+    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
+      const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
+
+      if (!isEvmSignerWallet(evmClient)) {
+        throw new Error("Invalid evm wallet client provided");
+      }
+
+      return await createPaymentHeaderUptoEVM(
+        evmClient,
+        x402Version,
+        paymentRequirements,
+        config,
+      );
+    }
     throw new Error("Unsupported network");
   }
   throw new Error("Unsupported scheme");
@@ -1,4 +1,5 @@
 export * from "./createPaymentHeader";
 export * from "./preparePaymentHeader";
 export * from "./selectPaymentRequirements";
-export * from "./signPaymentHeader";
\ No newline at end of file
+export * from "./signPaymentHeader";
+export * from "./a2a";
@@ -5,6 +5,7 @@ import {
 import { PaymentRequirements, Network } from "../types";
 import { getUsdcChainConfigForChain } from "../shared/evm";
 import { getNetworkId } from "../shared/network";
+import { getUsdcCoinType } from "../shared/sui/coin";
 
 /**
  * Test helper to create a payment requirement with the given network, asset, and overrides.
@@ -166,4 +167,17 @@ describe("selectPaymentRequirements", () => {
     expect(selected.network).toBe("solana");
     expect(selected.asset).toBe(solanaUsdc);
   });
-});
\ No newline at end of file
+
+  it("supports Sui networks by matching their USDC coin type", () => {
+    const suiUsdc = getUsdcCoinType("sui-testnet")!;
+    const reqs: PaymentRequirements[] = [
+      makeRequirement("sui-testnet", "0x2::sui::SUI"),
+      makeRequirement("sui-testnet", suiUsdc),
+      makeRequirement("base", "0x9999999999999999999999999999999999999999"),
+    ];
+
+    const selected = selectPaymentRequirements(reqs, ["sui", "sui-testnet"]);
+    expect(selected.network).toBe("sui-testnet");
+    expect(selected.asset).toBe(suiUsdc);
+  });
+});
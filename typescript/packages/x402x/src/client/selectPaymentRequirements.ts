@@ -1,5 +1,6 @@
-import { Network, PaymentRequirements } from "../types";
+import { Network, PaymentRequirements, SupportedSuiNetworks } from "../types";
 import { getUsdcChainConfigForChain } from "../shared/evm";
+import { getUsdcCoinType } from "../shared/sui/coin";
 import { getNetworkId } from "../shared/network";
 
 /**
@@ -12,7 +13,7 @@ import { getNetworkId } from "../shared/network";
  * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
  */
-export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact"): PaymentRequirements {
+export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact" | "upto"): PaymentRequirements {
   // Sort `base` payment requirements to the front of the list. This is to ensure that base is preferred if available.
   paymentRequirements.sort((a, b) => {
     if (a.network === "base" && b.network !== "base") {
@@ -36,6 +37,10 @@ export function selectPaymentRequirements(paymentRequirements: PaymentRequiremen
 
   // Filter down to USDC requirements
   const usdcRequirements = broadlyAcceptedPaymentRequirements.filter(requirement => {
+    // Sui networks have no chain id, the asset is a coin type
+    if (SupportedSuiNetworks.includes(requirement.network)) {
+      return requirement.asset === getUsdcCoinType(requirement.network);
+    }
     // If the address is a USDC address, we return it.
     return requirement.asset === getUsdcChainConfigForChain(getNetworkId(requirement.network))?.usdcAddress;
   });
@@ -60,5 +65,5 @@ export function selectPaymentRequirements(paymentRequirements: PaymentRequiremen
  * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
  */
-export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact") => PaymentRequirements;
+export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact" | "upto") => PaymentRequirements;
 
@@ -1,10 +1,13 @@
 import { verify as verifyExactEvm, settle as settleExactEvm } from "../schemes/exact/evm";
 import { verify as verifyExactSvm, settle as settleExactSvm } from "../schemes/exact/svm";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { verify as verifyExactSui, settle as settleExactSui } from "../schemes/exact/sui";
+import { verify as verifyUptoEvm, settle as settleUptoEvm } from "../schemes/upto/evm";
+import { SupportedEVMNetworks, SupportedSVMNetworks, SupportedSuiNetworks } from "../types/shared";
 import { X402Config } from "../types/config";
 import {
   ConnectedClient as EvmConnectedClient,
   SignerWallet as EvmSignerWallet,
+  withEvmConfig,
 } from "../types/shared/evm";
 import { ConnectedClient, Signer } from "../types/shared/wallet";
 import {
@@ -13,6 +16,8 @@ import {
   SettleResponse,
   VerifyResponse,
   ExactEvmPayload,
+  SettleOptions,
+  VerifyOptions,
 } from "../types/verify";
 import { Chain, Transport, Account } from "viem";
 import { KeyPairSigner } from "@solana/kit";
@@ -25,6 +30,7 @@ import { KeyPairSigner } from "@solana/kit";
  * @param payload - The signed payment payload containing transfer parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param options - Optional verification options: simulate the exact settlement call (EVM "exact" only)
  * @returns A ValidPaymentRequest indicating if the payment is valid and any invalidation reason
  */
 export async function verify<
@@ -36,15 +42,21 @@ export async function verify<
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  options?: VerifyOptions,
 ): Promise<VerifyResponse> {
   // exact scheme
   if (paymentRequirements.scheme === "exact") {
     // evm
     if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
       return verifyExactEvm(
-        client as EvmConnectedClient<transport, chain, account>,
+        withEvmConfig(
+          client as EvmConnectedClient<transport, chain, account>,
+          paymentRequirements.network,
+          config?.evmConfig,
+        ),
         payload,
         paymentRequirements,
+        options,
       );
     }
 
@@ -52,6 +64,27 @@ export async function verify<
     if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
       return await verifyExactSvm(client as KeyPairSigner, payload, paymentRequirements, config);
     }
+
+    // sui
+    if (SupportedSuiNetworks.includes(paymentRequirements.network)) {
+      return await verifyExactSui(payload, paymentRequirements, config);
+    }
+  }
+
+  // upto scheme (evm only)
+  if (
+    paymentRequirements.scheme === "upto" &&
+    SupportedEVMNetworks.includes(paymentRequirements.network)
+  ) {
+    return verifyUptoEvm(
+      withEvmConfig(
+        client as EvmConnectedClient<transport, chain, account>,
+        paymentRequirements.network,
+        config?.evmConfig,
+      ),
+      payload,
+      paymentRequirements,
+    );
   }
 
   // unsupported scheme
@@ -84,6 +117,9 @@ export async function verify<
  * @param paymentRequirements - The payment requirements that the payload must satisfy
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param amount - Optional amount to settle for the "upto" scheme (defaults to maxAmountRequired)
+ * @param options - Optional settlement options: waitUntil ("simulated" | "submitted" | "confirmed", EVM only)
+ * and onConfirmed, called once a "submitted" settlement is confirmed
  * @returns A SettleResponse indicating if the payment is settled and any settlement reason
  */
 export async function settle<transport extends Transport, chain extends Chain>(
@@ -92,16 +128,23 @@ export async function settle<transport extends Transport, chain extends Chain>(
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
   gasPrice: bigint = 50000000n, // 0.05 gwei
+  amount?: string,
+  options?: SettleOptions,
 ): Promise<SettleResponse> {
   // exact scheme
   if (paymentRequirements.scheme === "exact") {
     // evm
     if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
       return await settleExactEvm(
-        client as EvmSignerWallet<chain, transport>,
+        withEvmConfig(
+          client as EvmSignerWallet<chain, transport>,
+          paymentRequirements.network,
+          config?.evmConfig,
+        ),
         payload,
         paymentRequirements,
         gasPrice,
+        options,
       );
     }
 
@@ -109,6 +152,30 @@ export async function settle<transport extends Transport, chain extends Chain>(
     if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
       return await settleExactSvm(client as KeyPairSigner, payload, paymentRequirements, config);
     }
+
+    // sui
+    if (SupportedSuiNetworks.includes(paymentRequirements.network)) {
+      return await settleExactSui(payload, paymentRequirements, config);
+    }
+  }
+
+  // upto scheme (evm only)
+  if (
+    paymentRequirements.scheme === "upto" &&
+    SupportedEVMNetworks.includes(paymentRequirements.network)
+  ) {
+    return await settleUptoEvm(
+      withEvmConfig(
+        client as EvmSignerWallet<chain, transport>,
+        paymentRequirements.network,
+        config?.evmConfig,
+      ),
+      payload,
+      paymentRequirements,
+      amount,
+      gasPrice,
+      options,
+    );
   }
 
   let payer = "";
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Address, encodeAbiParameters, encodeEventTopics, erc20Abi, Hex } from "viem";
+import { prepareSettle, SettleCall } from "../schemes/exact/evm";
+import { MULTICALL3_ADDRESS, SignerWallet } from "../types/shared/evm";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { settle } from "./facilitator";
+import { createSettlementQueue } from "./settlementQueue";
+
+vi.mock("../schemes/exact/evm", async () => {
+  const actual = await vi.importActual("../schemes/exact/evm");
+  return {
+    ...actual,
+    prepareSettle: vi.fn(),
+  };
+});
+
+vi.mock("./facilitator", () => ({
+  settle: vi.fn(),
+}));
+
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAY_TO = "0x1234567890123456789012345678901234567890";
+const BATCH_TX = "0xbatch";
+
+const payer = (index: number): Address => `0x${index.toString().padStart(40, "0")}`;
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 300,
+  asset: TOKEN,
+};
+
+const payment = (
+  index: number,
+  authorizationType: "eip3009" | "permit2" = "eip3009",
+): PaymentPayload =>
+  ({
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: { authorizationType, signature: "0x", authorization: { from: payer(index) } },
+  }) as unknown as PaymentPayload;
+
+const callFor = (index: number): SettleCall => ({
+  to: TOKEN,
+  data: `0x0${index}` as Hex,
+  token: TOKEN,
+  payer: payer(index),
+  amount: 1000n,
+});
+
+const transferLog = (from: Address, value: bigint) => ({
+  address: TOKEN,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: "Transfer", args: { from, to: PAY_TO } }),
+  data: encodeAbiParameters([{ type: "uint256" }], [value]),
+  blockNumber: 1n,
+  blockHash: "0x01",
+  logIndex: 0,
+  transactionHash: BATCH_TX,
+  transactionIndex: 0,
+  removed: false,
+});
+
+const createWallet = (logs: ReturnType<typeof transferLog>[]) => ({
+  chain: { id: 84532 },
+  sendTransaction: vi.fn().mockResolvedValue("0xsingle"),
+  writeContract: vi.fn().mockResolvedValue(BATCH_TX),
+  waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", logs }),
+});
+
+describe("createSettlementQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prepareSettle).mockImplementation(async (_, paymentPayload) => {
+      const from = (paymentPayload.payload as { authorization: { from: Address } }).authorization
+        .from;
+      return { call: callFor(Number(BigInt(from))) };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should aggregate queued payments into one Multicall3 transaction", async () => {
+    const wallet = createWallet([transferLog(payer(1), 1000n), transferLog(payer(2), 1000n)]);
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet, { maxBatchSize: 2 });
+
+    const results = await Promise.all([
+      queue.settle(payment(1), requirements),
+      queue.settle(payment(2), requirements),
+    ]);
+
+    expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+    expect(wallet.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: MULTICALL3_ADDRESS,
+        functionName: "aggregate3",
+        args: [
+          [
+            { target: TOKEN, allowFailure: true, callData: "0x01" },
+            { target: TOKEN, allowFailure: true, callData: "0x02" },
+          ],
+        ],
+      }),
+    );
+    const breakdown = {
+      source: "Transfer",
+      gross: "1000",
+      fee: "0",
+      net: "1000",
+      beneficiary: PAY_TO,
+    };
+    expect(results).toEqual([
+      { success: true, transaction: BATCH_TX, network: "base-sepolia", payer: payer(1), breakdown },
+      { success: true, transaction: BATCH_TX, network: "base-sepolia", payer: payer(2), breakdown },
+    ]);
+  });
+
+  it("should report payments whose transfer is missing from the receipt as failed", async () => {
+    const wallet = createWallet([transferLog(payer(2), 1000n)]);
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet, { maxBatchSize: 2 });
+
+    const [first, second] = await Promise.all([
+      queue.settle(payment(1), requirements),
+      queue.settle(payment(2), requirements),
+    ]);
+
+    expect(first).toEqual({
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: BATCH_TX,
+      network: "base-sepolia",
+      payer: payer(1),
+    });
+    expect(second.success).toBe(true);
+  });
+
+  it("should flush after maxWaitMs and send a single call directly", async () => {
+    vi.useFakeTimers();
+    const wallet = createWallet([transferLog(payer(1), 1000n)]);
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet, { maxWaitMs: 500 });
+
+    const result = queue.settle(payment(1), requirements);
+    expect(queue.size()).toBe(1);
+    expect(wallet.sendTransaction).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(result).resolves.toMatchObject({ success: true, transaction: "0xsingle" });
+    expect(wallet.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ to: TOKEN, data: "0x01" }),
+    );
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+    expect(queue.size()).toBe(0);
+  });
+
+  it("should resolve payments that fail re-verification without submitting them", async () => {
+    const wallet = createWallet([]);
+    const response = {
+      success: false,
+      errorReason: "invalid_exact_evm_payload_signature" as const,
+      transaction: "",
+      network: "base-sepolia" as const,
+      payer: payer(1),
+    };
+    vi.mocked(prepareSettle).mockResolvedValueOnce({ response });
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet);
+
+    const result = queue.settle(payment(1), requirements);
+    await queue.flush();
+
+    await expect(result).resolves.toEqual(response);
+    expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("should settle Permit2 payments individually", async () => {
+    const wallet = createWallet([]);
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: "0xpermit2",
+      network: "base-sepolia",
+      payer: payer(1),
+    });
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet);
+
+    const result = queue.settle(payment(1, "permit2"), requirements);
+    await queue.flush();
+
+    await expect(result).resolves.toMatchObject({ success: true, transaction: "0xpermit2" });
+    expect(prepareSettle).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("should settle receiveWithAuthorization payments individually", async () => {
+    const wallet = createWallet([]);
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: "0xreceive",
+      network: "base-sepolia",
+      payer: payer(1),
+    });
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet);
+    const receivePayment = payment(1);
+    Object.assign(receivePayment.payload, { receiveWithAuthorization: true });
+
+    const result = queue.settle(receivePayment, requirements);
+    await queue.flush();
+
+    await expect(result).resolves.toMatchObject({ success: true, transaction: "0xreceive" });
+    expect(prepareSettle).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("should reject every payment in the batch when submission fails", async () => {
+    const wallet = createWallet([]);
+    wallet.writeContract.mockRejectedValue(new Error("nonce too low"));
+    const queue = createSettlementQueue(wallet as unknown as SignerWallet, { maxBatchSize: 2 });
+
+    const results = await Promise.allSettled([
+      queue.settle(payment(1), requirements),
+      queue.settle(payment(2), requirements),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["rejected", "rejected"]);
+  });
+});
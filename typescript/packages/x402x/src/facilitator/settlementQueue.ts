@@ -0,0 +1,282 @@
+import {
+  Address,
+  Chain,
+  erc20Abi,
+  Hash,
+  Hex,
+  isAddressEqual,
+  isErc6492Signature,
+  Log,
+  parseEventLogs,
+  Transport,
+} from "viem";
+import { prepareSettle, SettleCall } from "../schemes/exact/evm";
+import { decodeSettlementBreakdown } from "../shared/evm";
+import { SupportedEVMNetworks } from "../types/shared";
+import { MULTICALL3_ADDRESS, multicall3ABI, SignerWallet } from "../types/shared/evm";
+import { Signer } from "../types/shared/wallet";
+import {
+  ExactEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettlementBreakdown,
+  SettleResponse,
+} from "../types/verify";
+import { settle } from "./facilitator";
+
+export type SettlementQueueOptions = {
+  /** Flush as soon as this many payments are queued (defaults to 20) */
+  maxBatchSize?: number;
+  /** Flush queued payments at most this many milliseconds after the first one (defaults to 2000) */
+  maxWaitMs?: number;
+  /** Gas price in wei (defaults to 0.05 gwei) */
+  gasPrice?: bigint;
+  /** Multicall3 deployment used to aggregate calls (defaults to the canonical address) */
+  multicallAddress?: Address;
+};
+
+export type SettlementQueue = {
+  /**
+   * Queues a verified payment and resolves with its individual settlement result
+   * once the batch containing it is included on-chain
+   */
+  settle: (
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ) => Promise<SettleResponse>;
+  /** Settles every queued payment immediately */
+  flush: () => Promise<void>;
+  /** Number of payments waiting for the next flush */
+  size: () => number;
+};
+
+type QueuedPayment = {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  resolve: (response: SettleResponse) => void;
+  reject: (error: unknown) => void;
+};
+
+type PendingCall = {
+  payment: QueuedPayment;
+  call: SettleCall;
+};
+
+/**
+ * Creates a settlement queue that aggregates many payments into a single transaction
+ *
+ * Queued payments are flushed when `maxBatchSize` is reached or `maxWaitMs` has passed.
+ * EIP-3009 and Permit payments of the exact scheme are re-verified, then submitted together
+ * through Multicall3 `aggregate3` with `allowFailure` so that one bad payment does not revert
+ * the others. Each payment's inclusion is determined from the payer's Transfer event in the
+ * batch receipt. Permit2 and upto payments must be sent by the spender itself, so they are
+ * settled one by one with the same wallet.
+ *
+ * @param wallet - The facilitator wallet that submits the batch transactions
+ * @param options - Batch size, wait time, gas price and Multicall3 address
+ * @returns A SettlementQueue
+ */
+export function createSettlementQueue<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  options: SettlementQueueOptions = {},
+): SettlementQueue {
+  const maxBatchSize = options.maxBatchSize ?? 20;
+  const maxWaitMs = options.maxWaitMs ?? 2000;
+  const gasPrice = options.gasPrice ?? 50000000n; // 0.05 gwei
+  const multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+
+  const queue: QueuedPayment[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Batches are submitted one after another to keep the wallet's nonces in order
+  let flushing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    const run = async () => {
+      while (queue.length > 0) {
+        await settleBatch(queue.splice(0, maxBatchSize));
+      }
+    };
+
+    flushing = flushing.then(run, run);
+    return flushing;
+  };
+
+  const settleBatch = async (batch: QueuedPayment[]): Promise<void> => {
+    const pending: PendingCall[] = [];
+
+    await Promise.all(
+      batch.map(async payment => {
+        try {
+          if (!isBatchable(payment.paymentPayload, payment.paymentRequirements)) {
+            payment.resolve(
+              await settle(
+                wallet as Signer,
+                payment.paymentPayload,
+                payment.paymentRequirements,
+                undefined,
+                gasPrice,
+              ),
+            );
+            return;
+          }
+
+          const prepared = await prepareSettle(
+            wallet,
+            payment.paymentPayload,
+            payment.paymentRequirements,
+          );
+          if ("response" in prepared) {
+            payment.resolve(prepared.response);
+            return;
+          }
+          pending.push({ payment, call: prepared.call });
+        } catch (error) {
+          payment.reject(error);
+        }
+      }),
+    );
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    try {
+      await submit(pending);
+    } catch (error) {
+      pending.forEach(({ payment }) => payment.reject(error));
+    }
+  };
+
+  const submit = async (pending: PendingCall[]): Promise<void> => {
+    // A single call does not need the Multicall3 overhead
+    const tx =
+      pending.length === 1
+        ? await wallet.sendTransaction({
+            to: pending[0].call.to,
+            data: pending[0].call.data,
+            chain: wallet.chain as Chain,
+            gasPrice,
+          })
+        : await wallet.writeContract({
+            address: multicallAddress,
+            abi: multicall3ABI,
+            functionName: "aggregate3",
+            args: [
+              pending.map(({ call }) => ({
+                target: call.to,
+                allowFailure: true,
+                callData: call.data,
+              })),
+            ],
+            chain: wallet.chain as Chain,
+            gasPrice,
+          });
+
+    const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+    const transfers =
+      receipt.status === "success"
+        ? parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs: receipt.logs as Log[] })
+        : [];
+
+    for (const { payment, call } of pending) {
+      // Each Transfer log is matched to at most one payment
+      const index = transfers.findIndex(
+        log =>
+          isAddressEqual(log.address, call.token) &&
+          isAddressEqual(log.args.from, call.payer) &&
+          log.args.value === call.amount,
+      );
+      if (index !== -1) {
+        transfers.splice(index, 1);
+      }
+
+      const breakdown =
+        index !== -1
+          ? decodeSettlementBreakdown(receipt, {
+              asset: call.token,
+              payer: call.payer,
+              payTo: payment.paymentRequirements.payTo as Address,
+              amount: call.amount,
+            })
+          : undefined;
+      payment.resolve(toResponse(payment, call, tx, index !== -1, breakdown));
+    }
+  };
+
+  return {
+    settle: (paymentPayload, paymentRequirements) =>
+      new Promise<SettleResponse>((resolve, reject) => {
+        queue.push({ paymentPayload, paymentRequirements, resolve, reject });
+
+        if (queue.length >= maxBatchSize) {
+          void flush();
+        } else if (!timer) {
+          timer = setTimeout(() => void flush(), maxWaitMs);
+        }
+      }),
+    flush,
+    size: () => queue.length,
+  };
+}
+
+/**
+ * Checks whether a payment's settlement call can be submitted by Multicall3
+ *
+ * @param paymentPayload - The signed payment payload
+ * @param paymentRequirements - The payment requirements
+ * @returns True for exact scheme EIP-3009 and Permit payments on EVM networks, except
+ * counterfactual (ERC-6492) signatures whose wallet may have to be deployed first and
+ * receiveWithAuthorization payments which the payee itself must submit
+ */
+function isBatchable(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): boolean {
+  if (
+    paymentRequirements.scheme !== "exact" ||
+    !SupportedEVMNetworks.includes(paymentRequirements.network)
+  ) {
+    return false;
+  }
+
+  const payload = paymentPayload.payload as ExactEvmPayload;
+  if (payload.authorizationType === "eip3009" && payload.receiveWithAuthorization) {
+    return false;
+  }
+  return (
+    (payload.authorizationType === "eip3009" || payload.authorizationType === "permit") &&
+    !isErc6492Signature(payload.signature as Hex)
+  );
+}
+
+/**
+ * Builds the individual settlement result of a batched payment
+ *
+ * @param payment - The queued payment
+ * @param call - The payment's settlement call
+ * @param transaction - The batch transaction hash
+ * @param included - Whether the payment's transfer was found in the batch receipt
+ * @param breakdown - The payment's settlement breakdown decoded from the batch receipt
+ * @returns The payment's SettleResponse
+ */
+function toResponse(
+  payment: QueuedPayment,
+  call: SettleCall,
+  transaction: Hash,
+  included: boolean,
+  breakdown?: SettlementBreakdown,
+): SettleResponse {
+  return {
+    success: included,
+    ...(!included && { errorReason: "invalid_transaction_state" as const }),
+    transaction,
+    network: payment.paymentPayload.network,
+    payer: call.payer,
+    ...(breakdown && { breakdown }),
+  };
+}
@@ -165,6 +165,17 @@ describe("signPaymentHeader", () => {
     });
   });
 
+  it("should mark the payload when the requirements demand a receiveWithAuthorization", async () => {
+    const client = createTestClient();
+    const result = await signPaymentHeader(
+      client,
+      { ...mockPaymentRequirements, extra: { receiveWithAuthorization: true } },
+      mockUnsignedHeader,
+    );
+
+    expect(result.payload.receiveWithAuthorization).toBe(true);
+  });
+
   it("should preserve all original fields in the signed payload", async () => {
     const client = createTestClient();
     const result = await signPaymentHeader(client, mockPaymentRequirements, mockUnsignedHeader);
@@ -1,11 +1,13 @@
 import { Address, Chain, LocalAccount, Transport } from "viem";
-import { isSignerWallet, SignerWallet } from "../../../../types/shared/evm";
+import type { SmartAccount } from "viem/account-abstraction";
+import { isSignerWallet, SignerWallet, withEvmConfig } from "../../../../types/shared/evm";
+import { X402Config } from "../../../../types/config";
 import {
   PaymentRequirements,
   UnsignedEip3009PaymentPayload,
   Eip3009PaymentPayload,
 } from "../../../../types/verify";
-import { createNonce, signAuthorization } from "./sign";
+import { createNonce, requiresReceiveWithAuthorization, signAuthorization } from "./sign";
 import { encodePayment } from "../utils/paymentUtils";
 
 /**
@@ -51,6 +53,7 @@ export function preparePaymentHeader(
 
 /**
  * Signs an EIP-3009 payment header using the provided client and payment requirements.
+ * Requirements with `extra.receiveWithAuthorization` get a signed receiveWithAuthorization.
  *
  * @param client - The signer wallet instance used to sign the payment header
  * @param paymentRequirements - The payment requirements containing scheme and network information
@@ -58,7 +61,7 @@ export function preparePaymentHeader(
  * @returns A promise that resolves to the signed EIP-3009 payment payload
  */
 export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   paymentRequirements: PaymentRequirements,
   unsignedPaymentHeader: UnsignedEip3009PaymentPayload,
 ): Promise<Eip3009PaymentPayload> {
@@ -72,6 +75,9 @@ export async function signPaymentHeader<transport extends Transport, chain exten
       authorizationType: "eip3009",
       signature,
       authorization,
+      ...(requiresReceiveWithAuthorization(paymentRequirements) && {
+        receiveWithAuthorization: true,
+      }),
     },
   };
 }
@@ -85,7 +91,7 @@ export async function signPaymentHeader<transport extends Transport, chain exten
  * @returns A promise that resolves to the complete signed EIP-3009 payment payload
  */
 export async function createPayment<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
 ): Promise<Eip3009PaymentPayload> {
@@ -100,13 +106,19 @@ export async function createPayment<transport extends Transport, chain extends C
  * @param client - The signer wallet instance used to create the payment header
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A promise that resolves to the encoded EIP-3009 payment header string
  */
 export async function createPaymentHeader(
-  client: SignerWallet | LocalAccount,
+  client: SignerWallet | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  config?: X402Config,
 ): Promise<string> {
-  const payment = await createPayment(client, x402Version, paymentRequirements);
+  const payment = await createPayment(
+    withEvmConfig(client, paymentRequirements.network, config?.evmConfig),
+    x402Version,
+    paymentRequirements,
+  );
   return encodePayment(payment);
 }
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  Address,
+  encodeFunctionData,
+  SimulateContractParameters,
+  verifyTypedData,
+  VerifyTypedDataParameters,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { ConnectedClient } from "../../../../types/shared/evm";
+import { Eip3009PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import { verify } from "./facilitator";
+import { signAuthorization } from "./sign";
+
+const payer = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+const PAY_TO = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 300,
+  asset: TOKEN,
+  extra: { name: "USDC", version: "2", receiveWithAuthorization: true },
+};
+
+/**
+ * Creates a signed EIP-3009 payment for the requirements
+ *
+ * @param paymentRequirements - The payment requirements to sign for
+ * @returns The signed payment payload
+ */
+async function createPayment(
+  paymentRequirements: PaymentRequirements,
+): Promise<Eip3009PaymentPayload> {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: payer.address,
+    to: PAY_TO,
+    value: "1000000",
+    validAfter: (now - 600).toString(),
+    validBefore: (now + 300).toString(),
+    nonce: `0x${"2".repeat(64)}`,
+  };
+  const { signature } = await signAuthorization(payer, authorization, paymentRequirements);
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      authorizationType: "eip3009",
+      signature,
+      authorization,
+      ...(paymentRequirements.extra?.receiveWithAuthorization && {
+        receiveWithAuthorization: true,
+      }),
+    },
+  };
+}
+
+/**
+ * Creates a facilitator client with mocked token reads and simulations
+ *
+ * @param account - The facilitator account
+ * @returns The mocked client
+ */
+function createClient(account?: Address) {
+  const client = {
+    account: account ? { address: account } : undefined,
+    // Recovers the signer locally, so that only payments signed for the verified type are valid
+    verifyTypedData: vi.fn((parameters: VerifyTypedDataParameters) => verifyTypedData(parameters)),
+    readContract: vi.fn(async ({ functionName }: { functionName: string }) =>
+      functionName === "balanceOf" ? 10000000n : false,
+    ),
+    simulateContract: vi.fn(async () => ({ result: undefined })),
+  };
+  return client as unknown as ConnectedClient & {
+    verifyTypedData: typeof client.verifyTypedData;
+    simulateContract: typeof client.simulateContract;
+  };
+}
+
+describe("verify receiveWithAuthorization", () => {
+  it("should reject transferWithAuthorization payments when the requirements demand it", async () => {
+    const payment = await createPayment({ ...requirements, extra: { name: "USDC", version: "2" } });
+
+    expect(await verify(createClient(), payment, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "receive_with_authorization_required",
+    });
+  });
+
+  it("should verify the ReceiveWithAuthorization signature and simulate it from the payee", async () => {
+    const client = createClient(PAY_TO);
+    const payment = await createPayment(requirements);
+
+    expect(await verify(client, payment, requirements, { simulate: true })).toMatchObject({
+      isValid: true,
+      payer: payer.address,
+    });
+    expect(client.verifyTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({ primaryType: "ReceiveWithAuthorization" }),
+    );
+
+    const [call] = client.simulateContract.mock.calls[0] as unknown as [SimulateContractParameters];
+    expect(call.account).toBe(PAY_TO);
+    // receiveWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)
+    expect(encodeFunctionData(call)).toMatch(/^0xef55bec6/);
+  });
+
+  it("should reject facilitators that are not the payee", async () => {
+    const payment = await createPayment(requirements);
+
+    expect(await verify(createClient(payer.address), payment, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "invalid_receive_with_authorization_caller",
+    });
+  });
+});
@@ -16,6 +16,8 @@ import {
   ConnectedClient,
   SignerWallet,
   EIP7702SellerWalletMinimalAbi,
+  receiveAuthorizationTypes,
+  usdcABI,
 } from "../../../../types/shared/evm";
 import {
   PaymentRequirements,
@@ -23,8 +25,25 @@ import {
   VerifyResponse,
   ExactEvmPayload,
   Eip3009PaymentPayload,
+  SettleOptions,
+  VerifyOptions,
 } from "../../../../types/verify";
 import { SCHEME } from "../..";
+import { PreparedSettlement } from "../utils/settleCall";
+import { submitSettlement } from "../utils/submitSettlement";
+import {
+  checkEip3009Nonce,
+  encodeSettleContractCall,
+  SettleContractCall,
+  simulateSettleContractCall,
+} from "../utils/onchainChecks";
+import {
+  checkContractSignatureCall,
+  deployCounterfactualWallet,
+  getCounterfactualDeployment,
+  isContractSignature,
+} from "../utils/contractSignature";
+import { requiresReceiveWithAuthorization } from "./sign";
 
 // ERC165 ABI for supportsInterface
 const ERC165_ABI = [
@@ -63,20 +82,35 @@ const TRANSFER_WITH_AUTHORIZATION_ABI = [
   },
 ] as const;
 
+// Native EIP-3009 receiveWithAuthorization ABI, the caller must be the payee
+// Function selector: 0xef55bec6
+const RECEIVE_WITH_AUTHORIZATION_ABI = [
+  {
+    ...TRANSFER_WITH_AUTHORIZATION_ABI[0],
+    name: "receiveWithAuthorization",
+  },
+] as const;
+
 /**
  * Verifies an EIP-3009 payment payload against the required payment details
  *
  * This function performs several verification steps:
  * - Verifies protocol version compatibility
- * - Validates the permit signature
+ * - Requires a receiveWithAuthorization if the payment requirements demand it
+ * - Validates the permit signature (ERC-1271 and ERC-6492 for smart contract wallets)
  * - Confirms USDC contract address is correct for the chain
  * - Checks permit deadline is sufficiently in the future
+ * - Checks the authorization nonce has not been used (authorizationState)
  * - Verifies client has sufficient USDC balance
  * - Ensures payment amount meets required minimum
+ * - Checks a receiveWithAuthorization is submitted by the payee
+ * - Checks the token accepts contract wallet signatures as bytes
+ * - Optionally simulates the settlement call
  *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param options - Optional verification options (simulate)
  * @returns A ValidPaymentRequest indicating if the payment is valid and any invalidation reason
  */
 export async function verify<
@@ -87,6 +121,7 @@ export async function verify<
   client: ConnectedClient<transport, chain, account>,
   payload: Eip3009PaymentPayload,
   paymentRequirements: PaymentRequirements,
+  options: VerifyOptions = {},
 ): Promise<VerifyResponse> {
   const exactEvmPayload = payload.payload as ExactEvmPayload;
 
@@ -105,7 +140,7 @@ export async function verify<
     - ✅ verify usdc address is correct for the chain
     - ✅ verify permit signature
     - ✅ verify deadline
-    - verify nonce is current
+    - ✅ verify nonce is current
     - ✅ verify client has enough funds to cover paymentRequirements.maxAmountRequired
     - ✅ verify value in payload is enough to cover paymentRequirements.maxAmountRequired
     - check min amount is above some threshold we think is reasonable for covering gas
@@ -121,6 +156,16 @@ export async function verify<
     };
   }
 
+  // Verify the payment cannot be front-run if the requirements demand a receiveWithAuthorization
+  const receiveWithAuthorization = exactEvmPayload.receiveWithAuthorization === true;
+  if (requiresReceiveWithAuthorization(paymentRequirements) && !receiveWithAuthorization) {
+    return {
+      isValid: false,
+      invalidReason: "receive_with_authorization_required",
+      payer: exactEvmPayload.authorization.from,
+    };
+  }
+
   let name: string;
   let chainId: number;
   let erc20Address: Address;
@@ -139,8 +184,6 @@ export async function verify<
   }
   // Verify permit signature is recoverable for the owner address
   const permitTypedData = {
-    types: authorizationTypes,
-    primaryType: "TransferWithAuthorization" as const,
     domain: {
       name,
       version,
@@ -159,6 +202,9 @@ export async function verify<
   const recoveredAddress = await client.verifyTypedData({
     address: exactEvmPayload.authorization.from as Address,
     ...permitTypedData,
+    ...(receiveWithAuthorization
+      ? { types: receiveAuthorizationTypes, primaryType: "ReceiveWithAuthorization" as const }
+      : { types: authorizationTypes, primaryType: "TransferWithAuthorization" as const }),
     signature: exactEvmPayload.signature as Hex,
   });
   if (!recoveredAddress) {
@@ -178,6 +224,22 @@ export async function verify<
     };
   }
 
+  // receiveWithAuthorization reverts unless the payee submits it
+  if (
+    receiveWithAuthorization &&
+    client.account &&
+    getAddress(client.account.address) !== getAddress(paymentRequirements.payTo)
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_receive_with_authorization_caller",
+      payer: exactEvmPayload.authorization.from,
+    };
+  }
+  const sender = receiveWithAuthorization
+    ? getAddress(paymentRequirements.payTo)
+    : client.account?.address;
+
   // Verify deadline is not yet expired
   // Pad 3 block to account for round tripping
   if (
@@ -197,6 +259,20 @@ export async function verify<
       payer: exactEvmPayload.authorization.from,
     };
   }
+  // Verify the authorization has not been used or canceled
+  const nonceReason = await checkEip3009Nonce(
+    client,
+    erc20Address,
+    exactEvmPayload.authorization.from as Address,
+    exactEvmPayload.authorization.nonce as Hex,
+  );
+  if (nonceReason) {
+    return {
+      isValid: false,
+      invalidReason: nonceReason,
+      payer: exactEvmPayload.authorization.from,
+    };
+  }
   // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
   const balance = await getERC20Balance(
     client,
@@ -218,6 +294,45 @@ export async function verify<
       payer: exactEvmPayload.authorization.from,
     };
   }
+  // Tokens that only accept v/r/s signatures cannot settle contract wallet signatures
+  if (isContractSignature(exactEvmPayload.signature as Hex)) {
+    const signatureReason = await checkContractSignatureCall(
+      client,
+      await getSettleContractCall(client, payload, paymentRequirements),
+      exactEvmPayload.authorization.from as Address,
+      exactEvmPayload.signature as Hex,
+      sender,
+    );
+    if (signatureReason) {
+      return {
+        isValid: false,
+        invalidReason: signatureReason,
+        payer: exactEvmPayload.authorization.from,
+      };
+    }
+  }
+  // Verify the exact settlement call would succeed, it can only run once the payer's wallet is deployed
+  if (
+    options.simulate &&
+    !(await getCounterfactualDeployment(
+      client,
+      exactEvmPayload.authorization.from as Address,
+      exactEvmPayload.signature as Hex,
+    ))
+  ) {
+    const simulationReason = await simulateSettleContractCall(
+      client,
+      await getSettleContractCall(client, payload, paymentRequirements),
+      sender,
+    );
+    if (simulationReason) {
+      return {
+        isValid: false,
+        invalidReason: simulationReason,
+        payer: exactEvmPayload.authorization.from,
+      };
+    }
+  }
   return {
     isValid: true,
     invalidReason: undefined,
@@ -226,33 +341,35 @@ export async function verify<
 }
 
 /**
- * Settles an EIP-3009 payment by executing a USDC transferWithAuthorization transaction
+ * Prepares the settlement call for an EIP-3009 payment without submitting it
  *
- * This function executes the actual USDC transfer using the signed authorization from the user.
- * The facilitator wallet submits the transaction but does not need to hold or transfer any tokens itself.
+ * Re-verifies the payment and encodes either the 7702 seller wallet's settleWithERC3009
+ * or the token's native transferWithAuthorization (receiveWithAuthorization if the payment
+ * was signed for it). The call can be sent on its own or aggregated with other payments
+ * through Multicall3, except receiveWithAuthorization which must be sent by the payee.
  *
- * @param wallet - The facilitator wallet that will submit the transaction
+ * @param wallet - The facilitator wallet used to re-verify the payment
  * @param paymentPayload - The signed payment payload containing the transfer parameters and signature
  * @param paymentRequirements - The original payment details that were used to create the payload
- * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
- * @returns A PaymentExecutionResponse containing the transaction status and hash
+ * @returns The settlement call, or a failed SettleResponse if the payment can no longer be settled
  */
-export async function settle<transport extends Transport, chain extends Chain>(
+export async function prepareSettle<transport extends Transport, chain extends Chain>(
   wallet: SignerWallet<chain, transport>,
   paymentPayload: Eip3009PaymentPayload,
   paymentRequirements: PaymentRequirements,
-  gasPrice: bigint = 50000000n, // 0.05 gwei
-): Promise<SettleResponse> {
+): Promise<PreparedSettlement> {
   const payload = paymentPayload.payload as ExactEvmPayload;
 
   // Verify this is EIP-3009
   if (payload.authorizationType !== "eip3009") {
     return {
-      success: false,
-      errorReason: "unsupported_authorization_type",
-      transaction: "",
-      network: paymentPayload.network,
-      payer: "",
+      response: {
+        success: false,
+        errorReason: "unsupported_authorization_type",
+        transaction: "",
+        network: paymentPayload.network,
+        payer: "",
+      },
     };
   }
 
@@ -261,29 +378,89 @@ export async function settle<transport extends Transport, chain extends Chain>(
 
   if (!valid.isValid) {
     return {
-      success: false,
-      network: paymentPayload.network,
-      transaction: "",
-      errorReason: valid.invalidReason ?? "invalid_scheme", //`Payment is no longer valid: ${valid.invalidReason}`,
-      payer: payload.authorization.from,
+      response: {
+        success: false,
+        network: paymentPayload.network,
+        transaction: "",
+        errorReason: valid.invalidReason ?? "invalid_scheme", //`Payment is no longer valid: ${valid.invalidReason}`,
+        payer: payload.authorization.from,
+      },
     };
   }
 
+  const contractCall = await getSettleContractCall(wallet, paymentPayload, paymentRequirements);
+  return {
+    call: {
+      to: contractCall.address,
+      data: encodeSettleContractCall(contractCall),
+      token: paymentRequirements.asset as Address,
+      payer: payload.authorization.from as Address,
+      amount: BigInt(payload.authorization.value),
+    },
+  };
+}
+
+/**
+ * Builds the settlement call of an EIP-3009 payment: the 7702 seller wallet's settleWithERC3009
+ * if payTo supports it, otherwise the token's native transferWithAuthorization.
+ * Contract wallet signatures always use the token's bytes transferWithAuthorization overload.
+ * receiveWithAuthorization payments always call the token, which checks the payee is the caller.
+ *
+ * @param client - The client used to check the seller interface
+ * @param paymentPayload - The signed payment payload containing the transfer parameters and signature
+ * @param paymentRequirements - The payment requirements
+ * @returns The settlement call
+ */
+async function getSettleContractCall<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  paymentPayload: Eip3009PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleContractCall> {
+  const payload = paymentPayload.payload;
+
   // Returns the original signature (no-op) if the signature is not a 6492 signature
   const { signature } = parseErc6492Signature(payload.signature as Hex);
 
+  const functionName = payload.receiveWithAuthorization
+    ? "receiveWithAuthorization"
+    : "transferWithAuthorization";
+
+  // settleWithERC3009 only takes v/r/s, contract wallet signatures are passed to the token as bytes
+  if (isContractSignature(payload.signature as Hex)) {
+    return {
+      address: paymentRequirements.asset as Address,
+      abi: usdcABI,
+      functionName,
+      args: [
+        payload.authorization.from as Address, // from
+        paymentRequirements.payTo as Address, // to (payment recipient)
+        BigInt(payload.authorization.value), // value
+        BigInt(payload.authorization.validAfter), // validAfter
+        BigInt(payload.authorization.validBefore), // validBefore
+        payload.authorization.nonce as Hex, // nonce
+        signature, // signature (bytes)
+      ],
+    };
+  }
+
   // Check if payTo address supports settleWithERC3009 interface (ERC165)
   let supportsSettleWithERC3009 = false;
-  try {
-    supportsSettleWithERC3009 = await wallet.readContract({
-      address: paymentRequirements.payTo as Address,
-      abi: ERC165_ABI,
-      functionName: "supportsInterface",
-      args: [SETTLE_WITH_ERC3009_INTERFACE_ID],
-    });
-  } catch {
-    // If ERC165 check fails, assume it doesn't support the interface
-    supportsSettleWithERC3009 = false;
+  if (!payload.receiveWithAuthorization) {
+    try {
+      supportsSettleWithERC3009 = await client.readContract({
+        address: paymentRequirements.payTo as Address,
+        abi: ERC165_ABI,
+        functionName: "supportsInterface",
+        args: [SETTLE_WITH_ERC3009_INTERFACE_ID],
+      });
+    } catch {
+      // If ERC165 check fails, assume it doesn't support the interface
+      supportsSettleWithERC3009 = false;
+    }
   }
 
   // 拆分签名为 v, r, s（两种调用方式都需要）
@@ -292,14 +469,11 @@ export async function settle<transport extends Transport, chain extends Chain>(
   const r = sig.r;
   const s = sig.s;
 
-  let tx: Hex;
-
   if (supportsSettleWithERC3009) {
-    // console.log("走了合约");
     // Use 7702 contract call with settleWithERC3009
     // 调用 7702 合约的 settleWithERC3009 方法
     // 7702 合约会处理 transferWithAuthorization，并自动收取手续费
-    tx = await wallet.writeContract({
+    return {
       address: paymentRequirements.payTo as Address,
       abi: EIP7702SellerWalletMinimalAbi,
       functionName: "settleWithERC3009",
@@ -314,49 +488,80 @@ export async function settle<transport extends Transport, chain extends Chain>(
         r, // r (bytes32)
         s, // s (bytes32)
       ],
-      chain: wallet.chain as Chain,
-      gasPrice,
-    });
-  } else {
-    // console.log("没走合约");
-    // Use native EIP-3009 transferWithAuthorization
-    // Call transferWithAuthorization on the token contract directly
-    tx = await wallet.writeContract({
-      address: paymentRequirements.asset as Address,
-      abi: TRANSFER_WITH_AUTHORIZATION_ABI,
-      functionName: "transferWithAuthorization",
-      args: [
-        payload.authorization.from as Address, // from
-        paymentRequirements.payTo as Address, // to (payment recipient)
-        BigInt(payload.authorization.value), // value
-        BigInt(payload.authorization.validAfter), // validAfter
-        BigInt(payload.authorization.validBefore), // validBefore
-        payload.authorization.nonce as Hex, // nonce
-        v, // v (uint8)
-        r, // r (bytes32)
-        s, // s (bytes32)
-      ],
-      chain: wallet.chain as Chain,
-      gasPrice,
-    });
+    };
   }
 
-  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  // Use native EIP-3009 transferWithAuthorization (or receiveWithAuthorization)
+  // Call transferWithAuthorization on the token contract directly
+  return {
+    address: paymentRequirements.asset as Address,
+    abi: payload.receiveWithAuthorization
+      ? RECEIVE_WITH_AUTHORIZATION_ABI
+      : TRANSFER_WITH_AUTHORIZATION_ABI,
+    functionName,
+    args: [
+      payload.authorization.from as Address, // from
+      paymentRequirements.payTo as Address, // to (payment recipient)
+      BigInt(payload.authorization.value), // value
+      BigInt(payload.authorization.validAfter), // validAfter
+      BigInt(payload.authorization.validBefore), // validBefore
+      payload.authorization.nonce as Hex, // nonce
+      v, // v (uint8)
+      r, // r (bytes32)
+      s, // s (bytes32)
+    ],
+  };
+}
 
-  if (receipt.status !== "success") {
-    return {
-      success: false,
-      errorReason: "invalid_transaction_state", //`Transaction failed`,
-      transaction: tx,
-      network: paymentPayload.network,
-      payer: payload.authorization.from,
-    };
+/**
+ * Settles an EIP-3009 payment by executing a USDC transferWithAuthorization transaction
+ *
+ * This function executes the actual USDC transfer using the signed authorization from the user.
+ * The facilitator wallet submits the transaction but does not need to hold or transfer any tokens itself.
+ * A smart wallet that signed with an ERC-6492 counterfactual signature is deployed first.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The signed payment payload containing the transfer parameters and signature
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param options - Optional settlement options (waitUntil, onConfirmed)
+ * @returns A PaymentExecutionResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: Eip3009PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  gasPrice: bigint = 50000000n, // 0.05 gwei
+  options: SettleOptions = {},
+): Promise<SettleResponse> {
+  const prepared = await prepareSettle(wallet, paymentPayload, paymentRequirements);
+  if ("response" in prepared) {
+    return prepared.response;
   }
 
-  return {
-    success: true,
-    transaction: tx,
+  const { call } = prepared;
+  const context = {
     network: paymentPayload.network,
-    payer: payload.authorization.from,
+    payer: call.payer,
+    breakdown: {
+      asset: call.token,
+      payer: call.payer,
+      payTo: paymentRequirements.payTo as Address,
+    },
+    revertedReason: "invalid_transaction_state" as const,
   };
+
+  // Counterfactual smart wallets must be deployed before the token can check their signature
+  const deployment = await deployCounterfactualWallet(
+    wallet,
+    paymentPayload.payload.signature as Hex,
+    gasPrice,
+    context,
+    options,
+  );
+  if (deployment) {
+    return deployment;
+  }
+
+  return submitSettlement(wallet, call, gasPrice, context, options);
 }
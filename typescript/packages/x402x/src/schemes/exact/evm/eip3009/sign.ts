@@ -1,9 +1,14 @@
 import { Chain, getAddress, Hex, LocalAccount, toHex, Transport } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import { getNetworkId } from "../../../../shared";
 import {
+  authorizationPrimaryType,
   authorizationTypes,
   isAccount,
   isSignerWallet,
+  isSmartAccount,
+  receiveAuthorizationPrimaryType,
+  receiveAuthorizationTypes,
   SignerWallet,
 } from "../../../../types/shared/evm";
 import { ExactEvmPayloadAuthorization, PaymentRequirements } from "../../../../types/verify";
@@ -11,6 +16,9 @@ import { ExactEvmPayloadAuthorization, PaymentRequirements } from "../../../../t
 /**
  * Signs an EIP-3009 authorization for USDC transfer
  *
+ * With `receiveWithAuthorization` the ReceiveWithAuthorization typed data is signed instead of
+ * TransferWithAuthorization, so that only the payee can submit the transfer.
+ *
  * @param walletClient - The wallet client that will sign the authorization
  * @param params - The authorization parameters containing transfer details
  * @param params.from - The address tokens will be transferred from
@@ -23,34 +31,43 @@ import { ExactEvmPayloadAuthorization, PaymentRequirements } from "../../../../t
  * @param paymentRequirements.asset - The address of the USDC contract
  * @param paymentRequirements.network - The network where the USDC contract exists
  * @param paymentRequirements.extra - The extra information containing the name and version of the ERC20 contract
+ * @param receiveWithAuthorization - Whether to sign a ReceiveWithAuthorization, defaults to the payment requirements' `extra.receiveWithAuthorization`
  * @returns The signature for the authorization
  */
 export async function signAuthorization<transport extends Transport, chain extends Chain>(
-  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  walletClient: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   { from, to, value, validAfter, validBefore, nonce }: ExactEvmPayloadAuthorization,
-  { asset, network, extra }: PaymentRequirements,
+  paymentRequirements: PaymentRequirements,
+  receiveWithAuthorization = requiresReceiveWithAuthorization(paymentRequirements),
 ): Promise<{ signature: Hex }> {
+  const { asset, network, extra } = paymentRequirements;
   const chainId = getNetworkId(network);
   const name = extra?.name;
   const version = extra?.version;
 
+  const domain = {
+    name,
+    version,
+    chainId,
+    verifyingContract: getAddress(asset),
+  };
+  const message = {
+    from: getAddress(from),
+    to: getAddress(to),
+    value: value,
+    validAfter: validAfter,
+    validBefore: validBefore,
+    nonce: nonce,
+  };
+  const types: Record<string, typeof authorizationTypes.TransferWithAuthorization> =
+    receiveWithAuthorization ? receiveAuthorizationTypes : authorizationTypes;
   const data = {
-    types: authorizationTypes,
-    domain: {
-      name,
-      version,
-      chainId,
-      verifyingContract: getAddress(asset),
-    },
-    primaryType: "TransferWithAuthorization" as const,
-    message: {
-      from: getAddress(from),
-      to: getAddress(to),
-      value: value,
-      validAfter: validAfter,
-      validBefore: validBefore,
-      nonce: nonce,
-    },
+    types,
+    domain,
+    primaryType: receiveWithAuthorization
+      ? receiveAuthorizationPrimaryType
+      : authorizationPrimaryType,
+    message,
   };
 
   if (isSignerWallet(walletClient)) {
@@ -58,7 +75,10 @@ export async function signAuthorization<transport extends Transport, chain exten
     return {
       signature,
     };
-  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+  } else if (
+    (isAccount(walletClient) || isSmartAccount(walletClient)) &&
+    walletClient.signTypedData
+  ) {
     const signature = await walletClient.signTypedData(data);
     return {
       signature,
@@ -68,6 +88,19 @@ export async function signAuthorization<transport extends Transport, chain exten
   }
 }
 
+/**
+ * Checks whether the payment requirements demand a receiveWithAuthorization, which prevents
+ * anyone but the payee from front-running the settlement with the signed payload
+ *
+ * @param paymentRequirements - The payment requirements
+ * @returns True if `extra.receiveWithAuthorization` is set
+ */
+export function requiresReceiveWithAuthorization(
+  paymentRequirements: PaymentRequirements,
+): boolean {
+  return paymentRequirements.extra?.receiveWithAuthorization === true;
+}
+
 /**
  * Generates a random 32-byte nonce for use in authorization signatures
  *
@@ -9,10 +9,14 @@ import {
   Eip3009PaymentPayload,
   PermitPaymentPayload,
   Permit2PaymentPayload,
+  SettleOptions,
+  VerifyOptions,
 } from "../../../types/verify";
 import * as eip3009Facilitator from "./eip3009/facilitator";
 import * as permitFacilitator from "./permit/facilitator";
 import * as permit2Facilitator from "./permit2/facilitator";
+import { PreparedSettlement } from "./utils/settleCall";
+import { normalizePaymentSignatures } from "./utils/contractSignature";
 
 // Export all three authorization types
 export * as eip3009 from "./eip3009";
@@ -22,6 +26,10 @@ export * as permit2 from "./permit2";
 // Export utilities
 export * from "./utils/paymentUtils";
 export * from "./utils/tokenDetection";
+export * from "./utils/settleCall";
+export * from "./utils/submitSettlement";
+export * from "./utils/onchainChecks";
+export * from "./utils/contractSignature";
 
 /**
  * Unified verify function that routes to the appropriate authorization type handler
@@ -29,6 +37,7 @@ export * from "./utils/tokenDetection";
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload
  * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param options - Optional verification options (simulate)
  * @returns A VerifyResponse indicating if the payment is valid
  */
 export async function verify<
@@ -39,7 +48,9 @@ export async function verify<
   client: ConnectedClient<transport, chain, account>,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
+  options: VerifyOptions = {},
 ): Promise<VerifyResponse> {
+  payload = await normalizePaymentSignatures(client, payload);
   const exactEvmPayload = payload.payload as ExactEvmPayload;
 
   // Route to appropriate verification based on authorization type
@@ -49,16 +60,23 @@ export async function verify<
         client,
         payload as Eip3009PaymentPayload,
         paymentRequirements,
+        options,
       );
 
     case "permit":
-      return permitFacilitator.verify(client, payload as PermitPaymentPayload, paymentRequirements);
+      return permitFacilitator.verify(
+        client,
+        payload as PermitPaymentPayload,
+        paymentRequirements,
+        options,
+      );
 
     case "permit2":
       return permit2Facilitator.verify(
         client,
         payload as Permit2PaymentPayload,
         paymentRequirements,
+        options,
       );
 
     default:
@@ -77,6 +95,7 @@ export async function verify<
  * @param paymentPayload - The signed payment payload
  * @param paymentRequirements - The payment requirements
  * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param options - Optional settlement options (waitUntil, onConfirmed)
  * @returns A SettleResponse containing the transaction status and hash
  */
 export async function settle<transport extends Transport, chain extends Chain>(
@@ -84,7 +103,9 @@ export async function settle<transport extends Transport, chain extends Chain>(
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   gasPrice: bigint = 50000000n, // 0.05 gwei
+  options: SettleOptions = {},
 ): Promise<SettleResponse> {
+  paymentPayload = await normalizePaymentSignatures(wallet, paymentPayload);
   const payload = paymentPayload.payload as ExactEvmPayload;
 
   // Route to appropriate settlement based on authorization type
@@ -95,6 +116,7 @@ export async function settle<transport extends Transport, chain extends Chain>(
         paymentPayload as Eip3009PaymentPayload,
         paymentRequirements,
         gasPrice,
+        options,
       );
 
     case "permit":
@@ -103,6 +125,7 @@ export async function settle<transport extends Transport, chain extends Chain>(
         paymentPayload as PermitPaymentPayload,
         paymentRequirements,
         gasPrice,
+        options,
       );
 
     case "permit2":
@@ -111,6 +134,7 @@ export async function settle<transport extends Transport, chain extends Chain>(
         paymentPayload as Permit2PaymentPayload,
         paymentRequirements,
         gasPrice,
+        options,
       );
 
     default:
@@ -123,3 +147,51 @@ export async function settle<transport extends Transport, chain extends Chain>(
       };
   }
 }
+
+/**
+ * Unified prepareSettle function for authorization types whose settlement call can be
+ * submitted by any sender, so that it can be aggregated with other payments
+ *
+ * Only EIP-3009 and Permit are supported. Permit2 transfers must be sent by the spender
+ * itself and are reported as unsupported_authorization_type.
+ *
+ * @param wallet - The facilitator wallet used to re-verify the payment
+ * @param paymentPayload - The signed payment payload
+ * @param paymentRequirements - The payment requirements
+ * @returns The settlement call, or a failed SettleResponse if the payment cannot be settled
+ */
+export async function prepareSettle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<PreparedSettlement> {
+  paymentPayload = await normalizePaymentSignatures(wallet, paymentPayload);
+  const payload = paymentPayload.payload as ExactEvmPayload;
+
+  switch (payload.authorizationType) {
+    case "eip3009":
+      return eip3009Facilitator.prepareSettle(
+        wallet,
+        paymentPayload as Eip3009PaymentPayload,
+        paymentRequirements,
+      );
+
+    case "permit":
+      return permitFacilitator.prepareSettle(
+        wallet,
+        paymentPayload as PermitPaymentPayload,
+        paymentRequirements,
+      );
+
+    default:
+      return {
+        response: {
+          success: false,
+          errorReason: "unsupported_authorization_type",
+          transaction: "",
+          network: paymentPayload.network,
+          payer: "",
+        },
+      };
+  }
+}
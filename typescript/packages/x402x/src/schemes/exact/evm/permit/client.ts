@@ -1,5 +1,7 @@
 import { Address, Chain, LocalAccount, Transport } from "viem";
-import { isSignerWallet, SignerWallet } from "../../../../types/shared/evm";
+import type { SmartAccount } from "viem/account-abstraction";
+import { isSignerWallet, SignerWallet, withEvmConfig } from "../../../../types/shared/evm";
+import { X402Config } from "../../../../types/config";
 import {
   PaymentRequirements,
   UnsignedPermitPaymentPayload,
@@ -51,7 +53,7 @@ export function preparePaymentHeader(
  * @returns A promise that resolves to the signed Permit payment payload
  */
 export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   paymentRequirements: PaymentRequirements,
   unsignedPaymentHeader: UnsignedPermitPaymentPayload,
 ): Promise<PermitPaymentPayload> {
@@ -88,7 +90,7 @@ export async function signPaymentHeader<transport extends Transport, chain exten
  * @returns A promise that resolves to the complete signed Permit payment payload
  */
 export async function createPayment<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
 ): Promise<PermitPaymentPayload> {
@@ -103,13 +105,19 @@ export async function createPayment<transport extends Transport, chain extends C
  * @param client - The signer wallet instance used to create the payment header
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A promise that resolves to the encoded payment header string
  */
 export async function createPaymentHeader(
-  client: SignerWallet | LocalAccount,
+  client: SignerWallet | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  config?: X402Config,
 ): Promise<string> {
-  const payment = await createPayment(client, x402Version, paymentRequirements);
+  const payment = await createPayment(
+    withEvmConfig(client, paymentRequirements.network, config?.evmConfig),
+    x402Version,
+    paymentRequirements,
+  );
   return encodePayment(payment);
 }
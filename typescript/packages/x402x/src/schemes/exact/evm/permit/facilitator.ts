@@ -10,11 +10,22 @@ import {
 import {
   PaymentRequirements,
   PermitPaymentPayload,
+  SettleOptions,
   SettleResponse,
+  VerifyOptions,
   VerifyResponse,
 } from "../../../../types/verify";
 import { SCHEME } from "../..";
 import { splitSignature } from "./sign";
+import { PreparedSettlement } from "../utils/settleCall";
+import { submitSettlement } from "../utils/submitSettlement";
+import {
+  checkPermitNonce,
+  encodeSettleContractCall,
+  SettleContractCall,
+  simulateSettleContractCall,
+} from "../utils/onchainChecks";
+import { isContractSignature } from "../utils/contractSignature";
 import { EIP7702SellerWalletMinimalAbi } from "../../../../types/shared/evm";
 
 // ERC165 ABI for supportsInterface
@@ -35,9 +46,14 @@ const SETTLE_WITH_PERMIT_INTERFACE_ID = "0x02ccc23e" as const;
 /**
  * Verifies an EIP-2612 Permit payment payload
  *
+ * Checks the permit nonce is the owner's current nonce and, with `options.simulate`,
+ * simulates the settleWithPermit call. Smart contract wallet signatures are verified with
+ * ERC-1271, but rejected since settleWithPermit only accepts v/r/s signatures.
+ *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing permit parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param options - Optional verification options (simulate)
  * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
  */
 export async function verify<
@@ -48,6 +64,7 @@ export async function verify<
   client: ConnectedClient<transport, chain, account>,
   payload: PermitPaymentPayload,
   paymentRequirements: PaymentRequirements,
+  options: VerifyOptions = {},
 ): Promise<VerifyResponse> {
   // Validate payload has correct authorizationType
   if (
@@ -122,6 +139,15 @@ export async function verify<
     };
   }
 
+  // settleWithPermit only takes v/r/s, contract wallet signatures cannot be settled
+  if (isContractSignature(permitPayload.signature as Hex)) {
+    return {
+      isValid: false,
+      invalidReason: "contract_signature_unsupported",
+      payer: owner,
+    };
+  }
+
   // Verify deadline hasn't passed
   const now = Math.floor(Date.now() / 1000);
   if (BigInt(deadline) < now) {
@@ -166,6 +192,16 @@ export async function verify<
     };
   }
 
+  // Verify the permit nonce has not been used and can be submitted now
+  const nonceReason = await checkPermitNonce(client, erc20Address, owner as Address, BigInt(nonce));
+  if (nonceReason) {
+    return {
+      isValid: false,
+      invalidReason: nonceReason,
+      payer: owner,
+    };
+  }
+
   // Verify owner has sufficient balance
   const balance = await getERC20Balance(client, erc20Address, owner as Address);
   if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
@@ -185,6 +221,22 @@ export async function verify<
     };
   }
 
+  // Verify the settleWithPermit call would succeed
+  if (options.simulate) {
+    const simulationReason = await simulateSettleContractCall(
+      client,
+      getSettleContractCall(payload, paymentRequirements),
+      client.account?.address,
+    );
+    if (simulationReason) {
+      return {
+        isValid: false,
+        invalidReason: simulationReason,
+        payer: owner,
+      };
+    }
+  }
+
   return {
     isValid: true,
     payer: owner,
@@ -192,29 +244,29 @@ export async function verify<
 }
 
 /**
- * Settles an EIP-2612 Permit payment by calling permit() then transferFrom()
+ * Prepares the settleWithPermit call for an EIP-2612 Permit payment without submitting it
  *
- * @param wallet - The facilitator wallet that will execute the permit and transfer
+ * @param wallet - The facilitator wallet used to re-verify the payment
  * @param paymentPayload - The signed payment payload containing permit parameters and signature
  * @param paymentRequirements - The payment requirements
- * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
- * @returns A SettleResponse containing the transaction status and hash
+ * @returns The settlement call, or a failed SettleResponse if the payment can no longer be settled
  */
-export async function settle<transport extends Transport, chain extends Chain>(
+export async function prepareSettle<transport extends Transport, chain extends Chain>(
   wallet: SignerWallet<chain, transport>,
   paymentPayload: PermitPaymentPayload,
   paymentRequirements: PaymentRequirements,
-  gasPrice: bigint = 50000000n, // 0.05 gwei
-): Promise<SettleResponse> {
+): Promise<PreparedSettlement> {
   const permitPayload = paymentPayload.payload;
 
   if (permitPayload.authorizationType !== "permit") {
     return {
-      success: false,
-      errorReason: "invalid_authorization_type",
-      transaction: "",
-      network: paymentPayload.network,
-      payer: "",
+      response: {
+        success: false,
+        errorReason: "invalid_authorization_type",
+        transaction: "",
+        network: paymentPayload.network,
+        payer: "",
+      },
     };
   }
 
@@ -223,26 +275,51 @@ export async function settle<transport extends Transport, chain extends Chain>(
 
   if (!valid.isValid) {
     return {
-      success: false,
-      network: paymentPayload.network,
-      transaction: "",
-      errorReason: valid.invalidReason ?? "invalid_payment",
-      payer: permitPayload.authorization.owner,
+      response: {
+        success: false,
+        network: paymentPayload.network,
+        transaction: "",
+        errorReason: valid.invalidReason ?? "invalid_payment",
+        payer: permitPayload.authorization.owner,
+      },
     };
   }
 
-  const { owner, value, deadline } = permitPayload.authorization;
-  const { v, r, s } = splitSignature(permitPayload.signature as Hex);
-  const tokenAddress = paymentRequirements.asset as Address;
+  const { owner, value } = permitPayload.authorization;
+  const contractCall = getSettleContractCall(paymentPayload, paymentRequirements);
+  return {
+    call: {
+      to: contractCall.address,
+      data: encodeSettleContractCall(contractCall),
+      token: paymentRequirements.asset as Address,
+      payer: owner as Address,
+      amount: BigInt(value),
+    },
+  };
+}
+
+/**
+ * Builds the settleWithPermit call of an EIP-2612 Permit payment
+ *
+ * @param paymentPayload - The signed payment payload containing permit parameters and signature
+ * @param paymentRequirements - The payment requirements
+ * @returns The settlement call
+ */
+function getSettleContractCall(
+  paymentPayload: PermitPaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): SettleContractCall {
+  const { owner, value, deadline } = paymentPayload.payload.authorization;
+  const { v, r, s } = splitSignature(paymentPayload.payload.signature as Hex);
 
   // 调用 7702 合约的 settleWithPermit 方法
   // 7702 合约会处理 permit 和 transfer，并自动收取手续费
-  const transactionHash = await wallet.writeContract({
+  return {
     address: paymentRequirements.payTo as Address,
     abi: EIP7702SellerWalletMinimalAbi,
     functionName: "settleWithPermit",
     args: [
-      tokenAddress, // token
+      paymentRequirements.asset as Address, // token
       owner as Address, // payer
       BigInt(value), // amount
       BigInt(deadline), // deadline
@@ -250,27 +327,45 @@ export async function settle<transport extends Transport, chain extends Chain>(
       r, // r
       s, // s
     ],
-    chain: wallet.chain as Chain,
-    gasPrice,
-  });
-
-  // 等待交易确认
-  const receipt = await wallet.waitForTransactionReceipt({ hash: transactionHash });
+  };
+}
 
-  if (receipt.status !== "success") {
-    return {
-      success: false,
-      errorReason: "transaction_failed",
-      transaction: transactionHash,
-      network: paymentPayload.network,
-      payer: owner,
-    };
+/**
+ * Settles an EIP-2612 Permit payment by calling permit() then transferFrom()
+ *
+ * @param wallet - The facilitator wallet that will execute the permit and transfer
+ * @param paymentPayload - The signed payment payload containing permit parameters and signature
+ * @param paymentRequirements - The payment requirements
+ * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param options - Optional settlement options (waitUntil, onConfirmed)
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PermitPaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  gasPrice: bigint = 50000000n, // 0.05 gwei
+  options: SettleOptions = {},
+): Promise<SettleResponse> {
+  const prepared = await prepareSettle(wallet, paymentPayload, paymentRequirements);
+  if ("response" in prepared) {
+    return prepared.response;
   }
 
-  return {
-    success: true,
-    transaction: transactionHash,
-    network: paymentPayload.network,
-    payer: owner,
-  };
+  const { call } = prepared;
+  return submitSettlement(
+    wallet,
+    call,
+    gasPrice,
+    {
+      network: paymentPayload.network,
+      payer: call.payer,
+      breakdown: {
+        asset: call.token,
+        payer: call.payer,
+        payTo: paymentRequirements.payTo as Address,
+      },
+    },
+    options,
+  );
 }
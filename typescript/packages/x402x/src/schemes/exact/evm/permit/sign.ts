@@ -1,8 +1,10 @@
 import { Chain, getAddress, Hex, LocalAccount, Transport } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import { getNetworkId } from "../../../../shared";
 import {
   permitTypes,
   erc20PermitABI,
+  getSignerClient,
   isSignerWallet,
   SignerWallet,
 } from "../../../../types/shared/evm";
@@ -24,38 +26,35 @@ import { getVersion } from "../../../../shared/evm/usdc";
  * @returns The signature and nonce for the permit
  */
 export async function signPermit<transport extends Transport, chain extends Chain>(
-  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  walletClient: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   { owner, spender, value, deadline }: Omit<PermitEvmPayloadAuthorization, "nonce">,
   { asset, network }: PaymentRequirements,
 ): Promise<{ signature: Hex; nonce: string }> {
   const chainId = getNetworkId(network);
   const tokenAddress = getAddress(asset);
 
-  // Get the current nonce for the owner
-  let nonce: bigint;
-  let name: string;
-  let version: string;
-
-  if (isSignerWallet(walletClient)) {
-    // Get nonce, name, and version in parallel
-    [nonce, name, version] = await Promise.all([
-      walletClient.readContract({
-        address: tokenAddress,
-        abi: erc20PermitABI,
-        functionName: "nonces",
-        args: [getAddress(owner)],
-      }) as Promise<bigint>,
-      walletClient.readContract({
-        address: tokenAddress,
-        abi: erc20PermitABI,
-        functionName: "name",
-      }) as Promise<string>,
-      getVersion(walletClient, tokenAddress),
-    ]);
-  } else {
+  // Smart accounts read through the client they are bound to
+  const client = getSignerClient(walletClient);
+  if (!client) {
     throw new Error("Local account signing for permit requires a connected client");
   }
 
+  // Get the owner's current nonce, name, and version in parallel
+  const [nonce, name, version] = await Promise.all([
+    client.readContract({
+      address: tokenAddress,
+      abi: erc20PermitABI,
+      functionName: "nonces",
+      args: [getAddress(owner)],
+    }) as Promise<bigint>,
+    client.readContract({
+      address: tokenAddress,
+      abi: erc20PermitABI,
+      functionName: "name",
+    }) as Promise<string>,
+    getVersion(client, tokenAddress),
+  ]);
+
   const data = {
     types: permitTypes,
     domain: {
@@ -82,8 +81,8 @@ export async function signPermit<transport extends Transport, chain extends Chai
     };
   }
 
-  // LocalAccount with signTypedData
-  const account = walletClient as LocalAccount;
+  // LocalAccount or SmartAccount with signTypedData
+  const account = walletClient as LocalAccount | SmartAccount;
   if (account.signTypedData) {
     const signature = await account.signTypedData(data);
     return {
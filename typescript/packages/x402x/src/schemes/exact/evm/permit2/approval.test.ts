@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { maxUint256, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { SmartAccount } from "viem/account-abstraction";
+import { baseSepolia } from "viem/chains";
+import { PERMIT2_ADDRESS, SignerWallet } from "../../../../types/shared/evm";
+import { PaymentRequirements, Permit2PaymentPayload } from "../../../../types/verify";
+import {
+  approvePermit2,
+  signPermit2Approval,
+  submitPermit2Approval,
+  verifyPermit2Approval,
+} from "./approval";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const TX_HASH = `0x${"a".repeat(64)}` as const;
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  maxTimeoutSeconds: 300,
+  asset: TOKEN,
+  paymentType: "permit2",
+};
+
+/**
+ * Creates a wallet reading a token without Permit2 allowance
+ *
+ * @param state - The on-chain state
+ * @param state.nonce - The owner's EIP-2612 nonce
+ * @param state.allowance - The owner's Permit2 allowance
+ * @returns The mocked wallet
+ */
+function createWallet(state: { nonce?: bigint; allowance?: bigint } = {}) {
+  const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+    switch (functionName) {
+      case "name":
+        return "USD Coin";
+      case "version":
+        return "2";
+      case "nonces":
+        return state.nonce ?? 0n;
+      case "allowance":
+        return state.allowance ?? 0n;
+      default:
+        throw new Error(`unexpected call: ${functionName}`);
+    }
+  });
+
+  return {
+    chain: baseSepolia,
+    transport: {},
+    account,
+    readContract,
+    signTypedData: vi.fn(args => account.signTypedData(args)),
+    verifyTypedData: vi.fn(args => verifyTypedData(args)),
+    writeContract: vi.fn().mockResolvedValue(TX_HASH),
+    waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success" }),
+  } as unknown as SignerWallet & {
+    readContract: typeof readContract;
+    writeContract: ReturnType<typeof vi.fn>;
+  };
+}
+
+/**
+ * Creates a Permit2 payment payload carrying an approval
+ *
+ * @param approval - The bundled approval
+ * @returns The payment payload
+ */
+function createPayload(approval?: Permit2PaymentPayload["payload"]["permit2Approval"]) {
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      authorizationType: "permit2",
+      signature: "0x",
+      authorization: {
+        owner: account.address,
+        spender: requirements.payTo,
+        token: TOKEN,
+        amount: requirements.maxAmountRequired,
+        deadline: "9999999999",
+        nonce: "1",
+      },
+      ...(approval && { permit2Approval: approval }),
+    },
+  } as Permit2PaymentPayload;
+}
+
+describe("Permit2 approval", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should sign an EIP-2612 permit for Permit2 that the facilitator accepts", async () => {
+    const wallet = createWallet();
+
+    const approval = await signPermit2Approval(wallet, requirements);
+
+    expect(approval).toMatchObject({ value: maxUint256.toString(), nonce: "0" });
+    expect(vi.mocked(wallet.signTypedData)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        primaryType: "Permit",
+        message: expect.objectContaining({ spender: PERMIT2_ADDRESS }),
+      }),
+    );
+    expect(await verifyPermit2Approval(wallet, createPayload(approval), requirements)).toBe(
+      undefined,
+    );
+  });
+
+  it("should sign with a smart account through the client it is bound to", async () => {
+    const wallet = createWallet({ nonce: 2n });
+    const smartAccount = {
+      type: "smart",
+      address: account.address,
+      client: { extend: () => wallet },
+      signTypedData: vi.fn(args => account.signTypedData(args)),
+    } as unknown as SmartAccount;
+
+    const approval = await signPermit2Approval(smartAccount, requirements);
+
+    expect(approval.nonce).toBe("2");
+    expect(smartAccount.signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({ primaryType: "Permit" }),
+    );
+  });
+
+  it("should reject missing, too small, used or forged approvals", async () => {
+    const wallet = createWallet();
+    const approval = await signPermit2Approval(wallet, requirements, 1n);
+    const valid = await signPermit2Approval(wallet, requirements);
+
+    expect(await verifyPermit2Approval(wallet, createPayload(), requirements)).toBe(
+      "permit2_not_approved",
+    );
+    expect(await verifyPermit2Approval(wallet, createPayload(approval), requirements)).toBe(
+      "invalid_permit2_approval",
+    );
+    expect(
+      await verifyPermit2Approval(createWallet({ nonce: 1n }), createPayload(valid), requirements),
+    ).toBe("invalid_permit2_approval");
+    expect(
+      await verifyPermit2Approval(
+        wallet,
+        createPayload({ ...valid, value: (maxUint256 - 1n).toString() }),
+        requirements,
+      ),
+    ).toBe("invalid_permit2_approval");
+  });
+
+  it("should submit the permit only while the allowance is missing", async () => {
+    const approval = await signPermit2Approval(createWallet(), requirements);
+    const missing = createWallet();
+    const approved = createWallet({ allowance: maxUint256 });
+
+    expect(await submitPermit2Approval(missing, createPayload(approval), 1000000n, 1n)).toBe(
+      TX_HASH,
+    );
+    expect(missing.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: TOKEN,
+        functionName: "permit",
+        args: expect.arrayContaining([account.address, PERMIT2_ADDRESS, maxUint256]),
+      }),
+    );
+    expect(await submitPermit2Approval(approved, createPayload(approval), 1000000n, 1n)).toBe(
+      undefined,
+    );
+    expect(approved.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("should approve Permit2 with an approve transaction", async () => {
+    const wallet = createWallet();
+
+    expect(await approvePermit2(wallet, TOKEN, 5n)).toBe(TX_HASH);
+    expect(wallet.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "approve", args: [PERMIT2_ADDRESS, 5n] }),
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  Account,
+  Address,
+  Chain,
+  erc20Abi,
+  getAddress,
+  Hex,
+  LocalAccount,
+  maxUint256,
+  Transport,
+  WriteContractParameters,
+} from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
+import { getNetworkId } from "../../../../shared";
+import { getERC20Allowance, getVersion } from "../../../../shared/evm";
+import {
+  permitTypes,
+  erc20PermitABI,
+  PERMIT2_ADDRESS,
+  ConnectedClient,
+  SignerWallet,
+} from "../../../../types/shared/evm";
+import {
+  ErrorReasons,
+  PaymentRequirements,
+  Permit2Approval,
+  Permit2PaymentPayload,
+} from "../../../../types/verify";
+import { signPermit } from "../permit/sign";
+import { checkContractSignatureCall, getPermitContractCall } from "../utils/contractSignature";
+
+/**
+ * Signs an EIP-2612 Permit approving the canonical Permit2 contract, so that a payer without a
+ * Permit2 allowance can pay with Permit2 without sending a transaction.
+ *
+ * The approval is sent in the payment payload (`permit2Approval`) and submitted by the facilitator
+ * before the Permit2 transfer. The token must support EIP-2612.
+ *
+ * @param client - The signer wallet of the token owner
+ * @param paymentRequirements - The payment requirements containing asset and network information
+ * @param value - The Permit2 allowance to approve (defaults to unlimited)
+ * @returns The signed Permit2 approval
+ */
+export async function signPermit2Approval<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
+  paymentRequirements: PaymentRequirements,
+  value: bigint = maxUint256,
+): Promise<Permit2Approval> {
+  const owner = "address" in client ? client.address : client.account!.address;
+  const deadline = BigInt(Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds));
+
+  const { signature, nonce } = await signPermit(
+    client,
+    { owner, spender: PERMIT2_ADDRESS, value: value.toString(), deadline: deadline.toString() },
+    paymentRequirements,
+  );
+
+  return { value: value.toString(), deadline: deadline.toString(), nonce, signature };
+}
+
+/**
+ * Approves the canonical Permit2 contract with an ERC20 approve transaction sent by the owner
+ *
+ * @param wallet - The signer wallet of the token owner
+ * @param token - The token to approve
+ * @param value - The Permit2 allowance to approve (defaults to unlimited)
+ * @returns The hash of the confirmed approve transaction
+ */
+export async function approvePermit2<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  token: Address,
+  value: bigint = maxUint256,
+): Promise<Hex> {
+  const hash = await wallet.writeContract({
+    address: getAddress(token),
+    abi: erc20Abi,
+    functionName: "approve",
+    args: [PERMIT2_ADDRESS, value],
+    chain: wallet.chain as Chain,
+    account: wallet.account as Account,
+  });
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Permit2 approve transaction reverted: ${hash}`);
+  }
+
+  return hash;
+}
+
+/**
+ * Verifies the Permit2 approval bundled with a Permit2 payment
+ *
+ * Contract wallet signatures are verified with ERC-1271 and, for deployed wallets, the bytes
+ * permit() is simulated to reject tokens that only accept v/r/s signatures.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The Permit2 payment payload carrying the approval
+ * @param paymentRequirements - The payment requirements
+ * @returns An error reason if the approval is missing or invalid, otherwise undefined
+ */
+export async function verifyPermit2Approval<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: Permit2PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<(typeof ErrorReasons)[number] | undefined> {
+  const approval = payload.payload.permit2Approval;
+  if (!approval) {
+    return "permit2_not_approved";
+  }
+
+  const owner = getAddress(payload.payload.authorization.owner);
+  const token = getAddress(payload.payload.authorization.token);
+
+  if (
+    BigInt(approval.value) < BigInt(paymentRequirements.maxAmountRequired) ||
+    BigInt(approval.deadline) < BigInt(Math.floor(Date.now() / 1000))
+  ) {
+    return "invalid_permit2_approval";
+  }
+
+  try {
+    const [name, version, nonce] = await Promise.all([
+      client.readContract({ address: token, abi: erc20PermitABI, functionName: "name" }),
+      getVersion(client, token),
+      client.readContract({
+        address: token,
+        abi: erc20PermitABI,
+        functionName: "nonces",
+        args: [owner],
+      }),
+    ]);
+
+    // The nonce must be the next one, otherwise the permit was used or cannot be submitted yet
+    if (BigInt(approval.nonce) !== (nonce as bigint)) {
+      return "invalid_permit2_approval";
+    }
+
+    const valid = await client.verifyTypedData({
+      address: owner,
+      types: permitTypes,
+      domain: {
+        name: name as string,
+        version,
+        chainId: getNetworkId(payload.network),
+        verifyingContract: token,
+      },
+      primaryType: "Permit",
+      message: {
+        owner,
+        spender: PERMIT2_ADDRESS,
+        value: BigInt(approval.value),
+        nonce: BigInt(approval.nonce),
+        deadline: BigInt(approval.deadline),
+      },
+      signature: approval.signature as Hex,
+    });
+    if (!valid) {
+      return "invalid_permit2_approval";
+    }
+
+    // Tokens that only accept v/r/s permits cannot take contract wallet signatures
+    return await checkContractSignatureCall(
+      client,
+      getPermitContractCall(
+        token,
+        {
+          owner,
+          spender: PERMIT2_ADDRESS,
+          value: BigInt(approval.value),
+          deadline: BigInt(approval.deadline),
+        },
+        approval.signature as Hex,
+      ),
+      owner,
+      approval.signature as Hex,
+    );
+  } catch {
+    return "invalid_permit2_approval";
+  }
+}
+
+/**
+ * Submits the Permit2 approval bundled with a Permit2 payment if the Permit2 allowance is still
+ * missing (the approval may already have been submitted by someone else)
+ *
+ * @param wallet - The facilitator wallet that submits the permit
+ * @param payload - The Permit2 payment payload carrying the approval
+ * @param amount - The allowance needed by the payment
+ * @param gasPrice - Gas price in wei
+ * @returns The hash of the confirmed permit transaction, or undefined if it was not needed
+ */
+export async function submitPermit2Approval<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  payload: Permit2PaymentPayload,
+  amount: bigint,
+  gasPrice: bigint,
+): Promise<Hex | undefined> {
+  const approval = payload.payload.permit2Approval;
+  const owner = getAddress(payload.payload.authorization.owner);
+  const token = getAddress(payload.payload.authorization.token);
+
+  if (!approval || (await getERC20Allowance(wallet, token, owner, PERMIT2_ADDRESS)) >= amount) {
+    return undefined;
+  }
+
+  const permitCall = getPermitContractCall(
+    token,
+    {
+      owner,
+      spender: PERMIT2_ADDRESS,
+      value: BigInt(approval.value),
+      deadline: BigInt(approval.deadline),
+    },
+    approval.signature as Hex,
+  );
+  const hash = await wallet.writeContract({
+    ...permitCall,
+    chain: wallet.chain as Chain,
+    gasPrice,
+  } as WriteContractParameters);
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Permit2 approval transaction reverted: ${hash}`);
+  }
+
+  return hash;
+}
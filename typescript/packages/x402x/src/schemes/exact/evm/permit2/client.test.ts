@@ -295,6 +295,24 @@ describe("Permit2 createPaymentHeader", () => {
     );
   });
 
+  it("should bundle the Permit2 approval when provided", async () => {
+    const client = createTestClient();
+    const permit2Approval = {
+      value: "1000000",
+      deadline: "1704067500",
+      nonce: "0",
+      signature: mockSignature,
+    };
+
+    await createPaymentHeader(client, 1, mockPaymentRequirements, permit2Approval);
+
+    expect(vi.mocked(encodePayment)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({ signature: mockSignature, permit2Approval }),
+      }),
+    );
+  });
+
   it("should handle different x402 versions", async () => {
     const client = createTestClient();
     await createPaymentHeader(client, 2, mockPaymentRequirements);
@@ -1,9 +1,12 @@
 import { Address, Chain, LocalAccount, Transport } from "viem";
-import { isSignerWallet, SignerWallet } from "../../../../types/shared/evm";
+import type { SmartAccount } from "viem/account-abstraction";
+import { isSignerWallet, SignerWallet, withEvmConfig } from "../../../../types/shared/evm";
+import { X402Config } from "../../../../types/config";
 import {
   PaymentRequirements,
   UnsignedPermit2PaymentPayload,
   Permit2PaymentPayload,
+  Permit2Approval,
 } from "../../../../types/verify";
 import { signPermit2 } from "./sign";
 import { encodePayment } from "../utils/paymentUtils";
@@ -59,7 +62,7 @@ export function preparePaymentHeader(
  * @returns A promise that resolves to the signed Permit2 payment payload
  */
 export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   paymentRequirements: PaymentRequirements,
   unsignedPaymentHeader: UnsignedPermit2PaymentPayload,
 ): Promise<Permit2PaymentPayload> {
@@ -95,16 +98,21 @@ export async function signPaymentHeader<transport extends Transport, chain exten
  * @param client - The signer wallet instance used to create and sign the payment
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param permit2Approval - Optional EIP-2612 approval of Permit2 (see signPermit2Approval), for payers without a Permit2 allowance
  * @returns A promise that resolves to the complete signed Permit2 payment payload
  */
 export async function createPayment<transport extends Transport, chain extends Chain>(
-  client: SignerWallet<chain, transport> | LocalAccount,
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  permit2Approval?: Permit2Approval,
 ): Promise<Permit2PaymentPayload> {
   const from = isSignerWallet(client) ? client.account!.address : client.address;
   const unsignedPaymentHeader = preparePaymentHeader(from, x402Version, paymentRequirements);
-  return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+  const payment = await signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+  return permit2Approval
+    ? { ...payment, payload: { ...payment.payload, permit2Approval } }
+    : payment;
 }
 
 /**
@@ -113,13 +121,22 @@ export async function createPayment<transport extends Transport, chain extends C
  * @param client - The signer wallet instance used to create the payment header
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param permit2Approval - Optional EIP-2612 approval of Permit2 (see signPermit2Approval), for payers without a Permit2 allowance
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A promise that resolves to the encoded payment header string
  */
 export async function createPaymentHeader(
-  client: SignerWallet | LocalAccount,
+  client: SignerWallet | LocalAccount | SmartAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  permit2Approval?: Permit2Approval,
+  config?: X402Config,
 ): Promise<string> {
-  const payment = await createPayment(client, x402Version, paymentRequirements);
+  const payment = await createPayment(
+    withEvmConfig(client, paymentRequirements.network, config?.evmConfig),
+    x402Version,
+    paymentRequirements,
+    permit2Approval,
+  );
   return encodePayment(payment);
 }
@@ -6,6 +6,7 @@ import {
   getAddress,
   Hex,
   keccak256,
+  parseErc6492Signature,
   Transport,
 } from "viem";
 import { getNetworkId } from "../../../../shared";
@@ -22,10 +23,24 @@ import {
 import {
   PaymentRequirements,
   Permit2PaymentPayload,
+  SettleOptions,
   SettleResponse,
+  VerifyOptions,
   VerifyResponse,
 } from "../../../../types/verify";
 import { SCHEME } from "../..";
+import { submitSettlement } from "../utils/submitSettlement";
+import {
+  checkPermit2Nonce,
+  encodeSettleContractCall,
+  SettleContractCall,
+  simulateSettleContractCall,
+} from "../utils/onchainChecks";
+import { submitPermit2Approval, verifyPermit2Approval } from "./approval";
+import {
+  deployCounterfactualWallet,
+  getCounterfactualDeployment,
+} from "../utils/contractSignature";
 
 // ERC165 ABI for supportsInterface
 const ERC165_ABI = [
@@ -49,9 +64,14 @@ const SETTLE_WITH_PERMIT2_INTERFACE_ID = "0xa7fcafbb" as const;
  * - Witness mode: Verifies that the recipient address is bound to the signature
  * - Non-witness mode: Uses standard PermitTransferFrom verification
  *
+ * The nonce is checked against the owner's Permit2 nonce bitmap. With `options.simulate`, the
+ * Permit2 transfer is simulated from the spender, unless a bundled approval still has to be
+ * submitted first.
+ *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing permit2 parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param options - Optional verification options (simulate)
  * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
  */
 export async function verify<
@@ -62,6 +82,7 @@ export async function verify<
   client: ConnectedClient<transport, chain, account>,
   payload: Permit2PaymentPayload,
   paymentRequirements: PaymentRequirements,
+  options: VerifyOptions = {},
 ): Promise<VerifyResponse> {
   // Validate payload has correct authorizationType
   if (
@@ -182,6 +203,16 @@ export async function verify<
     };
   }
 
+  // Verify the nonce has not been used or invalidated
+  const nonceReason = await checkPermit2Nonce(client, ownerAddress, BigInt(nonce));
+  if (nonceReason) {
+    return {
+      isValid: false,
+      invalidReason: nonceReason,
+      payer: owner,
+    };
+  }
+
   // Verify seller address supports settleWithPermit2 interface (ERC165)
   try {
     const supportsInterface = await client.readContract({
@@ -207,14 +238,18 @@ export async function verify<
   }
 
   // Verify owner has approved Permit2 contract
-  // This is a critical check - users must approve Uniswap Permit2 once before using it
+  // This is a critical check - users must approve Uniswap Permit2 once before using it,
+  // or bundle an EIP-2612 approval of Permit2 that is submitted before the transfer
   const allowance = await getERC20Allowance(client, tokenAddress, ownerAddress, PERMIT2_ADDRESS);
   if (allowance < BigInt(paymentRequirements.maxAmountRequired)) {
-    return {
-      isValid: false,
-      invalidReason: "permit2_not_approved",
-      payer: owner,
-    };
+    const invalidReason = await verifyPermit2Approval(client, payload, paymentRequirements);
+    if (invalidReason) {
+      return {
+        isValid: false,
+        invalidReason,
+        payer: owner,
+      };
+    }
   }
 
   // Verify owner has sufficient token balance
@@ -236,6 +271,27 @@ export async function verify<
     };
   }
 
+  // Verify the Permit2 transfer would succeed, it can only be simulated once Permit2 is approved
+  // and the payer's wallet is deployed
+  if (
+    options.simulate &&
+    allowance >= BigInt(paymentRequirements.maxAmountRequired) &&
+    !(await getCounterfactualDeployment(client, getAddress(owner), permit2Payload.signature as Hex))
+  ) {
+    const simulationReason = await simulateSettleContractCall(
+      client,
+      getPermit2TransferCall(permit2Payload, paymentRequirements),
+      client.account?.address ?? getAddress(spender),
+    );
+    if (simulationReason) {
+      return {
+        isValid: false,
+        invalidReason: simulationReason,
+        payer: owner,
+      };
+    }
+  }
+
   return {
     isValid: true,
     payer: owner,
@@ -246,12 +302,14 @@ export async function verify<
  * Settles a Permit2 payment by calling permitTransferFrom() or permitWitnessTransferFrom()
  *
  * Automatically selects the appropriate function based on whether the payment includes
- * a witness (recipient address binding).
+ * a witness (recipient address binding). A smart wallet that signed with an ERC-6492
+ * counterfactual signature is deployed first.
  *
  * @param wallet - The facilitator wallet that will execute the permit transfer
  * @param paymentPayload - The signed payment payload containing permit2 parameters and signature
  * @param paymentRequirements - The payment requirements
  * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param options - Optional settlement options (waitUntil, onConfirmed)
  * @returns A SettleResponse containing the transaction status and hash
  */
 export async function settle<transport extends Transport, chain extends Chain>(
@@ -259,6 +317,7 @@ export async function settle<transport extends Transport, chain extends Chain>(
   paymentPayload: Permit2PaymentPayload,
   paymentRequirements: PaymentRequirements,
   gasPrice: bigint = 50000000n, // 0.05 gwei
+  options: SettleOptions = {},
 ): Promise<SettleResponse> {
   const permit2Payload = paymentPayload.payload;
 
@@ -285,80 +344,120 @@ export async function settle<transport extends Transport, chain extends Chain>(
     };
   }
 
-  const { owner, token, amount, deadline, nonce, to } = permit2Payload.authorization;
+  const { owner, token, amount } = permit2Payload.authorization;
   const tokenAddress = getAddress(token);
   const ownerAddress = getAddress(owner);
 
-  // Detect witness mode
-  const hasWitness = !!to;
+  const call = {
+    to: PERMIT2_ADDRESS,
+    data: encodeSettleContractCall(getPermit2TransferCall(permit2Payload, paymentRequirements)),
+  };
+  const context = {
+    network: paymentPayload.network,
+    payer: ownerAddress,
+    breakdown: {
+      asset: tokenAddress,
+      payer: ownerAddress,
+      payTo: paymentRequirements.payTo as Address,
+    },
+  };
 
-  // Call permitTransferFrom or permitWitnessTransferFrom on Permit2 contract
-  const tx = hasWitness
-    ? await wallet.writeContract({
-      address: PERMIT2_ADDRESS,
-      abi: permit2ABI,
-      functionName: "permitWitnessTransferFrom",
-      args: [
-        {
-          permitted: {
-            token: tokenAddress,
-            amount: BigInt(amount),
-          },
-          nonce: BigInt(nonce),
-          deadline: BigInt(deadline),
-        },
-        {
-          to: paymentRequirements.payTo as Address,
-          requestedAmount: BigInt(amount),
-        },
-        ownerAddress,
-        keccak256(encodeAbiParameters([{ type: "address", name: "to" }], [getAddress(to!)])),
-        WITNESS_TYPE_STRING,
-        permit2Payload.signature as Hex,
-      ],
-      chain: wallet.chain as Chain,
-      gasPrice,
-    })
-    : await wallet.writeContract({
-      address: PERMIT2_ADDRESS,
-      abi: permit2ABI,
-      functionName: "permitTransferFrom",
-      args: [
-        {
-          permitted: {
-            token: tokenAddress,
-            amount: BigInt(amount),
-          },
-          nonce: BigInt(nonce),
-          deadline: BigInt(deadline),
-        },
-        {
-          to: paymentRequirements.payTo as Address,
-          requestedAmount: BigInt(amount),
-        },
-        ownerAddress,
-        permit2Payload.signature as Hex,
-      ],
-      chain: wallet.chain as Chain,
-      gasPrice,
-    });
+  // Counterfactual smart wallets must be deployed before Permit2 can check their signature
+  const deployment = await deployCounterfactualWallet(
+    wallet,
+    permit2Payload.signature as Hex,
+    gasPrice,
+    context,
+    options,
+  );
+  if (deployment) {
+    return deployment;
+  }
 
-  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (options.waitUntil === "simulated") {
+    // The transfer can only be simulated once the bundled approval is on chain,
+    // the approval itself was checked by verify
+    if (
+      permit2Payload.permit2Approval &&
+      (await getERC20Allowance(wallet, tokenAddress, ownerAddress, PERMIT2_ADDRESS)) <
+        BigInt(amount)
+    ) {
+      return {
+        success: true,
+        transaction: "",
+        network: paymentPayload.network,
+        payer: owner,
+        status: "simulated",
+      };
+    }
+    return submitSettlement(wallet, call, gasPrice, context, options);
+  }
 
-  if (receipt.status !== "success") {
+  // Submit the bundled Permit2 approval first if the allowance is still missing
+  try {
+    await submitPermit2Approval(wallet, paymentPayload, BigInt(amount), gasPrice);
+  } catch {
     return {
       success: false,
-      errorReason: "transaction_failed",
-      transaction: tx,
+      errorReason: "permit2_approval_failed",
+      transaction: "",
       network: paymentPayload.network,
       payer: owner,
     };
   }
 
+  return submitSettlement(wallet, call, gasPrice, context, options);
+}
+
+/**
+ * Builds the permitTransferFrom() or permitWitnessTransferFrom() call settling a Permit2 payment
+ *
+ * @param permit2Payload - The Permit2 payload
+ * @param paymentRequirements - The payment requirements
+ * @returns The Permit2 transfer call
+ */
+function getPermit2TransferCall(
+  permit2Payload: Permit2PaymentPayload["payload"],
+  paymentRequirements: PaymentRequirements,
+): SettleContractCall {
+  const { owner, token, amount, deadline, nonce, to } = permit2Payload.authorization;
+  // Permit2 checks contract wallet signatures with ERC-1271, the ERC-6492 wrapper is removed
+  // once the wallet is deployed
+  const { signature } = parseErc6492Signature(permit2Payload.signature as Hex);
+  const permit = {
+    permitted: {
+      token: getAddress(token),
+      amount: BigInt(amount),
+    },
+    nonce: BigInt(nonce),
+    deadline: BigInt(deadline),
+  };
+  const transferDetails = {
+    to: paymentRequirements.payTo as Address,
+    requestedAmount: BigInt(amount),
+  };
+
+  // Witness mode binds the recipient address to the signature
+  if (to) {
+    return {
+      address: PERMIT2_ADDRESS,
+      abi: permit2ABI,
+      functionName: "permitWitnessTransferFrom",
+      args: [
+        permit,
+        transferDetails,
+        getAddress(owner),
+        keccak256(encodeAbiParameters([{ type: "address", name: "to" }], [getAddress(to)])),
+        WITNESS_TYPE_STRING,
+        signature,
+      ],
+    };
+  }
+
   return {
-    success: true,
-    transaction: tx,
-    network: paymentPayload.network,
-    payer: owner,
+    address: PERMIT2_ADDRESS,
+    abi: permit2ABI,
+    functionName: "permitTransferFrom",
+    args: [permit, transferDetails, getAddress(owner), signature],
   };
 }
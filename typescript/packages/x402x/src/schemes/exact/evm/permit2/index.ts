@@ -1,3 +1,4 @@
 export * from "./client";
 export * from "./sign";
 export * from "./facilitator";
+export * from "./approval";
@@ -1,4 +1,5 @@
 import { Chain, getAddress, Hex, keccak256, LocalAccount, toHex, Transport } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import { getNetworkId } from "../../../../shared";
 import {
   permit2Types,
@@ -6,6 +7,7 @@ import {
   permit2ABI,
   PERMIT2_ADDRESS,
   WITNESS_TYPE_STRING,
+  getSignerClient,
   isSignerWallet,
   SignerWallet,
 } from "../../../../types/shared/evm";
@@ -31,7 +33,7 @@ import { Permit2EvmPayloadAuthorization, PaymentRequirements } from "../../../..
  * @returns The signature and nonce for the permit2
  */
 export async function signPermit2<transport extends Transport, chain extends Chain>(
-  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  walletClient: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   { owner, spender, token, amount, deadline, to }: Omit<Permit2EvmPayloadAuthorization, "nonce">,
   { network }: PaymentRequirements,
 ): Promise<{ signature: Hex; nonce: string }> {
@@ -96,8 +98,8 @@ export async function signPermit2<transport extends Transport, chain extends Cha
     };
   }
 
-  // LocalAccount with signTypedData
-  const account = walletClient as LocalAccount;
+  // LocalAccount or SmartAccount with signTypedData
+  const account = walletClient as LocalAccount | SmartAccount;
   if (account.signTypedData) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const signature = await account.signTypedData(data as any);
@@ -119,10 +121,12 @@ export async function signPermit2<transport extends Transport, chain extends Cha
  * @returns A unique nonce for the permit2 authorization
  */
 export async function createPermit2Nonce<transport extends Transport, chain extends Chain>(
-  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  walletClient: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
   ownerAddress: `0x${string}`,
 ): Promise<bigint> {
-  if (!isSignerWallet(walletClient)) {
+  // Smart accounts read through the client they are bound to
+  const client = getSignerClient(walletClient);
+  if (!client) {
     throw new Error("Local account signing for permit2 requires a connected client");
   }
 
@@ -137,7 +141,7 @@ export async function createPermit2Nonce<transport extends Transport, chain exte
   try {
     const wordPos = nonce / 256n;
     const bitIndex = nonce % 256n;
-    const bitmap = await walletClient.readContract({
+    const bitmap = await client.readContract({
       address: PERMIT2_ADDRESS,
       abi: permit2ABI,
       functionName: "nonceBitmap",
@@ -0,0 +1,295 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  keccak256,
+  parseSignature,
+  recoverAddress,
+  serializeCompactSignature,
+  serializeErc6492Signature,
+  signatureToCompactSignature,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { PERMIT2_ADDRESS, SignerWallet } from "../../../../types/shared/evm";
+import {
+  checkContractSignatureCall,
+  deployCounterfactualWallet,
+  getCounterfactualDeployment,
+  getPermitContractCall,
+  isContractSignature,
+  normalizePaymentSignatures,
+  normalizeSignature,
+} from "./contractSignature";
+import { encodeSettleContractCall } from "./onchainChecks";
+import { SettlementContext } from "./submitSettlement";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const FACTORY = "0x0BA5ED0c6AA8c49038F819E587E2633c4A9F428a";
+const TX_HASH = `0x${"a".repeat(64)}` as const;
+const ECDSA_SIGNATURE = `0x${"1".repeat(128)}1b` as const;
+const WALLET_SIGNATURE = `0x${"2".repeat(320)}` as const;
+const COUNTERFACTUAL_SIGNATURE = serializeErc6492Signature({
+  address: FACTORY,
+  data: "0xdeadbeef",
+  signature: WALLET_SIGNATURE,
+});
+
+const permit = {
+  owner: account.address,
+  spender: PERMIT2_ADDRESS,
+  value: 1000000n,
+  deadline: 1700000000n,
+};
+
+const context: SettlementContext = {
+  network: "base-sepolia",
+  payer: account.address,
+  breakdown: { asset: TOKEN, payer: account.address, payTo: PERMIT2_ADDRESS },
+};
+
+/**
+ * Creates a facilitator wallet with mocked RPC calls
+ *
+ * @param code - The code deployed at the payer address
+ * @param status - The status of the deployment receipt
+ * @returns The mocked wallet
+ */
+function createWallet(code: `0x${string}` | undefined, status: "success" | "reverted" = "success") {
+  const wallet = {
+    chain: baseSepolia,
+    account,
+    getCode: vi.fn(async () => code),
+    simulateContract: vi.fn(async () => ({ result: undefined })),
+    sendTransaction: vi.fn(async () => TX_HASH),
+    waitForTransactionReceipt: vi.fn(async () => ({ status })),
+  };
+  return wallet as unknown as SignerWallet & {
+    getCode: typeof wallet.getCode;
+    simulateContract: typeof wallet.simulateContract;
+    sendTransaction: typeof wallet.sendTransaction;
+  };
+}
+
+describe("isContractSignature", () => {
+  it("should only treat 65 byte unwrapped signatures as EOA signatures", () => {
+    expect(isContractSignature(ECDSA_SIGNATURE)).toBe(false);
+    expect(isContractSignature(WALLET_SIGNATURE)).toBe(true);
+    expect(isContractSignature(COUNTERFACTUAL_SIGNATURE)).toBe(true);
+  });
+});
+
+describe("normalizeSignature", () => {
+  const hash = keccak256("0x1234");
+
+  /**
+   * Signs the test hash and returns the signature in both forms
+   *
+   * @returns The 65 byte and the 64 byte EIP-2098 compact signature
+   */
+  const sign = async () => {
+    const signature = await account.sign({ hash });
+    const compact = serializeCompactSignature(
+      signatureToCompactSignature(parseSignature(signature)),
+    );
+    return { signature, compact };
+  };
+
+  it("should expand compact signatures of EOAs", async () => {
+    const { signature, compact } = await sign();
+
+    const normalized = await normalizeSignature(createWallet(undefined), account.address, compact);
+
+    expect(normalized).toBe(signature);
+    expect(await recoverAddress({ hash, signature: normalized })).toBe(account.address);
+    expect(isContractSignature(normalized)).toBe(false);
+  });
+
+  it("should treat EIP-7702 delegated EOAs as EOAs", async () => {
+    const { signature, compact } = await sign();
+    const wallet = createWallet(`0xef0100${"3".repeat(40)}`);
+
+    expect(await normalizeSignature(wallet, account.address, compact)).toBe(signature);
+  });
+
+  it("should keep 64 byte signatures of contract wallets for ERC-1271", async () => {
+    const { compact } = await sign();
+
+    const normalized = await normalizeSignature(createWallet("0x6080"), account.address, compact);
+
+    expect(normalized).toBe(compact);
+    expect(isContractSignature(normalized)).toBe(true);
+  });
+
+  it("should not read the code for other signatures", async () => {
+    const wallet = createWallet(undefined);
+
+    expect(await normalizeSignature(wallet, account.address, ECDSA_SIGNATURE)).toBe(
+      ECDSA_SIGNATURE,
+    );
+    expect(await normalizeSignature(wallet, account.address, WALLET_SIGNATURE)).toBe(
+      WALLET_SIGNATURE,
+    );
+    expect(wallet.getCode).not.toHaveBeenCalled();
+  });
+
+  it("should normalize the payment and bundled Permit2 approval signatures", async () => {
+    const { signature, compact } = await sign();
+    const approval = { value: "1", deadline: "1", nonce: "0", signature: compact };
+    const paymentPayload = {
+      x402Version: 1,
+      scheme: "exact" as const,
+      network: "base-sepolia" as const,
+      payload: {
+        authorizationType: "permit2" as const,
+        signature: compact,
+        authorization: {
+          owner: account.address,
+          spender: FACTORY,
+          token: TOKEN,
+          amount: "1",
+          deadline: "1",
+          nonce: "0",
+        },
+        permit2Approval: approval,
+      },
+    };
+
+    const normalized = await normalizePaymentSignatures(createWallet(undefined), paymentPayload);
+
+    expect(normalized.payload.signature).toBe(signature);
+    expect(normalized.payload.permit2Approval).toEqual({ ...approval, signature });
+    expect(getPermitContractCall(TOKEN, permit, normalized.payload.signature).args).toHaveLength(7);
+  });
+});
+
+describe("getCounterfactualDeployment", () => {
+  it("should return the factory call of undeployed wallets", async () => {
+    expect(
+      await getCounterfactualDeployment(
+        createWallet(undefined),
+        account.address,
+        COUNTERFACTUAL_SIGNATURE,
+      ),
+    ).toEqual({ to: FACTORY, data: "0xdeadbeef" });
+    expect(
+      await getCounterfactualDeployment(
+        createWallet("0x6080"),
+        account.address,
+        COUNTERFACTUAL_SIGNATURE,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should not read the code for signatures without a 6492 wrapper", async () => {
+    const wallet = createWallet(undefined);
+
+    expect(
+      await getCounterfactualDeployment(wallet, account.address, WALLET_SIGNATURE),
+    ).toBeUndefined();
+    expect(wallet.getCode).not.toHaveBeenCalled();
+  });
+});
+
+describe("getPermitContractCall", () => {
+  it("should use the v/r/s permit for EOA signatures", () => {
+    const call = getPermitContractCall(TOKEN, permit, ECDSA_SIGNATURE);
+
+    expect(call.args).toEqual([
+      account.address,
+      PERMIT2_ADDRESS,
+      1000000n,
+      1700000000n,
+      27,
+      `0x${"1".repeat(64)}`,
+      `0x${"1".repeat(64)}`,
+    ]);
+    // permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+    expect(encodeSettleContractCall(call)).toMatch(/^0xd505accf/);
+  });
+
+  it("should pass unwrapped contract wallet signatures as bytes", () => {
+    const call = getPermitContractCall(TOKEN, permit, COUNTERFACTUAL_SIGNATURE);
+
+    expect(call.args).toEqual([
+      account.address,
+      PERMIT2_ADDRESS,
+      1000000n,
+      1700000000n,
+      WALLET_SIGNATURE,
+    ]);
+    // permit(address,address,uint256,uint256,bytes)
+    expect(encodeSettleContractCall(call)).toMatch(/^0x9fd5a6cf/);
+  });
+});
+
+describe("checkContractSignatureCall", () => {
+  const call = getPermitContractCall(TOKEN, permit, WALLET_SIGNATURE);
+
+  it("should reject tokens that do not accept bytes signatures", async () => {
+    const wallet = createWallet("0x6080");
+    wallet.simulateContract.mockRejectedValueOnce(new Error("execution reverted"));
+
+    expect(await checkContractSignatureCall(wallet, call, account.address, WALLET_SIGNATURE)).toBe(
+      "contract_signature_unsupported",
+    );
+  });
+
+  it("should skip EOA signatures and undeployed wallets", async () => {
+    const wallet = createWallet(undefined);
+
+    expect(
+      await checkContractSignatureCall(wallet, call, account.address, ECDSA_SIGNATURE),
+    ).toBeUndefined();
+    expect(
+      await checkContractSignatureCall(wallet, call, account.address, COUNTERFACTUAL_SIGNATURE),
+    ).toBeUndefined();
+    expect(wallet.simulateContract).not.toHaveBeenCalled();
+  });
+});
+
+describe("deployCounterfactualWallet", () => {
+  it("should deploy the wallet and continue the settlement", async () => {
+    const wallet = createWallet(undefined);
+
+    expect(
+      await deployCounterfactualWallet(wallet, COUNTERFACTUAL_SIGNATURE, 1n, context),
+    ).toBeUndefined();
+    expect(wallet.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ to: FACTORY, data: "0xdeadbeef", gasPrice: 1n }),
+    );
+  });
+
+  it("should not report a simulation it cannot run before the deployment", async () => {
+    const wallet = createWallet(undefined);
+
+    expect(
+      await deployCounterfactualWallet(wallet, COUNTERFACTUAL_SIGNATURE, 1n, context, {
+        waitUntil: "simulated",
+      }),
+    ).toEqual({
+      success: false,
+      errorReason: "settlement_not_simulatable",
+      transaction: "",
+      network: context.network,
+      payer: context.payer,
+    });
+    expect(wallet.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should fail the settlement when the deployment reverts", async () => {
+    expect(
+      await deployCounterfactualWallet(
+        createWallet(undefined, "reverted"),
+        COUNTERFACTUAL_SIGNATURE,
+        1n,
+        context,
+      ),
+    ).toMatchObject({
+      success: false,
+      errorReason: "wallet_deployment_failed",
+      transaction: TX_HASH,
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  Account,
+  Address,
+  Chain,
+  compactSignatureToSignature,
+  getAddress,
+  Hex,
+  isErc6492Signature,
+  parseCompactSignature,
+  parseErc6492Signature,
+  serializeSignature,
+  size,
+  Transport,
+} from "viem";
+import { ConnectedClient, SignerWallet, usdcABI } from "../../../../types/shared/evm";
+import {
+  ErrorReasons,
+  ExactEvmPayload,
+  PaymentPayload,
+  SettleOptions,
+  SettleResponse,
+} from "../../../../types/verify";
+import { splitSignature } from "../permit/sign";
+import { SettleContractCall, simulateSettleContractCall } from "./onchainChecks";
+import { SettlementContext } from "./submitSettlement";
+
+type ErrorReason = (typeof ErrorReasons)[number];
+
+/**
+ * Checks whether a signature was produced by a smart contract wallet rather than an EOA
+ *
+ * ERC-6492 wrapped signatures (wallets that are not deployed yet) and signatures that are not
+ * 65 bytes long cannot be split into v/r/s and must be passed to the token as bytes, where it
+ * validates them with ERC-1271 `isValidSignature`.
+ *
+ * Expects signatures passed through {@link normalizePaymentSignatures}, which expands 64-byte
+ * EIP-2098 compact signatures of EOAs, so that a remaining 64-byte signature comes from a signer
+ * with code.
+ *
+ * @param signature - The payment signature
+ * @returns True for contract wallet signatures
+ */
+export function isContractSignature(signature: Hex): boolean {
+  return isErc6492Signature(signature) || size(signature) !== 65;
+}
+
+/**
+ * Checks whether an address holds contract code, EIP-7702 delegated EOAs excluded
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param address - The address to check
+ * @returns True if the address is a contract
+ */
+async function hasContractCode<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(client: ConnectedClient<transport, chain, account>, address: Address): Promise<boolean> {
+  const code = await client.getCode({ address: getAddress(address) });
+  return !!code && code !== "0x" && !code.startsWith("0xef0100");
+}
+
+/**
+ * Expands a 64-byte EIP-2098 compact signature of an EOA to the 65-byte r/s/v form
+ *
+ * 64 bytes may also be an ERC-1271 signature of a contract wallet, so the signature is only
+ * expanded when the signer has no code. Other signatures are returned unchanged.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param signer - The address that signed
+ * @param signature - The signature
+ * @returns The signature that can be verified and split into v/r/s
+ */
+export async function normalizeSignature<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  signer: Address,
+  signature: Hex,
+): Promise<Hex> {
+  if (size(signature) !== 64 || (await hasContractCode(client, signer))) {
+    return signature;
+  }
+  return serializeSignature(compactSignatureToSignature(parseCompactSignature(signature)));
+}
+
+/**
+ * Expands the EIP-2098 compact EOA signatures of an EVM payment, i.e. the payment signature and
+ * the signature of a bundled Permit2 approval
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param paymentPayload - The signed payment payload
+ * @returns The payment payload with normalized signatures
+ */
+export async function normalizePaymentSignatures<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+  payload extends PaymentPayload,
+>(client: ConnectedClient<transport, chain, account>, paymentPayload: payload): Promise<payload> {
+  const evmPayload = paymentPayload.payload as ExactEvmPayload;
+  if (!evmPayload.authorization || !evmPayload.signature) {
+    return paymentPayload;
+  }
+
+  const signer = (
+    evmPayload.authorizationType === "eip3009"
+      ? evmPayload.authorization.from
+      : evmPayload.authorization.owner
+  ) as Address;
+  const signature = await normalizeSignature(client, signer, evmPayload.signature as Hex);
+  const approval = evmPayload.authorizationType === "permit2" && evmPayload.permit2Approval;
+
+  return {
+    ...paymentPayload,
+    payload: {
+      ...evmPayload,
+      signature,
+      ...(approval && {
+        permit2Approval: {
+          ...approval,
+          signature: await normalizeSignature(client, signer, approval.signature as Hex),
+        },
+      }),
+    },
+  };
+}
+
+/**
+ * Returns the factory call deploying the payer's smart wallet, if the signature is an ERC-6492
+ * counterfactual signature of a wallet that is not deployed yet
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param owner - The payer who signed the payment
+ * @param signature - The payment signature
+ * @returns The deployment call, or undefined if nothing needs to be deployed
+ */
+export async function getCounterfactualDeployment<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  owner: Address,
+  signature: Hex,
+): Promise<{ to: Address; data: Hex } | undefined> {
+  if (!isErc6492Signature(signature)) {
+    return undefined;
+  }
+
+  const { address, data } = parseErc6492Signature(signature);
+  if (!address || !data) {
+    return undefined;
+  }
+
+  const code = await client.getCode({ address: getAddress(owner) });
+  return code && code !== "0x" ? undefined : { to: address, data };
+}
+
+/**
+ * Builds the EIP-2612 permit() call of a signature: the v/r/s overload for EOA signatures, the
+ * bytes overload of USDC FiatToken v2.2 for contract wallet signatures
+ *
+ * @param token - The EIP-2612 token
+ * @param permit - The permit parameters
+ * @param permit.owner - The token owner who signed the permit
+ * @param permit.spender - The address authorized to spend tokens
+ * @param permit.value - The approved amount
+ * @param permit.deadline - Unix timestamp after which the permit is no longer valid
+ * @param signature - The permit signature, ERC-6492 wrappers are removed
+ * @returns The permit call
+ */
+export function getPermitContractCall(
+  token: Address,
+  permit: { owner: Address; spender: Address; value: bigint; deadline: bigint },
+  signature: Hex,
+): SettleContractCall {
+  const { owner, spender, value, deadline } = permit;
+  const base = { address: token, abi: usdcABI, functionName: "permit" };
+
+  if (isContractSignature(signature)) {
+    const { signature: walletSignature } = parseErc6492Signature(signature);
+    return { ...base, args: [owner, spender, value, deadline, walletSignature] };
+  }
+
+  const { v, r, s } = splitSignature(signature);
+  return { ...base, args: [owner, spender, value, deadline, v, r, s] };
+}
+
+/**
+ * Simulates a token call carrying a contract wallet signature, so that tokens which only accept
+ * v/r/s signatures are rejected with a clear reason before settlement
+ *
+ * EOA signatures and wallets that are not deployed yet (the call can only run after the
+ * deployment) are not simulated.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param call - The token call passing the signature as bytes
+ * @param owner - The payer who signed the payment
+ * @param signature - The payment signature
+ * @param account - The sender of the call, if the token checks it
+ * @returns "contract_signature_unsupported" if the token rejects the call, undefined otherwise
+ */
+export async function checkContractSignatureCall<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  call: SettleContractCall,
+  owner: Address,
+  signature: Hex,
+  account?: Address,
+): Promise<ErrorReason | undefined> {
+  if (
+    !isContractSignature(signature) ||
+    (await getCounterfactualDeployment(client, owner, signature))
+  ) {
+    return undefined;
+  }
+
+  return (await simulateSettleContractCall(client, call, account))
+    ? "contract_signature_unsupported"
+    : undefined;
+}
+
+/**
+ * Deploys the payer's smart wallet from the factory call of an ERC-6492 signature, so that the
+ * token can check the signature with ERC-1271 during settlement
+ *
+ * Nothing is sent for EOA signatures or deployed wallets. With waitUntil "simulated" the wallet
+ * is not deployed, and since the settlement cannot run before the deployment it fails with
+ * "settlement_not_simulatable" instead of being reported as simulated.
+ *
+ * @param wallet - The facilitator wallet that sends the deployment
+ * @param signature - The payment signature
+ * @param gasPrice - Gas price in wei
+ * @param context - The settlement the wallet is deployed for
+ * @param options - The settlement options
+ * @returns A final SettleResponse if the settlement must stop here, undefined to continue
+ */
+export async function deployCounterfactualWallet<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  signature: Hex,
+  gasPrice: bigint,
+  context: SettlementContext,
+  options: SettleOptions = {},
+): Promise<SettleResponse | undefined> {
+  const { network, payer } = context;
+
+  const deployment = await getCounterfactualDeployment(wallet, payer, signature);
+  if (!deployment) {
+    return undefined;
+  }
+
+  if (options.waitUntil === "simulated") {
+    return {
+      success: false,
+      errorReason: "settlement_not_simulatable",
+      transaction: "",
+      network,
+      payer,
+    };
+  }
+
+  try {
+    const transaction = await wallet.sendTransaction({
+      ...deployment,
+      chain: wallet.chain as Chain,
+      gasPrice,
+    });
+    const receipt = await wallet.waitForTransactionReceipt({ hash: transaction });
+    if (receipt.status !== "success") {
+      return {
+        success: false,
+        errorReason: "wallet_deployment_failed",
+        transaction,
+        network,
+        payer,
+      };
+    }
+  } catch {
+    return {
+      success: false,
+      errorReason: "wallet_deployment_failed",
+      transaction: "",
+      network,
+      payer,
+    };
+  }
+
+  return undefined;
+}
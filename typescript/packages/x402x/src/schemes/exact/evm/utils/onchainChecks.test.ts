@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { erc20Abi } from "viem";
+import { ConnectedClient, PERMIT2_ADDRESS } from "../../../../types/shared/evm";
+import {
+  checkEip3009Nonce,
+  checkPermit2Nonce,
+  checkPermitNonce,
+  encodeSettleContractCall,
+  simulateSettleContractCall,
+} from "./onchainChecks";
+
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const OWNER = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const NONCE = `0x${"2".repeat(64)}` as const;
+
+/**
+ * Creates a client whose readContract resolves (or rejects) with the given value
+ *
+ * @param result - The value returned by readContract, or an Error to reject with
+ * @returns The mocked client
+ */
+function createClient(result: unknown) {
+  const readContract = vi.fn(async () => {
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  const simulateContract = vi.fn(async () => ({ result: true }));
+  return { readContract, simulateContract } as unknown as ConnectedClient & {
+    readContract: typeof readContract;
+    simulateContract: typeof simulateContract;
+  };
+}
+
+describe("checkEip3009Nonce", () => {
+  it("should reject used authorizations", async () => {
+    expect(await checkEip3009Nonce(createClient(false), TOKEN, OWNER, NONCE)).toBeUndefined();
+    expect(await checkEip3009Nonce(createClient(true), TOKEN, OWNER, NONCE)).toBe(
+      "eip3009_nonce_already_used",
+    );
+  });
+
+  it("should report failed reads", async () => {
+    expect(await checkEip3009Nonce(createClient(new Error("rpc down")), TOKEN, OWNER, NONCE)).toBe(
+      "nonce_check_failed",
+    );
+  });
+});
+
+describe("checkPermitNonce", () => {
+  it("should only accept the owner's current nonce", async () => {
+    const client = createClient(3n);
+
+    expect(await checkPermitNonce(client, TOKEN, OWNER, 3n)).toBeUndefined();
+    expect(await checkPermitNonce(client, TOKEN, OWNER, 2n)).toBe("permit_nonce_already_used");
+    expect(await checkPermitNonce(client, TOKEN, OWNER, 4n)).toBe("invalid_permit_nonce");
+    expect(client.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: TOKEN, functionName: "nonces", args: [OWNER] }),
+    );
+  });
+});
+
+describe("checkPermit2Nonce", () => {
+  it("should read the bit of the nonce in its bitmap word", async () => {
+    // word 1, bits 0 and 5 set
+    const client = createClient(0b100001n);
+
+    expect(await checkPermit2Nonce(client, OWNER, 256n + 5n)).toBe("permit2_nonce_already_used");
+    expect(await checkPermit2Nonce(client, OWNER, 256n + 1n)).toBeUndefined();
+    expect(client.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: PERMIT2_ADDRESS,
+        functionName: "nonceBitmap",
+        args: [OWNER, 1n],
+      }),
+    );
+  });
+});
+
+describe("simulateSettleContractCall", () => {
+  const call = {
+    address: TOKEN,
+    abi: erc20Abi,
+    functionName: "transfer",
+    args: [OWNER, 1000n],
+  } as const;
+
+  it("should simulate the call from the given account", async () => {
+    const client = createClient(undefined);
+
+    expect(await simulateSettleContractCall(client, call, OWNER)).toBeUndefined();
+    expect(client.simulateContract).toHaveBeenCalledWith({ ...call, account: OWNER });
+  });
+
+  it("should report reverting calls", async () => {
+    const client = createClient(undefined);
+    client.simulateContract.mockRejectedValueOnce(new Error("execution reverted"));
+
+    expect(await simulateSettleContractCall(client, call)).toBe("settlement_simulation_failed");
+  });
+
+  it("should encode the same call", () => {
+    expect(encodeSettleContractCall(call)).toMatch(/^0xa9059cbb/);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  Abi,
+  Account,
+  Address,
+  Chain,
+  EncodeFunctionDataParameters,
+  encodeFunctionData,
+  Hex,
+  SimulateContractParameters,
+  Transport,
+} from "viem";
+import {
+  ConnectedClient,
+  erc20PermitABI,
+  permit2ABI,
+  PERMIT2_ADDRESS,
+  usdcABI,
+} from "../../../../types/shared/evm";
+import { ErrorReasons } from "../../../../types/verify";
+
+type ErrorReason = (typeof ErrorReasons)[number];
+
+/**
+ * A settlement call described by its ABI, so that it can be both simulated and encoded
+ */
+export type SettleContractCall = {
+  /** The contract that executes the settlement */
+  address: Address;
+  /** The ABI of the settlement function */
+  abi: Abi;
+  /** The settlement function */
+  functionName: string;
+  /** The settlement function arguments */
+  args: readonly unknown[];
+};
+
+/**
+ * Encodes the calldata of a settlement call
+ *
+ * @param call - The settlement call
+ * @returns The encoded calldata
+ */
+export function encodeSettleContractCall(call: SettleContractCall): Hex {
+  return encodeFunctionData({
+    abi: call.abi,
+    functionName: call.functionName,
+    args: call.args,
+  } as EncodeFunctionDataParameters);
+}
+
+/**
+ * Simulates a settlement call with simulateContract
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param call - The settlement call
+ * @param account - The sender of the settlement (the facilitator)
+ * @returns "settlement_simulation_failed" if the call reverts, undefined otherwise
+ */
+export async function simulateSettleContractCall<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  call: SettleContractCall,
+  account?: Address,
+): Promise<ErrorReason | undefined> {
+  try {
+    await (client as ConnectedClient).simulateContract({
+      ...call,
+      account,
+    } as SimulateContractParameters);
+    return undefined;
+  } catch {
+    return "settlement_simulation_failed";
+  }
+}
+
+/**
+ * Checks that an EIP-3009 authorization nonce has not been used or canceled
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param token - The EIP-3009 token
+ * @param authorizer - The payer who signed the authorization
+ * @param nonce - The authorization nonce
+ * @returns The invalid reason, or undefined if the nonce is unused
+ */
+export async function checkEip3009Nonce<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  token: Address,
+  authorizer: Address,
+  nonce: Hex,
+): Promise<ErrorReason | undefined> {
+  try {
+    const used = await client.readContract({
+      address: token,
+      abi: usdcABI,
+      functionName: "authorizationState",
+      args: [authorizer, nonce],
+    });
+    return used ? "eip3009_nonce_already_used" : undefined;
+  } catch {
+    return "nonce_check_failed";
+  }
+}
+
+/**
+ * Checks that an EIP-2612 permit nonce is the owner's current nonce
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param token - The EIP-2612 token
+ * @param owner - The payer who signed the permit
+ * @param nonce - The permit nonce
+ * @returns The invalid reason, or undefined if the permit can be submitted
+ */
+export async function checkPermitNonce<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  token: Address,
+  owner: Address,
+  nonce: bigint,
+): Promise<ErrorReason | undefined> {
+  let current: bigint;
+  try {
+    current = (await client.readContract({
+      address: token,
+      abi: erc20PermitABI,
+      functionName: "nonces",
+      args: [owner],
+    })) as bigint;
+  } catch {
+    return "nonce_check_failed";
+  }
+
+  if (nonce < current) {
+    return "permit_nonce_already_used";
+  }
+  // A permit signed for a future nonce cannot be submitted until the earlier ones are used
+  return nonce > current ? "invalid_permit_nonce" : undefined;
+}
+
+/**
+ * Checks that a Permit2 signature transfer nonce is not set in the owner's nonce bitmap
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param owner - The payer who signed the Permit2 transfer
+ * @param nonce - The Permit2 nonce
+ * @returns The invalid reason, or undefined if the nonce is unused
+ */
+export async function checkPermit2Nonce<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  owner: Address,
+  nonce: bigint,
+): Promise<ErrorReason | undefined> {
+  try {
+    // Permit2 stores 256 nonces per word: the upper bits select the word, the lower 8 bits the bit
+    const bitmap = await client.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: permit2ABI,
+      functionName: "nonceBitmap",
+      args: [owner, nonce >> 8n],
+    });
+    return (bitmap >> (nonce & 0xffn)) & 1n ? "permit2_nonce_already_used" : undefined;
+  } catch {
+    return "nonce_check_failed";
+  }
+}
@@ -1,10 +1,15 @@
 import { safeBase64Encode, safeBase64Decode } from "../../../../shared";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "../../../../types";
+import {
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+  SupportedSuiNetworks,
+} from "../../../../types";
 import {
   PaymentPayload,
   PaymentPayloadSchema,
   ExactEvmPayload,
   ExactSvmPayload,
+  ExactSuiPayload,
 } from "../../../../types/verify";
 
 /**
@@ -66,6 +71,12 @@ export function encodePayment(payment: PaymentPayload): string {
     return safeBase64Encode(JSON.stringify(safe));
   }
 
+  // sui
+  if (SupportedSuiNetworks.includes(payment.network)) {
+    safe = { ...payment, payload: payment.payload as ExactSuiPayload };
+    return safeBase64Encode(JSON.stringify(safe));
+  }
+
   throw new Error("Invalid network");
 }
 
@@ -95,6 +106,14 @@ export function decodePayment(payment: string): PaymentPayload {
       ...parsed,
       payload: parsed.payload as ExactSvmPayload,
     };
+  }
+
+  // sui
+  else if (SupportedSuiNetworks.includes(parsed.network)) {
+    obj = {
+      ...parsed,
+      payload: parsed.payload as ExactSuiPayload,
+    };
   } else {
     throw new Error("Invalid network");
   }
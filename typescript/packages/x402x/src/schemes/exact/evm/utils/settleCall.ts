@@ -0,0 +1,24 @@
+import { Address, Hex } from "viem";
+import { SettleResponse } from "../../../../types/verify";
+
+/**
+ * A prepared settlement call that can be submitted on its own or aggregated with others
+ */
+export type SettleCall = {
+  /** The contract that executes the settlement */
+  to: Address;
+  /** The encoded settlement calldata */
+  data: Hex;
+  /** The token transferred from the payer */
+  token: Address;
+  /** The payer whose tokens are transferred */
+  payer: Address;
+  /** The amount transferred from the payer */
+  amount: bigint;
+};
+
+/**
+ * The result of preparing a settlement: either a call to submit, or a final response
+ * when the payment can no longer be settled
+ */
+export type PreparedSettlement = { call: SettleCall } | { response: SettleResponse };
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { SignerWallet } from "../../../../types/shared/evm";
+import { SettleResponse } from "../../../../types/verify";
+import { SettlementContext, submitSettlement } from "./submitSettlement";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+const TX_HASH = `0x${"a".repeat(64)}` as const;
+const call = { to: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", data: "0x1234" } as const;
+
+const context: SettlementContext = {
+  network: "base-sepolia",
+  payer: account.address,
+  breakdown: {
+    asset: call.to,
+    payer: account.address,
+    payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  },
+};
+
+/**
+ * Creates a facilitator wallet with mocked RPC calls
+ *
+ * @param status - The status of the settlement receipt
+ * @returns The mocked wallet
+ */
+function createWallet(status: "success" | "reverted" = "success") {
+  const wallet = {
+    chain: baseSepolia,
+    account,
+    call: vi.fn(async () => ({ data: "0x" })),
+    sendTransaction: vi.fn(async () => TX_HASH),
+    waitForTransactionReceipt: vi.fn(async () => ({ status, logs: [] })),
+  };
+  return wallet as typeof wallet & SignerWallet;
+}
+
+describe("submitSettlement", () => {
+  it("should wait for the receipt by default", async () => {
+    const wallet = createWallet();
+
+    const result = await submitSettlement(wallet, call, 1n, context);
+
+    expect(result).toMatchObject({ success: true, transaction: TX_HASH, status: "confirmed" });
+    expect(wallet.sendTransaction).toHaveBeenCalledOnce();
+    expect(wallet.waitForTransactionReceipt).toHaveBeenCalledWith({ hash: TX_HASH });
+  });
+
+  it("should report reverted settlements with the context reason", async () => {
+    const result = await submitSettlement(
+      createWallet("reverted"),
+      call,
+      1n,
+      { ...context, revertedReason: "invalid_transaction_state" },
+      { waitUntil: "confirmed" },
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: TX_HASH,
+    });
+  });
+
+  it("should only simulate the call when waitUntil is simulated", async () => {
+    const wallet = createWallet();
+
+    const result = await submitSettlement(wallet, call, 1n, context, { waitUntil: "simulated" });
+
+    expect(result).toEqual({
+      success: true,
+      transaction: "",
+      network: "base-sepolia",
+      payer: account.address,
+      status: "simulated",
+    });
+    expect(wallet.call).toHaveBeenCalledWith(expect.objectContaining(call));
+    expect(wallet.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the simulation reverts", async () => {
+    const wallet = createWallet();
+    wallet.call.mockRejectedValueOnce(new Error("execution reverted"));
+
+    const result = await submitSettlement(wallet, call, 1n, context, { waitUntil: "simulated" });
+
+    expect(result).toMatchObject({ success: false, errorReason: "settlement_simulation_failed" });
+  });
+
+  it("should return once submitted and report the confirmation", async () => {
+    const wallet = createWallet();
+    let confirmed: (response: SettleResponse) => void = () => {};
+    const confirmation = new Promise<SettleResponse>(resolve => (confirmed = resolve));
+
+    const result = await submitSettlement(wallet, call, 1n, context, {
+      waitUntil: "submitted",
+      onConfirmed: confirmed,
+    });
+
+    expect(result).toMatchObject({ success: true, transaction: TX_HASH, status: "submitted" });
+    await expect(confirmation).resolves.toMatchObject({
+      success: true,
+      transaction: TX_HASH,
+      status: "confirmed",
+    });
+  });
+
+  it("should report a failed confirmation of a submitted settlement", async () => {
+    const wallet = createWallet();
+    wallet.waitForTransactionReceipt.mockRejectedValueOnce(new Error("timeout"));
+    const onConfirmed = vi.fn();
+
+    await submitSettlement(wallet, call, 1n, context, { waitUntil: "submitted", onConfirmed });
+
+    await vi.waitFor(() =>
+      expect(onConfirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, errorReason: "unexpected_settle_error" }),
+      ),
+    );
+  });
+
+  it("should fail instead of throwing when the transaction cannot be sent", async () => {
+    const wallet = createWallet();
+    wallet.sendTransaction.mockRejectedValueOnce(new Error("nonce too low"));
+
+    const result = await submitSettlement(wallet, call, 1n, context, { waitUntil: "submitted" });
+
+    expect(result).toEqual({
+      success: false,
+      errorReason: "unexpected_settle_error",
+      transaction: "",
+      network: "base-sepolia",
+      payer: account.address,
+    });
+  });
+
+  it("should fail instead of throwing when the receipt cannot be fetched", async () => {
+    const wallet = createWallet();
+    wallet.waitForTransactionReceipt.mockRejectedValueOnce(new Error("timeout"));
+
+    const result = await submitSettlement(wallet, call, 1n, context);
+
+    expect(result).toMatchObject({
+      success: false,
+      errorReason: "unexpected_settle_error",
+      transaction: TX_HASH,
+    });
+  });
+});
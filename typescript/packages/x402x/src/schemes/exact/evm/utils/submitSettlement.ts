@@ -0,0 +1,162 @@
+import { Address, Chain, Hex, Transport, TransactionReceipt } from "viem";
+import { SignerWallet } from "../../../../types/shared/evm";
+import { ErrorReasons, SettleOptions, SettleResponse } from "../../../../types/verify";
+import { decodeSettlementBreakdown, SettlementBreakdownOptions } from "../../../../shared/evm";
+
+/**
+ * The settlement being submitted
+ */
+export interface SettlementContext {
+  /** The network of the payment */
+  network: SettleResponse["network"];
+
+  /** The payer whose funds are settled */
+  payer: Address;
+
+  /** The payment the breakdown is decoded for once the transaction is confirmed */
+  breakdown: SettlementBreakdownOptions;
+
+  /** Error reason reported when the transaction reverts */
+  revertedReason?: (typeof ErrorReasons)[number];
+}
+
+/**
+ * Simulates, broadcasts or confirms a settlement transaction according to `options.waitUntil`
+ *
+ * - "simulated": runs the call with eth_call, nothing is broadcast
+ * - "submitted": returns once the transaction is broadcast, the confirmed settlement is passed to
+ *   `options.onConfirmed`
+ * - "confirmed": waits for the receipt (default)
+ *
+ * RPC errors while broadcasting or confirming are reported as "unexpected_settle_error" instead of
+ * thrown, so every payment gets a SettleResponse.
+ *
+ * @param wallet - The facilitator wallet that submits the transaction
+ * @param call - The settlement call
+ * @param call.to - The contract that executes the settlement
+ * @param call.data - The encoded settlement calldata
+ * @param call.gas - Optional gas limit, estimated when omitted
+ * @param gasPrice - Gas price in wei
+ * @param context - The settlement being submitted
+ * @param options - The settlement options
+ * @returns A SettleResponse whose status tells how far the settlement went
+ */
+export async function submitSettlement<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  call: { to: Address; data: Hex; gas?: bigint },
+  gasPrice: bigint,
+  context: SettlementContext,
+  options: SettleOptions = {},
+): Promise<SettleResponse> {
+  const { network, payer } = context;
+
+  if (options.waitUntil === "simulated") {
+    try {
+      await (wallet as SignerWallet).call({
+        account: wallet.account,
+        to: call.to,
+        data: call.data,
+      });
+    } catch {
+      return {
+        success: false,
+        errorReason: "settlement_simulation_failed",
+        transaction: "",
+        network,
+        payer,
+      };
+    }
+    return { success: true, transaction: "", network, payer, status: "simulated" };
+  }
+
+  let transaction: Hex;
+  try {
+    transaction = await wallet.sendTransaction({
+      to: call.to,
+      data: call.data,
+      gas: call.gas,
+      chain: wallet.chain as Chain,
+      gasPrice,
+    });
+  } catch {
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      transaction: "",
+      network,
+      payer,
+    };
+  }
+
+  const confirmation = confirmSettlement(wallet, transaction, context).catch(
+    (): SettleResponse => ({
+      success: false,
+      errorReason: "unexpected_settle_error",
+      transaction,
+      network,
+      payer,
+    }),
+  );
+  if (options.waitUntil !== "submitted") {
+    return confirmation;
+  }
+
+  trackConfirmation(confirmation, options);
+  return { success: true, transaction, network, payer, status: "submitted" };
+}
+
+/**
+ * Waits for a settlement transaction and decodes its breakdown
+ *
+ * Can be used to track a settlement returned with status "submitted", e.g. by a resource server
+ * whose facilitator runs remotely.
+ *
+ * @param client - Any client able to wait for transaction receipts
+ * @param client.waitForTransactionReceipt - Waits for the receipt of a transaction
+ * @param transaction - The settlement transaction hash
+ * @param context - The settlement that was submitted
+ * @returns The confirmed (or reverted) settlement
+ */
+export async function confirmSettlement(
+  client: {
+    waitForTransactionReceipt: (args: {
+      hash: Hex;
+    }) => Promise<Pick<TransactionReceipt, "status" | "logs">>;
+  },
+  transaction: Hex,
+  context: SettlementContext,
+): Promise<SettleResponse> {
+  const { network, payer } = context;
+  const receipt = await client.waitForTransactionReceipt({ hash: transaction });
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: context.revertedReason ?? "transaction_failed",
+      transaction,
+      network,
+      payer,
+    };
+  }
+
+  return {
+    success: true,
+    transaction,
+    network,
+    payer,
+    breakdown: decodeSettlementBreakdown(receipt, context.breakdown),
+    status: "confirmed",
+  };
+}
+
+/**
+ * Reports the confirmation of a submitted settlement to `options.onConfirmed`
+ *
+ * @param confirmation - The pending confirmation
+ * @param options - The settlement options
+ */
+function trackConfirmation(confirmation: Promise<SettleResponse>, options: SettleOptions): void {
+  confirmation
+    .then(response => options.onConfirmed?.(response))
+    .catch(error => console.warn("Failed to report settlement confirmation:", error));
+}
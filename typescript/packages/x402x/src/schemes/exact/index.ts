@@ -1,4 +1,5 @@
 export * as evm from "./evm";
 export * as svm from "./svm";
+export * as sui from "./sui";
 
 export const SCHEME = "exact";
@@ -0,0 +1,97 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { PaymentRequirements } from "../../../types/verify";
+import * as rpc from "../../../shared/sui/rpc";
+import { decodePayment } from "../../utils";
+import { createAndSignPayment, createPaymentHeader } from "./client";
+
+vi.mock("../../../shared/sui/rpc");
+
+const USDC = "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC";
+const PAY_TO = `0x${"2".repeat(64)}`;
+
+describe("Sui Client", () => {
+  const clientSigner = Ed25519Keypair.generate();
+  const mockSuiClient = { network: "testnet" };
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    payTo: PAY_TO,
+    asset: USDC,
+    maxAmountRequired: "10000",
+    resource: "http://example.com/resource",
+    description: "Test description",
+    mimeType: "text/plain",
+    maxTimeoutSeconds: 60,
+  };
+  let builtBytes: Awaited<ReturnType<Transaction["build"]>>;
+
+  beforeAll(async () => {
+    // a fully resolved transaction stands in for the result of resolving against the RPC
+    const tx = new Transaction();
+    tx.setSender(clientSigner.toSuiAddress());
+    tx.setGasPrice(1000);
+    tx.setGasBudget(10_000_000);
+    tx.setGasPayment([
+      {
+        objectId: `0x${"1".repeat(64)}`,
+        version: "1",
+        digest: "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi",
+      },
+    ]);
+    tx.transferObjects([tx.splitCoins(tx.gas, [10000])], PAY_TO);
+    builtBytes = await tx.build();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rpc.getSuiClient).mockReturnValue(mockSuiClient as never);
+    vi.spyOn(Transaction.prototype, "build").mockResolvedValue(builtBytes);
+  });
+
+  it("should transfer exactly maxAmountRequired of the asset to payTo from the signer", async () => {
+    await createAndSignPayment(clientSigner, 1, paymentRequirements);
+
+    const [transaction] = vi.mocked(Transaction.prototype.build).mock.contexts as Transaction[];
+    const data = transaction.getData();
+    expect(data.sender).toBe(clientSigner.toSuiAddress());
+    expect(data.commands[0].$Intent).toMatchObject({
+      name: "CoinWithBalance",
+      data: { type: USDC, balance: 10000n },
+    });
+    expect(data.commands[1].TransferObjects).toBeDefined();
+    expect(Transaction.prototype.build).toHaveBeenCalledWith({ client: mockSuiClient });
+  });
+
+  it("should return a signed payment payload", async () => {
+    const payment = await createAndSignPayment(clientSigner, 1, paymentRequirements);
+
+    expect(payment).toMatchObject({ scheme: "exact", network: "sui-testnet", x402Version: 1 });
+    const payload = payment.payload as { signature: string; transaction: string };
+    expect(fromBase64(payload.transaction)).toEqual(builtBytes);
+    const publicKey = await verifyTransactionSignature(builtBytes, payload.signature);
+    expect(publicKey.toSuiAddress()).toBe(clientSigner.toSuiAddress());
+  });
+
+  it("should use the custom RPC URL from config", async () => {
+    await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+      suiConfig: { rpcUrl: "http://localhost:9000" },
+    });
+
+    expect(rpc.getSuiClient).toHaveBeenCalledWith("sui-testnet", "http://localhost:9000");
+  });
+
+  it("should encode a payment header that decodes back to the payload", async () => {
+    const header = await createPaymentHeader(clientSigner, 1, paymentRequirements);
+
+    const decoded = decodePayment(header);
+    expect(decoded.network).toBe("sui-testnet");
+    expect(decoded.payload).toEqual({
+      signature: expect.any(String),
+      transaction: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { encodePayment } from "../../utils";
+import { coinWithBalance, Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { X402Config } from "../../../types/config";
+import { SuiSigner } from "../../../shared/sui/wallet";
+import { getSuiClient } from "../../../shared/sui/rpc";
+
+/**
+ * Creates and encodes a payment header for the given client and payment requirements.
+ *
+ * @param client - The signer instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to a base64 encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SuiSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<string> {
+  const paymentPayload = await createAndSignPayment(
+    client,
+    x402Version,
+    paymentRequirements,
+    config,
+  );
+  return encodePayment(paymentPayload);
+}
+
+/**
+ * Creates and signs a payment for the given client and payment requirements.
+ *
+ * The client pays for gas; sponsored transactions (`paymentRequirements.extra.gasStation`)
+ * are not supported yet.
+ *
+ * @param client - The signer instance used to create and sign the payment tx
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to a payment payload containing a base64 encoded sui coin transfer tx and its signature
+ */
+export async function createAndSignPayment(
+  client: SuiSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<PaymentPayload> {
+  const transaction = createTransferTransaction(client, paymentRequirements);
+  const rpc = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+
+  // resolve the coins, gas payment and gas budget, then sign
+  const bytes = await transaction.build({ client: rpc });
+  const { signature } = await client.signTransaction(bytes);
+
+  // return payment payload
+  return {
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    x402Version: x402Version,
+    payload: {
+      signature,
+      transaction: toBase64(bytes),
+    },
+  } as PaymentPayload;
+}
+
+/**
+ * Creates a transaction that transfers exactly `maxAmountRequired` of the `asset` coin type to `payTo`.
+ *
+ * @param client - The signer instance who's coins will be debited from
+ * @param paymentRequirements - The payment requirements
+ * @returns The unresolved transfer transaction
+ */
+function createTransferTransaction(
+  client: SuiSigner,
+  paymentRequirements: PaymentRequirements,
+): Transaction {
+  const { asset, maxAmountRequired: amount, payTo } = paymentRequirements;
+
+  const transaction = new Transaction();
+  transaction.setSender(client.toSuiAddress());
+  transaction.transferObjects([coinWithBalance({ type: asset, balance: BigInt(amount) })], payTo);
+  return transaction;
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import * as rpc from "../../../../shared/sui/rpc";
+import * as verifyModule from "./verify";
+import { settle } from "./settle";
+
+vi.mock("../../../../shared/sui/rpc");
+vi.mock("./verify");
+
+const PAYER = `0x${"5".repeat(64)}`;
+const DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+describe("settle", () => {
+  const mockSuiClient = { executeTransactionBlock: vi.fn() };
+  const paymentRequirements = { scheme: "exact", network: "sui" } as PaymentRequirements;
+  const payload = {
+    scheme: "exact",
+    network: "sui",
+    x402Version: 1,
+    payload: { signature: "c2lnbmF0dXJl", transaction: "dHJhbnNhY3Rpb24=" },
+  } as PaymentPayload;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rpc.getSuiClient).mockReturnValue(mockSuiClient as never);
+    vi.mocked(verifyModule.verify).mockResolvedValue({ isValid: true, payer: PAYER });
+  });
+
+  it("should execute the client-signed transaction", async () => {
+    mockSuiClient.executeTransactionBlock.mockResolvedValue({
+      digest: DIGEST,
+      effects: { status: { status: "success" } },
+    });
+
+    const result = await settle(payload, paymentRequirements);
+
+    expect(result).toEqual({ success: true, payer: PAYER, transaction: DIGEST, network: "sui" });
+    expect(mockSuiClient.executeTransactionBlock).toHaveBeenCalledWith({
+      transactionBlock: "dHJhbnNhY3Rpb24=",
+      signature: "c2lnbmF0dXJl",
+      options: { showEffects: true },
+      requestType: "WaitForLocalExecution",
+    });
+  });
+
+  it("should not execute payments that fail verification", async () => {
+    vi.mocked(verifyModule.verify).mockResolvedValue({
+      isValid: false,
+      invalidReason: "invalid_exact_sui_payload_transaction_amount_mismatch",
+      payer: PAYER,
+    });
+
+    const result = await settle(payload, paymentRequirements);
+
+    expect(result).toEqual({
+      success: false,
+      errorReason: "invalid_exact_sui_payload_transaction_amount_mismatch",
+      network: "sui",
+      transaction: "",
+      payer: PAYER,
+    });
+    expect(mockSuiClient.executeTransactionBlock).not.toHaveBeenCalled();
+  });
+
+  it("should report transactions that fail on chain", async () => {
+    mockSuiClient.executeTransactionBlock.mockResolvedValue({
+      digest: DIGEST,
+      effects: { status: { status: "failure", error: "InsufficientGas" } },
+    });
+
+    const result = await settle(payload, paymentRequirements);
+
+    expect(result).toMatchObject({
+      success: false,
+      errorReason: "settle_exact_sui_transaction_failed",
+      transaction: DIGEST,
+    });
+  });
+
+  it("should return unexpected_settle_error when execution throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockSuiClient.executeTransactionBlock.mockRejectedValue(new Error("network down"));
+
+    const result = await settle(payload, paymentRequirements);
+
+    expect(result).toMatchObject({ success: false, errorReason: "unexpected_settle_error" });
+  });
+});
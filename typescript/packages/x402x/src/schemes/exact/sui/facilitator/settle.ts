@@ -0,0 +1,75 @@
+import {
+  SettleResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  ExactSuiPayload,
+} from "../../../../types/verify";
+import { X402Config } from "../../../../types/config";
+import { getSuiClient } from "../../../../shared/sui/rpc";
+import { verify } from "./verify";
+
+/**
+ * Settle the payment payload against the payment requirements.
+ *
+ * The facilitator broadcasts the client-signed transaction and waits for it to be executed.
+ *
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+export async function settle(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const verifyResponse = await verify(payload, paymentRequirements, config);
+  if (!verifyResponse.isValid) {
+    return {
+      success: false,
+      errorReason: verifyResponse.invalidReason,
+      network: payload.network,
+      transaction: "",
+      payer: verifyResponse.payer,
+    };
+  }
+
+  const suiPayload = payload.payload as ExactSuiPayload;
+  const payer = verifyResponse.payer;
+  const rpc = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+
+  try {
+    const result = await rpc.executeTransactionBlock({
+      transactionBlock: suiPayload.transaction,
+      signature: suiPayload.signature,
+      options: { showEffects: true },
+      requestType: "WaitForLocalExecution",
+    });
+
+    if (result.effects?.status.status !== "success") {
+      return {
+        success: false,
+        errorReason: "settle_exact_sui_transaction_failed",
+        network: payload.network,
+        transaction: result.digest,
+        payer,
+      };
+    }
+
+    return {
+      success: true,
+      payer,
+      transaction: result.digest,
+      network: payload.network,
+    };
+  } catch (error) {
+    console.error("Unexpected error during transaction settlement:", error);
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      network: payload.network,
+      transaction: "",
+      payer,
+    };
+  }
+}
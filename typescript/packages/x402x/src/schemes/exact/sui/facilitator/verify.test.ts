@@ -0,0 +1,238 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import * as rpc from "../../../../shared/sui/rpc";
+import { verify, verifyBalanceChanges, verifySchemesAndNetworks } from "./verify";
+
+vi.mock("../../../../shared/sui/rpc");
+
+const USDC = "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC";
+const PAY_TO = `0x${"2".repeat(64)}`;
+
+/**
+ * Builds and signs a transfer transaction offline
+ *
+ * @param sender - The signer of the transaction
+ * @param gasOwner - Optional gas owner, defaults to the sender
+ * @returns The Sui payment payload
+ */
+async function signTransfer(sender: Ed25519Keypair, gasOwner?: string) {
+  const tx = new Transaction();
+  tx.setSender(sender.toSuiAddress());
+  if (gasOwner) {
+    tx.setGasOwner(gasOwner);
+  }
+  tx.setGasPrice(1000);
+  tx.setGasBudget(10_000_000);
+  tx.setGasPayment([
+    {
+      objectId: `0x${"1".repeat(64)}`,
+      version: "1",
+      digest: "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi",
+    },
+  ]);
+  tx.transferObjects([tx.splitCoins(tx.gas, [10000])], PAY_TO);
+  const bytes = await tx.build();
+  const { signature } = await sender.signTransaction(bytes);
+  return { signature, transaction: toBase64(bytes) };
+}
+
+describe("verify", () => {
+  const payer = Ed25519Keypair.generate();
+  const mockSuiClient = { dryRunTransactionBlock: vi.fn() };
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    payTo: PAY_TO,
+    asset: USDC,
+    maxAmountRequired: "10000",
+    resource: "http://example.com/resource",
+    description: "Test description",
+    mimeType: "text/plain",
+    maxTimeoutSeconds: 60,
+  };
+  let payload: PaymentPayload;
+
+  beforeAll(async () => {
+    payload = {
+      scheme: "exact",
+      network: "sui-testnet",
+      x402Version: 1,
+      payload: await signTransfer(payer),
+    };
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rpc.getSuiClient).mockReturnValue(mockSuiClient as never);
+    mockSuiClient.dryRunTransactionBlock.mockResolvedValue({
+      effects: { status: { status: "success" } },
+      balanceChanges: [
+        { owner: { AddressOwner: payer.toSuiAddress() }, coinType: USDC, amount: "-10000" },
+        { owner: { AddressOwner: PAY_TO }, coinType: USDC, amount: "10000" },
+      ],
+    });
+  });
+
+  it("should accept a signed transfer of maxAmountRequired to payTo", async () => {
+    const result = await verify(payload, paymentRequirements, {
+      suiConfig: { rpcUrl: "http://localhost:9000" },
+    });
+
+    expect(result).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.toSuiAddress(),
+    });
+    expect(rpc.getSuiClient).toHaveBeenCalledWith("sui-testnet", "http://localhost:9000");
+    expect(mockSuiClient.dryRunTransactionBlock).toHaveBeenCalledWith({
+      transactionBlock: expect.any(Uint8Array),
+    });
+  });
+
+  it("should reject a signature that was not made by the sender", async () => {
+    const other = await signTransfer(Ed25519Keypair.generate());
+    const forged = {
+      ...payload,
+      payload: { ...(payload.payload as object), signature: other.signature },
+    } as PaymentPayload;
+
+    const result = await verify(forged, paymentRequirements);
+
+    expect(result).toEqual({
+      isValid: false,
+      invalidReason: "invalid_exact_sui_payload_signature",
+      payer: payer.toSuiAddress(),
+    });
+    expect(mockSuiClient.dryRunTransactionBlock).not.toHaveBeenCalled();
+  });
+
+  it("should reject transactions that cannot be decoded", async () => {
+    const result = await verify(
+      { ...payload, payload: { signature: "AAAA", transaction: "AAAA" } },
+      paymentRequirements,
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction");
+  });
+
+  it("should reject sponsored transactions", async () => {
+    const sponsored = await signTransfer(payer, `0x${"3".repeat(64)}`);
+
+    const result = await verify({ ...payload, payload: sponsored }, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_sponsored");
+  });
+
+  it("should reject transactions that fail simulation", async () => {
+    mockSuiClient.dryRunTransactionBlock.mockResolvedValue({
+      effects: { status: { status: "failure", error: "InsufficientCoinBalance" } },
+      balanceChanges: [],
+    });
+
+    const result = await verify(payload, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_simulation_failed");
+  });
+
+  it("should return unexpected_verify_error when the RPC fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockSuiClient.dryRunTransactionBlock.mockRejectedValue(new Error("network down"));
+
+    const result = await verify(payload, paymentRequirements);
+
+    expect(result).toEqual({
+      isValid: false,
+      invalidReason: "unexpected_verify_error",
+      payer: payer.toSuiAddress(),
+    });
+  });
+});
+
+describe("verifySchemesAndNetworks", () => {
+  const requirements = { scheme: "exact", network: "sui" } as PaymentRequirements;
+
+  it("should accept matching sui networks", () => {
+    expect(() =>
+      verifySchemesAndNetworks({ scheme: "exact", network: "sui" } as PaymentPayload, requirements),
+    ).not.toThrow();
+  });
+
+  it("should reject mismatched or non-sui networks", () => {
+    expect(() =>
+      verifySchemesAndNetworks(
+        { scheme: "exact", network: "sui-testnet" } as PaymentPayload,
+        requirements,
+      ),
+    ).toThrow("invalid_network");
+    expect(() =>
+      verifySchemesAndNetworks({ scheme: "exact", network: "solana" } as PaymentPayload, {
+        ...requirements,
+        network: "solana",
+      }),
+    ).toThrow("invalid_network");
+  });
+
+  it("should reject other schemes", () => {
+    expect(() =>
+      verifySchemesAndNetworks({ scheme: "upto", network: "sui" } as PaymentPayload, requirements),
+    ).toThrow("unsupported_scheme");
+  });
+});
+
+describe("verifyBalanceChanges", () => {
+  const requirements = {
+    payTo: "0x2",
+    asset: "0x2::sui::SUI",
+    maxAmountRequired: "10000",
+  } as PaymentRequirements;
+  const payTo = `0x${"0".repeat(63)}2`;
+
+  it("should normalize addresses and coin types", () => {
+    expect(() =>
+      verifyBalanceChanges(
+        [
+          {
+            owner: { AddressOwner: payTo },
+            coinType: `0x${"0".repeat(63)}2::sui::SUI`,
+            amount: "10000",
+          },
+        ],
+        requirements,
+      ),
+    ).not.toThrow();
+  });
+
+  it("should reject transfers to another address or of another coin", () => {
+    expect(() =>
+      verifyBalanceChanges(
+        [
+          {
+            owner: { AddressOwner: `0x${"4".repeat(64)}` },
+            coinType: "0x2::sui::SUI",
+            amount: "10000",
+          },
+        ],
+        requirements,
+      ),
+    ).toThrow("invalid_exact_sui_payload_transaction_recipient_mismatch");
+    expect(() =>
+      verifyBalanceChanges(
+        [{ owner: { AddressOwner: payTo }, coinType: USDC, amount: "10000" }],
+        requirements,
+      ),
+    ).toThrow("invalid_exact_sui_payload_transaction_recipient_mismatch");
+  });
+
+  it("should reject amounts other than maxAmountRequired", () => {
+    expect(() =>
+      verifyBalanceChanges(
+        [{ owner: { AddressOwner: payTo }, coinType: "0x2::sui::SUI", amount: "9999" }],
+        requirements,
+      ),
+    ).toThrow("invalid_exact_sui_payload_transaction_amount_mismatch");
+  });
+});
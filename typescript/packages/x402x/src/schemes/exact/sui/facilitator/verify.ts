@@ -0,0 +1,163 @@
+import {
+  VerifyResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  ExactSuiPayload,
+  ErrorReasons,
+} from "../../../../types/verify";
+import { SupportedSuiNetworks } from "../../../../types/shared";
+import { X402Config } from "../../../../types/config";
+import { BalanceChange } from "@mysten/sui/client";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import {
+  decodeTransactionFromPayload,
+  getGasOwnerFromTransaction,
+  getPayerFromTransaction,
+} from "../../../../shared/sui";
+import { getSuiClient } from "../../../../shared/sui/rpc";
+import { SCHEME } from "../..";
+
+/**
+ * Verify the payment payload against the payment requirements.
+ *
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<VerifyResponse> {
+  let payer: string | undefined;
+  try {
+    // verify that the scheme and network are supported
+    verifySchemesAndNetworks(payload, paymentRequirements);
+
+    // decode the base64 encoded transaction
+    const suiPayload = payload.payload as ExactSuiPayload;
+    const transaction = decodeTransactionFromPayload(suiPayload);
+    payer = getPayerFromTransaction(transaction) || undefined;
+
+    // verify the signature was made by the sender over the provided transaction
+    await verifySignature(transaction, suiPayload.signature, payer);
+
+    // sponsored transactions need the facilitator's gas signature, which is not supported yet
+    if (getGasOwnerFromTransaction(transaction) !== payer) {
+      throw new Error("invalid_exact_sui_payload_transaction_sponsored");
+    }
+
+    // simulate the transaction to ensure it will execute successfully and has not been executed yet
+    const rpc = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+    const simulateResult = await rpc.dryRunTransactionBlock({ transactionBlock: transaction });
+    if (simulateResult.effects.status.status !== "success") {
+      throw new Error("invalid_exact_sui_payload_transaction_simulation_failed");
+    }
+
+    // verify the payTo address receives exactly maxAmountRequired of the asset
+    verifyBalanceChanges(simulateResult.balanceChanges, paymentRequirements);
+
+    return {
+      isValid: true,
+      invalidReason: undefined,
+      payer,
+    };
+  } catch (error) {
+    // if the error is one of the known error reasons, return the error reason
+    if (error instanceof Error) {
+      if (ErrorReasons.includes(error.message as (typeof ErrorReasons)[number])) {
+        return {
+          isValid: false,
+          invalidReason: error.message as (typeof ErrorReasons)[number],
+          payer,
+        };
+      }
+    }
+
+    // if the error is not one of the known error reasons, return an unexpected error reason
+    console.error(error);
+    return {
+      isValid: false,
+      invalidReason: "unexpected_verify_error",
+      payer,
+    };
+  }
+}
+
+/**
+ * Verify that the scheme and network are supported.
+ *
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ */
+export function verifySchemesAndNetworks(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): void {
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    throw new Error("unsupported_scheme");
+  }
+
+  if (
+    payload.network !== paymentRequirements.network ||
+    !SupportedSuiNetworks.includes(paymentRequirements.network)
+  ) {
+    throw new Error("invalid_network");
+  }
+}
+
+/**
+ * Verify that the signature is valid over the transaction and was made by the sender.
+ *
+ * @param transaction - The BCS encoded transaction bytes
+ * @param signature - The base64 encoded serialized signature
+ * @param sender - The sender of the transaction
+ */
+export async function verifySignature(
+  transaction: Uint8Array,
+  signature: string,
+  sender: string | undefined,
+): Promise<void> {
+  if (!sender) {
+    throw new Error("invalid_exact_sui_payload_transaction");
+  }
+
+  try {
+    await verifyTransactionSignature(transaction, signature, { address: sender });
+  } catch {
+    throw new Error("invalid_exact_sui_payload_signature");
+  }
+}
+
+/**
+ * Verify that the simulated balance changes credit the payTo address with
+ * exactly maxAmountRequired of the asset.
+ *
+ * @param balanceChanges - The balance changes of the simulated transaction
+ * @param paymentRequirements - The payment requirements to verify against
+ */
+export function verifyBalanceChanges(
+  balanceChanges: BalanceChange[],
+  paymentRequirements: PaymentRequirements,
+): void {
+  const payTo = normalizeSuiAddress(paymentRequirements.payTo);
+  const coinType = normalizeStructTag(paymentRequirements.asset);
+
+  const received = balanceChanges.filter(
+    change =>
+      typeof change.owner === "object" &&
+      "AddressOwner" in change.owner &&
+      normalizeSuiAddress(change.owner.AddressOwner) === payTo &&
+      normalizeStructTag(change.coinType) === coinType,
+  );
+  if (received.length === 0) {
+    throw new Error("invalid_exact_sui_payload_transaction_recipient_mismatch");
+  }
+
+  const amount = received.reduce((total, change) => total + BigInt(change.amount), 0n);
+  if (amount !== BigInt(paymentRequirements.maxAmountRequired)) {
+    throw new Error("invalid_exact_sui_payload_transaction_amount_mismatch");
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./facilitator/index";
+export * from "./client";
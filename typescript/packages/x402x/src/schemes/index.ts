@@ -1,2 +1,3 @@
 export * as exact from "./exact";
+export * as upto from "./upto";
 export * from "./utils";
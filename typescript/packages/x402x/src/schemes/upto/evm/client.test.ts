@@ -0,0 +1,325 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSignerSepolia, SignerWallet } from "../../../types/shared/evm";
+import { PaymentRequirements } from "../../../types/verify";
+import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+import { signPermit } from "../../exact/evm/permit/sign";
+import { signPermit2 } from "../../exact/evm/permit2/sign";
+import { encodePayment } from "../../exact/evm/utils/paymentUtils";
+
+vi.mock("../../exact/evm/permit/sign", async () => {
+  const actual = await vi.importActual("../../exact/evm/permit/sign");
+  return {
+    ...actual,
+    signPermit: vi.fn(),
+  };
+});
+
+vi.mock("../../exact/evm/permit2/sign", async () => {
+  const actual = await vi.importActual("../../exact/evm/permit2/sign");
+  return {
+    ...actual,
+    signPermit2: vi.fn(),
+  };
+});
+
+vi.mock("../../exact/evm/utils/paymentUtils", () => ({
+  encodePayment: vi.fn().mockReturnValue("encoded-payment-header"),
+}));
+
+const FACILITATOR = "0x9999999999999999999999999999999999999999";
+const PAY_TO = "0x1234567890123456789012345678901234567890";
+const OWNER = "0xabcdef1234567890123456789012345678901234";
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "upto",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Metered resource",
+  mimeType: "application/json",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: {
+    spender: FACILITATOR,
+  },
+};
+
+const createTestClient = () => {
+  const client = createSignerSepolia(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  return client as unknown as SignerWallet;
+};
+
+describe("Upto preparePaymentHeader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should authorize the facilitator for maxAmountRequired via Permit2 by default", () => {
+    const result = preparePaymentHeader(OWNER, 1, mockPaymentRequirements);
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    expect(result).toEqual({
+      x402Version: 1,
+      scheme: "upto",
+      network: "base-sepolia",
+      payload: {
+        authorizationType: "permit2",
+        signature: undefined,
+        authorization: {
+          owner: OWNER,
+          spender: FACILITATOR,
+          token: mockPaymentRequirements.asset,
+          amount: "1000000",
+          deadline: (currentTime + 300).toString(),
+          to: PAY_TO,
+        },
+      },
+    });
+  });
+
+  it("should use EIP-2612 Permit when paymentType is permit", () => {
+    const result = preparePaymentHeader(OWNER, 1, {
+      ...mockPaymentRequirements,
+      paymentType: "permit",
+    });
+
+    expect(result.payload.authorizationType).toBe("permit");
+    expect(result.payload.authorization).toMatchObject({
+      owner: OWNER,
+      spender: FACILITATOR,
+      value: "1000000",
+    });
+  });
+
+  it("should throw when extra.spender is missing", () => {
+    expect(() =>
+      preparePaymentHeader(OWNER, 1, { ...mockPaymentRequirements, extra: undefined }),
+    ).toThrow("Upto payment requirements must provide extra.spender");
+  });
+});
+
+describe("Upto signPaymentHeader", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(signPermit2).mockResolvedValue({ signature: "0x1234", nonce: "10" });
+    vi.mocked(signPermit).mockResolvedValue({ signature: "0x5678", nonce: "3" });
+  });
+
+  it("should sign a Permit2 authorization and keep the witness", async () => {
+    const client = createTestClient();
+    const unsigned = preparePaymentHeader(OWNER, 1, mockPaymentRequirements);
+    const result = await signPaymentHeader(client, mockPaymentRequirements, unsigned);
+
+    expect(signPermit2).toHaveBeenCalledWith(
+      client,
+      unsigned.payload.authorization,
+      mockPaymentRequirements,
+    );
+    expect(result.payload).toEqual({
+      authorizationType: "permit2",
+      signature: "0x1234",
+      authorization: { ...unsigned.payload.authorization, nonce: "10" },
+    });
+  });
+
+  it("should sign a Permit authorization", async () => {
+    const client = createTestClient();
+    const requirements = { ...mockPaymentRequirements, paymentType: "permit" as const };
+    const unsigned = preparePaymentHeader(OWNER, 1, requirements);
+    const result = await signPaymentHeader(client, requirements, unsigned);
+
+    expect(signPermit).toHaveBeenCalledWith(client, unsigned.payload.authorization, requirements);
+    expect(result.payload).toEqual({
+      authorizationType: "permit",
+      signature: "0x5678",
+      authorization: { ...unsigned.payload.authorization, nonce: "3" },
+    });
+  });
+
+  it("should encode the signed payment in createPaymentHeader", async () => {
+    const client = createTestClient();
+    const result = await createPaymentHeader(client, 1, mockPaymentRequirements);
+
+    expect(result).toBe("encoded-payment-header");
+    expect(encodePayment).toHaveBeenCalledWith(
+      expect.objectContaining({ scheme: "upto", network: "base-sepolia" }),
+    );
+  });
+});
+
+describe("Upto settle", () => {
+  it("should reject settling more than maxAmountRequired", async () => {
+    const wallet = createTestClient();
+    const result = await settle(
+      wallet,
+      {
+        x402Version: 1,
+        scheme: "upto",
+        network: "base-sepolia",
+        payload: {
+          authorizationType: "permit2",
+          signature: "0x1234",
+          authorization: {
+            owner: OWNER,
+            spender: FACILITATOR,
+            token: mockPaymentRequirements.asset,
+            amount: "1000000",
+            deadline: "9999999999",
+            nonce: "1",
+            to: PAY_TO,
+          },
+        },
+      },
+      mockPaymentRequirements,
+      "1000001",
+    );
+
+    expect(result).toEqual({
+      success: false,
+      errorReason: "invalid_upto_settle_amount",
+      transaction: "",
+      network: "base-sepolia",
+      payer: OWNER,
+    });
+  });
+
+  describe("permit", () => {
+    const PERMIT_TX = `0x${"ab".repeat(32)}`;
+    const TRANSFER_TX = `0x${"cd".repeat(32)}`;
+    const permitRequirements: PaymentRequirements = {
+      ...mockPaymentRequirements,
+      extra: { spender: FACILITATOR, name: "USDC", version: "2" },
+    };
+    const permitPayment = {
+      x402Version: 1,
+      scheme: "upto" as const,
+      network: "base-sepolia" as const,
+      payload: {
+        authorizationType: "permit" as const,
+        signature: `0x${"11".repeat(65)}`,
+        authorization: {
+          owner: OWNER,
+          spender: FACILITATOR,
+          value: "1000000",
+          deadline: "9999999999",
+          nonce: "0",
+        },
+      },
+    };
+
+    /**
+     * Creates a facilitator wallet whose token reads return the given permit nonce and allowance
+     *
+     * @param nonce - The owner's current permit nonce
+     * @param allowance - The facilitator's current allowance
+     * @returns The mocked wallet
+     */
+    const createPermitWallet = (nonce: bigint, allowance: bigint) => {
+      const wallet = {
+        account: { address: FACILITATOR },
+        chain: { id: 84532 },
+        verifyTypedData: vi.fn(async () => true),
+        readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+          if (functionName === "nonces") return nonce;
+          if (functionName === "allowance") return allowance;
+          if (functionName === "balanceOf") return 10000000n;
+          throw new Error(`unexpected ${functionName}`);
+        }),
+        simulateContract: vi.fn(async () => ({ result: undefined })),
+        sendTransaction: vi.fn(async ({ data }: { data: string }) =>
+          data.startsWith("0x23b872dd") ? TRANSFER_TX : PERMIT_TX,
+        ),
+        waitForTransactionReceipt: vi.fn(async () => ({ status: "success", logs: [] })),
+      };
+      return wallet as unknown as SignerWallet & {
+        sendTransaction: typeof wallet.sendTransaction;
+        waitForTransactionReceipt: typeof wallet.waitForTransactionReceipt;
+      };
+    };
+
+    /**
+     * Returns the function selectors of the sent transactions
+     *
+     * @param wallet - The mocked wallet
+     * @returns The selectors in send order
+     */
+    const sentSelectors = (wallet: ReturnType<typeof createPermitWallet>) =>
+      wallet.sendTransaction.mock.calls.map(([call]) =>
+        (call as unknown as { data: string }).data.slice(0, 10),
+      );
+
+    it("should only send transferFrom when a failed settlement already applied the permit", async () => {
+      const wallet = createPermitWallet(1n, 1000000n);
+
+      const result = await settle(wallet, permitPayment, permitRequirements, "400000");
+
+      expect(result).toMatchObject({ success: true, transaction: TRANSFER_TX, payer: OWNER });
+      // transferFrom(address,address,uint256)
+      expect(sentSelectors(wallet)).toEqual(["0x23b872dd"]);
+    });
+
+    it("should reject replaying a permit whose allowance was already spent", async () => {
+      const wallet = createPermitWallet(1n, 600000n);
+
+      const result = await settle(wallet, permitPayment, permitRequirements, "400000");
+
+      expect(result).toMatchObject({
+        success: false,
+        errorReason: "permit_nonce_already_used",
+      });
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject replaying a settled permit after a newer permit", async () => {
+      // Nonce 1 granted the same, still unspent allowance after nonce 0 was settled
+      const wallet = createPermitWallet(2n, 1000000n);
+
+      expect(await verify(wallet, permitPayment, permitRequirements)).toMatchObject({
+        isValid: false,
+        invalidReason: "permit_nonce_already_used",
+      });
+      expect(await settle(wallet, permitPayment, permitRequirements, "400000")).toMatchObject({
+        success: false,
+        errorReason: "permit_nonce_already_used",
+      });
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should send transferFrom without waiting for the permit when only submitted", async () => {
+      const wallet = createPermitWallet(0n, 0n);
+
+      const result = await settle(wallet, permitPayment, permitRequirements, "400000", undefined, {
+        waitUntil: "submitted",
+      });
+
+      expect(result).toMatchObject({ success: true, transaction: TRANSFER_TX });
+      // permit(...) then transferFrom(...)
+      expect(sentSelectors(wallet)).toEqual(["0xd505accf", "0x23b872dd"]);
+      expect(wallet.sendTransaction.mock.calls[1][0]).toMatchObject({ gas: 120000n });
+      expect(wallet.waitForTransactionReceipt).not.toHaveBeenCalledWith({ hash: PERMIT_TX });
+    });
+
+    it("should fail instead of throwing when the permit cannot be sent", async () => {
+      const wallet = createPermitWallet(0n, 0n);
+      wallet.sendTransaction.mockRejectedValueOnce(new Error("nonce too low"));
+
+      const result = await settle(wallet, permitPayment, permitRequirements, "400000");
+
+      expect(result).toMatchObject({
+        success: false,
+        errorReason: "unexpected_settle_error",
+        transaction: "",
+      });
+      expect(wallet.sendTransaction).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Address, Chain, LocalAccount, Transport } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
+import { isSignerWallet, SignerWallet, withEvmConfig } from "../../../types/shared/evm";
+import { X402Config } from "../../../types/config";
+import {
+  PaymentRequirements,
+  PermitPaymentPayload,
+  Permit2PaymentPayload,
+  UnsignedPermitPaymentPayload,
+  UnsignedPermit2PaymentPayload,
+} from "../../../types/verify";
+import { signPermit } from "../../exact/evm/permit/sign";
+import { signPermit2 } from "../../exact/evm/permit2/sign";
+import { encodePayment } from "../../exact/evm/utils/paymentUtils";
+
+/**
+ * Reads the spender that will settle an upto payment from the payment requirements.
+ *
+ * Unlike the exact scheme, the upto authorization is granted to the facilitator
+ * (advertised in `extra.spender`), which later transfers only the consumed amount.
+ *
+ * @param paymentRequirements - The upto payment requirements
+ * @returns The spender address
+ */
+export function getSpender(paymentRequirements: PaymentRequirements): Address {
+  const spender = paymentRequirements.extra?.spender;
+  if (typeof spender !== "string") {
+    throw new Error("Upto payment requirements must provide extra.spender");
+  }
+  return spender as Address;
+}
+
+/**
+ * Prepares an unsigned upto payment header authorizing up to maxAmountRequired.
+ *
+ * Uses EIP-2612 Permit when `paymentType` is "permit", otherwise Permit2 with the
+ * recipient bound as witness.
+ *
+ * @param from - The token owner's address
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns An unsigned Permit or Permit2 payment payload
+ */
+export function preparePaymentHeader(
+  from: Address,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): UnsignedPermitPaymentPayload | UnsignedPermit2PaymentPayload {
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+  const spender = getSpender(paymentRequirements);
+
+  if (paymentRequirements.paymentType === "permit") {
+    return {
+      x402Version,
+      scheme: paymentRequirements.scheme,
+      network: paymentRequirements.network,
+      payload: {
+        authorizationType: "permit" as const,
+        signature: undefined,
+        authorization: {
+          owner: from,
+          spender,
+          value: paymentRequirements.maxAmountRequired,
+          deadline,
+        },
+      },
+    };
+  }
+
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload: {
+      authorizationType: "permit2" as const,
+      signature: undefined,
+      authorization: {
+        owner: from,
+        spender,
+        token: paymentRequirements.asset as Address,
+        amount: paymentRequirements.maxAmountRequired,
+        deadline,
+        to: paymentRequirements.payTo as Address, // Witness: bind recipient to signature
+      },
+    },
+  };
+}
+
+/**
+ * Signs an upto payment header using the provided client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to sign the authorization
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param unsignedPaymentHeader - The unsigned upto payment payload to be signed
+ * @returns A promise that resolves to the signed Permit or Permit2 payment payload
+ */
+export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
+  paymentRequirements: PaymentRequirements,
+  unsignedPaymentHeader: UnsignedPermitPaymentPayload | UnsignedPermit2PaymentPayload,
+): Promise<PermitPaymentPayload | Permit2PaymentPayload> {
+  if (unsignedPaymentHeader.payload.authorizationType === "permit") {
+    const { owner, spender, value, deadline } = (
+      unsignedPaymentHeader as UnsignedPermitPaymentPayload
+    ).payload.authorization;
+    const { signature, nonce } = await signPermit(
+      client,
+      { owner, spender, value, deadline },
+      paymentRequirements,
+    );
+
+    return {
+      ...unsignedPaymentHeader,
+      payload: {
+        authorizationType: "permit",
+        signature,
+        authorization: { owner, spender, value, deadline, nonce: nonce.toString() },
+      },
+    };
+  }
+
+  const { owner, spender, token, amount, deadline, to } = (
+    unsignedPaymentHeader as UnsignedPermit2PaymentPayload
+  ).payload.authorization;
+  const { signature, nonce } = await signPermit2(
+    client,
+    { owner, spender, token, amount, deadline, to },
+    paymentRequirements,
+  );
+
+  return {
+    ...unsignedPaymentHeader,
+    payload: {
+      authorizationType: "permit2",
+      signature,
+      authorization: { owner, spender, token, amount, deadline, nonce, to },
+    },
+  };
+}
+
+/**
+ * Creates a complete upto payment payload by preparing and signing a payment header.
+ *
+ * @param client - The signer wallet instance used to create and sign the payment
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns A promise that resolves to the complete signed payment payload
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount | SmartAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<PermitPaymentPayload | Permit2PaymentPayload> {
+  const from = isSignerWallet(client) ? client.account!.address : client.address;
+  const unsignedPaymentHeader = preparePaymentHeader(from, x402Version, paymentRequirements);
+  return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+}
+
+/**
+ * Creates and encodes an upto payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to the encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount | SmartAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<string> {
+  const payment = await createPayment(
+    withEvmConfig(client, paymentRequirements.network, config?.evmConfig),
+    x402Version,
+    paymentRequirements,
+  );
+  return encodePayment(payment);
+}
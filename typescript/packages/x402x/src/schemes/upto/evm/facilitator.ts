@@ -0,0 +1,663 @@
+import {
+  Account,
+  Address,
+  Chain,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  Hex,
+  keccak256,
+  parseErc6492Signature,
+  Transport,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import { getERC20Allowance, getERC20Balance, getVersion } from "../../../shared/evm";
+import {
+  erc20PermitABI,
+  permitTypes,
+  permit2ABI,
+  permit2WitnessTypes,
+  PERMIT2_ADDRESS,
+  WITNESS_TYPE_STRING,
+  ConnectedClient,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import {
+  ExactEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  Permit2PaymentPayload,
+  PermitPaymentPayload,
+  SettleOptions,
+  SettleResponse,
+  VerifyResponse,
+} from "../../../types/verify";
+import { submitSettlement } from "../../exact/evm/utils/submitSettlement";
+import {
+  checkPermit2Nonce,
+  checkPermitNonce,
+  encodeSettleContractCall,
+} from "../../exact/evm/utils/onchainChecks";
+import {
+  checkContractSignatureCall,
+  deployCounterfactualWallet,
+  getPermitContractCall,
+  normalizePaymentSignatures,
+} from "../../exact/evm/utils/contractSignature";
+import { SCHEME } from "..";
+
+// Gas limit of the transferFrom() sent right after an unconfirmed permit(), its gas cannot be
+// estimated before the permit is mined
+const TRANSFER_FROM_GAS = 120000n;
+
+/**
+ * Verifies an upto payment payload
+ *
+ * The payer authorizes the facilitator (`extra.spender`) to pull up to maxAmountRequired.
+ * Permit2 authorizations must bind the recipient (payTo) as witness.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed Permit or Permit2 payment payload
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  payload = await normalizePaymentSignatures(client, payload);
+  const uptoPayload = payload.payload as ExactEvmPayload;
+
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: "unsupported_scheme",
+    };
+  }
+
+  if (uptoPayload.authorizationType !== "permit" && uptoPayload.authorizationType !== "permit2") {
+    return {
+      isValid: false,
+      invalidReason: "unsupported_authorization_type",
+      payer: "",
+    };
+  }
+
+  const { owner, spender, deadline } = uptoPayload.authorization;
+
+  // The spender must be the facilitator advertised in the requirements (and executing settle)
+  const expectedSpender = paymentRequirements.extra?.spender as string | undefined;
+  if (
+    (expectedSpender && getAddress(spender) !== getAddress(expectedSpender)) ||
+    (client.account && getAddress(spender) !== getAddress(client.account.address))
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_spender",
+      payer: owner,
+    };
+  }
+
+  // Verify deadline hasn't passed
+  const now = Math.floor(Date.now() / 1000);
+  if (BigInt(deadline) < now) {
+    return {
+      isValid: false,
+      invalidReason:
+        uptoPayload.authorizationType === "permit" ? "permit_expired" : "permit2_expired",
+      payer: owner,
+    };
+  }
+
+  const result =
+    uptoPayload.authorizationType === "permit"
+      ? await verifyPermit(client, payload as PermitPaymentPayload, paymentRequirements)
+      : await verifyPermit2(client, payload as Permit2PaymentPayload, paymentRequirements);
+  if (!result.isValid) {
+    return result;
+  }
+
+  // Verify owner can cover the maximum amount
+  const balance = await getERC20Balance(
+    client,
+    paymentRequirements.asset as Address,
+    owner as Address,
+  );
+  if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: owner,
+    };
+  }
+
+  return {
+    isValid: true,
+    payer: owner,
+  };
+}
+
+/**
+ * Settles an upto payment for the actual consumed amount
+ *
+ * - Permit2: calls permitWitnessTransferFrom() with requestedAmount = amount
+ * - Permit: calls permit() for the full authorization, then transferFrom() for amount.
+ *   The unused part of the allowance stays granted to the facilitator. If permit() is already
+ *   on chain (an earlier transferFrom() failed), only transferFrom() is sent.
+ *   With waitUntil "simulated" only the first transaction is simulated. With "submitted",
+ *   transferFrom() is sent right after permit() without waiting for its receipt.
+ * A smart wallet that signed with an ERC-6492 counterfactual signature is deployed first.
+ *
+ * @param wallet - The facilitator wallet (the authorized spender)
+ * @param paymentPayload - The signed Permit or Permit2 payment payload
+ * @param paymentRequirements - The payment requirements
+ * @param amount - The amount to settle in base units (defaults to maxAmountRequired)
+ * @param gasPrice - Optional gas price in wei (defaults to 0.05 gwei)
+ * @param options - Optional settlement options (waitUntil, onConfirmed)
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  amount: string = paymentRequirements.maxAmountRequired,
+  gasPrice: bigint = 50000000n, // 0.05 gwei
+  options: SettleOptions = {},
+): Promise<SettleResponse> {
+  paymentPayload = await normalizePaymentSignatures(wallet, paymentPayload);
+  const uptoPayload = paymentPayload.payload as ExactEvmPayload;
+  const payer =
+    uptoPayload.authorizationType === "permit" || uptoPayload.authorizationType === "permit2"
+      ? uptoPayload.authorization.owner
+      : "";
+
+  // The settled amount may never exceed what the payer authorized
+  if (!/^\d+$/.test(amount) || BigInt(amount) > BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      success: false,
+      errorReason: "invalid_upto_settle_amount",
+      transaction: "",
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  // Re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_payment",
+      payer,
+    };
+  }
+
+  // Nothing was consumed, leave the authorization unused
+  if (BigInt(amount) === 0n) {
+    return {
+      success: true,
+      transaction: "",
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  const context = {
+    network: paymentPayload.network,
+    payer: payer as Address,
+    breakdown: {
+      asset: paymentRequirements.asset as Address,
+      payer: payer as Address,
+      payTo: paymentRequirements.payTo as Address,
+      amount: BigInt(amount),
+    },
+  };
+
+  // Counterfactual smart wallets must be deployed before their signature can be checked
+  const deployment = await deployCounterfactualWallet(
+    wallet,
+    uptoPayload.signature as Hex,
+    gasPrice,
+    context,
+    options,
+  );
+  if (deployment) {
+    return deployment;
+  }
+
+  if (uptoPayload.authorizationType === "permit2") {
+    const call = {
+      to: PERMIT2_ADDRESS,
+      data: encodePermit2Transfer(
+        paymentPayload as Permit2PaymentPayload,
+        paymentRequirements,
+        BigInt(amount),
+      ),
+    };
+    return submitSettlement(wallet, call, gasPrice, context, options);
+  }
+
+  const transferCall = {
+    to: paymentRequirements.asset as Address,
+    data: encodeFunctionData({
+      abi: erc20PermitABI,
+      functionName: "transferFrom",
+      args: [payer as Address, paymentRequirements.payTo as Address, BigInt(amount)],
+    }),
+  };
+
+  // A retry after a failed transferFrom() only needs the transfer
+  if (await isPermitApplied(wallet, paymentPayload as PermitPaymentPayload, paymentRequirements)) {
+    return submitSettlement(wallet, transferCall, gasPrice, context, options);
+  }
+
+  // permit() must be on chain before transferFrom() can be simulated
+  const permitCall = encodePermit(paymentPayload as PermitPaymentPayload, paymentRequirements);
+  if (options.waitUntil === "simulated") {
+    return submitSettlement(wallet, permitCall, gasPrice, context, options);
+  }
+
+  let permitTx: Hex;
+  try {
+    permitTx = await wallet.sendTransaction({
+      ...permitCall,
+      chain: wallet.chain as Chain,
+      gasPrice,
+    });
+  } catch {
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      transaction: "",
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  // The transfer follows the permit in the same block or later, a failed permit makes it revert
+  if (options.waitUntil === "submitted") {
+    return submitSettlement(
+      wallet,
+      { ...transferCall, gas: TRANSFER_FROM_GAS },
+      gasPrice,
+      context,
+      options,
+    );
+  }
+
+  const permitReceipt = await wallet
+    .waitForTransactionReceipt({ hash: permitTx })
+    .catch(() => undefined);
+  if (permitReceipt?.status !== "success") {
+    return {
+      success: false,
+      errorReason: permitReceipt ? "transaction_failed" : "unexpected_settle_error",
+      transaction: permitTx,
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  return submitSettlement(wallet, transferCall, gasPrice, context, options);
+}
+
+/**
+ * Verifies the EIP-2612 signature and value of an upto Permit payload
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed Permit payment payload
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the permit is valid
+ */
+async function verifyPermit<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PermitPaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { owner, spender, value, deadline, nonce } = payload.payload.authorization;
+
+  let name: string;
+  let version: string;
+  let chainId: number;
+  const erc20Address = paymentRequirements.asset as Address;
+
+  try {
+    chainId = getNetworkId(payload.network);
+    name =
+      paymentRequirements.extra?.name ??
+      ((await client.readContract({
+        address: erc20Address,
+        abi: erc20PermitABI,
+        functionName: "name",
+      })) as string);
+    version = paymentRequirements.extra?.version ?? (await getVersion(client, erc20Address));
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: "invalid_network",
+      payer: owner,
+    };
+  }
+
+  const recoveredAddress = await client.verifyTypedData({
+    address: owner as Address,
+    types: permitTypes,
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: erc20Address,
+    },
+    primaryType: "Permit" as const,
+    message: {
+      owner: getAddress(owner),
+      spender: getAddress(spender),
+      value: BigInt(value),
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+    },
+    signature: payload.payload.signature as Hex,
+  });
+
+  if (!recoveredAddress) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_permit_signature",
+      payer: owner,
+    };
+  }
+
+  if (BigInt(value) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_payment_amount",
+      payer: owner,
+    };
+  }
+
+  // A permit already on chain can still be settled from the allowance it granted
+  if (await isPermitApplied(client, payload, paymentRequirements)) {
+    return {
+      isValid: true,
+      payer: owner,
+    };
+  }
+
+  const nonceReason = await checkPermitNonce(client, erc20Address, owner as Address, BigInt(nonce));
+  if (nonceReason) {
+    return {
+      isValid: false,
+      invalidReason: nonceReason,
+      payer: owner,
+    };
+  }
+
+  // Tokens that only accept v/r/s permits cannot take contract wallet signatures
+  const signatureReason = await checkContractSignatureCall(
+    client,
+    getPermitContractCall(
+      erc20Address,
+      {
+        owner: owner as Address,
+        spender: spender as Address,
+        value: BigInt(value),
+        deadline: BigInt(deadline),
+      },
+      payload.payload.signature as Hex,
+    ),
+    owner as Address,
+    payload.payload.signature as Hex,
+  );
+  if (signatureReason) {
+    return {
+      isValid: false,
+      invalidReason: signatureReason,
+      payer: owner,
+    };
+  }
+
+  return {
+    isValid: true,
+    payer: owner,
+  };
+}
+
+/**
+ * Checks whether the permit is the last one submitted, e.g. by a settlement whose transferFrom()
+ * failed afterwards, and the allowance it granted is still untouched
+ *
+ * Once a settlement transferred funds the allowance no longer equals the permit value, and once a
+ * later permit was submitted the nonce moved on, so an earlier permit cannot be settled again
+ * from the allowance of another one.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed Permit payment payload
+ * @param paymentRequirements - The payment requirements
+ * @returns True if only transferFrom() is needed
+ */
+async function isPermitApplied<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PermitPaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<boolean> {
+  const { owner, spender, value, nonce } = payload.payload.authorization;
+  const token = paymentRequirements.asset as Address;
+
+  try {
+    const current = (await client.readContract({
+      address: token,
+      abi: erc20PermitABI,
+      functionName: "nonces",
+      args: [getAddress(owner)],
+    })) as bigint;
+    if (current !== BigInt(nonce) + 1n) {
+      return false;
+    }
+
+    const allowance = await getERC20Allowance(
+      client,
+      token,
+      getAddress(owner),
+      getAddress(spender),
+    );
+    return allowance === BigInt(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies the witness signature, token, amount and Permit2 approval of an upto Permit2 payload
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed Permit2 payment payload
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the permit2 authorization is valid
+ */
+async function verifyPermit2<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: Permit2PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { owner, spender, token, amount, deadline, nonce, to } = payload.payload.authorization;
+
+  // Upto requires the recipient to be bound, otherwise the spender could redirect funds
+  if (!to || getAddress(to) !== getAddress(paymentRequirements.payTo as string)) {
+    return {
+      isValid: false,
+      invalidReason: "witness_recipient_mismatch",
+      payer: owner,
+    };
+  }
+
+  if (getAddress(token) !== getAddress(paymentRequirements.asset as string)) {
+    return {
+      isValid: false,
+      invalidReason: "token_mismatch",
+      payer: owner,
+    };
+  }
+
+  const recoveredAddress = await client.verifyTypedData({
+    address: getAddress(owner),
+    types: permit2WitnessTypes,
+    domain: {
+      name: "Permit2",
+      chainId: getNetworkId(payload.network),
+      verifyingContract: PERMIT2_ADDRESS,
+    },
+    primaryType: "PermitWitnessTransferFrom" as const,
+    message: {
+      permitted: {
+        token: getAddress(token),
+        amount: BigInt(amount),
+      },
+      spender: getAddress(spender),
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+      witness: {
+        to: getAddress(to),
+      },
+    },
+    signature: payload.payload.signature as Hex,
+  });
+
+  if (!recoveredAddress) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_permit2_witness_signature",
+      payer: owner,
+    };
+  }
+
+  const nonceReason = await checkPermit2Nonce(client, getAddress(owner), BigInt(nonce));
+  if (nonceReason) {
+    return {
+      isValid: false,
+      invalidReason: nonceReason,
+      payer: owner,
+    };
+  }
+
+  if (BigInt(amount) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_payment_amount",
+      payer: owner,
+    };
+  }
+
+  // Users must approve Uniswap Permit2 once before using it
+  const allowance = await getERC20Allowance(
+    client,
+    getAddress(token),
+    getAddress(owner),
+    PERMIT2_ADDRESS,
+  );
+  if (allowance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "permit2_not_approved",
+      payer: owner,
+    };
+  }
+
+  return {
+    isValid: true,
+    payer: owner,
+  };
+}
+
+/**
+ * Encodes the permit() call granting the facilitator the full authorization, contract wallet
+ * signatures use the token's bytes permit() overload
+ *
+ * @param paymentPayload - The signed Permit payment payload
+ * @param paymentRequirements - The payment requirements
+ * @returns The permit call
+ */
+function encodePermit(
+  paymentPayload: PermitPaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): { to: Address; data: Hex } {
+  const { owner, spender, value, deadline } = paymentPayload.payload.authorization;
+  const call = getPermitContractCall(
+    paymentRequirements.asset as Address,
+    {
+      owner: owner as Address,
+      spender: spender as Address,
+      value: BigInt(value),
+      deadline: BigInt(deadline),
+    },
+    paymentPayload.payload.signature as Hex,
+  );
+
+  return { to: call.address, data: encodeSettleContractCall(call) };
+}
+
+/**
+ * Encodes permitWitnessTransferFrom() on Permit2 for the consumed amount
+ *
+ * @param paymentPayload - The signed Permit2 payment payload
+ * @param paymentRequirements - The payment requirements
+ * @param amount - The amount to transfer to payTo
+ * @returns The encoded calldata
+ */
+function encodePermit2Transfer(
+  paymentPayload: Permit2PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  amount: bigint,
+): Hex {
+  const {
+    owner,
+    token,
+    amount: permitted,
+    deadline,
+    nonce,
+    to,
+  } = paymentPayload.payload.authorization;
+
+  return encodeFunctionData({
+    abi: permit2ABI,
+    functionName: "permitWitnessTransferFrom",
+    args: [
+      {
+        permitted: {
+          token: getAddress(token),
+          amount: BigInt(permitted),
+        },
+        nonce: BigInt(nonce),
+        deadline: BigInt(deadline),
+      },
+      {
+        to: paymentRequirements.payTo as Address,
+        requestedAmount: amount,
+      },
+      getAddress(owner),
+      keccak256(encodeAbiParameters([{ type: "address", name: "to" }], [getAddress(to!)])),
+      WITNESS_TYPE_STRING,
+      // Permit2 checks contract wallet signatures with ERC-1271 once the wallet is deployed
+      parseErc6492Signature(paymentPayload.payload.signature as Hex).signature,
+    ],
+  });
+}
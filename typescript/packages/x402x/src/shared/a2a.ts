@@ -0,0 +1,334 @@
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+
+/**
+ * URI of the x402 A2A extension, declared in the AgentCard and activated with the X-A2A-Extensions header
+ */
+export const A2A_X402_EXTENSION_URI = "https://github.com/google-a2a/a2a-x402/v0.1";
+
+/**
+ * HTTP header used by A2A clients to activate extensions
+ */
+export const A2A_EXTENSIONS_HEADER = "X-A2A-Extensions";
+
+/**
+ * Message metadata keys used by the x402 A2A extension (see specs/transports/a2a.md)
+ */
+export const A2A_PAYMENT_STATUS_KEY = "x402.payment.status";
+export const A2A_PAYMENT_REQUIRED_KEY = "x402.payment.required";
+export const A2A_PAYMENT_PAYLOAD_KEY = "x402.payment.payload";
+export const A2A_PAYMENT_RECEIPTS_KEY = "x402.payment.receipts";
+export const A2A_PAYMENT_ERROR_KEY = "x402.payment.error";
+
+/**
+ * Payment status carried in `x402.payment.status`
+ */
+export type A2APaymentStatus =
+  | "payment-required"
+  | "payment-rejected"
+  | "payment-submitted"
+  | "payment-verified"
+  | "payment-completed"
+  | "payment-failed";
+
+/**
+ * A2A task states used by the x402 extension
+ */
+export type A2ATaskState =
+  | "submitted"
+  | "working"
+  | "input-required"
+  | "completed"
+  | "canceled"
+  | "failed"
+  | "rejected"
+  | "auth-required"
+  | "unknown";
+
+/**
+ * A2A message part (minimal shape of the A2A `Part` union)
+ */
+export type A2APart =
+  | { kind: "text"; text: string; metadata?: Record<string, unknown> }
+  | { kind: "data"; data: Record<string, unknown>; metadata?: Record<string, unknown> }
+  | { kind: "file"; file: Record<string, unknown>; metadata?: Record<string, unknown> };
+
+/**
+ * A2A message
+ */
+export interface A2AMessage {
+  kind: "message";
+  messageId: string;
+  role: "user" | "agent";
+  parts: A2APart[];
+  taskId?: string;
+  contextId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A2A task artifact
+ */
+export interface A2AArtifact {
+  artifactId: string;
+  name?: string;
+  parts: A2APart[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A2A task
+ */
+export interface A2ATask {
+  kind: "task";
+  id: string;
+  contextId: string;
+  status: {
+    state: A2ATaskState;
+    message?: A2AMessage;
+    timestamp?: string;
+  };
+  artifacts?: A2AArtifact[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Payment requirements response sent in `x402.payment.required`
+ */
+export interface A2APaymentRequired {
+  x402Version: number;
+  accepts: PaymentRequirements[];
+  error?: string;
+}
+
+/**
+ * Settlement receipt sent in `x402.payment.receipts`
+ */
+export interface A2APaymentReceipt {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer?: string;
+  errorReason?: string;
+}
+
+/**
+ * Creates a random A2A message / task id
+ *
+ * @returns A random UUID
+ */
+export function createA2AId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+/**
+ * Creates an agent message with x402 payment metadata
+ *
+ * @param text - The human readable text part
+ * @param metadata - The x402 payment metadata
+ * @param task - The task the message belongs to
+ * @param task.id - The task id
+ * @param task.contextId - The context id
+ * @returns The agent message
+ */
+function createAgentMessage(
+  text: string,
+  metadata: Record<string, unknown>,
+  task: { id: string; contextId: string },
+): A2AMessage {
+  return {
+    kind: "message",
+    messageId: createA2AId(),
+    role: "agent",
+    taskId: task.id,
+    contextId: task.contextId,
+    parts: [{ kind: "text", text }],
+    metadata,
+  };
+}
+
+/**
+ * Creates an `input-required` task asking the client to pay
+ *
+ * @param task - The task to attach the requirements to
+ * @param task.id - The task id
+ * @param task.contextId - The context id
+ * @param paymentRequired - The payment requirements response
+ * @param text - Optional human readable text
+ * @returns The `input-required` task with `x402.payment.status: "payment-required"`
+ */
+export function createA2APaymentRequiredTask(
+  task: { id: string; contextId: string },
+  paymentRequired: A2APaymentRequired,
+  text = "Payment is required to complete this task.",
+): A2ATask {
+  return {
+    kind: "task",
+    id: task.id,
+    contextId: task.contextId,
+    status: {
+      state: "input-required",
+      message: createAgentMessage(
+        text,
+        {
+          [A2A_PAYMENT_STATUS_KEY]: "payment-required",
+          [A2A_PAYMENT_REQUIRED_KEY]: paymentRequired,
+        },
+        task,
+      ),
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Creates a `completed` task carrying the settlement receipts
+ *
+ * @param task - The completed task
+ * @param task.id - The task id
+ * @param task.contextId - The context id
+ * @param receipts - The settlement receipts
+ * @param text - Optional human readable text
+ * @param artifacts - Optional task artifacts produced by the agent
+ * @returns The `completed` task with `x402.payment.status: "payment-completed"`
+ */
+export function createA2APaymentCompletedTask(
+  task: { id: string; contextId: string },
+  receipts: A2APaymentReceipt[],
+  text = "Payment successful.",
+  artifacts?: A2AArtifact[],
+): A2ATask {
+  return {
+    kind: "task",
+    id: task.id,
+    contextId: task.contextId,
+    status: {
+      state: "completed",
+      message: createAgentMessage(
+        text,
+        {
+          [A2A_PAYMENT_STATUS_KEY]: "payment-completed",
+          [A2A_PAYMENT_RECEIPTS_KEY]: receipts,
+        },
+        task,
+      ),
+      timestamp: new Date().toISOString(),
+    },
+    ...(artifacts && { artifacts }),
+  };
+}
+
+/**
+ * Creates a `failed` task for a rejected, invalid or failed payment
+ *
+ * @param task - The failed task
+ * @param task.id - The task id
+ * @param task.contextId - The context id
+ * @param error - The error code carried in `x402.payment.error`
+ * @param receipts - Optional settlement receipts
+ * @param status - The payment status, `payment-failed` or `payment-rejected`
+ * @returns The `failed` task
+ */
+export function createA2APaymentFailedTask(
+  task: { id: string; contextId: string },
+  error: string,
+  receipts?: A2APaymentReceipt[],
+  status: "payment-failed" | "payment-rejected" = "payment-failed",
+): A2ATask {
+  return {
+    kind: "task",
+    id: task.id,
+    contextId: task.contextId,
+    status: {
+      state: "failed",
+      message: createAgentMessage(
+        `Payment failed: ${error}`,
+        {
+          [A2A_PAYMENT_STATUS_KEY]: status,
+          [A2A_PAYMENT_ERROR_KEY]: error,
+          ...(receipts && { [A2A_PAYMENT_RECEIPTS_KEY]: receipts }),
+        },
+        task,
+      ),
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Creates the user message submitting a payment for an `input-required` task
+ *
+ * @param task - The task asking for payment
+ * @param task.id - The task id
+ * @param task.contextId - The context id
+ * @param payload - The signed payment payload
+ * @param text - Optional human readable text
+ * @returns The user message with `x402.payment.status: "payment-submitted"`
+ */
+export function createA2APaymentSubmittedMessage(
+  task: { id: string; contextId: string },
+  payload: PaymentPayload,
+  text = "Here is the payment authorization.",
+): A2AMessage {
+  return {
+    kind: "message",
+    messageId: createA2AId(),
+    role: "user",
+    taskId: task.id,
+    contextId: task.contextId,
+    parts: [{ kind: "text", text }],
+    metadata: {
+      [A2A_PAYMENT_STATUS_KEY]: "payment-submitted",
+      [A2A_PAYMENT_PAYLOAD_KEY]: payload,
+    },
+  };
+}
+
+/**
+ * Reads the payment status of a message
+ *
+ * @param message - The A2A message
+ * @returns The payment status, or undefined if the message carries no x402 metadata
+ */
+export function getA2APaymentStatus(message: A2AMessage | undefined): A2APaymentStatus | undefined {
+  return message?.metadata?.[A2A_PAYMENT_STATUS_KEY] as A2APaymentStatus | undefined;
+}
+
+/**
+ * Reads the payment requirements of an `input-required` task
+ *
+ * @param task - The A2A task
+ * @returns The payment requirements response, or undefined if the task does not ask for payment
+ */
+export function getA2APaymentRequired(task: A2ATask): A2APaymentRequired | undefined {
+  const message = task.status.message;
+  if (
+    task.status.state !== "input-required" ||
+    getA2APaymentStatus(message) !== "payment-required"
+  ) {
+    return undefined;
+  }
+  return message?.metadata?.[A2A_PAYMENT_REQUIRED_KEY] as A2APaymentRequired | undefined;
+}
+
+/**
+ * Reads the payment payload of a `payment-submitted` message
+ *
+ * @param message - The A2A message
+ * @returns The unvalidated payment payload, or undefined if the message does not submit a payment
+ */
+export function getA2APaymentPayload(message: A2AMessage): unknown {
+  if (getA2APaymentStatus(message) !== "payment-submitted") {
+    return undefined;
+  }
+  return message.metadata?.[A2A_PAYMENT_PAYLOAD_KEY];
+}
+
+/**
+ * Reads the settlement receipts of a task
+ *
+ * @param task - The A2A task
+ * @returns The settlement receipts, empty if none
+ */
+export function getA2APaymentReceipts(task: A2ATask): A2APaymentReceipt[] {
+  return (task.status.message?.metadata?.[A2A_PAYMENT_RECEIPTS_KEY] as A2APaymentReceipt[]) ?? [];
+}
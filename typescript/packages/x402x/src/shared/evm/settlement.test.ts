@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  Address,
+  encodeAbiParameters,
+  encodeEventTopics,
+  erc20Abi,
+  Hex,
+  TransactionReceipt,
+} from "viem";
+import { EIP7702SellerWalletMinimalAbi } from "../../types/shared/evm/eip7702ABI";
+import { permitProxyContractABI } from "../../types/shared/evm/permitProxyABI";
+import { decodeSettlementBreakdown } from "./settlement";
+
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAYER = "0x2e988A386a799F506693793c6A5AF6B54dfAaBfB";
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const BENEFICIARY = "0x1234567890123456789012345678901234567890";
+const FEE_RECIPIENT = "0x5D06b8145D908DDb7ca116664Fcf113ddaA4d6F3";
+const PROXY = "0x877D0A51a37178b5F34Ffb68a5c2beD0ff46D432";
+
+type ReceiptLog = TransactionReceipt["logs"][number];
+
+const log = (address: Address, topics: Hex[], data: Hex): ReceiptLog =>
+  ({
+    address,
+    topics,
+    data,
+    blockNumber: 1n,
+    blockHash: "0x01",
+    logIndex: 0,
+    transactionHash: "0x02",
+    transactionIndex: 0,
+    removed: false,
+  }) as unknown as ReceiptLog;
+
+const transfer = (from: Address, to: Address, value: bigint) =>
+  log(
+    TOKEN,
+    encodeEventTopics({ abi: erc20Abi, eventName: "Transfer", args: { from, to } }) as Hex[],
+    encodeAbiParameters([{ type: "uint256" }], [value]),
+  );
+
+const settlementExecuted = (amount: bigint, beneficiaryAmount: bigint, feeAmount: bigint) =>
+  log(
+    PAY_TO,
+    encodeEventTopics({
+      abi: EIP7702SellerWalletMinimalAbi,
+      eventName: "SettlementExecuted",
+      args: { token: TOKEN, payer: PAYER, facilitator: FEE_RECIPIENT },
+    }) as Hex[],
+    encodeAbiParameters(
+      [{ type: "uint256" }, { type: "uint256" }, { type: "uint256" }, { type: "string" }],
+      [amount, beneficiaryAmount, feeAmount, "settleWithERC3009"],
+    ),
+  );
+
+const settledSplit = (amount: bigint, sellerAmount: bigint, feeAmount: bigint) =>
+  log(
+    PROXY,
+    encodeEventTopics({
+      abi: permitProxyContractABI,
+      eventName: "SettledSplit",
+      args: { token: TOKEN, payer: PAYER, seller: PAY_TO },
+    }) as Hex[],
+    encodeAbiParameters(
+      [{ type: "uint256" }, { type: "uint256" }, { type: "uint256" }, { type: "string" }],
+      [amount, sellerAmount, feeAmount, "permit"],
+    ),
+  );
+
+const options = { asset: TOKEN, payer: PAYER, payTo: PAY_TO } as const;
+
+describe("decodeSettlementBreakdown", () => {
+  it("should decode SettlementExecuted from an EIP-7702 seller wallet", () => {
+    const logs = [
+      transfer(PAYER, PAY_TO, 1000n),
+      transfer(PAY_TO, BENEFICIARY, 990n),
+      transfer(PAY_TO, FEE_RECIPIENT, 10n),
+      settlementExecuted(1000n, 990n, 10n),
+    ];
+
+    expect(decodeSettlementBreakdown({ logs }, options)).toEqual({
+      source: "SettlementExecuted",
+      gross: "1000",
+      fee: "10",
+      net: "990",
+      beneficiary: BENEFICIARY,
+      feeRecipient: FEE_RECIPIENT,
+    });
+  });
+
+  it("should decode SettledSplit from the permit proxy", () => {
+    const logs = [
+      transfer(PAYER, PROXY, 1000n),
+      transfer(PROXY, PAY_TO, 975n),
+      transfer(PROXY, FEE_RECIPIENT, 25n),
+      settledSplit(1000n, 975n, 25n),
+    ];
+
+    expect(decodeSettlementBreakdown({ logs }, options)).toEqual({
+      source: "SettledSplit",
+      gross: "1000",
+      fee: "25",
+      net: "975",
+      beneficiary: PAY_TO,
+      feeRecipient: FEE_RECIPIENT,
+    });
+  });
+
+  it("should fall back to raw Transfer logs", () => {
+    const direct = decodeSettlementBreakdown({ logs: [transfer(PAYER, PAY_TO, 1000n)] }, options);
+    const split = decodeSettlementBreakdown(
+      { logs: [transfer(PAYER, PAY_TO, 980n), transfer(PAYER, FEE_RECIPIENT, 20n)] },
+      options,
+    );
+
+    expect(direct).toEqual({
+      source: "Transfer",
+      gross: "1000",
+      fee: "0",
+      net: "1000",
+      beneficiary: PAY_TO,
+    });
+    expect(split).toMatchObject({
+      gross: "1000",
+      fee: "20",
+      net: "980",
+      feeRecipient: FEE_RECIPIENT,
+    });
+  });
+
+  it("should ignore logs of other payers and tokens", () => {
+    const logs = [
+      transfer(BENEFICIARY, PAY_TO, 1000n),
+      { ...transfer(PAYER, PAY_TO, 1000n), address: PROXY } as ReceiptLog,
+    ];
+
+    expect(decodeSettlementBreakdown({ logs }, options)).toBeUndefined();
+  });
+});
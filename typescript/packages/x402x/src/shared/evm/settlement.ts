@@ -0,0 +1,161 @@
+import {
+  Address,
+  erc20Abi,
+  isAddressEqual,
+  Log,
+  parseEventLogs,
+  TransactionReceipt,
+  zeroAddress,
+} from "viem";
+import { EIP7702SellerWalletMinimalAbi } from "../../types/shared/evm/eip7702ABI";
+import { permitProxyContractABI } from "../../types/shared/evm/permitProxyABI";
+import { SettlementBreakdown } from "../../types/verify";
+
+/**
+ * The payment a settlement receipt is decoded for
+ */
+export interface SettlementBreakdownOptions {
+  /** The token that was transferred */
+  asset: Address;
+
+  /** The payer whose funds were settled */
+  payer: Address;
+
+  /** The payment recipient (the seller wallet for EIP-7702 settlements) */
+  payTo: Address;
+
+  /** The settled amount, used to tell apart several settlements of the same payer in one receipt */
+  amount?: bigint;
+}
+
+/**
+ * Decodes the gross / fee / net breakdown of a settlement from its transaction receipt
+ *
+ * Looks for, in order:
+ * - `SettlementExecuted` emitted by an EIP-7702 seller wallet
+ * - `SettledSplit` / `SettledDirect` emitted by the permit proxy
+ * - Raw ERC-20 `Transfer` logs of the asset sent by the payer
+ *
+ * Fee and beneficiary recipients are read from the matching `Transfer` logs when present.
+ *
+ * @param receipt - The settlement transaction receipt
+ * @param options - The payment to decode the breakdown for
+ * @returns The settlement breakdown, or undefined if the receipt has no matching logs
+ */
+export function decodeSettlementBreakdown(
+  receipt: Pick<TransactionReceipt, "logs">,
+  options: SettlementBreakdownOptions,
+): SettlementBreakdown | undefined {
+  const logs = receipt.logs as Log[];
+  const matches = (token: Address, payer: Address, amount: bigint) =>
+    isAddressEqual(token, options.asset) &&
+    isAddressEqual(payer, options.payer) &&
+    (options.amount === undefined || amount === options.amount);
+
+  const transfers = parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs }).filter(log =>
+    isAddressEqual(log.address, options.asset),
+  );
+
+  /**
+   * Finds and consumes the Transfer of `value` sent by `from`
+   *
+   * @param from - The sender
+   * @param value - The transferred amount
+   * @returns The recipient, or undefined if no such Transfer exists
+   */
+  const takeTransfer = (from: Address, value: bigint): Address | undefined => {
+    const index = transfers.findIndex(
+      log => isAddressEqual(log.args.from, from) && log.args.value === value,
+    );
+    return index === -1 ? undefined : transfers.splice(index, 1)[0].args.to;
+  };
+
+  const executed = parseEventLogs({
+    abi: EIP7702SellerWalletMinimalAbi,
+    eventName: "SettlementExecuted",
+    logs,
+  }).find(log => matches(log.args.token, log.args.payer, log.args.amount));
+  if (executed) {
+    const { amount, beneficiaryAmount, feeAmount, facilitator } = executed.args;
+    const beneficiary = takeTransfer(executed.address, beneficiaryAmount) ?? executed.address;
+    const feeRecipient =
+      feeAmount > 0n ? (takeTransfer(executed.address, feeAmount) ?? facilitator) : undefined;
+    return {
+      source: "SettlementExecuted",
+      gross: amount.toString(),
+      fee: feeAmount.toString(),
+      net: beneficiaryAmount.toString(),
+      beneficiary,
+      ...(feeRecipient && { feeRecipient }),
+    };
+  }
+
+  const split = parseEventLogs({
+    abi: permitProxyContractABI,
+    eventName: "SettledSplit",
+    logs,
+  }).find(log => matches(log.args.token, log.args.payer, log.args.amount));
+  if (split) {
+    const { amount, seller, sellerAmount, feeAmount } = split.args;
+    takeTransfer(split.address, sellerAmount);
+    const feeRecipient =
+      feeAmount > 0n
+        ? (takeTransfer(split.address, feeAmount) ?? takeTransfer(options.payer, feeAmount))
+        : undefined;
+    return {
+      source: "SettledSplit",
+      gross: amount.toString(),
+      fee: feeAmount.toString(),
+      net: sellerAmount.toString(),
+      beneficiary: seller,
+      ...(feeRecipient && { feeRecipient }),
+    };
+  }
+
+  const direct = parseEventLogs({
+    abi: permitProxyContractABI,
+    eventName: "SettledDirect",
+    logs,
+  }).find(log => matches(log.args.token, log.args.payer, log.args.amount));
+  if (direct) {
+    return {
+      source: "SettledDirect",
+      gross: direct.args.amount.toString(),
+      fee: "0",
+      net: direct.args.amount.toString(),
+      beneficiary: direct.args.seller,
+    };
+  }
+
+  // No settlement event: sum the payer's transfers, the part that did not reach payTo is the fee
+  let sent = transfers.filter(
+    log =>
+      isAddressEqual(log.args.from, options.payer) && !isAddressEqual(log.args.to, zeroAddress),
+  );
+  const total = sent.reduce((sum, log) => sum + log.args.value, 0n);
+
+  // Several payments of the same payer in one receipt: keep the transfer of this payment only
+  if (options.amount !== undefined && total > options.amount) {
+    sent = sent
+      .filter(
+        log => isAddressEqual(log.args.to, options.payTo) && log.args.value === options.amount,
+      )
+      .slice(0, 1);
+  }
+  const received = sent.filter(log => isAddressEqual(log.args.to, options.payTo));
+  if (received.length === 0) {
+    return undefined;
+  }
+
+  const gross = sent.reduce((total, log) => total + log.args.value, 0n);
+  const net = received.reduce((total, log) => total + log.args.value, 0n);
+  const feeRecipient = sent.find(log => !isAddressEqual(log.args.to, options.payTo))?.args.to;
+  return {
+    source: "Transfer",
+    gross: gross.toString(),
+    fee: (gross - net).toString(),
+    net: net.toString(),
+    beneficiary: options.payTo,
+    ...(feeRecipient && { feeRecipient }),
+  };
+}
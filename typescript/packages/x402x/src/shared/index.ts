@@ -2,4 +2,7 @@ export * from "./json";
 export * from "./base64";
 export * from "./network";
 export * from "./middleware";
+export * from "./mcp";
+export * from "./a2a";
 export * as svm from "./svm";
+export * as sui from "./sui";
@@ -0,0 +1,19 @@
+/**
+ * `_meta` key carrying the PaymentPayload on MCP requests (see specs/transports/mcp.md)
+ */
+export const MCP_PAYMENT_META_KEY = "x402/payment";
+
+/**
+ * `_meta` key carrying the settlement response on MCP results
+ */
+export const MCP_PAYMENT_RESPONSE_META_KEY = "x402/payment-response";
+
+/**
+ * `_meta` key carrying the payment requirements response on MCP tool error results
+ */
+export const MCP_PAYMENT_REQUIRED_META_KEY = "x402/error";
+
+/**
+ * JSON-RPC error code used by MCP servers to signal that payment is required
+ */
+export const MCP_PAYMENT_REQUIRED_CODE = 402;
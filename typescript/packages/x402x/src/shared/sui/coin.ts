@@ -0,0 +1,19 @@
+import { Network } from "../../types/shared";
+
+/**
+ * Native USDC coin types on Sui
+ */
+const SuiUsdcCoinTypes: Partial<Record<Network, string>> = {
+  sui: "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC",
+  "sui-testnet": "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+};
+
+/**
+ * Gets the native USDC coin type for the given Sui network.
+ *
+ * @param network - The Sui network
+ * @returns The USDC coin type, or undefined if the network is not a Sui network
+ */
+export function getUsdcCoinType(network: Network): string | undefined {
+  return SuiUsdcCoinTypes[network];
+}
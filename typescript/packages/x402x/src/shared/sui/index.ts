@@ -0,0 +1,4 @@
+export * from "./rpc";
+export * from "./wallet";
+export * from "./transaction";
+export * from "./coin";
@@ -0,0 +1,19 @@
+import { getFullnodeUrl, SuiClient } from "@mysten/sui/client";
+import { Network } from "../../types/shared";
+
+/**
+ * Gets the Sui RPC client for the given network.
+ *
+ * @param network - The network to get the RPC client for
+ * @param url - Optional URL of the network. If not provided, the public fullnode URL will be used.
+ * @returns The Sui RPC client for the given network
+ */
+export function getSuiClient(network: Network, url?: string): SuiClient {
+  if (network === "sui") {
+    return new SuiClient({ url: url ?? getFullnodeUrl("mainnet") });
+  } else if (network === "sui-testnet") {
+    return new SuiClient({ url: url ?? getFullnodeUrl("testnet") });
+  } else {
+    throw new Error("Invalid network");
+  }
+}
@@ -0,0 +1,42 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { ExactSuiPayload } from "../../types/verify/x402Specs";
+
+/**
+ * Given an object with a base64 encoded transaction, decode the
+ * base64 encoded transaction into the Sui transaction bytes.
+ *
+ * @param suiPayload - The Sui payload to decode
+ * @returns The BCS encoded transaction bytes
+ */
+export function decodeTransactionFromPayload(suiPayload: ExactSuiPayload): Uint8Array {
+  try {
+    const bytes = fromBase64(suiPayload.transaction);
+    // make sure the bytes are a valid transaction
+    Transaction.from(bytes);
+    return bytes;
+  } catch {
+    throw new Error("invalid_exact_sui_payload_transaction");
+  }
+}
+
+/**
+ * Extract the sender of the transaction, who pays the coins.
+ *
+ * @param transaction - The BCS encoded transaction bytes
+ * @returns The sender address, or an empty string if the transaction has no sender
+ */
+export function getPayerFromTransaction(transaction: Uint8Array): string {
+  return Transaction.from(transaction).getData().sender ?? "";
+}
+
+/**
+ * Extract the owner of the gas payment of the transaction.
+ *
+ * @param transaction - The BCS encoded transaction bytes
+ * @returns The gas owner address, defaulting to the sender
+ */
+export function getGasOwnerFromTransaction(transaction: Uint8Array): string {
+  const { sender, gasData } = Transaction.from(transaction).getData();
+  return gasData.owner ?? sender ?? "";
+}
@@ -0,0 +1,46 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Keypair } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { getSuiClient } from "./rpc";
+import { Network, SupportedSuiNetworks } from "../../types/shared";
+
+export type SuiConnectedClient = SuiClient;
+export type SuiSigner = Keypair;
+
+/**
+ * Creates a public client configured for the specified Sui network
+ *
+ * @param network - The network to connect to
+ * @returns A public client instance connected to the specified network
+ */
+export function createSuiConnectedClient(network: string): SuiConnectedClient {
+  if (!SupportedSuiNetworks.find(n => n === network)) {
+    throw new Error(`Unsupported Sui network: ${network}`);
+  }
+  return getSuiClient(network as Network);
+}
+
+/**
+ * Creates a Sui signer from a private key.
+ *
+ * @param privateKey - The Bech32 encoded private key (`suiprivkey1...`) to create a signer from.
+ * @returns A Sui Ed25519 keypair signer.
+ */
+export function createSuiSigner(privateKey: string): SuiSigner {
+  return Ed25519Keypair.fromSecretKey(privateKey);
+}
+
+/**
+ * Checks if the given wallet is a Sui signer wallet.
+ *
+ * @param wallet - The object wallet to check.
+ * @returns True if the wallet is a Sui signer wallet, false otherwise.
+ */
+export function isSignerWallet(wallet: SuiSigner): wallet is SuiSigner {
+  return (
+    typeof wallet === "object" &&
+    wallet !== null &&
+    typeof wallet.toSuiAddress === "function" &&
+    typeof wallet.signTransaction === "function"
+  );
+}
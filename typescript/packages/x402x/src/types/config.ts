@@ -9,11 +9,58 @@ export interface SvmConfig {
   rpcUrl?: string;
 }
 
+/**
+ * Configuration options for Sui RPC connections.
+ */
+export interface SuiConfig {
+  /**
+   * Custom RPC URL for Sui connections.
+   * If not provided, defaults to public Sui fullnode endpoints based on network.
+   */
+  rpcUrl?: string;
+}
+
+/**
+ * RPC configuration of a single EVM network.
+ */
+export interface EvmNetworkConfig {
+  /**
+   * Custom RPC URL for the network.
+   * If not provided, defaults to the public RPC of the viem chain.
+   */
+  rpcUrl?: string;
+  /**
+   * RPC URLs tried in order when the previous one fails (viem `fallback` transport).
+   */
+  fallbackRpcUrls?: string[];
+  /**
+   * Request timeout in milliseconds, overrides `EvmConfig.timeout`.
+   */
+  timeout?: number;
+}
+
+/**
+ * Configuration options for EVM RPC connections.
+ */
+export interface EvmConfig {
+  /**
+   * RPC configuration keyed by network name (e.g. "bsc", "polygon").
+   */
+  networks?: Record<string, EvmNetworkConfig>;
+  /**
+   * Default request timeout in milliseconds for every EVM network.
+   */
+  timeout?: number;
+}
+
 /**
  * Configuration options for X402 client and facilitator operations.
  */
 export interface X402Config {
   /** Configuration for Solana (SVM) operations */
   svmConfig?: SvmConfig;
-  // Future: evmConfig?: EvmConfig for EVM-specific configurations
+  /** Configuration for Sui operations */
+  suiConfig?: SuiConfig;
+  /** Configuration for EVM operations */
+  evmConfig?: EvmConfig;
 }
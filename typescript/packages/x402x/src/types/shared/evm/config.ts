@@ -1,7 +1,9 @@
 import { Address } from "viem";
 import { Address as SolanaAddress } from "@solana/kit";
+import { getSharedState } from "../sharedState";
 
-export const config: Record<string, ChainConfig> = {
+// Shared between entry points, so that stablecoins registered with registerEvmNetwork are seen by all
+export const config = getSharedState<Record<string, ChainConfig>>("evmChainConfig", () => ({
   "84532": {
     usdcAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
     usdcName: "USDC",
@@ -60,7 +62,7 @@ export const config: Record<string, ChainConfig> = {
     usdcAddress: "0x64544969ed7EBf5f083679233325356EbE738930",
     usdcName: "USDC",
   },
-};
+}));
 
 export type ChainConfig = {
   usdcAddress: Address | SolanaAddress;
@@ -10,3 +10,10 @@ export const authorizationTypes = {
 };
 
 export const authorizationPrimaryType = "TransferWithAuthorization";
+
+// receiveWithAuthorization: same fields, but the token requires the payee (`to`) to be the caller
+export const receiveAuthorizationTypes = {
+  ReceiveWithAuthorization: authorizationTypes.TransferWithAuthorization,
+};
+
+export const receiveAuthorizationPrimaryType = "ReceiveWithAuthorization";
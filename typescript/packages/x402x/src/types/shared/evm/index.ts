@@ -2,6 +2,10 @@ export * from "./config";
 export * from "./eip3009";
 export * from "./eip2612";
 export * from "./permit2";
+export * from "./multicall3";
 export * from "./erc20PermitABI";
 export * from "./eip7702ABI";
+export * from "./permitProxyABI";
 export * from "./wallet";
+export * from "./registry";
+export * from "./transport";
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import { arbitrum, base, linea, optimism } from "viem/chains";
+import { selectPaymentRequirements } from "../../../client/selectPaymentRequirements";
+import { getNetworkId } from "../../../shared/network";
+import { PaymentRequirementsSchema } from "../../verify";
+import { ChainIdToNetwork, NetworkSchema, SupportedEVMNetworks } from "../network";
+import { getChainFromNetwork } from "./wallet";
+import { registerEvmNetwork } from "./registry";
+
+const USDC_ARBITRUM = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const RPC_URL = "https://arb1.example.org/rpc";
+
+const requirements = {
+  scheme: "exact" as const,
+  maxAmountRequired: "10000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  maxTimeoutSeconds: 60,
+};
+
+describe("registerEvmNetwork", () => {
+  registerEvmNetwork({
+    name: "arbitrum",
+    chainId: arbitrum.id,
+    chain: arbitrum,
+    stablecoin: { address: USDC_ARBITRUM, name: "USD Coin" },
+    rpcUrl: RPC_URL,
+  });
+
+  it("should validate registered and built-in networks", () => {
+    expect(NetworkSchema.safeParse("arbitrum").success).toBe(true);
+    expect(NetworkSchema.safeParse("base-sepolia").success).toBe(true);
+    expect(NetworkSchema.safeParse("sui").success).toBe(true);
+    expect(NetworkSchema.safeParse("unknown-chain").success).toBe(false);
+    expect(NetworkSchema.safeParse(42161).success).toBe(false);
+
+    expect(
+      PaymentRequirementsSchema.safeParse({
+        ...requirements,
+        network: "arbitrum",
+        asset: USDC_ARBITRUM,
+      }).success,
+    ).toBe(true);
+  });
+
+  it("should resolve the chain, chain id and network name", () => {
+    const chain = getChainFromNetwork("arbitrum");
+
+    expect(chain.id).toBe(arbitrum.id);
+    expect(chain.rpcUrls.default.http).toEqual([RPC_URL]);
+    expect(getNetworkId("arbitrum")).toBe(arbitrum.id);
+    expect(ChainIdToNetwork[arbitrum.id]).toBe("arbitrum");
+    expect(SupportedEVMNetworks).toContain("arbitrum");
+  });
+
+  it("should prefer the registered stablecoin when selecting requirements", () => {
+    const other = {
+      ...requirements,
+      network: "arbitrum",
+      asset: "0x0000000000000000000000000000000000000001",
+    };
+    const stablecoin = { ...other, asset: USDC_ARBITRUM };
+
+    expect(selectPaymentRequirements([other, stablecoin], "arbitrum")).toBe(stablecoin);
+  });
+
+  it("should allow registering the same network again", () => {
+    expect(() =>
+      registerEvmNetwork({ name: "arbitrum", chainId: arbitrum.id, chain: arbitrum }),
+    ).not.toThrow();
+    expect(getChainFromNetwork("arbitrum").rpcUrls.default.http).toEqual(
+      arbitrum.rpcUrls.default.http,
+    );
+  });
+
+  it("should reject conflicting registrations", () => {
+    expect(() =>
+      registerEvmNetwork({ name: "arbitrum", chainId: optimism.id, chain: optimism }),
+    ).toThrow("already registered with chain id 42161");
+    expect(() => registerEvmNetwork({ name: "base-l2", chainId: base.id, chain: base })).toThrow(
+      "Chain id 8453 is already registered as base",
+    );
+    expect(() =>
+      registerEvmNetwork({ name: "optimism", chainId: arbitrum.id, chain: optimism }),
+    ).toThrow("does not match");
+    expect(() => registerEvmNetwork({ name: "solana", chainId: 101, chain: base })).toThrow(
+      "does not match",
+    );
+    expect(() => registerEvmNetwork({ name: "solana", chainId: base.id, chain: base })).toThrow(
+      "is not an EVM network",
+    );
+  });
+
+  it("should share registrations between entry points bundled separately", async () => {
+    const types = await import("../../index");
+    types.evm.registerEvmNetwork({ name: "linea", chainId: linea.id, chain: linea });
+
+    // Fresh module instances, like the copies bundled into each entry point
+    vi.resetModules();
+    const shared = await import("../../../shared");
+    const otherTypes = await import("../../index");
+
+    expect(otherTypes).not.toBe(types);
+    expect(shared.getNetworkId("linea")).toBe(linea.id);
+    expect(otherTypes.NetworkSchema.safeParse("linea").success).toBe(true);
+    expect(otherTypes.ChainIdToNetwork[linea.id]).toBe("linea");
+    expect(otherTypes.evm.getChainFromNetwork("linea").id).toBe(linea.id);
+  });
+});
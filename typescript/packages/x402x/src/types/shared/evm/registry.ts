@@ -0,0 +1,117 @@
+import { Address, Chain } from "viem";
+import {
+  ChainIdToNetwork,
+  EvmNetworkToChainId,
+  SupportedEVMNetworks,
+  SupportedSuiNetworks,
+  SupportedSVMNetworks,
+} from "../network";
+import { getSharedState } from "../sharedState";
+import { config } from "./config";
+
+/**
+ * An EVM network added at runtime
+ */
+export interface EvmNetworkDefinition {
+  /** Network name used in payment requirements (e.g. "arbitrum") */
+  name: string;
+
+  /** Chain id, must match `chain.id` */
+  chainId: number;
+
+  /** Viem chain */
+  chain: Chain;
+
+  /** Default stablecoin, preferred by the payment requirements selector */
+  stablecoin?: {
+    /** Token address */
+    address: Address;
+
+    /** EIP-712 domain name of the token */
+    name: string;
+  };
+
+  /** RPC URL overriding the chain's default RPC */
+  rpcUrl?: string;
+}
+
+const registeredChains = getSharedState("registeredEvmChains", () => new Map<string, Chain>());
+
+/**
+ * Registers an EVM network so that it can be used everywhere a network name is accepted
+ * (payment requirements validation, signers, facilitators, servers).
+ *
+ * Registrations are process-wide: a network registered through one entry point (e.g. `x402x/types`)
+ * is also known to the others (e.g. `x402x/facilitator`).
+ *
+ * Built-in EVM networks can be registered again with the same chain id to override their chain,
+ * RPC URL or stablecoin.
+ *
+ * @param definition - The network definition
+ * @throws Error if the name belongs to a non-EVM network or the chain id is used by another network
+ *
+ * @example
+ * ```typescript
+ * import { arbitrum } from "viem/chains";
+ *
+ * evm.registerEvmNetwork({
+ *   name: "arbitrum",
+ *   chainId: 42161,
+ *   chain: arbitrum,
+ *   stablecoin: { address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", name: "USD Coin" },
+ *   rpcUrl: "https://arb1.arbitrum.io/rpc",
+ * });
+ * ```
+ */
+export function registerEvmNetwork(definition: EvmNetworkDefinition): void {
+  const { name, chainId, chain, stablecoin, rpcUrl } = definition;
+
+  if (chain.id !== chainId) {
+    throw new Error(`Chain id ${chain.id} of network ${name} does not match ${chainId}`);
+  }
+  if (SupportedSVMNetworks.includes(name) || SupportedSuiNetworks.includes(name)) {
+    throw new Error(`Network ${name} is not an EVM network`);
+  }
+
+  const existingChainId = EvmNetworkToChainId.get(name);
+  if (existingChainId !== undefined && existingChainId !== chainId) {
+    throw new Error(`Network ${name} is already registered with chain id ${existingChainId}`);
+  }
+  const existingNetwork = ChainIdToNetwork[chainId];
+  if (existingNetwork !== undefined && existingNetwork !== name) {
+    throw new Error(`Chain id ${chainId} is already registered as ${existingNetwork}`);
+  }
+
+  registeredChains.set(
+    name,
+    rpcUrl
+      ? {
+          ...chain,
+          rpcUrls: {
+            default: { http: [rpcUrl] },
+            public: { http: [rpcUrl] },
+          },
+        }
+      : chain,
+  );
+
+  if (!SupportedEVMNetworks.includes(name)) {
+    SupportedEVMNetworks.push(name);
+  }
+  EvmNetworkToChainId.set(name, chainId);
+  ChainIdToNetwork[chainId] = name;
+
+  if (stablecoin) {
+    config[chainId.toString()] = { usdcAddress: stablecoin.address, usdcName: stablecoin.name };
+  }
+}
+
+/**
+ * Gets the chain of a network registered with registerEvmNetwork
+ *
+ * @param network - The network name
+ * @returns The registered chain, or undefined if the network was not registered
+ */
+export function getRegisteredChain(network: string): Chain | undefined {
+  return registeredChains.get(network);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createWalletClient, custom, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { bsc } from "viem/chains";
+import { createEvmTransport, withEvmConfig } from "./transport";
+import { createConnectedClient, createSigner } from "./wallet";
+
+const PRIVATE_KEY = "0x1234567890123456789012345678901234567890123456789012345678901234";
+const RPC_URL = "https://bsc.example.org";
+const FALLBACK_URL = "https://bsc-fallback.example.org";
+
+describe("createEvmTransport", () => {
+  it("should return undefined when the network is not configured", () => {
+    expect(createEvmTransport("bsc")).toBeUndefined();
+    expect(createEvmTransport("bsc", { networks: { polygon: { rpcUrl: RPC_URL } } })).toBe(
+      undefined,
+    );
+    expect(createEvmTransport("solana", { timeout: 5_000 })).toBeUndefined();
+  });
+
+  it("should create an http transport with the configured URL and timeout", () => {
+    const transport = createEvmTransport("bsc", {
+      timeout: 5_000,
+      networks: { bsc: { rpcUrl: RPC_URL, timeout: 2_000 } },
+    })!({ chain: bsc });
+
+    expect(transport.config.type).toBe("http");
+    expect(transport.value?.url).toBe(RPC_URL);
+    expect(transport.config.timeout).toBe(2_000);
+  });
+
+  it("should use the chain RPC when only a timeout is configured", () => {
+    const transport = createEvmTransport("bsc", { timeout: 5_000 })!({ chain: bsc });
+
+    expect(transport.value?.url).toBe(bsc.rpcUrls.default.http[0]);
+    expect(transport.config.timeout).toBe(5_000);
+  });
+
+  it("should create a fallback transport for several RPC URLs", () => {
+    const transport = createEvmTransport("bsc", {
+      networks: { bsc: { rpcUrl: RPC_URL, fallbackRpcUrls: [FALLBACK_URL] } },
+    })!({ chain: bsc });
+
+    expect(transport.config.type).toBe("fallback");
+    expect(
+      transport.value?.transports.map((t: { value?: { url?: string } }) => t.value?.url),
+    ).toEqual([RPC_URL, FALLBACK_URL]);
+  });
+});
+
+describe("withEvmConfig", () => {
+  const evmConfig = { networks: { bsc: { rpcUrl: RPC_URL } } };
+
+  it("should rebuild public clients and local account signers on the configured transport", () => {
+    const client = withEvmConfig(createConnectedClient("bsc"), "bsc", evmConfig);
+    const signer = createSigner("bsc", PRIVATE_KEY);
+    const configured = withEvmConfig(signer, "bsc", evmConfig);
+
+    expect(client.transport.url).toBe(RPC_URL);
+    expect(configured.transport.url).toBe(RPC_URL);
+    expect(configured.account).toBe(signer.account);
+    expect(configured.chain.id).toBe(bsc.id);
+  });
+
+  it("should reuse the rebuilt client for the same client, network and config", () => {
+    const signer = createSigner("bsc", PRIVATE_KEY);
+    const configured = withEvmConfig(signer, "bsc", evmConfig);
+
+    expect(withEvmConfig(signer, "bsc", { networks: { bsc: { rpcUrl: RPC_URL } } })).toBe(
+      configured,
+    );
+    expect(withEvmConfig(signer, "bsc", { networks: { bsc: { rpcUrl: FALLBACK_URL } } })).not.toBe(
+      configured,
+    );
+    expect(withEvmConfig(createSigner("bsc", PRIVATE_KEY), "bsc", evmConfig)).not.toBe(configured);
+  });
+
+  it("should keep clients that are not configured or sign through their own provider", () => {
+    const signer = createSigner("bsc", PRIVATE_KEY);
+    const account = privateKeyToAccount(PRIVATE_KEY);
+    const browserWallet = createWalletClient({
+      chain: bsc,
+      account: account.address,
+      transport: custom({ request: async () => null }),
+    }).extend(publicActions);
+
+    expect(withEvmConfig(signer, "polygon", evmConfig)).toBe(signer);
+    expect(withEvmConfig(account, "bsc", evmConfig)).toBe(account);
+    expect(withEvmConfig(browserWallet, "bsc", evmConfig)).toBe(browserWallet);
+  });
+});
@@ -0,0 +1,99 @@
+import { createPublicClient, createWalletClient, fallback, http, publicActions } from "viem";
+import type { LocalAccount, Transport } from "viem";
+import { EvmConfig } from "../../config";
+import { SupportedEVMNetworks } from "../network";
+import { getSharedState } from "../sharedState";
+import {
+  ConnectedClient,
+  getChainFromNetwork,
+  isAccount,
+  isSignerWallet,
+  isSmartAccount,
+  SignerWallet,
+} from "./wallet";
+
+/**
+ * Creates the transport configured for a network in `evmConfig`
+ *
+ * @param network - The network name
+ * @param evmConfig - The EVM configuration
+ * @returns An http transport, a fallback transport when several RPC URLs are configured,
+ * or undefined if nothing is configured for the network or the network is not an EVM network
+ */
+export function createEvmTransport(network: string, evmConfig?: EvmConfig): Transport | undefined {
+  if (!evmConfig || !SupportedEVMNetworks.includes(network)) {
+    return undefined;
+  }
+
+  const networkConfig = evmConfig.networks?.[network];
+  const timeout = networkConfig?.timeout ?? evmConfig.timeout;
+  const rpcUrls = [networkConfig?.rpcUrl, ...(networkConfig?.fallbackRpcUrls ?? [])].filter(
+    (url): url is string => !!url,
+  );
+
+  if (rpcUrls.length === 0) {
+    if (timeout === undefined) {
+      return undefined;
+    }
+    rpcUrls.push(getChainFromNetwork(network).rpcUrls.default.http[0]);
+  }
+
+  const transports = rpcUrls.map(url => http(url, { timeout }));
+  return transports.length === 1 ? transports[0] : fallback(transports);
+}
+
+// Clients rebuilt by withEvmConfig, keyed by the original client and then by network and config,
+// so that repeated verify/settle calls share one transport (HTTP keep-alive, batching)
+const configuredClients = getSharedState(
+  "evmConfigClients",
+  () => new WeakMap<object, Map<string, unknown>>(),
+);
+
+/**
+ * Rebuilds an EVM client on the transport configured for its network in `evmConfig`.
+ *
+ * Public clients and wallet clients with a local account are recreated on the configured
+ * transport. Local accounts, smart accounts and wallet clients signing through their own
+ * provider (e.g. a browser wallet) are returned unchanged. The rebuilt client is cached, so the
+ * same client, network and configuration always return the same instance.
+ *
+ * @param client - The public client, wallet client or local account
+ * @param network - The network the client is used on
+ * @param evmConfig - The EVM configuration
+ * @returns The client using the configured transport, or the original client
+ */
+export function withEvmConfig<T>(client: T, network: string, evmConfig?: EvmConfig): T {
+  const wallet = client as unknown as SignerWallet | LocalAccount;
+  if (isAccount(wallet) || isSmartAccount(wallet)) {
+    return client;
+  }
+
+  if (isSignerWallet(wallet) && wallet.account && wallet.account.type !== "local") {
+    return client;
+  }
+
+  const key = `${network}:${JSON.stringify(evmConfig ?? {})}`;
+  let clients = configuredClients.get(wallet);
+  const cached = clients?.get(key);
+  if (cached) {
+    return cached as T;
+  }
+
+  const transport = createEvmTransport(network, evmConfig);
+  if (!transport) {
+    return client;
+  }
+
+  const chain = (client as unknown as ConnectedClient).chain ?? getChainFromNetwork(network);
+  const configured =
+    isSignerWallet(wallet) && wallet.account
+      ? createWalletClient({ chain, transport, account: wallet.account }).extend(publicActions)
+      : createPublicClient({ chain, transport }).extend(publicActions);
+
+  if (!clients) {
+    clients = new Map();
+    configuredClients.set(wallet, clients);
+  }
+  clients.set(key, configured);
+  return configured as unknown as T;
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import { base, baseSepolia, avalancheFuji, bsc, bscTestnet } from "viem/chains";
+import { http } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { createConnectedClient, createSigner } from "./wallet";
 
@@ -199,3 +200,43 @@ describe("createSigner", () => {
     expect(privateKeyToAccount).toHaveBeenCalledWith(privateKey2);
   });
 });
+
+describe("evmConfig", () => {
+  const mockPrivateKey =
+    "0x1234567890123456789012345678901234567890123456789012345678901234" as const;
+  const evmConfig = {
+    timeout: 2_000,
+    networks: {
+      bsc: {
+        rpcUrl: "https://bsc.example.org",
+        fallbackRpcUrls: ["https://bsc-fallback.example.org"],
+      },
+    },
+  };
+
+  it("should create public clients and signers on the configured RPC URLs", () => {
+    vi.mocked(http).mockClear();
+
+    createConnectedClient("bsc", undefined, evmConfig);
+    createSigner("bsc", mockPrivateKey, undefined, evmConfig);
+
+    expect(vi.mocked(http).mock.calls).toEqual([
+      ["https://bsc.example.org", { timeout: 2_000 }],
+      ["https://bsc-fallback.example.org", { timeout: 2_000 }],
+      ["https://bsc.example.org", { timeout: 2_000 }],
+      ["https://bsc-fallback.example.org", { timeout: 2_000 }],
+    ]);
+  });
+
+  it("should prefer the custom RPC URL and ignore other networks", () => {
+    vi.mocked(http).mockClear();
+
+    createSigner("bsc", mockPrivateKey, "https://custom.example.org", evmConfig);
+    createConnectedClient("base", undefined, evmConfig);
+
+    expect(vi.mocked(http).mock.calls).toEqual([
+      ["https://custom.example.org"],
+      [base.rpcUrls.default.http[0], { timeout: 2_000 }],
+    ]);
+  });
+});
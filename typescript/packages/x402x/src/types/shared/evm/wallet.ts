@@ -10,6 +10,7 @@ import type {
   PublicClient,
   LocalAccount,
 } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import {
   baseSepolia,
   avalancheFuji,
@@ -27,6 +28,9 @@ import {
 } from "viem/chains";
 import { privateKeyToAccount } from "viem/accounts";
 import { Hex } from "viem";
+import { EvmConfig } from "../../config";
+import { getRegisteredChain } from "./registry";
+import { createEvmTransport } from "./transport";
 
 /**
  * Chain configuration options for creating a signer
@@ -69,13 +73,15 @@ export type ConnectedClient<
   account extends Account | undefined = undefined,
 > = PublicClient<transport, chain, account>;
 
-export type EvmSigner = SignerWallet<Chain, Transport, Account> | LocalAccount;
+export type EvmSigner = SignerWallet<Chain, Transport, Account> | LocalAccount | SmartAccount;
 
 /**
  * Creates a public client configured for the specified network or chain config
  *
  * @param networkOrConfig - The network name, Chain object, or custom chain configuration
  * @param customRpcUrl - Optional custom RPC URL (only used when networkOrConfig is a string)
+ * @param evmConfig - Optional RPC configuration of `X402Config.evmConfig`, used when
+ * networkOrConfig is a network name and no customRpcUrl is given
  * @returns A public client instance connected to the specified chain
  *
  * @example
@@ -99,11 +105,15 @@ export type EvmSigner = SignerWallet<Chain, Transport, Account> | LocalAccount;
  *   name: 'BSC Mainnet',
  *   rpcUrl: 'https://my-rpc.com',
  * });
+ *
+ * // Using X402Config.evmConfig
+ * const client = createConnectedClient('bsc', undefined, x402Config.evmConfig);
  * ```
  */
 export function createConnectedClient(
   networkOrConfig: string | EvmChainConfig,
   customRpcUrl?: string,
+  evmConfig?: EvmConfig,
 ): ConnectedClient<Transport, Chain, undefined> {
   const chain =
     typeof networkOrConfig === "string"
@@ -112,7 +122,7 @@ export function createConnectedClient(
 
   return createPublicClient({
     chain,
-    transport: http(customRpcUrl || chain.rpcUrls.default.http[0]),
+    transport: createTransport(networkOrConfig, chain, customRpcUrl, evmConfig),
   }).extend(publicActions);
 }
 
@@ -154,6 +164,8 @@ export function createClientAvalancheFuji(): ConnectedClient<
  * @param networkOrConfig - The network name, Chain object, or custom chain configuration
  * @param privateKey - The private key to use for signing transactions
  * @param customRpcUrl - Optional custom RPC URL (only used when networkOrConfig is a string)
+ * @param evmConfig - Optional RPC configuration of `X402Config.evmConfig`, used when
+ * networkOrConfig is a network name and no customRpcUrl is given
  * @returns A wallet client instance connected to the specified chain with the provided private key
  *
  * @example
@@ -177,12 +189,16 @@ export function createClientAvalancheFuji(): ConnectedClient<
  *   name: 'BSC Mainnet',
  *   rpcUrl: 'https://my-rpc.com',
  * }, '0x...');
+ *
+ * // Using X402Config.evmConfig
+ * const signer = createSigner('bsc', '0x...', undefined, x402Config.evmConfig);
  * ```
  */
 export function createSigner(
   networkOrConfig: string | EvmChainConfig,
   privateKey: Hex,
   customRpcUrl?: string,
+  evmConfig?: EvmConfig,
 ): SignerWallet<Chain> {
   const chain =
     typeof networkOrConfig === "string"
@@ -191,11 +207,34 @@ export function createSigner(
 
   return createWalletClient({
     chain,
-    transport: http(customRpcUrl || chain.rpcUrls.default.http[0]),
+    transport: createTransport(networkOrConfig, chain, customRpcUrl, evmConfig),
     account: privateKeyToAccount(privateKey),
   }).extend(publicActions);
 }
 
+/**
+ * Creates the transport of a client: the custom RPC URL, the RPC configured in `evmConfig`
+ * for the network, or the chain's default RPC
+ *
+ * @param networkOrConfig - The network name, Chain object, or custom chain configuration
+ * @param chain - The resolved chain
+ * @param customRpcUrl - Optional custom RPC URL
+ * @param evmConfig - Optional EVM RPC configuration
+ * @returns The transport
+ */
+function createTransport(
+  networkOrConfig: string | EvmChainConfig,
+  chain: Chain,
+  customRpcUrl?: string,
+  evmConfig?: EvmConfig,
+): Transport {
+  const configured =
+    !customRpcUrl && typeof networkOrConfig === "string"
+      ? createEvmTransport(networkOrConfig, evmConfig)
+      : undefined;
+  return configured ?? http(customRpcUrl || chain.rpcUrls.default.http[0]);
+}
+
 /**
  * Creates a wallet client configured for the Base Sepolia testnet with a private key
  *
@@ -229,7 +268,7 @@ export function isSignerWallet<
   TTransport extends Transport = Transport,
   TAccount extends Account = Account,
 >(
-  wallet: SignerWallet<TChain, TTransport, TAccount> | LocalAccount,
+  wallet: SignerWallet<TChain, TTransport, TAccount> | LocalAccount | SmartAccount,
 ): wallet is SignerWallet<TChain, TTransport, TAccount> {
   return (
     typeof wallet === "object" && wallet !== null && "chain" in wallet && "transport" in wallet
@@ -246,7 +285,9 @@ export function isAccount<
   TChain extends Chain = Chain,
   TTransport extends Transport = Transport,
   TAccount extends Account = Account,
->(wallet: SignerWallet<TChain, TTransport, TAccount> | LocalAccount): wallet is LocalAccount {
+>(
+  wallet: SignerWallet<TChain, TTransport, TAccount> | LocalAccount | SmartAccount,
+): wallet is LocalAccount {
   const w = wallet as LocalAccount;
   return (
     typeof wallet === "object" &&
@@ -263,7 +304,49 @@ export function isAccount<
 }
 
 /**
- * Maps network strings to Chain objects
+ * Checks if a wallet is a smart contract account (e.g. created with viem/account-abstraction)
+ *
+ * Smart accounts sign with ERC-1271 and wrap their signatures with ERC-6492 until deployed.
+ *
+ * @param wallet - The wallet to check
+ * @returns True if the wallet is a smart account, false otherwise
+ */
+export function isSmartAccount(wallet: unknown): wallet is SmartAccount {
+  const w = wallet as SmartAccount;
+  return (
+    typeof wallet === "object" &&
+    wallet !== null &&
+    w.type === "smart" &&
+    typeof w.address === "string" &&
+    typeof w.signTypedData === "function"
+  );
+}
+
+/**
+ * Returns a client that can read chain state for a signer: the signer wallet itself, or the
+ * client a smart account is bound to. Local accounts have no client.
+ *
+ * @param wallet - The signer wallet or account
+ * @returns The client, or undefined for local accounts
+ */
+export function getSignerClient<
+  TChain extends Chain = Chain,
+  TTransport extends Transport = Transport,
+  TAccount extends Account = Account,
+>(
+  wallet: SignerWallet<TChain, TTransport, TAccount> | LocalAccount | SmartAccount,
+): ConnectedClient | undefined {
+  if (isSignerWallet(wallet)) {
+    return wallet as unknown as ConnectedClient;
+  }
+  if (isSmartAccount(wallet)) {
+    return wallet.client.extend(publicActions) as unknown as ConnectedClient;
+  }
+  return undefined;
+}
+
+/**
+ * Maps network strings to Chain objects, including networks added with registerEvmNetwork
  *
  * @param network - The network string to convert to a Chain object
  * @returns The corresponding Chain object
@@ -273,6 +356,11 @@ export function getChainFromNetwork(network: string | undefined): Chain {
     throw new Error("NETWORK environment variable is not set");
   }
 
+  const registered = getRegisteredChain(network);
+  if (registered) {
+    return registered;
+  }
+
   switch (network) {
     case "base":
       return base;
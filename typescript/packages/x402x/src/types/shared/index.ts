@@ -5,6 +5,7 @@ export * from "./middleware";
 export * from "./wallet";
 export * as evm from "./evm";
 export * as svm from "./svm";
+export * as sui from "./sui";
 
 // Re-export EVM chain configuration utilities for convenience
 export { withChain, type EvmChainConfig } from "./evm/wallet";
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getSharedState } from "./sharedState";
 
 export enum NetworkName {
   BaseSepolia = "base-sepolia",
@@ -15,9 +16,14 @@ export enum NetworkName {
   Peaq = "peaq",
   Bsc = "bsc",
   BscTestnet = "bsc-testnet",
+  Sui = "sui",
+  SuiTestnet = "sui-testnet",
 }
 
-export const NetworkSchema = z.enum([
+/**
+ * Built-in network names. Other EVM networks can be added at runtime with `evm.registerEvmNetwork`.
+ */
+export const BuiltInNetworks = [
   "base-sepolia",
   "base",
   "avalanche-fuji",
@@ -32,11 +38,36 @@ export const NetworkSchema = z.enum([
   "peaq",
   "bsc",
   "bsc-testnet",
-]);
-export type Network = z.infer<typeof NetworkSchema>;
+  "sui",
+  "sui-testnet",
+] as const;
+export type BuiltInNetwork = (typeof BuiltInNetworks)[number];
+
+/**
+ * A built-in network name or the name of a registered EVM network
+ */
+export type Network = BuiltInNetwork | (string & {});
+
+/**
+ * Checks if a network is built-in or registered at runtime
+ *
+ * @param network - The network name
+ * @returns True if the network is supported
+ */
+export function isSupportedNetwork(network: unknown): network is Network {
+  return (
+    typeof network === "string" &&
+    (BuiltInNetworks.includes(network as BuiltInNetwork) || SupportedEVMNetworks.includes(network))
+  );
+}
+
+export const NetworkSchema = z.custom<Network>(isSupportedNetwork, {
+  message: "Unsupported network",
+});
 
 // evm
-export const SupportedEVMNetworks: Network[] = [
+// The EVM network list and lookups are shared between entry points, see evm.registerEvmNetwork
+export const SupportedEVMNetworks = getSharedState<Network[]>("SupportedEVMNetworks", () => [
   "base-sepolia",
   "base",
   "avalanche-fuji",
@@ -49,21 +80,25 @@ export const SupportedEVMNetworks: Network[] = [
   "peaq",
   "bsc",
   "bsc-testnet",
-];
-export const EvmNetworkToChainId = new Map<Network, number>([
-  ["base-sepolia", 84532],
-  ["base", 8453],
-  ["avalanche-fuji", 43113],
-  ["avalanche", 43114],
-  ["iotex", 4689],
-  ["sei", 1329],
-  ["sei-testnet", 1328],
-  ["polygon", 137],
-  ["polygon-amoy", 80002],
-  ["peaq", 3338],
-  ["bsc", 56],
-  ["bsc-testnet", 97],
 ]);
+export const EvmNetworkToChainId = getSharedState(
+  "EvmNetworkToChainId",
+  () =>
+    new Map<Network, number>([
+      ["base-sepolia", 84532],
+      ["base", 8453],
+      ["avalanche-fuji", 43113],
+      ["avalanche", 43114],
+      ["iotex", 4689],
+      ["sei", 1329],
+      ["sei-testnet", 1328],
+      ["polygon", 137],
+      ["polygon-amoy", 80002],
+      ["peaq", 3338],
+      ["bsc", 56],
+      ["bsc-testnet", 97],
+    ]),
+);
 
 // svm
 export const SupportedSVMNetworks: Network[] = ["solana-devnet", "solana"];
@@ -72,9 +107,16 @@ export const SvmNetworkToChainId = new Map<Network, number>([
   ["solana", 101],
 ]);
 
-export const ChainIdToNetwork = Object.fromEntries(
-  [...SupportedEVMNetworks, ...SupportedSVMNetworks].map(network => [
-    EvmNetworkToChainId.get(network),
-    network,
-  ]),
-) as Record<number, Network>;
+// sui
+export const SupportedSuiNetworks: Network[] = ["sui", "sui-testnet"];
+
+export const ChainIdToNetwork = getSharedState(
+  "ChainIdToNetwork",
+  () =>
+    Object.fromEntries(
+      [...SupportedEVMNetworks, ...SupportedSVMNetworks].map(network => [
+        EvmNetworkToChainId.get(network),
+        network,
+      ]),
+    ) as Record<number, Network>,
+);
@@ -0,0 +1,16 @@
+/**
+ * Gets process-wide state stored on `globalThis`, creating it on first use.
+ *
+ * Each package entry point (index, types, client, facilitator, schemes, ...) is bundled with its own
+ * copy of the modules, so module-level state is not shared between them. State kept here is, which
+ * lets e.g. a network registered through `x402x/types` be resolved by `x402x/facilitator`.
+ *
+ * @param key - Unique name of the state
+ * @param create - Creates the initial state
+ * @returns The shared state
+ */
+export function getSharedState<T>(key: string, create: () => T): T {
+  const symbol = Symbol.for(`x402x.${key}`);
+  const store = globalThis as unknown as Record<symbol, T | undefined>;
+  return (store[symbol] ??= create());
+}
@@ -1,17 +1,20 @@
 import * as evm from "./evm/wallet";
 import * as svm from "../../shared/svm/wallet";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "./network";
+import * as sui from "../../shared/sui/wallet";
+import { SupportedEVMNetworks, SupportedSVMNetworks, SupportedSuiNetworks } from "./network";
 import { Hex } from "viem";
+import { X402Config } from "../config";
 
-export type ConnectedClient = evm.ConnectedClient | svm.SvmConnectedClient;
-export type Signer = evm.EvmSigner | svm.SvmSigner;
-export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner };
+export type ConnectedClient = evm.ConnectedClient | svm.SvmConnectedClient | sui.SuiConnectedClient;
+export type Signer = evm.EvmSigner | svm.SvmSigner | sui.SuiSigner;
+export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner; sui?: sui.SuiSigner };
 
 /**
  * Creates a public client configured for the specified network or chain config.
  *
  * @param networkOrConfig - The network name (for EVM/SVM), or EvmChainConfig for flexible EVM configuration
  * @param customRpcUrl - Optional custom RPC URL (only for EVM when networkOrConfig is a string)
+ * @param evmConfig - Optional EVM RPC configuration, used for EVM network names when no customRpcUrl is given
  * @returns A public client instance connected to the specified chain.
  *
  * @example
@@ -25,28 +28,39 @@ export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner };
  * // EVM with withChain
  * const client = createConnectedClient(withChain('bsc'));
  *
+ * // EVM with X402Config.evmConfig (RPC, fallback RPCs and timeout)
+ * const client = createConnectedClient('bsc', undefined, x402Config.evmConfig);
+ *
  * // EVM with viem Chain
  * import { bsc } from 'viem/chains';
  * const client = createConnectedClient(bsc);
  *
  * // SVM (Solana)
  * const client = createConnectedClient('solana');
+ *
+ * // Sui
+ * const client = createConnectedClient('sui');
  * ```
  */
 export function createConnectedClient(
   networkOrConfig: string | evm.EvmChainConfig,
   customRpcUrl?: string,
+  evmConfig?: X402Config["evmConfig"],
 ): ConnectedClient {
   // Handle string network names
   if (typeof networkOrConfig === "string") {
     if (SupportedEVMNetworks.find(n => n === networkOrConfig)) {
-      return evm.createConnectedClient(networkOrConfig, customRpcUrl);
+      return evm.createConnectedClient(networkOrConfig, customRpcUrl, evmConfig);
     }
 
     if (SupportedSVMNetworks.find(n => n === networkOrConfig)) {
       return svm.createSvmConnectedClient(networkOrConfig);
     }
 
+    if (SupportedSuiNetworks.find(n => n === networkOrConfig)) {
+      return sui.createSuiConnectedClient(networkOrConfig);
+    }
+
     throw new Error(`Unsupported network: ${networkOrConfig}`);
   }
 
@@ -58,8 +72,9 @@ export function createConnectedClient(
  * Creates a wallet client configured for the specified chain with a private key.
  *
  * @param networkOrConfig - The network name (for EVM/SVM), or EvmChainConfig for flexible EVM configuration
- * @param privateKey - The private key to use for signing transactions. This should be a hex string for EVM or a base58 encoded string for SVM.
+ * @param privateKey - The private key to use for signing transactions. This should be a hex string for EVM, a base58 encoded string for SVM or a Bech32 encoded `suiprivkey` string for Sui.
  * @param customRpcUrl - Optional custom RPC URL (only for EVM when networkOrConfig is a string)
+ * @param evmConfig - Optional EVM RPC configuration, used for EVM network names when no customRpcUrl is given
  * @returns A wallet client instance connected to the specified chain with the provided private key.
  *
  * @example
@@ -73,24 +88,33 @@ export function createConnectedClient(
  * // EVM with withChain
  * const signer = await createSigner(withChain('bsc'), '0x...');
  *
+ * // EVM with X402Config.evmConfig (RPC, fallback RPCs and timeout)
+ * const signer = await createSigner('bsc', '0x...', undefined, x402Config.evmConfig);
+ *
  * // EVM with viem Chain
  * import { bsc } from 'viem/chains';
  * const signer = await createSigner(bsc, '0x...');
  *
  * // SVM (Solana)
  * const signer = await createSigner('solana', 'base58PrivateKey');
+ *
+ * // Sui
+ * const signer = await createSigner('sui', 'suiprivkey1...');
  * ```
  */
 export function createSigner(
   networkOrConfig: string | evm.EvmChainConfig,
   privateKey: Hex | string,
   customRpcUrl?: string,
+  evmConfig?: X402Config["evmConfig"],
 ): Promise<Signer> {
   // Handle string network names
   if (typeof networkOrConfig === "string") {
     // evm
     if (SupportedEVMNetworks.find(n => n === networkOrConfig)) {
-      return Promise.resolve(evm.createSigner(networkOrConfig, privateKey as Hex, customRpcUrl));
+      return Promise.resolve(
+        evm.createSigner(networkOrConfig, privateKey as Hex, customRpcUrl, evmConfig),
+      );
     }
 
     // svm
@@ -98,6 +122,11 @@ export function createSigner(
       return svm.createSignerFromBase58(privateKey as string);
     }
 
+    // sui
+    if (SupportedSuiNetworks.find(n => n === networkOrConfig)) {
+      return Promise.resolve(sui.createSuiSigner(privateKey as string));
+    }
+
     throw new Error(`Unsupported network: ${networkOrConfig}`);
   }
 
@@ -112,7 +141,11 @@ export function createSigner(
  * @returns True if the wallet is an EVM signer wallet, false otherwise.
  */
 export function isEvmSignerWallet(wallet: Signer): wallet is evm.EvmSigner {
-  return evm.isSignerWallet(wallet as evm.EvmSigner) || evm.isAccount(wallet as evm.EvmSigner);
+  return (
+    evm.isSignerWallet(wallet as evm.EvmSigner) ||
+    evm.isAccount(wallet as evm.EvmSigner) ||
+    evm.isSmartAccount(wallet)
+  );
 }
 
 /**
@@ -125,6 +158,16 @@ export function isSvmSignerWallet(wallet: Signer): wallet is svm.SvmSigner {
   return svm.isSignerWallet(wallet as svm.SvmSigner);
 }
 
+/**
+ * Checks if the given wallet is a Sui signer wallet
+ *
+ * @param wallet - The object wallet to check
+ * @returns True if the wallet is a Sui signer wallet, false otherwise
+ */
+export function isSuiSignerWallet(wallet: Signer): wallet is sui.SuiSigner {
+  return sui.isSignerWallet(wallet as sui.SuiSigner);
+}
+
 /**
  * Checks if the given wallet is a multi network signer wallet
  *
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { safeBase64Decode, safeBase64Encode } from "../../shared";
-import { PaymentRequirementsSchema, SettleResponse } from "./x402Specs";
+import { PaymentRequirementsSchema, SettleResponse, WaitUntil } from "./x402Specs";
 
 export const facilitatorRequestSchema = z.object({
   paymentHeader: z.string(),
@@ -9,6 +9,35 @@ export const facilitatorRequestSchema = z.object({
 
 export type FacilitatorRequest = z.infer<typeof facilitatorRequestSchema>;
 
+/**
+ * Options of a verification
+ */
+export interface VerifyOptions {
+  /**
+   * Also simulates the exact settlement call with simulateContract (EVM "exact" scheme only),
+   * so that payments which would revert on settle are rejected by verify
+   */
+  simulate?: boolean;
+}
+
+/**
+ * Options of a settlement
+ */
+export interface SettleOptions {
+  /**
+   * How far settle goes before returning (EVM only, Solana and Sui always wait for confirmation)
+   * - "simulated": only simulates the settlement, nothing is broadcast
+   * - "submitted": returns as soon as the transaction is broadcast
+   * - "confirmed": waits for the transaction receipt (default)
+   */
+  waitUntil?: WaitUntil;
+
+  /**
+   * Called with the final settlement once a "submitted" transaction is confirmed or reverted
+   */
+  onConfirmed?: (response: SettleResponse) => void | Promise<void>;
+}
+
 /**
  * Encodes a settlement response into a base64 header string
  *
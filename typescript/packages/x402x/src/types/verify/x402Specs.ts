@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { NetworkSchema } from "../shared";
 import { SvmAddressRegex } from "../shared/svm";
+import { SuiAddressRegex } from "../shared/sui";
 import { Base64EncodedRegex } from "../../shared/base64";
 
 // Constants
@@ -13,7 +14,7 @@ const MixedAddressRegex = /^0x[a-fA-F0-9]{40}|[A-Za-z0-9][A-Za-z0-9-]{0,34}[A-Za
 const HexEncoded64ByteRegex = /^0x[0-9a-fA-F]{64}$/;
 const EvmSignatureRegex = /^0x[0-9a-fA-F]+$/; // Flexible hex signature validation
 // Enums
-export const schemes = ["exact"] as const;
+export const schemes = ["exact", "upto"] as const;
 export const x402Versions = [1] as const;
 export const ErrorReasons = [
   "insufficient_funds",
@@ -39,6 +40,12 @@ export const ErrorReasons = [
   "invalid_exact_svm_payload_transaction_sender_ata_not_found",
   "invalid_exact_svm_payload_transaction_simulation_failed",
   "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+  "invalid_exact_sui_payload_transaction",
+  "invalid_exact_sui_payload_signature",
+  "invalid_exact_sui_payload_transaction_sponsored",
+  "invalid_exact_sui_payload_transaction_simulation_failed",
+  "invalid_exact_sui_payload_transaction_recipient_mismatch",
+  "invalid_exact_sui_payload_transaction_amount_mismatch",
   "invalid_network",
   "invalid_payload",
   "invalid_payment_requirements",
@@ -50,6 +57,7 @@ export const ErrorReasons = [
   "invalid_transaction_state",
   "settle_exact_svm_block_height_exceeded",
   "settle_exact_svm_transaction_confirmation_timed_out",
+  "settle_exact_sui_transaction_failed",
   "unexpected_settle_error",
   "unexpected_verify_error",
   // New error reasons for Permit and Permit2
@@ -62,6 +70,9 @@ export const ErrorReasons = [
   "permit_expired",
   "permit2_expired",
   "permit2_not_approved",
+  "invalid_permit2_approval",
+  "permit2_approval_failed",
+  "settlement_simulation_failed",
   "invalid_token_address",
   "invalid_spender_address",
   "token_mismatch",
@@ -73,6 +84,24 @@ export const ErrorReasons = [
   "seller_does_not_support_settle_with_permit",
   "seller_does_not_support_settle_with_permit2",
   "seller_interface_check_failed",
+  // On-chain nonce checks
+  "eip3009_nonce_already_used",
+  "permit_nonce_already_used",
+  "invalid_permit_nonce",
+  "permit2_nonce_already_used",
+  "nonce_check_failed",
+  // Smart contract wallet signatures (ERC-1271 / ERC-6492)
+  "contract_signature_unsupported",
+  "wallet_deployment_failed",
+  "settlement_not_simulatable",
+  // EIP-3009 receiveWithAuthorization
+  "receive_with_authorization_required",
+  "invalid_receive_with_authorization_caller",
+  // Replay protection
+  "duplicate_payment",
+  // Upto scheme errors
+  "invalid_upto_evm_payload_spender",
+  "invalid_upto_settle_amount",
 ] as const;
 
 // Refiners
@@ -81,7 +110,11 @@ const isInteger: (value: string) => boolean = value =>
 const hasMaxLength = (maxLength: number) => (value: string) => value.length <= maxLength;
 
 // x402PaymentRequirements
-const EvmOrSvmAddress = z.string().regex(EvmAddressRegex).or(z.string().regex(SvmAddressRegex));
+const EvmSvmOrSuiAddress = z
+  .string()
+  .regex(EvmAddressRegex)
+  .or(z.string().regex(SvmAddressRegex))
+  .or(z.string().regex(SuiAddressRegex));
 const mixedAddressOrSvmAddress = z
   .string()
   .regex(MixedAddressRegex)
@@ -94,7 +127,7 @@ export const PaymentRequirementsSchema = z.object({
   description: z.string(),
   mimeType: z.string(),
   outputSchema: z.record(z.any()).optional(),
-  payTo: EvmOrSvmAddress,
+  payTo: EvmSvmOrSuiAddress,
   maxTimeoutSeconds: z.number().int(),
   asset: mixedAddressOrSvmAddress,
   paymentType: z.enum(["eip3009", "permit", "permit2"]).optional(),
@@ -135,12 +168,23 @@ export const Permit2EvmPayloadAuthorizationSchema = z.object({
 });
 export type Permit2EvmPayloadAuthorization = z.infer<typeof Permit2EvmPayloadAuthorizationSchema>;
 
+// EIP-2612 Permit approving the Permit2 contract, submitted by the facilitator before the transfer
+export const Permit2ApprovalSchema = z.object({
+  value: z.string().refine(isInteger),
+  deadline: z.string().refine(isInteger),
+  nonce: z.string().refine(isInteger),
+  signature: z.string().regex(EvmSignatureRegex),
+});
+export type Permit2Approval = z.infer<typeof Permit2ApprovalSchema>;
+
 // Discriminated union for all EVM authorization types
 export const ExactEvmPayloadSchema = z.discriminatedUnion("authorizationType", [
   z.object({
     authorizationType: z.literal("eip3009"),
     signature: z.string().regex(EvmSignatureRegex),
     authorization: ExactEvmPayloadAuthorizationSchema,
+    // Signed as ReceiveWithAuthorization, settled by the payee with receiveWithAuthorization
+    receiveWithAuthorization: z.boolean().optional(),
   }),
   z.object({
     authorizationType: z.literal("permit"),
@@ -151,6 +195,7 @@ export const ExactEvmPayloadSchema = z.discriminatedUnion("authorizationType", [
     authorizationType: z.literal("permit2"),
     signature: z.string().regex(EvmSignatureRegex),
     authorization: Permit2EvmPayloadAuthorizationSchema,
+    permit2Approval: Permit2ApprovalSchema.optional(),
   }),
 ]);
 export type ExactEvmPayload = z.infer<typeof ExactEvmPayloadSchema>;
@@ -161,12 +206,20 @@ export const ExactSvmPayloadSchema = z.object({
 });
 export type ExactSvmPayload = z.infer<typeof ExactSvmPayloadSchema>;
 
+// x402ExactSuiPayload
+export const ExactSuiPayloadSchema = z.object({
+  signature: z.string().regex(Base64EncodedRegex),
+  transaction: z.string().regex(Base64EncodedRegex),
+});
+export type ExactSuiPayload = z.infer<typeof ExactSuiPayloadSchema>;
+
 // x402PaymentPayload
 export const PaymentPayloadSchema = z.object({
   x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
   scheme: z.enum(schemes),
   network: NetworkSchema,
-  payload: z.union([ExactEvmPayloadSchema, ExactSvmPayloadSchema]),
+  // Sui before SVM: the SVM schema would otherwise match and strip the Sui signature
+  payload: z.union([ExactEvmPayloadSchema, ExactSuiPayloadSchema, ExactSvmPayloadSchema]),
 });
 export type PaymentPayload = z.infer<typeof PaymentPayloadSchema>;
 
@@ -183,6 +236,8 @@ export type EvmPaymentPayload<T extends "eip3009" | "permit" | "permit2"> = Omit
     : T extends "permit"
     ? z.infer<typeof PermitEvmPayloadAuthorizationSchema>
     : z.infer<typeof Permit2EvmPayloadAuthorizationSchema>;
+    permit2Approval?: T extends "permit2" ? Permit2Approval : never;
+    receiveWithAuthorization?: T extends "eip3009" ? boolean : never;
   };
 };
 
@@ -199,6 +254,7 @@ export type UnsignedEvmPaymentPayload<T extends "eip3009" | "permit" | "permit2"
     : T extends "permit"
     ? Omit<z.infer<typeof PermitEvmPayloadAuthorizationSchema>, "nonce"> & { nonce?: string }
     : Omit<z.infer<typeof Permit2EvmPayloadAuthorizationSchema>, "nonce"> & { nonce?: string };
+    permit2Approval?: T extends "permit2" ? Permit2Approval : never;
   };
 };
 
@@ -270,9 +326,18 @@ export const DiscoveredResourceSchema = z.object({
 export type DiscoveredResource = z.infer<typeof DiscoveredResourceSchema>;
 
 // x402SettleRequest
+// x402WaitUntil
+// How far settle goes before returning: simulate only, broadcast, or wait for the receipt
+export const WaitUntilSchema = z.enum(["simulated", "submitted", "confirmed"]);
+export type WaitUntil = z.infer<typeof WaitUntilSchema>;
+
 export const SettleRequestSchema = z.object({
   paymentPayload: PaymentPayloadSchema,
   paymentRequirements: PaymentRequirementsSchema,
+  // Actual amount to settle for the "upto" scheme, must not exceed maxAmountRequired
+  amount: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)).optional(),
+  // Defaults to "confirmed"
+  waitUntil: WaitUntilSchema.optional(),
 });
 export type SettleRequest = z.infer<typeof SettleRequestSchema>;
 
@@ -287,17 +352,31 @@ export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
 export const VerifyResponseSchema = z.object({
   isValid: z.boolean(),
   invalidReason: z.enum(ErrorReasons).optional(),
-  payer: EvmOrSvmAddress.optional(),
+  payer: EvmSvmOrSuiAddress.optional(),
 });
 export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
 
+// x402SettlementBreakdown
+export const SettlementBreakdownSchema = z.object({
+  source: z.enum(["SettlementExecuted", "SettledSplit", "SettledDirect", "Transfer"]),
+  gross: z.string().refine(isInteger),
+  fee: z.string().refine(isInteger),
+  net: z.string().refine(isInteger),
+  feeRecipient: z.string().regex(EvmAddressRegex).optional(),
+  beneficiary: z.string().regex(EvmAddressRegex),
+});
+export type SettlementBreakdown = z.infer<typeof SettlementBreakdownSchema>;
+
 // x402SettleResponse
 export const SettleResponseSchema = z.object({
   success: z.boolean(),
   errorReason: z.enum(ErrorReasons).optional(),
-  payer: EvmOrSvmAddress.optional(),
+  payer: EvmSvmOrSuiAddress.optional(),
   transaction: z.string().regex(MixedAddressRegex),
   network: NetworkSchema,
+  breakdown: SettlementBreakdownSchema.optional(),
+  // How far a successful settlement went; the breakdown is only known once "confirmed"
+  status: WaitUntilSchema.optional(),
 });
 export type SettleResponse = z.infer<typeof SettleResponseSchema>;
 
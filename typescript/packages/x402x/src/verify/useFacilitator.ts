@@ -70,11 +70,13 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
    *
    * @param payload - The payment payload to settle
    * @param paymentRequirements - The payment requirements for the settlement
+   * @param amount - Optional amount to settle for the "upto" scheme
    * @returns A promise that resolves to the settlement response
    */
   async function settle(
     payload: PaymentPayload,
     paymentRequirements: PaymentRequirements,
+    amount?: string,
   ): Promise<SettleResponse> {
     const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
 
@@ -91,6 +93,7 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
         x402Version: payload.x402Version,
         paymentPayload: toJsonSafe(payload),
         paymentRequirements: toJsonSafe(paymentRequirements),
+        ...(amount !== undefined ? { amount } : {}),
       }),
     });
 